@@ -0,0 +1,345 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Loader2, RotateCcw, Search } from 'lucide-react'
+import AuthGate from '@/components/AuthGate'
+import { Button, Input } from '@/components/ui'
+import { authedFetch } from '@/lib/authClient'
+
+type AdminProfile = {
+  id: string
+  email: string | null
+  fullName: string | null
+  phone: string | null
+  role: string
+  credits: number
+  createdAt: string | null
+}
+
+type FailedPlan = {
+  id: string
+  userId: string
+  email: string | null
+  prompt: string
+  title: string | null
+  error: string | null
+  rawNotesOutput: string | null
+  generationId: string | null
+  createdAt: string
+}
+
+type PromoCode = {
+  id: string
+  code: string
+  credits: number
+  maxRedemptions: number | null
+  redeemedCount: number
+  expiresAt: string | null
+  active: boolean
+  note: string | null
+}
+
+async function adminJson(input: string, init?: RequestInit) {
+  const res = await authedFetch(input, init)
+  const json = await res.json().catch(() => ({} as any))
+  if (!res.ok) throw new Error(json?.error?.message ?? json?.error ?? `Request failed (${res.status})`)
+  return json
+}
+
+export default function AdminPage() {
+  return (
+    <AuthGate requireEntitlement={false}>
+      <Inner />
+    </AuthGate>
+  )
+}
+
+function Inner() {
+  const [tab, setTab] = useState<'users' | 'failed' | 'promo'>('users')
+
+  return (
+    <div className="mx-auto max-w-6xl px-4 py-10 space-y-5">
+      <Link href="/plan" className="text-sm text-white/70 hover:text-white">Back to Plan</Link>
+      <div className="flex items-center gap-2">
+        <div className="text-xs uppercase tracking-[0.18em] text-white/55">Admin</div>
+        <div className="ml-auto flex gap-2">
+          <Button variant={tab === 'users' ? 'primary' : 'ghost'} onClick={() => setTab('users')}>Users</Button>
+          <Button variant={tab === 'failed' ? 'primary' : 'ghost'} onClick={() => setTab('failed')}>Failed generations</Button>
+          <Button variant={tab === 'promo' ? 'primary' : 'ghost'} onClick={() => setTab('promo')}>Promo codes</Button>
+        </div>
+      </div>
+      {tab === 'users' ? <UsersPanel /> : tab === 'failed' ? <FailedPlansPanel /> : <PromoCodesPanel />}
+    </div>
+  )
+}
+
+function UsersPanel() {
+  const [query, setQuery] = useState('')
+  const [users, setUsers] = useState<AdminProfile[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const search = useCallback(async (q: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const json = await adminJson(`/api/admin/users?q=${encodeURIComponent(q)}`)
+      setUsers(Array.isArray(json?.users) ? json.users : [])
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    search('')
+  }, [search])
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-black/40 p-5 space-y-4">
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          search(query)
+        }}
+      >
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Email, name, phone or user id" />
+        <Button type="submit" disabled={loading} className="gap-2">
+          {loading ? <Loader2 className="animate-spin" size={16} /> : <Search size={16} />}
+          Search
+        </Button>
+      </form>
+      {error ? <div className="text-sm text-red-400">{error}</div> : null}
+      <div className="space-y-3">
+        {users.map((u) => (
+          <UserRow key={u.id} user={u} onChanged={(credits) => setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, credits } : x)))} />
+        ))}
+        {!loading && !users.length && !error ? <div className="text-sm text-white/60">No users found.</div> : null}
+      </div>
+    </div>
+  )
+}
+
+function UserRow({ user, onChanged }: { user: AdminProfile; onChanged: (credits: number) => void }) {
+  const [delta, setDelta] = useState('')
+  const [reason, setReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  async function adjust() {
+    const n = Number.parseInt(delta, 10)
+    if (!Number.isFinite(n) || n === 0 || !reason.trim()) {
+      setMsg('Enter a non-zero amount and a reason.')
+      return
+    }
+    setSaving(true)
+    setMsg(null)
+    try {
+      const json = await adminJson(`/api/admin/users/${user.id}/credits`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ delta: n, reason: reason.trim() }),
+      })
+      onChanged(Number(json?.balance ?? user.credits))
+      setDelta('')
+      setReason('')
+      setMsg('Saved.')
+    } catch (e: any) {
+      setMsg(e?.message ?? 'Error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 text-sm">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+        <div className="font-medium text-white">{user.email || user.fullName || user.id}</div>
+        <div className="text-white/60">{user.fullName}</div>
+        <div className="text-white/60">{user.phone}</div>
+        <div className="text-white/60">role: {user.role}</div>
+        <div className="ml-auto text-white">{user.credits} credits</div>
+      </div>
+      <div className="mt-1 text-xs text-white/40">{user.id}</div>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <Input className="w-28" value={delta} onChange={(e) => setDelta(e.target.value)} placeholder="+5 / -3" inputMode="numeric" />
+        <Input className="flex-1 min-w-[200px]" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Reason (stored in the ledger)" />
+        <Button variant="ghost" onClick={adjust} disabled={saving}>
+          {saving ? <Loader2 className="animate-spin" size={16} /> : 'Adjust credits'}
+        </Button>
+      </div>
+      {msg ? <div className="mt-2 text-xs text-white/70">{msg}</div> : null}
+    </div>
+  )
+}
+
+function FailedPlansPanel() {
+  const [plans, setPlans] = useState<FailedPlan[]>([])
+  const [nextBefore, setNextBefore] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [requeued, setRequeued] = useState<Record<string, string>>({})
+
+  const load = useCallback(async (before: string | null) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const qs = before ? `?before=${encodeURIComponent(before)}` : ''
+      const json = await adminJson(`/api/admin/plans/failed${qs}`)
+      const page: FailedPlan[] = Array.isArray(json?.plans) ? json.plans : []
+      setPlans((prev) => (before ? [...prev, ...page] : page))
+      setNextBefore(json?.nextBefore ?? null)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load(null)
+  }, [load])
+
+  async function rerun(planId: string) {
+    setRequeued((prev) => ({ ...prev, [planId]: 'Queuing…' }))
+    try {
+      await adminJson(`/api/admin/plans/${planId}/rerun`, { method: 'POST' })
+      setRequeued((prev) => ({ ...prev, [planId]: 'Queued' }))
+    } catch (e: any) {
+      setRequeued((prev) => ({ ...prev, [planId]: e?.message ?? 'Error' }))
+    }
+  }
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-black/40 p-5 space-y-3">
+      {error ? <div className="text-sm text-red-400">{error}</div> : null}
+      {plans.map((p) => (
+        <div key={p.id} className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 text-sm">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <div className="font-medium text-white">{p.title || p.prompt || p.id}</div>
+            <div className="text-white/60">{p.email || p.userId}</div>
+            <div className="text-white/60">{new Date(p.createdAt).toLocaleString()}</div>
+            <Button variant="ghost" className="ml-auto gap-2" onClick={() => rerun(p.id)} disabled={Boolean(requeued[p.id])}>
+              <RotateCcw size={14} />
+              {requeued[p.id] || 'Re-run'}
+            </Button>
+          </div>
+          <div className="mt-2 text-red-300">{p.error || 'No error recorded'}</div>
+          {p.prompt ? <div className="mt-1 text-white/60">Prompt: {p.prompt}</div> : null}
+          {p.rawNotesOutput ? (
+            <details className="mt-2">
+              <summary className="cursor-pointer text-white/70">raw_notes_output</summary>
+              <pre className="mt-2 max-h-80 overflow-auto whitespace-pre-wrap rounded-xl bg-black/50 p-3 text-xs text-white/70">{p.rawNotesOutput}</pre>
+            </details>
+          ) : null}
+        </div>
+      ))}
+      {!loading && !plans.length && !error ? <div className="text-sm text-white/60">No failed generations.</div> : null}
+      {loading ? <Loader2 className="animate-spin text-white/60" size={18} /> : null}
+      {nextBefore && !loading ? (
+        <Button variant="ghost" onClick={() => load(nextBefore)}>Load more</Button>
+      ) : null}
+    </div>
+  )
+}
+
+function PromoCodesPanel() {
+  const [codes, setCodes] = useState<PromoCode[]>([])
+  const [form, setForm] = useState({ code: '', credits: '', maxRedemptions: '', expiresAt: '', note: '' })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const json = await adminJson('/api/admin/promo-codes')
+      setCodes(Array.isArray(json?.codes) ? json.codes : [])
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function create() {
+    setSaving(true)
+    setError(null)
+    try {
+      const maxRedemptions = Number.parseInt(form.maxRedemptions, 10)
+      await adminJson('/api/admin/promo-codes', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          code: form.code.trim(),
+          credits: Number.parseInt(form.credits, 10),
+          maxRedemptions: Number.isFinite(maxRedemptions) ? maxRedemptions : null,
+          expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+          note: form.note.trim() || null,
+        }),
+      })
+      setForm({ code: '', credits: '', maxRedemptions: '', expiresAt: '', note: '' })
+      await load()
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggle(code: PromoCode) {
+    try {
+      const json = await adminJson(`/api/admin/promo-codes/${code.id}`, {
+        method: 'PATCH',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ active: !code.active }),
+      })
+      setCodes((prev) => prev.map((c) => (c.id === code.id ? json.code : c)))
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    }
+  }
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-black/40 p-5 space-y-4">
+      <form
+        className="flex flex-wrap gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          create()
+        }}
+      >
+        <Input className="w-40" value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} placeholder="CODE" />
+        <Input className="w-24" value={form.credits} onChange={(e) => setForm({ ...form, credits: e.target.value })} placeholder="Credits" inputMode="numeric" />
+        <Input className="w-32" value={form.maxRedemptions} onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })} placeholder="Max uses" inputMode="numeric" />
+        <Input className="w-48" type="datetime-local" value={form.expiresAt} onChange={(e) => setForm({ ...form, expiresAt: e.target.value })} />
+        <Input className="flex-1 min-w-[160px]" value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} placeholder="Note" />
+        <Button type="submit" disabled={saving || !form.code.trim() || !form.credits}>
+          {saving ? <Loader2 className="animate-spin" size={16} /> : 'Create code'}
+        </Button>
+      </form>
+      {error ? <div className="text-sm text-red-400">{error}</div> : null}
+      <div className="space-y-2">
+        {codes.map((c) => (
+          <div key={c.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-2xl border border-white/10 bg-white/[0.02] p-3 text-sm">
+            <div className="font-medium text-white">{c.code}</div>
+            <div className="text-white/70">{c.credits} credits</div>
+            <div className="text-white/60">
+              {c.redeemedCount}
+              {c.maxRedemptions ? ` / ${c.maxRedemptions}` : ''} used
+            </div>
+            <div className="text-white/60">{c.expiresAt ? `expires ${new Date(c.expiresAt).toLocaleString()}` : 'no expiry'}</div>
+            {c.note ? <div className="text-white/50">{c.note}</div> : null}
+            <Button variant="ghost" className="ml-auto" onClick={() => toggle(c)}>
+              {c.active ? 'Deactivate' : 'Activate'}
+            </Button>
+          </div>
+        ))}
+        {!codes.length && !error ? <div className="text-sm text-white/60">No promo codes yet.</div> : null}
+      </div>
+    </div>
+  )
+}
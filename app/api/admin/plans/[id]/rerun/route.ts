@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { adminErrorResponse, requireAdmin, rerunPlan } from '@/lib/adminServer'
+import { summarizeJob } from '@/lib/generationJobs'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin(req)
+    const job = await rerunPlan(params.id)
+    console.log('admin.plan.rerun', { adminId: admin.id, planId: params.id, jobId: job.id })
+    return NextResponse.json({ ok: true, job: summarizeJob(job) }, { status: 202, headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { adminErrorResponse, listFailedPlans, requireAdmin } from '@/lib/adminServer'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request) {
+  try {
+    await requireAdmin(req)
+    const { searchParams } = new URL(req.url)
+    const out = await listFailedPlans({
+      limit: Number(searchParams.get('limit') ?? 25) || 25,
+      before: searchParams.get('before'),
+    })
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
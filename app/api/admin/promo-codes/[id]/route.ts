@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminErrorResponse, requireAdmin } from '@/lib/adminServer'
+import { setPromoCodeActive } from '@/lib/promoCodes'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({ active: z.boolean() })
+
+// PATCH { active }: switches a code on or off; redemptions so far are kept.
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { active: boolean }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const code = await setPromoCodeActive(params.id, parsed.data.active)
+    console.log('admin.promo.update', { adminId: admin.id, code: code.code, active: code.active })
+    return NextResponse.json({ code }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adminErrorResponse, requireAdmin } from '@/lib/adminServer'
+import { createPromoCode, listPromoCodes } from '@/lib/promoCodes'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  code: z.string().min(3).max(32),
+  credits: z.number().int().positive().max(1000),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  note: z.string().max(500).nullable().optional(),
+})
+
+export async function GET(req: Request) {
+  try {
+    await requireAdmin(req)
+    const codes = await listPromoCodes()
+    return NextResponse.json({ codes }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const admin = await requireAdmin(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INVALID_REQUEST',
+            message: 'Expected { code, credits, maxRedemptions?, expiresAt? (ISO date-time), note? }',
+          },
+        },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+
+    const code = await createPromoCode({ ...parsed.data, createdBy: admin.id })
+    console.log('admin.promo.create', { adminId: admin.id, code: code.code, credits: code.credits })
+    return NextResponse.json({ code }, { status: 201, headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
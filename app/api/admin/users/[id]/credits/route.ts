@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { adjustCredits, adminErrorResponse, requireAdmin } from '@/lib/adminServer'
+import { listCreditHistory } from '@/lib/creditLedger'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  delta: z.number().int(),
+  reason: z.string().min(1).max(500),
+})
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    await requireAdmin(req)
+    const { searchParams } = new URL(req.url)
+    const before = Number(searchParams.get('before') ?? 0)
+    const history = await listCreditHistory(params.id, { limit: 50, before: before > 0 ? before : null })
+    return NextResponse.json(history, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { delta: integer, reason: string }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+
+    const balance = await adjustCredits({
+      userId: params.id,
+      delta: parsed.data.delta,
+      reason: parsed.data.reason,
+      adminId: admin.id,
+    })
+    console.log('admin.credits.adjust', { adminId: admin.id, userId: params.id, delta: parsed.data.delta })
+    return NextResponse.json({ ok: true, balance }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
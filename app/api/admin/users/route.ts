@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import { adminErrorResponse, requireAdmin, searchProfiles } from '@/lib/adminServer'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request) {
+  try {
+    await requireAdmin(req)
+    const { searchParams } = new URL(req.url)
+    const users = await searchProfiles(String(searchParams.get('q') ?? ''), Number(searchParams.get('limit') ?? 25) || 25)
+    return NextResponse.json({ users }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return adminErrorResponse(e)
+  }
+}
@@ -1,9 +1,10 @@
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
 import { consumeGeneration } from '@/lib/creditsServer'
-import OpenAI from 'openai'
+import { withQuota } from '@/lib/quotas'
+import { quoteCredits } from '@/lib/pricing'
 import { z } from 'zod'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
 import { callOpenAIJsonWithRetries } from '@/lib/aiJson'
 
 export const runtime = 'nodejs'
@@ -21,10 +22,8 @@ export async function POST(req: Request) {
   try {
     
     const user = await requireUser(req)
-    await consumeGeneration(user.id)
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) return NextResponse.json({ error: 'Missing OPENAI_API_KEY' }, { status: 400 })
+    if (!isLlmConfigured()) return NextResponse.json({ error: 'Missing OPENAI_API_KEY' }, { status: 400 })
 
     const body = await req.json().catch(() => ({})) as any
     const question = String(body?.question ?? '').trim()
@@ -32,9 +31,13 @@ export async function POST(req: Request) {
 
     if (!question) return NextResponse.json({ error: 'Missing question' }, { status: 400 })
 
-    const openai = new OpenAI({ apiKey })
+    return await withQuota(user.id, 'ask', async () => {
+      const quote = quoteCredits('ask')
+      await consumeGeneration(user.id, quote.feature, quote.credits)
 
-    const system = `You are Umenify, a helpful tutor.
+      const llm = getLlm()
+
+      const system = `You are Umenify, a helpful tutor.
 
 Return ONLY valid JSON. No extra text.
 
@@ -57,34 +60,32 @@ Language:
 - If language is Hungarian, answer in Hungarian.
 - If language is English, answer in English.`
 
-    const model = OPENAI_MODEL
-
-    const parsedUnknown = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
-      const resp = await openai.chat.completions.create({
-        model,
-        messages: [
-          {
-            role: 'system',
-            content: `${system}\nReturn exactly {"display":string,"speech":string,"language":string}.\n${retryInstruction}`.trim(),
-          },
-          { role: 'user', content: `Language: ${language}\nQuestion: ${question}` },
-        ],
-        temperature: attempt > 0 ? 0 : 0.2,
-        max_tokens: MAX_OUTPUT_TOKENS,
-      })
-      return String(resp.choices?.[0]?.message?.content ?? '').trim()
-    }, { retries: 2 })
-    const parsed = answerSchema.parse(parsedUnknown)
-    const out = {
-      display: String(parsed.display ?? ''),
-      speech: String(parsed.speech ?? ''),
-      language: String(parsed.language ?? (language === 'en' ? 'English' : 'Hungarian')),
-    }
-    if (!out.display) out.display = out.speech
-    if (!out.speech) out.speech = out.display.replace(/\$\$[\s\S]*?\$\$|\$[^$]*\$/g, '')
-
-    return NextResponse.json(out)
+      const parsedUnknown = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
+        return llm.complete({
+          task: 'ask',
+          messages: [
+            {
+              role: 'system',
+              content: `${system}\nReturn exactly {"display":string,"speech":string,"language":string}.\n${retryInstruction}`.trim(),
+            },
+            { role: 'user', content: `Language: ${language}\nQuestion: ${question}` },
+          ],
+          temperature: attempt > 0 ? 0 : 0.2,
+          maxTokens: MAX_OUTPUT_TOKENS,
+        })
+      }, { retries: 2 })
+      const parsed = answerSchema.parse(parsedUnknown)
+      const out = {
+        display: String(parsed.display ?? ''),
+        speech: String(parsed.speech ?? ''),
+        language: String(parsed.language ?? (language === 'en' ? 'English' : 'Hungarian')),
+      }
+      if (!out.display) out.display = out.speech
+      if (!out.speech) out.speech = out.display.replace(/\$\$[\s\S]*?\$\$|\$[^$]*\$/g, '')
+
+      return NextResponse.json(out)
+    })
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message ?? 'Ask error' }, { status: (e?.status ?? 400) })
+    return NextResponse.json({ error: e?.message ?? 'Ask error', checkoutUrl: e?.checkoutUrl }, { status: (e?.status ?? 400) })
   }
 }
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getAutoRechargeSettings, setAutoRecharge } from '@/lib/creditsServer'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const settings = await getAutoRechargeSettings(user.id)
+    return NextResponse.json(settings, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'AUTO_RECHARGE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
+
+// POST { enabled }: enabling without a saved card returns { setupUrl } to save one first.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const body = await req.json().catch(() => ({} as any))
+    const out = await setAutoRecharge(user.id, user.email ?? null, Boolean(body?.enabled))
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    console.error('billing.auto_recharge error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'AUTO_RECHARGE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { requireUser } from '@/lib/authServer'
-import { supabaseAdmin } from '@/lib/supabaseServer'
-import { PRO_CREDITS_PER_PURCHASE } from '@/lib/creditsServer'
+import { fulfillCheckoutSession } from '@/lib/stripeCredits'
 
 export const runtime = 'nodejs'
 
@@ -23,6 +22,9 @@ export async function POST(req: Request) {
 
     const stripe = stripeClient()
     const session = await stripe.checkout.sessions.retrieve(sessionId)
+    if (session.mode === 'subscription') {
+      return NextResponse.json({ error: 'Subscriptions are credited automatically' }, { status: 400 })
+    }
     if (session.payment_status !== 'paid') {
       return NextResponse.json({ error: 'Payment not completed' }, { status: 402 })
     }
@@ -39,44 +41,11 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: 'Session does not belong to user' }, { status: 403 })
     }
 
-    const sb = supabaseAdmin()
-    const { error: insErr } = await sb
-      .from('billing_fulfillments')
-      .insert({
-        user_id: user.id,
-        stripe_session_id: sessionId,
-        credits_added: PRO_CREDITS_PER_PURCHASE,
-      })
-
-    if (insErr) {
-      if (insErr.code === '23505') {
-        return NextResponse.json({ ok: true, already: true })
-      }
-      throw insErr
-    }
-
-    let updated = false
-    try {
-      const { error: rpcErr } = await sb.rpc('increment_credits', {
-        p_user_id: user.id,
-        p_amount: PRO_CREDITS_PER_PURCHASE,
-      })
-      if (!rpcErr) updated = true
-    } catch {
-      // ignore rpc failure, fallback below
+    const result = await fulfillCheckoutSession(session, 'success_page', user.id)
+    if (result.alreadyProcessed) {
+      return NextResponse.json({ ok: true, already: true })
     }
-
-    if (!updated) {
-      const { data: rowById } = await sb.from('profiles').select('credits').eq('id', user.id).maybeSingle()
-      if (rowById) {
-        const next = Number(rowById.credits ?? 0) + PRO_CREDITS_PER_PURCHASE
-        await sb.from('profiles').update({ credits: next }).eq('id', user.id)
-      } else {
-        throw new Error('Profile not found for credit update')
-      }
-    }
-
-    return NextResponse.json({ ok: true, added: PRO_CREDITS_PER_PURCHASE })
+    return NextResponse.json({ ok: result.ok, added: result.creditsAdded })
   } catch (e: any) {
     console.error('Billing fulfill error:', e?.message ?? e)
     const status = e?.status ?? 500
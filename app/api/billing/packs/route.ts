@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getPreferredCurrency } from '@/lib/creditsServer'
+import { CREDIT_PACKS, CURRENCIES, DEFAULT_PACK_KEY, formatPackPrice } from '@/lib/creditPacks'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET: the pack catalog with prices in the user's currency (saved preference, else Accept-Language).
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const currency = await getPreferredCurrency(user.id, req.headers.get('accept-language'))
+    return NextResponse.json(
+      {
+        currency,
+        currencies: CURRENCIES,
+        defaultPack: DEFAULT_PACK_KEY,
+        packs: CREDIT_PACKS.map((pack) => ({
+          key: pack.key,
+          credits: pack.credits,
+          prices: pack.prices,
+          label: formatPackPrice(pack, currency),
+        })),
+      },
+      { headers: { 'cache-control': 'no-store' } }
+    )
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'PACKS_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { createPortalSession } from '@/lib/subscriptions'
+
+export const runtime = 'nodejs'
+
+// Cancel / resume / card changes happen in the Stripe customer portal.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const url = await createPortalSession(user.id)
+    return NextResponse.json({ url }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    console.error('billing.portal error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'PORTAL_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
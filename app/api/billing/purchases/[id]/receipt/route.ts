@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { getPurchase, renderReceiptPdf } from '@/lib/receipts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET: PDF receipt for one of the user's purchases (id = the Stripe session, PaymentIntent or invoice id).
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const purchase = await getPurchase(user.id, params.id)
+
+    const sb = createServerAdminClient()
+    const { data: profile } = await sb.from('profiles').select('full_name, email').eq('id', user.id).maybeSingle()
+    const pdf = await renderReceiptPdf(purchase, {
+      name: profile?.full_name ?? null,
+      email: profile?.email ?? user.email ?? null,
+    })
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'content-type': 'application/pdf',
+        'content-disposition': `attachment; filename="receipt-${purchase.receiptNumber}.pdf"`,
+        'cache-control': 'no-store',
+      },
+    })
+  } catch (e: any) {
+    console.error('billing.receipt error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'RECEIPT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
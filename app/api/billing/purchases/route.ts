@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { listPurchases } from '@/lib/receipts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const purchases = await listPurchases(user.id)
+    return NextResponse.json({ purchases }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'PURCHASES_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
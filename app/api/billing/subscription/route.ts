@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { createSubscriptionCheckout, getSubscriptionState, subscriptionPlans } from '@/lib/subscriptions'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET: current subscription (or null) and the plans on offer.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const subscription = await getSubscriptionState(user.id)
+    const plans = subscriptionPlans().map(({ key, name, creditsPerPeriod, priceLabel }) => ({
+      key,
+      name,
+      creditsPerPeriod,
+      priceLabel,
+    }))
+    return NextResponse.json({ subscription, plans }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'SUBSCRIPTION_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
+
+// POST { plan }: starts a Stripe Checkout for a monthly subscription.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const body = await req.json().catch(() => ({} as any))
+    const url = await createSubscriptionCheckout(user.id, user.email ?? null, String(body?.plan ?? ''))
+    return NextResponse.json({ url }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    console.error('billing.subscription error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'SUBSCRIPTION_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -1,12 +1,12 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
-import OpenAI from 'openai'
 import { requireUser } from '@/lib/authServer'
+import { withQuota } from '@/lib/quotas'
 import { supabaseAdmin } from '@/lib/supabaseServer'
 import { getPlan, updatePlan } from '@/app/api/plan/store'
 import { TABLE_PLANS } from '@/lib/dbTables'
 import { throwIfMissingTable } from '@/lib/supabaseErrors'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
 import { callOpenAIJsonWithRetries } from '@/lib/aiJson'
 
 export const runtime = 'nodejs'
@@ -177,75 +177,74 @@ export async function POST(req: Request) {
     const notes = extractNotes(result)
     if (!notes) return NextResponse.json({ error: 'NOTES_MISSING' }, { status: 400 })
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) return NextResponse.json({ error: 'OPENAI_KEY_MISSING' }, { status: 500 })
-
-    const client = new OpenAI({ apiKey })
-    const model = OPENAI_MODEL
-    const system = [
-      'Return ONLY valid JSON matching the schema. No markdown or extra text.',
-      '{"daily_plan":{"total_minutes":number,"blocks":[{"title":string,"duration_minutes":number,"type":"study"|"review"|"break"}]}}',
-      'blocks length must be >= 4.',
-      'Include at least 2 study, 1 review, 1 break.',
-      'total_minutes must equal the sum of block durations.',
-    ].join('\n')
-    const userMsg = [
-      `Subject: ${notes.subject}`,
-      `Title: ${notes.title}`,
-      `Key topics: ${notes.key_topics.join(', ')}`,
-      `Study notes:\n${notes.study_notes}`,
-    ].join('\n\n')
-
-    let daily: z.infer<typeof dailySchema>
-    try {
-      const parsedJson = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
-        const resp = await client.chat.completions.create({
-          model,
-          messages: [
-            { role: 'system', content: [system, retryInstruction].filter(Boolean).join('\n') },
-            { role: 'user', content: userMsg },
-          ],
-          temperature: attempt > 0 ? 0 : 0.2,
-          max_tokens: MAX_OUTPUT_TOKENS,
+    if (!isLlmConfigured()) return NextResponse.json({ error: 'OPENAI_KEY_MISSING' }, { status: 500 })
+    return await withQuota(user.id, 'daily', async () => {
+
+      const llm = getLlm()
+      const system = [
+        'Return ONLY valid JSON matching the schema. No markdown or extra text.',
+        '{"daily_plan":{"total_minutes":number,"blocks":[{"title":string,"duration_minutes":number,"type":"study"|"review"|"break"}]}}',
+        'blocks length must be >= 4.',
+        'Include at least 2 study, 1 review, 1 break.',
+        'total_minutes must equal the sum of block durations.',
+      ].join('\n')
+      const userMsg = [
+        `Subject: ${notes.subject}`,
+        `Title: ${notes.title}`,
+        `Key topics: ${notes.key_topics.join(', ')}`,
+        `Study notes:\n${notes.study_notes}`,
+      ].join('\n\n')
+
+      let daily: z.infer<typeof dailySchema>
+      try {
+        const parsedJson = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
+          return llm.complete({
+            task: 'daily',
+            messages: [
+              { role: 'system', content: [system, retryInstruction].filter(Boolean).join('\n') },
+              { role: 'user', content: userMsg },
+            ],
+            temperature: attempt > 0 ? 0 : 0.2,
+            maxTokens: MAX_OUTPUT_TOKENS,
+          })
+        }, { retries: 2 })
+        daily = dailySchema.parse(parsedJson)
+        if (!validateDaily(daily)) daily = fallbackDaily(notes)
+        else daily = normalizeDaily(daily)
+      } catch {
+        daily = fallbackDaily(notes)
+      }
+
+      const blocks = daily.daily_plan.blocks.map((b) => ({
+        title: b.title,
+        duration_minutes: b.duration_minutes,
+        description: b.type === 'break' ? 'Rovid szunet es felfrissules.' : 'Tanulasi blokk es rovid feladatok.',
+      }))
+      const nextResult = { ...result, daily: { blocks } }
+      updatePlan(user.id, planId, nextResult)
+      const safePlan = result?.plan ?? {}
+      const safeNotes = result?.notes ?? {}
+      const safePractice = result?.practice ?? {}
+      const safeLanguage = result?.language ?? 'hu'
+      const sb = supabaseAdmin()
+      const { error: upErr } = await sb
+        .from(TABLE_PLANS)
+        .update({
+          daily_json: { blocks },
+          plan: safePlan,
+          notes: safeNotes,
+          practice_json: safePractice,
+          language: safeLanguage,
         })
-        return String(resp.choices?.[0]?.message?.content ?? '').trim()
-      }, { retries: 2 })
-      daily = dailySchema.parse(parsedJson)
-      if (!validateDaily(daily)) daily = fallbackDaily(notes)
-      else daily = normalizeDaily(daily)
-    } catch {
-      daily = fallbackDaily(notes)
-    }
-
-    const blocks = daily.daily_plan.blocks.map((b) => ({
-      title: b.title,
-      duration_minutes: b.duration_minutes,
-      description: b.type === 'break' ? 'Rovid szunet es felfrissules.' : 'Tanulasi blokk es rovid feladatok.',
-    }))
-    const nextResult = { ...result, daily: { blocks } }
-    updatePlan(user.id, planId, nextResult)
-    const safePlan = result?.plan ?? {}
-    const safeNotes = result?.notes ?? {}
-    const safePractice = result?.practice ?? {}
-    const safeLanguage = result?.language ?? 'hu'
-    const sb = supabaseAdmin()
-    const { error: upErr } = await sb
-      .from(TABLE_PLANS)
-      .update({
-        daily_json: { blocks },
-        plan: safePlan,
-        notes: safeNotes,
-        practice_json: safePractice,
-        language: safeLanguage,
-      })
-      .eq('user_id', user.id)
-      .eq('id', planId)
-    if (upErr) {
-      throwIfMissingTable(upErr, TABLE_PLANS)
-      throw upErr
-    }
-
-    return NextResponse.json({ daily: { blocks } }, { headers: { 'cache-control': 'no-store' } })
+        .eq('user_id', user.id)
+        .eq('id', planId)
+      if (upErr) {
+        throwIfMissingTable(upErr, TABLE_PLANS)
+        throw upErr
+      }
+
+      return NextResponse.json({ daily: { blocks } }, { headers: { 'cache-control': 'no-store' } })
+    })
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || 'Server error' }, { status: e?.status ?? 500 })
   }
@@ -1,14 +1,14 @@
 import { NextResponse } from 'next/server'
-import OpenAI from 'openai'
 import { z } from 'zod'
 import { requireUser } from '@/lib/authServer'
-import { createServerAdminClient } from '@/lib/supabase/server'
-import { CREDITS_PER_GENERATION, MAX_HOMEWORK_IMAGES, MAX_PROMPT_CHARS, OPENAI_MODEL } from '@/lib/limits'
+import { chargeCredits } from '@/lib/credits'
+import { withQuota } from '@/lib/quotas'
+import { MAX_HOMEWORK_IMAGES, MAX_PROMPT_CHARS } from '@/lib/limits'
+import { quoteCredits } from '@/lib/pricing'
+import { getLlm, isLlmConfigured, type LlmContentPart } from '@/lib/llm'
 
 export const runtime = 'nodejs'
 
-const COST = CREDITS_PER_GENERATION
-
 const reqSchema = z.object({
   prompt: z.string().max(MAX_PROMPT_CHARS).optional().default(''),
 })
@@ -65,57 +65,68 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: { code: 'TOO_MANY_FILES', message: `Max ${MAX_HOMEWORK_IMAGES} images` } }, { status: 400 })
     }
 
-    const key = process.env.OPENAI_API_KEY
-    if (!key) return NextResponse.json({ error: { code: 'OPENAI_KEY_MISSING', message: 'Missing OPENAI_API_KEY' } }, { status: 500 })
-
-    const client = new OpenAI({ apiKey: key })
-    const content: any[] = [
-      {
-        type: 'text',
-        text:
-          `Feladat: ${parsed.data.prompt || 'Oldd meg a feltoltott feladatot.'}\n` +
-          'Valasz nyelve alapertelmezetten magyar. Adj lepesismeretet: Miert igy?, Ellenorzes, tipikus hibak.',
-      },
-    ]
+    const quote = quoteCredits('homework', { images: imageFiles.length })
 
-    for (const file of imageFiles) {
-      const b = Buffer.from(await file.arrayBuffer()).toString('base64')
-      content.push({ type: 'image_url', image_url: { url: `data:${file.type};base64,${b}` } })
-    }
+    if (!isLlmConfigured()) return NextResponse.json({ error: { code: 'OPENAI_KEY_MISSING', message: 'Missing OPENAI_API_KEY' } }, { status: 500 })
 
-    const resp = await client.chat.completions.create({
-      model: OPENAI_MODEL,
-      messages: [
+    // A failed model call or charge gives the quota use back.
+    return await withQuota(user.id, 'homework', async () => {
+      const llm = getLlm()
+      const content: LlmContentPart[] = [
         {
-          role: 'system',
-          content:
-            'Adj reszletes, lepesrol lepesre magyarazatot kozepiskolai szinten. A megoldas legyen ellenorizheto es tanulasra alkalmas.',
+          type: 'text',
+          text:
+            `Feladat: ${parsed.data.prompt || 'Oldd meg a feltoltott feladatot.'}\n` +
+            'Valasz nyelve alapertelmezetten magyar. Adj lepesismeretet: Miert igy?, Ellenorzes, tipikus hibak.',
         },
-        { role: 'user', content: content as any },
-      ],
-      temperature: 0.2,
-      max_tokens: 1400,
-      response_format: {
-        type: 'json_schema',
-        json_schema: { name: 'homework_help', schema: homeworkSchema, strict: true },
-      },
-    })
+      ]
+
+      for (const file of imageFiles) {
+        const b64 = Buffer.from(await file.arrayBuffer()).toString('base64')
+        content.push({ type: 'image', image: { mime: file.type, b64 } })
+      }
 
-    const raw = String(resp.choices?.[0]?.message?.content ?? '').trim()
-    const parsedJson = extractJson(raw)
+      const raw = await llm.complete({
+        task: 'homework',
+        messages: [
+          {
+            role: 'system',
+            content:
+              'Adj reszletes, lepesrol lepesre magyarazatot kozepiskolai szinten. A megoldas legyen ellenorizheto es tanulasra alkalmas.',
+          },
+          { role: 'user', content },
+        ],
+        temperature: 0.2,
+        maxTokens: 1400,
+        jsonSchema: { name: 'homework_help', schema: homeworkSchema, strict: true },
+      })
 
-    const sb = createServerAdminClient()
-    const { error: rpcErr } = await sb.rpc('consume_credits', { user_id: user.id, cost: COST })
-    if (rpcErr) {
-      const msg = String(rpcErr?.message || '')
-      if (msg.includes('INSUFFICIENT_CREDITS')) {
-        return NextResponse.json({ error: { code: 'INSUFFICIENT_CREDITS', message: 'Not enough credits' } }, { status: 402 })
+      const parsedJson = extractJson(raw)
+
+      try {
+        await chargeCredits(user.id, quote.credits, { feature: quote.feature })
+      } catch (chargeErr: any) {
+        if (chargeErr?.code === 'INSUFFICIENT_CREDITS') throw chargeErr
+        const err: any = new Error('Credits charge failed')
+        err.code = 'CREDITS_CHARGE_FAILED'
+        throw err
       }
-      return NextResponse.json({ error: { code: 'CREDITS_CHARGE_FAILED', message: 'Credits charge failed' } }, { status: 500 })
-    }
 
-    return NextResponse.json(parsedJson)
+      return NextResponse.json(parsedJson)
+    })
   } catch (e: any) {
+    if (e?.code === 'INSUFFICIENT_CREDITS') {
+      return NextResponse.json(
+        { error: { code: 'INSUFFICIENT_CREDITS', message: 'Not enough credits' }, checkoutUrl: e?.checkoutUrl ?? null },
+        { status: 402 }
+      )
+    }
+    if (e?.code === 'QUOTA_EXCEEDED') {
+      return NextResponse.json({ error: { code: 'QUOTA_EXCEEDED', message: 'Free limit reached', resetAt: e?.resetAt ?? null } }, { status: 429 })
+    }
+    if (e?.code === 'CREDITS_CHARGE_FAILED') {
+      return NextResponse.json({ error: { code: 'CREDITS_CHARGE_FAILED', message: 'Credits charge failed' } }, { status: 500 })
+    }
     return NextResponse.json({ error: { code: 'HOMEWORK_FAILED', message: String(e?.message || 'Server error') } }, { status: 500 })
   }
 }
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { reconcileDriftedBalances } from '@/lib/creditLedger'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+export const dynamic = 'force-dynamic'
+
+function authorized(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * GET /api/jobs/reconcile-credits : appends an adjustment for every balance that drifted from its
+ * ledger (Vercel cron, daily). Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(req: Request) {
+  if (!authorized(req)) {
+    return NextResponse.json(
+      { error: { code: 'UNAUTHORIZED', message: 'Unauthorized' } },
+      { status: 401, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+
+  try {
+    const report = await reconcileDriftedBalances()
+    if (report.adjusted.length) {
+      console.warn('credits.reconcile adjusted', { count: report.adjusted.length, adjusted: report.adjusted })
+    } else {
+      console.log('credits.reconcile ok')
+    }
+    return NextResponse.json(report, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    console.error('credits.reconcile error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: 'RECONCILE_FAILED', message: String(e?.message || 'Server error').slice(0, 300) } },
+      { status: 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
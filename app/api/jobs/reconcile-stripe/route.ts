@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { reconcileCheckoutSessions } from '@/lib/stripeCredits'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+export const dynamic = 'force-dynamic'
+
+function authorized(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+/**
+ * GET /api/jobs/reconcile-stripe?hours=72 : lists paid credit-pack sessions that were not credited
+ * exactly once (Vercel cron, daily). Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(req: Request) {
+  if (!authorized(req)) {
+    return NextResponse.json(
+      { error: { code: 'UNAUTHORIZED', message: 'Unauthorized' } },
+      { status: 401, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+
+  try {
+    const hours = Number(new URL(req.url).searchParams.get('hours') ?? '') || undefined
+    const report = await reconcileCheckoutSessions({ sinceHours: hours })
+    if (report.gaps.length) {
+      console.error('stripe.reconcile gaps', { since: report.since, checked: report.sessionsChecked, gaps: report.gaps })
+    } else {
+      console.log('stripe.reconcile ok', { since: report.since, checked: report.sessionsChecked })
+    }
+    return NextResponse.json(report, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    console.error('stripe.reconcile error', e?.message ?? e)
+    return NextResponse.json(
+      { error: { code: 'RECONCILE_FAILED', message: String(e?.message || 'Server error').slice(0, 300) } },
+      { status: 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server'
+import { claimNextJob, reapExpiredJobs, summarizeJob, type GenerationJob } from '@/lib/generationJobs'
+import { runPlanJob, settleExpiredPlanJob } from '@/lib/planGeneration'
+import { failPendingMaterials, runMaterialsJob } from '@/lib/materialsProcessing'
+
+export const runtime = 'nodejs'
+export const maxDuration = 300
+export const dynamic = 'force-dynamic'
+
+// Stop claiming new jobs once this much of maxDuration is used; a claimed job may take ~90s.
+const CLAIM_BUDGET_MS = 180_000
+const MAX_JOBS_PER_RUN = 20
+
+function authorized(req: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+async function runJob(job: GenerationJob) {
+  if (job.kind === 'plan') return runPlanJob(job, null)
+  return runMaterialsJob(job)
+}
+
+/**
+ * GET /api/jobs/worker : drains generation_jobs (Vercel cron, every minute).
+ * Requires `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(req: Request) {
+  if (!authorized(req)) {
+    return NextResponse.json(
+      { error: { code: 'UNAUTHORIZED', message: 'Unauthorized' } },
+      { status: 401, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+
+  const workerId = `worker:${crypto.randomUUID()}`
+  const startedAt = Date.now()
+  const ran: Array<{ id: string; kind: string; ok: boolean; error?: string }> = []
+
+  try {
+    const reaped = await reapExpiredJobs()
+    for (const job of reaped) {
+      if (!job.plan_id) continue
+      if (job.kind === 'plan') await settleExpiredPlanJob(job)
+      else await failPendingMaterials(job.user_id, job.plan_id, 'LEASE_EXPIRED')
+    }
+
+    while (Date.now() - startedAt < CLAIM_BUDGET_MS && ran.length < MAX_JOBS_PER_RUN) {
+      const job = await claimNextJob(workerId)
+      if (!job) break
+      try {
+        await runJob(job)
+        ran.push({ id: job.id, kind: job.kind, ok: true })
+      } catch (e: any) {
+        ran.push({ id: job.id, kind: job.kind, ok: false, error: String(e?.code || e?.message || 'failed') })
+      }
+    }
+
+    console.log('jobs.worker.done', {
+      workerId,
+      reaped: reaped.length,
+      ran: ran.length,
+      failed: ran.filter((x) => !x.ok).length,
+      elapsed_ms: Date.now() - startedAt,
+    })
+
+    return NextResponse.json(
+      { ok: true, reaped: reaped.map(summarizeJob), ran },
+      { headers: { 'cache-control': 'no-store' } }
+    )
+  } catch (e: any) {
+    console.error('jobs.worker.error', { workerId, message: e?.message ?? 'unknown' })
+    return NextResponse.json(
+      { error: { code: 'WORKER_FAILED', message: e?.message ?? 'Server error' }, ran },
+      { status: 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
 import { supabaseAdmin } from '@/lib/supabaseServer'
+import { getLatestJob, summarizeJob } from '@/lib/generationJobs'
 
 export const runtime = 'nodejs'
 
@@ -29,7 +30,8 @@ export async function GET(req: Request) {
       : []
     const total = items.length
     const processed = items.filter((x: any) => x.status === 'processed').length
-    return NextResponse.json({ items, total, processed })
+    const job = await getLatestJob(user.id, planId, 'materials')
+    return NextResponse.json({ items, total, processed, job: summarizeJob(job) })
   } catch (e: any) {
     return NextResponse.json({ error: e?.message ?? 'Server error' }, { status: e?.status ?? 500 })
   }
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getCredits } from '@/lib/credits'
+import { listCreditHistory } from '@/lib/creditLedger'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const NO_STORE = { 'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0' }
+
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const { searchParams } = new URL(req.url)
+    const limit = Number(searchParams.get('limit') ?? 50)
+    const before = Number(searchParams.get('before') ?? 0)
+
+    const balance = await getCredits(user.id)
+    const { entries, nextBefore } = await listCreditHistory(user.id, {
+      limit: Number.isFinite(limit) ? limit : 50,
+      before: Number.isFinite(before) && before > 0 ? before : null,
+    })
+
+    return NextResponse.json({ balance, entries, nextBefore }, { headers: NO_STORE })
+  } catch (e: any) {
+    const status = e?.status ?? 500
+    return NextResponse.json({ error: e?.message ?? 'Error' }, { status, headers: NO_STORE })
+  }
+}
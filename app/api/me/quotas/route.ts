@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getQuotaStatus, QUOTA_WINDOW_MS } from '@/lib/quotas'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const NO_STORE = { 'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0' }
+
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const { role, quotas } = await getQuotaStatus(user.id)
+    return NextResponse.json({ role, windowMs: QUOTA_WINDOW_MS, quotas }, { headers: NO_STORE })
+  } catch (e: any) {
+    const status = e?.status ?? 500
+    return NextResponse.json({ error: e?.message ?? 'Error' }, { status, headers: NO_STORE })
+  }
+}
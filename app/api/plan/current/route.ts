@@ -2,11 +2,14 @@ import { requireUser } from '@/lib/authServer'
 import { createServerAdminClient } from '@/lib/supabase/server'
 import { TABLE_PLANS } from '@/lib/dbTables'
 import { normalizePlanDocument } from '@/lib/planDocument'
+import { getLatestJob, summarizeJob } from '@/lib/generationJobs'
 
 export const runtime = 'nodejs'
 
 type PlanRow = {
   id: string
+  status?: string | null
+  error?: string | null
   title?: string | null
   language?: string | null
   plan_json?: any
@@ -59,7 +62,7 @@ async function getNewestPlanId(sb: ReturnType<typeof createServerAdminClient>, u
 async function getPlanById(sb: ReturnType<typeof createServerAdminClient>, userId: string, planId: string) {
   const { data, error } = await sb
     .from(TABLE_PLANS)
-    .select('id, title, language, plan_json, notes_json, daily_json, practice_json, plan, notes, daily, practice')
+    .select('id, status, error, title, language, plan_json, notes_json, daily_json, practice_json, plan, notes, daily, practice')
     .eq('user_id', userId)
     .eq('id', planId)
     .maybeSingle()
@@ -88,8 +91,18 @@ export async function GET(req: Request) {
     if (row) await upsertCurrentPlan(sb, user.id, planId)
 
     const content = mapPlanContent(row)
+    const job = await getLatestJob(user.id, planId, 'plan').catch(() => null)
     return Response.json(
-      { planId, id: planId, currentPlanId: planId, current_plan_id: planId, ...content },
+      {
+        planId,
+        id: planId,
+        currentPlanId: planId,
+        current_plan_id: planId,
+        status: row?.status ?? null,
+        error: row?.error ?? null,
+        job: summarizeJob(job),
+        ...content,
+      },
       { headers: { 'cache-control': 'no-store' } }
     )
   } catch (e: any) {
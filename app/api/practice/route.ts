@@ -1,23 +1,71 @@
 import { NextResponse } from 'next/server'
 import { z } from 'zod'
-import OpenAI from 'openai'
 import { requireUser } from '@/lib/authServer'
+import { withQuota } from '@/lib/quotas'
 import { supabaseAdmin } from '@/lib/supabaseServer'
 import { getPlan, updatePlan } from '@/app/api/plan/store'
 import { TABLE_PLANS } from '@/lib/dbTables'
 import { throwIfMissingTable } from '@/lib/supabaseErrors'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
 import { callOpenAIJsonWithRetries } from '@/lib/aiJson'
+import { recentTopicAnswers, startAttempt } from '@/lib/testAttempts'
+import { normalizeQuestion, type TestQuestion } from '@/lib/testQuestions'
+import { planTopicTargets, summarizeAnswers, type TopicTarget } from '@/lib/topicMastery'
 
 export const runtime = 'nodejs'
 export const maxDuration = 60
 export const dynamic = 'force-dynamic'
 const MAX_OUTPUT_TOKENS = 900
+const ADAPTIVE_QUESTIONS = 12
+const ADAPTIVE_MAX_OUTPUT_TOKENS = 3000
 
 const bodySchema = z.object({
   planId: z.string().min(1),
+  /** Weights the questions toward the topics the student has been getting wrong. */
+  adaptive: z.boolean().optional(),
 })
 
+const adaptiveSchema = z.object({
+  questions: z.array(
+    z.object({
+      topic: z.string(),
+      difficulty: z.enum(['easy', 'medium', 'hard']),
+      type: z.enum(['mcq', 'short', 'true_false']),
+      question: z.string(),
+      options: z.array(z.string()).nullable(),
+      answer: z.string(),
+      explanation: z.string(),
+    })
+  ),
+})
+
+function adaptiveJsonSchema(topics: string[]) {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      questions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            topic: { type: 'string', enum: topics },
+            difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+            type: { type: 'string', enum: ['mcq', 'short', 'true_false'] },
+            question: { type: 'string' },
+            options: { type: ['array', 'null'], items: { type: 'string' } },
+            answer: { type: 'string' },
+            explanation: { type: 'string' },
+          },
+          required: ['topic', 'difficulty', 'type', 'question', 'options', 'answer', 'explanation'],
+        },
+      },
+    },
+    required: ['questions'],
+  }
+}
+
 const practiceSchema = z.object({
   practice: z.object({
     questions: z.array(
@@ -52,7 +100,7 @@ function pickTopics(notes: NotesPayload) {
   const fromKey = Array.isArray(notes.key_topics) ? notes.key_topics.map((t) => String(t).trim()).filter(Boolean) : []
   if (fromKey.length >= 4) return fromKey
   const headings = extractHeadings(notes.study_notes)
-  const combined = [...fromKey, ...headings].map((t) => String(t).trim()).filter(Boolean)
+  const combined = Array.from(new Set([...fromKey, ...headings].map((t) => String(t).trim()).filter(Boolean)))
   return combined.length ? combined : ['Core concepts', 'Key ideas', 'Examples', 'Typical mistakes']
 }
 
@@ -102,10 +150,11 @@ async function fetchPlanResult(userId: string, planId: string) {
   const local = getPlan(userId, planId)
   if (local?.result) return local.result
 
+  // Stored plans keep their parts in separate columns (see savePlanToDbBestEffort).
   const sb = supabaseAdmin()
   const { data, error } = await sb
     .from(TABLE_PLANS)
-    .select('result')
+    .select('title, language, plan, plan_json, notes, notes_json, daily, daily_json, practice, practice_json')
     .eq('user_id', userId)
     .eq('id', planId)
     .maybeSingle()
@@ -113,12 +162,36 @@ async function fetchPlanResult(userId: string, planId: string) {
     throwIfMissingTable(error, TABLE_PLANS)
     throw error
   }
-  return data?.result ?? null
+  if (!data) return null
+  return {
+    title: data.title,
+    language: data.language,
+    plan: data.plan_json ?? data.plan,
+    notes: data.notes_json ?? data.notes,
+    daily: data.daily_json ?? data.daily,
+    practice: data.practice_json ?? data.practice,
+  }
 }
 
 function extractNotes(result: any): NotesPayload | null {
   const payload = result?.notes_payload
   if (payload?.study_notes) return payload as NotesPayload
+  // Current plans: one outline heading per topic, so topics match the `topic` stored on answers.
+  if (Array.isArray(result?.notes?.outline) && result.notes.outline.length) {
+    const outline = result.notes.outline as Array<{ heading?: unknown; bullets?: unknown }>
+    const sections = outline.map((item) => {
+      const bullets = Array.isArray(item?.bullets) ? item.bullets.map((b) => `- ${String(b)}`) : []
+      return [`## ${String(item?.heading ?? '').trim()}`, ...bullets].join('\n')
+    })
+    const summary = String(result.notes.summary ?? '').trim()
+    return {
+      title: String(result.title || 'Study notes'),
+      subject: String(result.title || 'General'),
+      study_notes: [...sections, summary].filter(Boolean).join('\n\n'),
+      key_topics: outline.map((item) => String(item?.heading ?? '').trim()).filter(Boolean),
+      confidence: 0.6,
+    }
+  }
   if (Array.isArray(result?.notes?.sections)) {
     const content = result.notes.sections.map((s: any) => String(s?.content ?? '')).join('\n\n')
     return {
@@ -157,6 +230,78 @@ function extractNotes(result: any): NotesPayload | null {
   return null
 }
 
+function fallbackAdaptive(notes: NotesPayload, targets: TopicTarget[]) {
+  const sourceText = String(notes.study_notes || '')
+  return targets.flatMap((t) =>
+    Array.from({ length: t.questions }, (_, i) => ({
+      topic: t.topic,
+      difficulty: t.difficulty,
+      type: 'short',
+      question: i === 0 ? `Explain ${t.topic} in your own words.` : `Give an example of ${t.topic} and explain it.`,
+      answer: extractAnswerFromNotes(sourceText, t.topic),
+      explanation: '',
+    }))
+  )
+}
+
+/**
+ * Adaptive practice: the student's past answers per topic decide how many questions each plan
+ * topic gets and how hard they are (see lib/topicMastery). The questions are stored as a practice
+ * attempt on the plan, so answering them feeds the next round.
+ */
+async function adaptivePractice(userId: string, planId: string, notes: NotesPayload, language: string) {
+  const history = summarizeAnswers(await recentTopicAnswers(userId))
+  const targets = planTopicTargets(pickTopics(notes), history, ADAPTIVE_QUESTIONS)
+
+  const system = [
+    'You are Umenify. Return ONLY valid JSON. No extra text.',
+    'Write practice questions from the study notes, exactly as many per topic and at the difficulty listed.',
+    'easy: recall and direct use of one idea; medium: two or three steps; hard: multi-step problems, edge cases, transfer.',
+    'mcq: 4 options, answer is the correct option text; true_false: options null, answer "true" or "false"; short: options null, answer is a 1-3 sentence model answer.',
+    'Mix the types within a topic. Explanations are short and end with the correct answer.',
+    `Write in the language of the notes (${language}).`,
+  ].join('\n')
+  const userMsg = [
+    `Subject: ${notes.subject}`,
+    `Topics:\n${targets.map((t) => `- ${t.topic}: ${t.questions} ${t.difficulty}`).join('\n')}`,
+    `Study notes:\n${notes.study_notes}`,
+  ].join('\n\n')
+
+  let raw: unknown[]
+  try {
+    const out = await getLlm().complete({
+      task: 'practice.adaptive',
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: userMsg },
+      ],
+      temperature: 0.2,
+      maxTokens: ADAPTIVE_MAX_OUTPUT_TOKENS,
+      jsonSchema: { name: 'adaptive_practice', schema: adaptiveJsonSchema(targets.map((t) => t.topic)) },
+    })
+    raw = adaptiveSchema.parse(JSON.parse(out)).questions
+  } catch (err: any) {
+    console.warn('practice.adaptive.fallback', { topics: targets.length, message: err?.message ?? 'unknown' })
+    raw = fallbackAdaptive(notes, targets)
+  }
+  const questions = raw
+    .map((q, i) => normalizeQuestion({ ...(q as any), id: `q${i + 1}` }, i))
+    .filter((q): q is TestQuestion => q !== null)
+  if (!questions.length) {
+    const err: any = new Error('Could not write practice questions for this plan')
+    err.status = 502
+    throw err
+  }
+
+  // Plans that only exist in the local store cannot be referenced; keep the attempt unlinked then.
+  const test = { title: `${notes.title} – practice`, language, questions }
+  const attempt = await startAttempt(userId, { test, planId, topic: notes.subject }).catch((err: any) => {
+    if (err?.code !== 'PLAN_NOT_FOUND') throw err
+    return startAttempt(userId, { test, topic: notes.subject })
+  })
+  return { attemptId: attempt.id, questions: attempt.questions, targets }
+}
+
 export async function POST(req: Request) {
   try {
     const user = await requireUser(req)
@@ -173,77 +318,81 @@ export async function POST(req: Request) {
     const notes = extractNotes(result)
     if (!notes) return NextResponse.json({ error: 'NOTES_MISSING' }, { status: 400 })
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) return NextResponse.json({ error: 'OPENAI_KEY_MISSING' }, { status: 500 })
-
-    const client = new OpenAI({ apiKey })
-    const model = OPENAI_MODEL
-    const system = [
-      'Return ONLY valid JSON matching the schema. No markdown or extra text.',
-      '{"practice":{"questions":[{"question":string,"answer":string,"type":"mcq"|"short"|"true_false"}]}}',
-      'Generate at least 12 questions total.',
-      'Include at least 4 mcq, 4 short, 4 true_false.',
-      'Answers must be 1-3 sentences max.',
-      'Questions must be based on key_topics.',
-    ].join('\n')
-    const userMsg = [
-      `Subject: ${notes.subject}`,
-      `Title: ${notes.title}`,
-      `Key topics: ${notes.key_topics.join(', ')}`,
-      `Study notes:\n${notes.study_notes}`,
-    ].join('\n\n')
-
-    let practice: z.infer<typeof practiceSchema>
-    try {
-      const parsedJson = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
-        const resp = await client.chat.completions.create({
-          model,
-          messages: [
-            { role: 'system', content: [system, retryInstruction].filter(Boolean).join('\n') },
-            { role: 'user', content: userMsg },
-          ],
-          temperature: attempt > 0 ? 0 : 0.2,
-          max_tokens: MAX_OUTPUT_TOKENS,
-        })
-        return String(resp.choices?.[0]?.message?.content ?? '').trim()
-      }, { retries: 2 })
-      practice = practiceSchema.parse(parsedJson)
-    } catch {
-      practice = fallbackPractice(notes)
-    }
+    if (!isLlmConfigured()) return NextResponse.json({ error: 'OPENAI_KEY_MISSING' }, { status: 500 })
+    return await withQuota(user.id, 'practice', async () => {
 
-    const normalized = normalizePractice(practice)
-    const practiceQuestions = normalized.practice.questions.map((q) => ({
-      question: q.question,
-      answer: q.answer,
-    }))
+      if (parsed.data.adaptive) {
+        const adaptive = await adaptivePractice(user.id, planId, notes, String(result?.language ?? 'hu'))
+        return NextResponse.json({ adaptive }, { headers: { 'cache-control': 'no-store' } })
+      }
 
-    const nextResult = { ...result, practice: { questions: practiceQuestions } }
-    updatePlan(user.id, planId, nextResult)
-    try {
-      const sb = supabaseAdmin()
-      const safePlan = result?.plan ?? {}
-      const safeNotes = result?.notes ?? {}
-      const safeDaily = result?.daily ?? {}
-      const safeLanguage = result?.language ?? 'hu'
-      const { error: upErr } = await sb
-        .from(TABLE_PLANS)
-        .update({
-          practice_json: { questions: practiceQuestions },
-          plan: safePlan,
-          notes: safeNotes,
-          daily_json: safeDaily,
-          language: safeLanguage,
-        })
-        .eq('user_id', user.id)
-        .eq('id', planId)
-      if (upErr) {
-        throwIfMissingTable(upErr, TABLE_PLANS)
-        throw upErr
+      const llm = getLlm()
+      const system = [
+        'Return ONLY valid JSON matching the schema. No markdown or extra text.',
+        '{"practice":{"questions":[{"question":string,"answer":string,"type":"mcq"|"short"|"true_false"}]}}',
+        'Generate at least 12 questions total.',
+        'Include at least 4 mcq, 4 short, 4 true_false.',
+        'Answers must be 1-3 sentences max.',
+        'Questions must be based on key_topics.',
+      ].join('\n')
+      const userMsg = [
+        `Subject: ${notes.subject}`,
+        `Title: ${notes.title}`,
+        `Key topics: ${notes.key_topics.join(', ')}`,
+        `Study notes:\n${notes.study_notes}`,
+      ].join('\n\n')
+
+      let practice: z.infer<typeof practiceSchema>
+      try {
+        const parsedJson = await callOpenAIJsonWithRetries(async (attempt, retryInstruction) => {
+          return llm.complete({
+            task: 'practice',
+            messages: [
+              { role: 'system', content: [system, retryInstruction].filter(Boolean).join('\n') },
+              { role: 'user', content: userMsg },
+            ],
+            temperature: attempt > 0 ? 0 : 0.2,
+            maxTokens: MAX_OUTPUT_TOKENS,
+          })
+        }, { retries: 2 })
+        practice = practiceSchema.parse(parsedJson)
+      } catch {
+        practice = fallbackPractice(notes)
       }
-    } catch {}
 
-    return NextResponse.json({ practice: { questions: practiceQuestions } }, { headers: { 'cache-control': 'no-store' } })
+      const normalized = normalizePractice(practice)
+      const practiceQuestions = normalized.practice.questions.map((q) => ({
+        question: q.question,
+        answer: q.answer,
+      }))
+
+      const nextResult = { ...result, practice: { questions: practiceQuestions } }
+      updatePlan(user.id, planId, nextResult)
+      try {
+        const sb = supabaseAdmin()
+        const safePlan = result?.plan ?? {}
+        const safeNotes = result?.notes ?? {}
+        const safeDaily = result?.daily ?? {}
+        const safeLanguage = result?.language ?? 'hu'
+        const { error: upErr } = await sb
+          .from(TABLE_PLANS)
+          .update({
+            practice_json: { questions: practiceQuestions },
+            plan: safePlan,
+            notes: safeNotes,
+            daily_json: safeDaily,
+            language: safeLanguage,
+          })
+          .eq('user_id', user.id)
+          .eq('id', planId)
+        if (upErr) {
+          throwIfMissingTable(upErr, TABLE_PLANS)
+          throw upErr
+        }
+      } catch {}
+
+      return NextResponse.json({ practice: { questions: practiceQuestions } }, { headers: { 'cache-control': 'no-store' } })
+    })
   } catch (e: any) {
     return NextResponse.json({ error: e?.message || 'Server error' }, { status: e?.status ?? 500 })
   }
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server'
+import { isPricedFeature, PRICED_FEATURES, quoteCredits } from '@/lib/pricing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function readCount(searchParams: URLSearchParams, key: string) {
+  const raw = searchParams.get(key)
+  if (raw == null || raw === '') return undefined
+  const n = Number(raw)
+  return Number.isFinite(n) ? n : undefined
+}
+
+// GET /api/pricing/quote?feature=tts&chars=1800 → { feature, credits }
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url)
+  const feature = String(searchParams.get('feature') ?? '').trim()
+  if (!isPricedFeature(feature)) {
+    return NextResponse.json(
+      { error: { code: 'UNKNOWN_FEATURE', message: `feature must be one of: ${PRICED_FEATURES.join(', ')}` } },
+      { status: 400, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+
+  try {
+    const quote = quoteCredits(feature, {
+      images: readCount(searchParams, 'images'),
+      questions: readCount(searchParams, 'questions'),
+      chars: readCount(searchParams, 'chars'),
+    })
+    return NextResponse.json(quote, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'QUOTE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
 import { supabaseAdmin } from '@/lib/supabaseServer'
+import { applyCreditDelta } from '@/lib/creditLedger'
 
 export const runtime = 'nodejs'
 
@@ -23,19 +24,16 @@ export async function POST(req: Request) {
     if (selErr) throw selErr
 
     if (!existing) {
-      const { data: inserted, error: insErr } = await sb
-        .from('profiles')
-        .insert({
-          id: user.id,
-          email: email || null,
-          full_name: fullName || null,
-          phone: phone || null,
-          credits: 5,
-        })
-        .select('credits')
-        .single()
+      const { error: insErr } = await sb.from('profiles').insert({
+        id: user.id,
+        email: email || null,
+        full_name: fullName || null,
+        phone: phone || null,
+        credits: 0,
+      })
       if (insErr) throw insErr
-      return NextResponse.json({ ok: true, credits: Number(inserted?.credits ?? 5) })
+      const credits = await applyCreditDelta(user.id, 5, 'grant', { feature: 'signup' })
+      return NextResponse.json({ ok: true, credits })
     }
 
     const { error: updErr } = await sb
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabaseServer'
 import { requireUser } from '@/lib/authServer'
+import { applyCreditDelta } from '@/lib/creditLedger'
+import { rewardReferral } from '@/lib/referrals'
 
 export const runtime = 'nodejs'
 
@@ -10,6 +12,15 @@ function normalizePhoneDigits(raw: string | null | undefined) {
   return s.replace(/\D/g, '')
 }
 
+// An invite this account used pays out here if its phone is already verified; otherwise it stays pending.
+async function payPendingReferral(userId: string) {
+  try {
+    await rewardReferral(userId)
+  } catch (e: any) {
+    console.error('profile.welcome referral failed', { user_id: userId, message: e?.message ?? e })
+  }
+}
+
 export async function POST(req: Request) {
   try {
     const user = await requireUser(req)
@@ -58,7 +69,7 @@ export async function POST(req: Request) {
         full_name: fullName || null,
         phone: phoneRaw || null,
         phone_normalized: phoneNorm,
-        credits: 5,
+        credits: 0,
         welcome_bonus_claimed: true,
         starter_granted: false,
       })
@@ -68,19 +79,17 @@ export async function POST(req: Request) {
         }
         throw insErr
       }
+      await applyCreditDelta(userId, 5, 'grant', { feature: 'welcome' })
+      await payPendingReferral(userId)
       return NextResponse.json({ ok: true })
     }
 
-    const welcomeClaimed = !!existing.welcome_bonus_claimed
-    const nextCredits = welcomeClaimed ? Number(existing.credits ?? 0) : Number(existing.credits ?? 0) + 5
     const { error: updErr } = await sb
       .from('profiles')
       .update({
         full_name: existing.full_name ?? (fullName || null),
         phone: existing.phone ?? (phoneRaw || null),
         phone_normalized: existing.phone_normalized ?? phoneNorm,
-        credits: nextCredits,
-        welcome_bonus_claimed: true,
       })
       .eq('id', userId)
     if (updErr) {
@@ -90,6 +99,20 @@ export async function POST(req: Request) {
       throw updErr
     }
 
+    // Only the request that flips the flag grants the bonus.
+    const { data: claimed, error: claimErr } = await sb
+      .from('profiles')
+      .update({ welcome_bonus_claimed: true })
+      .eq('id', userId)
+      .not('welcome_bonus_claimed', 'is', true)
+      .select('id')
+      .maybeSingle()
+    if (claimErr) throw claimErr
+    if (claimed) {
+      await applyCreditDelta(userId, 5, 'grant', { feature: 'welcome' })
+    }
+    await payPendingReferral(userId)
+
     return NextResponse.json({ ok: true })
   } catch (e: any) {
     return NextResponse.json({ error: e?.message ?? 'Server error' }, { status: 500 })
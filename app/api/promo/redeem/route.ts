@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { redeemPromoCode } from '@/lib/promoCodes'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST { code }: credits a promo code once per account and phone number.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const body = await req.json().catch(() => ({} as any))
+    const out = await redeemPromoCode(user.id, String(body?.code ?? ''))
+    console.log('promo.redeem', { user_id: user.id, code: out.code, credits: out.credits })
+    return NextResponse.json({ ok: true, ...out }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'PROMO_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
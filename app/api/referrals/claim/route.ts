@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { claimReferral } from '@/lib/referrals'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST { code? }: links this account to an inviter. Without a code, uses the `referral_code` saved at signup.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const body = await req.json().catch(() => ({} as any))
+    const code = String(body?.code ?? user.user_metadata?.referral_code ?? '')
+    const out = await claimReferral(user.id, code)
+    console.log('referral.claim', { user_id: user.id, status: out.status })
+    return NextResponse.json({ ok: true, ...out }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'REFERRAL_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { rewardReferral } from '@/lib/referrals'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST: pays out this account's pending referral; called after the user verifies their phone.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const out = await rewardReferral(user.id)
+    console.log('referral.reward', { user_id: user.id, status: out.status })
+    return NextResponse.json({ ok: true, ...out }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'REFERRAL_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
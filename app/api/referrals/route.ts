@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getReferralSummary } from '@/lib/referrals'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET: the user's invite code and link, plus how many invitees have been rewarded.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const summary = await getReferralSummary(user.id)
+    return NextResponse.json(summary, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'REFERRALS_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
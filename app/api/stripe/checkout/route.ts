@@ -1,49 +1,38 @@
 import { NextResponse } from 'next/server'
-import Stripe from 'stripe'
 import { requireUser } from '@/lib/authServer'
+import { createPackCheckoutSession, getPreferredCurrency, setPreferredCurrency } from '@/lib/creditsServer'
+import { defaultPack, getPack, isCurrency } from '@/lib/creditPacks'
 
 export const runtime = 'nodejs'
 
-function stripeClient() {
-  const key = process.env.STRIPE_SECRET_KEY
-  if (!key) throw new Error('Missing STRIPE_SECRET_KEY')
-  return new Stripe(key, { apiVersion: '2024-06-20' })
-}
-
+/** POST { pack?, currency? }: Checkout for one catalog pack. An explicit currency is remembered. */
 export async function POST(req: Request) {
   try {
     const user = await requireUser(req)
-    const creditsRaw = Number.parseInt(process.env.STRIPE_CREDITS_PER_PURCHASE ?? '20', 10)
-    const credits = Number.isFinite(creditsRaw) ? creditsRaw : 20
-    const amountRaw = Number.parseInt(process.env.STRIPE_PRICE_HUF ?? '3490', 10)
-    const amountHuf = Number.isFinite(amountRaw) ? amountRaw : 3490
-    const siteUrl = (process.env.NEXT_PUBLIC_SITE_URL || '').trim()
-    if (!siteUrl) {
-      return NextResponse.json({ error: 'Missing NEXT_PUBLIC_SITE_URL' }, { status: 500 })
+    const body = await req.json().catch(() => ({} as any))
+
+    const packKey = body?.pack ? String(body.pack) : null
+    const pack = packKey ? getPack(packKey) : defaultPack()
+    if (!pack) {
+      return NextResponse.json({ error: 'Unknown credit pack' }, { status: 400 })
+    }
+    if (body?.currency != null && !isCurrency(body.currency)) {
+      return NextResponse.json({ error: 'Unsupported currency' }, { status: 400 })
+    }
+
+    let currency
+    if (isCurrency(body?.currency)) {
+      currency = body.currency
+      await setPreferredCurrency(user.id, currency)
+    } else {
+      currency = await getPreferredCurrency(user.id, req.headers.get('accept-language'))
     }
 
-    const stripe = stripeClient()
-    const session = await stripe.checkout.sessions.create({
-      mode: 'payment',
-      line_items: [
-        {
-          price_data: {
-            currency: 'huf',
-            unit_amount: amountHuf,
-            product_data: {
-              name: `${credits} credits pack`,
-            },
-          },
-          quantity: 1,
-        },
-      ],
-      success_url: `${siteUrl}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${siteUrl}/billing`,
-      client_reference_id: user.id,
-      metadata: {
-        user_id: user.id,
-        credits: String(credits),
-      },
+    const session = await createPackCheckoutSession({
+      userId: user.id,
+      pack,
+      currency,
+      email: user.email ?? null,
     })
 
     return NextResponse.json({ url: session.url })
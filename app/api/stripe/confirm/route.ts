@@ -14,9 +14,9 @@ export async function POST(req: Request) {
     const result = await confirmStripeSession(sessionId)
     return NextResponse.json({
       ok: result.ok,
-      already_processed: result.already_processed,
-      credits_added: result.credits_added,
-      payment_status: (result as any).payment_status,
+      already_processed: result.alreadyProcessed,
+      credits_added: result.creditsAdded,
+      payment_status: result.paymentStatus,
     })
   } catch (e: any) {
     console.error('stripe.confirm error', e?.message ?? e)
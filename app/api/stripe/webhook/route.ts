@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { supabaseAdmin } from '@/lib/supabaseAdmin'
+import { savePaymentMethodFromSession } from '@/lib/creditsServer'
+import { fulfillAutoRecharge, fulfillCheckoutSession, sessionUserId } from '@/lib/stripeCredits'
+import { creditSubscriptionInvoice, refreshSubscription, syncSubscription } from '@/lib/subscriptions'
 
 export const runtime = 'nodejs'
 
@@ -26,21 +29,63 @@ export async function POST(req: Request) {
     const stripe = stripeClient()
     const event = stripe.webhooks.constructEvent(payload, sig, secret)
 
+    if (
+      event.type === 'customer.subscription.created' ||
+      event.type === 'customer.subscription.updated' ||
+      event.type === 'customer.subscription.deleted'
+    ) {
+      const sub = event.data.object as Stripe.Subscription
+      const userId = await syncSubscription(sub, new Date(event.created * 1000))
+      console.log('stripe webhook processed', { subscription: sub.id, user_id: userId, status: sub.status, action: event.type })
+      return NextResponse.json({ ok: true })
+    }
+
+    if (event.type === 'invoice.paid') {
+      const invoice = event.data.object as Stripe.Invoice
+      const out = await creditSubscriptionInvoice(invoice)
+      console.log('stripe webhook processed', { invoice: invoice.id, credits: out.credited, action: 'invoice_paid' })
+      return NextResponse.json({ ok: true, credits_added: out.credited })
+    }
+
+    if (event.type === 'invoice.payment_failed') {
+      const invoice = event.data.object as Stripe.Invoice
+      const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id
+      if (subscriptionId) await refreshSubscription(subscriptionId)
+      console.log('stripe webhook processed', { invoice: invoice.id, subscription: subscriptionId ?? null, action: 'invoice_payment_failed' })
+      return NextResponse.json({ ok: true })
+    }
+
+    // Auto-recharge charges are credited when they succeed; this catches any the request failed to credit.
+    if (event.type === 'payment_intent.succeeded') {
+      const pi = event.data.object as Stripe.PaymentIntent
+      const result = await fulfillAutoRecharge(pi, 'webhook')
+      if (result.ok) {
+        console.log('stripe webhook processed', { payment_intent: pi.id, credits: result.creditsAdded, action: 'auto_recharge' })
+      }
+      return NextResponse.json({ ok: true, credits_added: result.creditsAdded })
+    }
+
     if (event.type === 'checkout.session.completed') {
       const session = event.data.object as Stripe.Checkout.Session
+      // Subscription checkouts are credited per invoice (invoice.paid), not here.
+      if (session.mode === 'subscription') {
+        return NextResponse.json({ received: true })
+      }
+      // Auto-recharge opt-in: store the card and switch auto-recharge on.
+      if (session.mode === 'setup') {
+        const saved = await savePaymentMethodFromSession(session)
+        console.log('stripe webhook processed', { session_id: session.id, action: 'payment_method_saved', saved })
+        return NextResponse.json({ ok: true, saved })
+      }
       if (session.payment_status && session.payment_status !== 'paid') {
         return NextResponse.json({ error: 'Payment not completed' }, { status: 402 })
       }
 
-      const userId =
-        (session.client_reference_id ? String(session.client_reference_id) : '') ||
-        (session.metadata?.user_id ? String(session.metadata.user_id) : '')
+      const userId = sessionUserId(session)
       if (!userId) {
         return NextResponse.json({ error: 'Missing user id' }, { status: 400 })
       }
 
-      const creditsRaw = Number.parseInt(process.env.STRIPE_CREDITS_PER_PURCHASE ?? '20', 10)
-      const credits = Number.isFinite(creditsRaw) ? Math.trunc(creditsRaw) : 20
       const email =
         session.customer_details?.email ||
         (typeof session.customer_email === 'string' ? session.customer_email : null)
@@ -59,56 +104,18 @@ export async function POST(req: Request) {
         )
       if (upErr) throw upErr
 
-      console.log('stripe webhook processed', {
-        session_id: session.id,
-        user_id: userId,
-        credits,
-        action: 'insert',
-      })
-      const { error: insErr } = await sb.from('credit_purchases').insert({
-        user_id: userId,
-        stripe_session_id: session.id,
-        credits,
-        amount_total: session.amount_total ?? null,
-        currency: session.currency ?? null,
-      })
-
-      if (insErr) {
-        if ((insErr as any).code === '23505') {
-          console.log('stripe webhook processed', {
-            session_id: session.id,
-            user_id: userId,
-            credits,
-            action: 'skipped_duplicate',
-          })
-          return NextResponse.json({ ok: true, already_processed: true })
-        }
-        throw insErr
-      }
+      const result = await fulfillCheckoutSession(session, 'webhook')
 
-      let updated = false
-      try {
-        const { error: rpcErr } = await sb.rpc('increment_credits', {
-          p_user_id: userId,
-          p_amount: credits,
+      if (session.metadata?.save_payment_method === '1') {
+        await savePaymentMethodFromSession(session).catch((err: any) => {
+          console.error('stripe webhook save_payment_method failed', { session_id: session.id, message: err?.message ?? err })
         })
-        if (!rpcErr) updated = true
-      } catch {
-        updated = false
-      }
-      if (!updated) {
-        const { data: row } = await sb.from('profiles').select('credits').eq('id', userId).maybeSingle()
-        const next = Number(row?.credits ?? 0) + credits
-        await sb.from('profiles').update({ credits: next }).eq('id', userId)
       }
 
-      console.log('stripe webhook processed', {
-        session_id: session.id,
-        user_id: userId,
-        credits,
-        action: 'credited',
-      })
-      return NextResponse.json({ ok: true, credits_added: credits })
+      if (result.alreadyProcessed) {
+        return NextResponse.json({ ok: true, already_processed: true })
+      }
+      return NextResponse.json({ ok: true, credits_added: result.creditsAdded })
     }
 
     return NextResponse.json({ received: true })
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { saveDraftAnswers } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  answers: z.record(z.union([z.string().max(4000), z.array(z.string().max(1000)).max(20)])),
+})
+
+// PUT { answers }: saves the answers so far. An exam still running when its deadline passes is
+// graded on the last answers saved here (409 DEADLINE_PASSED afterwards).
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { answers }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const out = await saveDraftAnswers(user.id, params.id, parsed.data.answers)
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_SAVE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getAttempt } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const attempt = await getAttempt(user.id, params.id)
+    return NextResponse.json({ attempt }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_ATTEMPT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { beginAttempt } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST: starts the attempt; on an exam this starts the countdown and the attempt carries its
+// `deadlineAt`. Starting again returns the same deadline.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const attempt = await beginAttempt(user.id, params.id)
+    return NextResponse.json({ attempt }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_ATTEMPT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
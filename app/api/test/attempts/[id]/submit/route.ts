@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { submitAttempt } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  answers: z.record(z.union([z.string(), z.array(z.string())])),
+  timeSpentMs: z.record(z.number()).optional(),
+})
+
+// POST { answers: { [questionId]: answer }, timeSpentMs?: { [questionId]: ms } }:
+// grades the attempt server-side and returns the per-question results. Answers are text, or a
+// list for multi-select, ordering and matching questions.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { answers, timeSpentMs? }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const attempt = await submitAttempt(user.id, params.id, parsed.data)
+    return NextResponse.json({ attempt }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_SUBMIT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
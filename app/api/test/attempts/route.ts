@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { listAttempts } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?planId&topic&limit: the user's attempts, newest first.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const url = new URL(req.url)
+    const attempts = await listAttempts(user.id, {
+      planId: url.searchParams.get('planId'),
+      topic: url.searchParams.get('topic'),
+      limit: Number(url.searchParams.get('limit')) || undefined,
+    })
+    return NextResponse.json({ attempts }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_ATTEMPTS_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
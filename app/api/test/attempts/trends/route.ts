@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { attemptTrends } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?groupBy=plan|topic: score history per group and answer accuracy per topic.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const groupBy = new URL(req.url).searchParams.get('groupBy') === 'plan' ? 'plan' : 'topic'
+    const trends = await attemptTrends(user.id, groupBy)
+    return NextResponse.json({ groupBy, ...trends }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_TRENDS_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { MAX_TEST_QUESTIONS } from '@/lib/pricing'
+import { MAX_GRADED_ANSWER_CHARS } from '@/lib/shortAnswerGrading'
+import { gradeAttemptAnswers } from '@/lib/testAttempts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  attemptId: z.string().uuid(),
+  items: z
+    .array(
+      z.object({
+        questionId: z.string().min(1).max(100),
+        response: z.string().max(MAX_GRADED_ANSWER_CHARS),
+      })
+    )
+    .min(1)
+    .max(MAX_TEST_QUESTIONS),
+})
+
+// POST { attemptId, items: [{ questionId, response }] }: grades free-text answers to short questions
+// of one of the user's stored attempts against its model answers, without submitting it. Each grade
+// has a 0-1 score, feedback and the missing key points. Grading is part of a generated test, so no
+// credits are used; questions from anywhere else are not accepted.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: `Expected { attemptId, items: [{ questionId, response }] } with up to ${MAX_TEST_QUESTIONS} items` } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const grades = await gradeAttemptAnswers(user.id, parsed.data.attemptId, parsed.data.items)
+    return NextResponse.json({ grades }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'TEST_GRADE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
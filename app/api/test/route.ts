@@ -1,13 +1,40 @@
 
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
-import { consumeGeneration } from '@/lib/creditsServer'
-import OpenAI from 'openai'
+import { chargeCredits, refundCredits } from '@/lib/credits'
+import { withQuota } from '@/lib/quotas'
+import { DEFAULT_TEST_QUESTIONS, MAX_TEST_QUESTIONS, quoteCredits } from '@/lib/pricing'
 import { z } from 'zod'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
+import { startAttempt } from '@/lib/testAttempts'
+import {
+  QUESTION_TYPES,
+  TEST_DIFFICULTIES,
+  normalizeQuestion,
+  planTypeCounts,
+  type QuestionType,
+  type TestDifficulty,
+  type TestQuestion,
+} from '@/lib/testQuestions'
 
 export const runtime = 'nodejs'
 
+const MIN_DURATION_MINUTES = 5
+const MAX_DURATION_MINUTES = 180
+
+const questionTypeSchema = z.enum(QUESTION_TYPES as [QuestionType, ...QuestionType[]])
+
+const requestSchema = z.object({
+  prompt: z.string().trim().min(1, 'Missing prompt'),
+  questionCount: z.number().int().min(1).max(MAX_TEST_QUESTIONS).optional(),
+  difficulty: z.enum(TEST_DIFFICULTIES as [TestDifficulty, ...TestDifficulty[]]).optional(),
+  /** Relative weights per question type, e.g. { mcq: 2, short: 1 }. */
+  typeMix: z.record(questionTypeSchema, z.number().min(0)).optional(),
+  durationMinutes: z.number().int().min(MIN_DURATION_MINUTES).max(MAX_DURATION_MINUTES).optional(),
+  /** 'exam' stores the test as an unstarted timed attempt and returns it without answers or explanations. */
+  mode: z.enum(['practice', 'exam']).optional(),
+})
+
 const testSchema = z.object({
   title: z.string(),
   language: z.string(),
@@ -15,10 +42,14 @@ const testSchema = z.object({
   questions: z.array(
     z.object({
       id: z.string().optional(),
-      type: z.enum(['mcq', 'short']),
+      type: questionTypeSchema,
       question: z.string(),
       options: z.array(z.string()).nullable().optional(),
-      answer: z.string(),
+      answer: z.string().nullable().optional(),
+      answers: z.array(z.string()).nullable().optional(),
+      pairs: z.array(z.object({ left: z.string(), right: z.string() })).nullable().optional(),
+      tolerance: z.number().nullable().optional(),
+      unit: z.string().nullable().optional(),
       explanation: z.string(),
     })
   ),
@@ -38,80 +69,122 @@ const testJsonSchema = {
         additionalProperties: false,
         properties: {
           id: { type: 'string' },
-          type: { type: 'string', enum: ['mcq', 'short'] },
+          type: { type: 'string', enum: QUESTION_TYPES },
           question: { type: 'string' },
           options: { type: ['array', 'null'], items: { type: 'string' } },
-          answer: { type: 'string' },
+          answer: { type: ['string', 'null'] },
+          answers: { type: ['array', 'null'], items: { type: 'string' } },
+          pairs: {
+            type: ['array', 'null'],
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: { left: { type: 'string' }, right: { type: 'string' } },
+              required: ['left', 'right'],
+            },
+          },
+          tolerance: { type: ['number', 'null'] },
+          unit: { type: ['string', 'null'] },
           explanation: { type: 'string' },
         },
-        required: ['type', 'question', 'answer', 'explanation'],
+        required: ['type', 'question', 'explanation'],
       },
     },
   },
   required: ['title', 'language', 'duration_minutes', 'questions'],
 }
 
-function normalizeTest(obj: any) {
-  const out: any = { ...(obj ?? {}) }
-  out.title = String(out.title ?? 'Practice test')
-  out.language = String(out.language ?? 'English')
-  out.duration_minutes = Number(out.duration_minutes ?? 20)
-  out.questions = Array.isArray(out.questions) ? out.questions : []
-
-  out.questions = out.questions.map((q: any, i: number) => ({
-    id: String(q?.id ?? `q${i + 1}`),
-    type: q?.type === 'short' ? 'short' : 'mcq',
-    question: String(q?.question ?? ''),
-    options:
-      q?.options === null
-        ? null
-        : Array.isArray(q?.options)
-          ? q.options.map(String)
-          : null,
-    answer: String(q?.answer ?? ''),
-    explanation: String(q?.explanation ?? ''),
-  }))
-
-  // Ensure minimum 15 questions
-  if (out.questions.length < 15) {
-    const need = 15 - out.questions.length
-    for (let i = 0; i < need; i++) {
-      out.questions.push({
-        id: `q${out.questions.length + 1}`,
-        type: 'short',
-        question: 'Explain the key concept in 2–3 sentences.',
-        options: null,
-        answer: '',
-        explanation: '',
-      })
-    }
-  }
+// How each type is written; only the requested types are described to the model.
+const TYPE_RULES: Record<QuestionType, string> = {
+  mcq: 'mcq: 4 options; answer is the correct option text or its letter.',
+  short: 'short: options null; answer is a short model answer naming the key points.',
+  true_false: 'true_false: a statement to judge; options null; answer "true" or "false".',
+  multi_select: 'multi_select: 4-6 options; answers lists every correct option text (at least one, usually 2-3).',
+  numeric: 'numeric: answer is the number only (digits, "." for decimals); tolerance is the accepted absolute error (0 for exact); unit or null.',
+  ordering: 'ordering: 3-6 items to put in order; answers lists them in the correct order; say in the question what the order is (e.g. earliest first).',
+  matching: 'matching: 3-6 pairs { left, right } with distinct right sides; the student matches each left to a right.',
+}
+
+const DIFFICULTY_RULES: Record<TestDifficulty, string> = {
+  easy: 'Easy: recall and direct application of one idea.',
+  medium: 'Medium: application with two or three steps.',
+  hard: 'Hard: multi-step problems, edge cases and transfer to new situations.',
+  mixed: 'Mixed: roughly a third easy, a third medium and a third hard, easiest first.',
+}
+
+/** Minutes a student typically needs per question of each type, for the default duration. */
+const MINUTES_PER_QUESTION: Record<QuestionType, number> = {
+  mcq: 1,
+  true_false: 0.5,
+  multi_select: 1.5,
+  numeric: 2,
+  short: 2,
+  ordering: 1.5,
+  matching: 2,
+}
 
-  return out
+function defaultDuration(counts: Partial<Record<QuestionType, number>>) {
+  const minutes = QUESTION_TYPES.reduce((sum, t) => sum + (counts[t] ?? 0) * MINUTES_PER_QUESTION[t], 0)
+  return Math.min(MAX_DURATION_MINUTES, Math.max(MIN_DURATION_MINUTES, Math.ceil(minutes / 5) * 5))
 }
 
+function normalizeTest(obj: any, options: { count: number; durationMinutes: number; difficulty: TestDifficulty }) {
+  const questions = (Array.isArray(obj?.questions) ? obj.questions : [])
+    .map((q: any, i: number) => normalizeQuestion(q, i))
+    .filter((q: TestQuestion | null): q is TestQuestion => q !== null)
+    .slice(0, options.count)
+
+  // Ids must be unique for answers to line up; renumber when the model repeats them.
+  const ids = new Set(questions.map((q: TestQuestion) => q.id))
+  const out: TestQuestion[] =
+    ids.size === questions.length ? questions : questions.map((q: TestQuestion, i: number) => ({ ...q, id: `q${i + 1}` }))
+
+  return {
+    title: String(obj?.title ?? 'Practice test'),
+    language: String(obj?.language ?? 'English'),
+    difficulty: options.difficulty,
+    duration_minutes: options.durationMinutes,
+    questions: out,
+  }
+}
+
+// POST { prompt, questionCount?, difficulty?, typeMix?, durationMinutes?, mode? }: generates a practice test.
+// Defaults: 20 questions, mixed difficulty, half mcq and half short, duration from the question mix.
+// The test is stored as an attempt (the answer key stays on the server): the response carries
+// `attemptId` and the questions without answers or explanations, which come back once it is submitted.
 export async function POST(req: Request) {
   try {
 
     const user = await requireUser(req)
-    await consumeGeneration(user.id)
-
-    const body = await req.json().catch(() => ({}))
-    const prompt = String(body?.prompt ?? '').trim()
-
-    if (!prompt) {
-     return NextResponse.json({ error: 'Missing prompt' }, { status: 400 })
 
+    const parsedBody = requestSchema.safeParse(await req.json().catch(() => ({})))
+    if (!parsedBody.success) {
+      const message = parsedBody.error.issues[0]?.message ?? 'Invalid request'
+      return NextResponse.json({ error: message }, { status: 400 })
     }
+    const body = parsedBody.data
+    const prompt = body.prompt
+    const count = body.questionCount ?? DEFAULT_TEST_QUESTIONS
+    const difficulty = body.difficulty ?? 'mixed'
+    const counts = planTypeCounts(count, body.typeMix ?? { mcq: 1, short: 1 })
+    const durationMinutes = body.durationMinutes ?? defaultDuration(counts)
+    const requestedTypes = QUESTION_TYPES.filter((t) => counts[t])
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      return NextResponse.json(mock(prompt))
-    }
+    return await withQuota(user.id, 'test', async () => {
+      const quote = quoteCredits('test', { questions: count })
+      // Charged up front so a user without credits never reaches the model; every failure below refunds it.
+      const requestId = crypto.randomUUID()
+      const credit = { feature: quote.feature, reference: requestId, idempotencyKey: `test:${requestId}` }
+      await chargeCredits(user.id, quote.credits, credit)
 
-    const openai = new OpenAI({ apiKey })
+      try {
+        if (!isLlmConfigured()) {
+          return await respond(user.id, normalizeTest(mock(prompt, counts), { count, durationMinutes, difficulty }), body.mode)
+        }
 
-    const system = `You are Umenify.
+        const llm = getLlm()
+
+        const system = `You are Umenify.
 Return ONLY valid JSON. No extra text.
 
 Math formatting (if the request is math/physics/chemistry):
@@ -124,57 +197,84 @@ Output keys:
 - title (string)
 - language (string)
 - duration_minutes (number)
-- questions (array of 15-20). Each question:
-  { id, type:"mcq"|"short", question, options|null, answer, explanation }
+- questions (array). Each question:
+  { id, type, question, options, answer, answers, pairs, tolerance, unit, explanation }
+  Fields a type does not use are null.
+
+Question types:
+${requestedTypes.map((t) => `- ${TYPE_RULES[t]}`).join('\n')}
 
 Rules:
 - Use Hungarian if the user writes Hungarian.
 - Make questions check understanding, not trivia.
-- For MCQ, provide 4 options and the correct answer letter or option text.
-- For short, provide a short model answer.`
-
-    const userText =
-      `Generate a practice test from this request.\n\n` +
-      `User request:\n${prompt}\n\n` +
-      `Guidelines:\n- 15-20 questions (minimum 15)\n- Mix MCQ and short answer\n- Provide answers and explanations\n- duration_minutes 15-25 unless user specifies`
-
-    const model = OPENAI_MODEL
-
-    const resp = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: 'system', content: system },
-        { role: 'user', content: userText },
-      ],
-      temperature: 0.2,
-      response_format: {
-        type: 'json_schema',
-        json_schema: { name: 'practice_test', schema: testJsonSchema },
-      },
-    })
+- Every question must have exactly one defensible correct answer under its type's rules.`
 
-    const raw = String(resp.choices?.[0]?.message?.content ?? '').trim()
-    const parsed = testSchema.parse(JSON.parse(raw))
-    const json = normalizeTest(parsed)
-    return NextResponse.json(json)
+        const userText =
+          `Generate a practice test from this request.\n\n` +
+          `User request:\n${prompt}\n\n` +
+          `Guidelines:\n` +
+          `- Exactly ${count} questions: ${requestedTypes.map((t) => `${counts[t]} ${t}`).join(', ')}\n` +
+          `- Difficulty: ${DIFFICULTY_RULES[difficulty]}\n` +
+          `- Provide answers and explanations\n` +
+          `- duration_minutes ${durationMinutes}`
+
+        const raw = await llm.complete({
+          task: 'test',
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: userText },
+          ],
+          temperature: 0.2,
+          jsonSchema: { name: 'practice_test', schema: testJsonSchema },
+        })
+
+        const parsed = testSchema.parse(JSON.parse(raw))
+        const json = normalizeTest(parsed, { count, durationMinutes, difficulty })
+        if (!json.questions.length) {
+          const err: any = new Error('The generated test had no usable questions. Try again.')
+          err.status = 502
+          throw err
+        }
+        return await respond(user.id, json, body.mode)
+      } catch (err: any) {
+        await refundCredits(user.id, quote.credits, credit).catch((refundErr: any) => {
+          console.error('test.refund_failed', { user_id: user.id, request_id: requestId, message: refundErr?.message ?? refundErr })
+        })
+        throw err
+      }
+    })
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message ?? 'Server error' }, { status: (e?.status ?? 400) })
+    return NextResponse.json({ error: e?.message ?? 'Server error', checkoutUrl: e?.checkoutUrl }, { status: (e?.status ?? 400) })
   }
 }
 
-function mock(prompt: string) {
+async function respond(userId: string, test: ReturnType<typeof normalizeTest>, mode: 'practice' | 'exam' = 'practice') {
+  const attempt = await startAttempt(userId, { test, mode, durationMinutes: test.duration_minutes })
+  return NextResponse.json({ ...test, mode, attemptId: attempt.id, questions: attempt.questions })
+}
+
+const MOCK_QUESTIONS: Record<QuestionType, (n: number) => Record<string, unknown>> = {
+  mcq: () => ({ options: ['A', 'B', 'C', 'D'], answer: 'A' }),
+  short: () => ({ answer: 'Short answer.' }),
+  true_false: (n) => ({ answer: n % 2 ? 'true' : 'false' }),
+  multi_select: () => ({ options: ['A', 'B', 'C', 'D'], answers: ['A', 'C'] }),
+  numeric: (n) => ({ answer: String(n * 2), tolerance: 0 }),
+  ordering: () => ({ answers: ['First', 'Second', 'Third'] }),
+  matching: () => ({ pairs: [{ left: '1', right: 'One' }, { left: '2', right: 'Two' }, { left: '3', right: 'Three' }] }),
+}
+
+function mock(prompt: string, counts: Partial<Record<QuestionType, number>>) {
   const hu = /\bmagyar\b|\bhu\b|\bhungarian\b/i.test(prompt)
+  const types = QUESTION_TYPES.flatMap((t) => Array.from({ length: counts[t] ?? 0 }, () => t))
   return {
     title: hu ? 'Gyakorló teszt (mock)' : 'Practice test (mock)',
     language: hu ? 'Hungarian' : 'English',
-    duration_minutes: 20,
-    questions: Array.from({ length: 15 }).map((_, i) => ({
+    questions: types.map((type, i) => ({
       id: `q${i + 1}`,
-      type: i % 3 === 0 ? 'short' : 'mcq',
+      type,
       question: hu ? `Kérdés ${i + 1}` : `Question ${i + 1}`,
-      options: i % 3 === 0 ? null : ['A', 'B', 'C', 'D'],
-      answer: i % 3 === 0 ? (hu ? 'Rövid válasz.' : 'Short answer.') : 'A',
       explanation: '',
+      ...MOCK_QUESTIONS[type](i + 1),
     })),
   }
 }
@@ -1,24 +1,22 @@
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
 import { consumeGeneration } from '@/lib/creditsServer'
-import OpenAI from 'openai'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { withQuota } from '@/lib/quotas'
+import { MAX_TTS_CHARS, quoteCredits } from '@/lib/pricing'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
 
 export const runtime = 'nodejs'
 
 // Simple Text-to-Speech endpoint.
-// Expects JSON: { text: string, voice?: string, format?: 'mp3'|'wav', model?: string }
+// Expects JSON: { text: string, voice?: string, format?: 'mp3'|'wav' }
 // Returns audio bytes.
 
 export async function POST(req: Request) {
   try {
     
     const user = await requireUser(req)
-    await consumeGeneration(user.id)
 
-
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
+    if (!isLlmConfigured()) {
       return NextResponse.json({ error: 'Missing OPENAI_API_KEY' }, { status: 400 })
     }
 
@@ -26,30 +24,23 @@ export async function POST(req: Request) {
     const text = String(body?.text ?? '').trim()
     if (!text) return NextResponse.json({ error: 'Missing text' }, { status: 400 })
 
-    const voice = String(body?.voice ?? 'alloy')
-    const format = (String(body?.format ?? 'mp3') === 'wav' ? 'wav' : 'mp3') as 'mp3' | 'wav'
-    const model = OPENAI_MODEL
-
-    const openai = new OpenAI({ apiKey })
-
-    // openai.audio.speech.create returns a Response-like object with arrayBuffer()
-    const audio = await openai.audio.speech.create({
-  model,
-  voice,
-  response_format: format, // pl. 'mp3' | 'wav' | 'opus' | 'aac' | 'flac'
-  input: text.slice(0, 4000),
-})
-
-
-    const buf = Buffer.from(await audio.arrayBuffer())
-    return new NextResponse(buf, {
-      status: 200,
-      headers: {
-        'Content-Type': format === 'wav' ? 'audio/wav' : 'audio/mpeg',
-        'Cache-Control': 'no-store',
-      },
+    return await withQuota(user.id, 'audio', async () => {
+      const quote = quoteCredits('tts', { chars: text.length })
+      await consumeGeneration(user.id, quote.feature, quote.credits)
+
+      const voice = String(body?.voice ?? 'alloy')
+      const format = (String(body?.format ?? 'mp3') === 'wav' ? 'wav' : 'mp3') as 'mp3' | 'wav'
+      const speech = await getLlm().speech({ text: text.slice(0, MAX_TTS_CHARS), voice, format })
+
+      return new NextResponse(new Uint8Array(speech.audio), {
+        status: 200,
+        headers: {
+          'Content-Type': speech.contentType,
+          'Cache-Control': 'no-store',
+        },
+      })
     })
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message ?? 'TTS error' }, { status: (e?.status ?? 400) })
+    return NextResponse.json({ error: e?.message ?? 'TTS error', checkoutUrl: e?.checkoutUrl }, { status: (e?.status ?? 400) })
   }
 }
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getCardAudio } from '@/lib/vocabAudio'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?setId=&cardId=&side=term|translation: { url, cached } for the card's pronunciation.
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const { searchParams } = new URL(req.url)
+    const setId = searchParams.get('setId') ?? ''
+    const cardId = searchParams.get('cardId') ?? ''
+    const side = searchParams.get('side') === 'translation' ? 'translation' : 'term'
+    if (!setId || !cardId) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected ?setId=&cardId=&side=term|translation' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const out = await getCardAudio(user.id, { setId, cardId, side })
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_AUDIO_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { listDueCards } from '@/lib/vocabReviews'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?setId=&limit=&tz=: today's review queue (tz = Date#getTimezoneOffset() of the client).
+export async function GET(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const { searchParams } = new URL(req.url)
+    const out = await listDueCards(user.id, {
+      setId: searchParams.get('setId') || null,
+      limit: Number(searchParams.get('limit') ?? '') || undefined,
+      tzOffsetMinutes: Number(searchParams.get('tz') ?? 0) || 0,
+    })
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_DUE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
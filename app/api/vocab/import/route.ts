@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { isApkg, readApkg } from '@/lib/ankiPackage'
+import { cleanItems, parseVocabText, type TextImportFormat } from '@/lib/vocabImport'
+import { createVocabSet } from '@/lib/vocabSets'
+import { defaultTargetFor, detectLanguage, isVocabLanguage } from '@/lib/vocabLanguages'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_FILE_BYTES = 20 * 1024 * 1024
+const TEXT_FORMATS: TextImportFormat[] = ['auto', 'csv', 'tsv', 'quizlet']
+
+function importError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+// POST multipart { file | text, format?, sourceLang, targetLang }: saves the list as a new set.
+// Nothing is generated, so no quota or credits are used.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const form = await req.formData()
+    const requestedSource = String(form.get('sourceLang') ?? 'auto')
+    const requestedTarget = String(form.get('targetLang') ?? 'hu')
+    const rawFormat = String(form.get('format') ?? 'auto')
+    const file = form.get('file')
+
+    let items
+    if (file && typeof file !== 'string') {
+      if (file.size > MAX_FILE_BYTES) importError('FILE_TOO_LARGE', 'The file is larger than 20 MB', 413)
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      if (rawFormat === 'apkg' || file.name.toLowerCase().endsWith('.apkg') || isApkg(bytes)) {
+        items = cleanItems(await readApkg(bytes))
+      } else {
+        const format = file.name.toLowerCase().endsWith('.tsv') ? 'tsv' : rawFormat
+        items = parseVocabText(new TextDecoder().decode(bytes), TEXT_FORMATS.includes(format as TextImportFormat) ? (format as TextImportFormat) : 'auto')
+      }
+    } else {
+      const text = String(form.get('text') ?? '').trim()
+      if (!text) importError('INVALID_REQUEST', 'Upload a file or paste a word list', 400)
+      items = parseVocabText(text, TEXT_FORMATS.includes(rawFormat as TextImportFormat) ? (rawFormat as TextImportFormat) : 'auto')
+    }
+
+    if (!items.length) {
+      importError('NOTHING_TO_IMPORT', 'No term–translation pairs found. Use two columns: term and translation.', 400)
+    }
+
+    // 'auto' picks the source language from the imported terms.
+    const sourceLang = isVocabLanguage(requestedSource)
+      ? requestedSource
+      : detectLanguage(items.map((it) => it.term).join('\n')) ?? 'en'
+    let targetLang = isVocabLanguage(requestedTarget) ? requestedTarget : 'hu'
+    if (targetLang === sourceLang) targetLang = defaultTargetFor(sourceLang)
+
+    const set = await createVocabSet(user.id, { sourceLang, targetLang, cards: items })
+    return NextResponse.json({ set, imported: set.cards.length }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_IMPORT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
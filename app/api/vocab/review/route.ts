@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { REVIEW_GRADES } from '@/lib/srs'
+import { recordReview } from '@/lib/vocabReviews'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  setId: z.string().min(1),
+  cardId: z.string().min(1),
+  grade: z.enum(['again', 'hard', 'good', 'easy']),
+})
+
+// POST { setId, cardId, grade }: stores the answer and returns the card's next SRS state.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: `Expected { setId, cardId, grade: ${REVIEW_GRADES.join(' | ')} }` } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const state = await recordReview(user.id, parsed.data)
+    return NextResponse.json({ ok: true, state }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_REVIEW_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -1,10 +1,19 @@
 import { NextResponse } from 'next/server'
 import { requireUser } from '@/lib/authServer'
 import { consumeGeneration } from '@/lib/creditsServer'
+import { withQuota } from '@/lib/quotas'
+import { MAX_VOCAB_IMAGES, quoteCredits } from '@/lib/pricing'
 import { supabaseAdmin } from '@/lib/supabaseServer'
-import OpenAI from 'openai'
 import { z } from 'zod'
-import { OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured, type LlmProvider } from '@/lib/llm'
+import {
+  AUTO_LANGUAGE,
+  VOCAB_LANGUAGES,
+  defaultTargetFor,
+  detectLanguage,
+  isVocabLanguage,
+  vocabLanguageLabel,
+} from '@/lib/vocabLanguages'
 
 export const runtime = 'nodejs'
 
@@ -19,6 +28,7 @@ function isBucketMissingError(err: any) {
 const vocabSchema = z.object({
   title: z.string(),
   language: z.string(),
+  source_lang: z.string().optional(),
   items: z.array(
     z.object({
       term: z.string(),
@@ -34,6 +44,7 @@ const vocabJsonSchema = {
   properties: {
     title: { type: 'string' },
     language: { type: 'string' },
+    source_lang: { type: 'string', enum: VOCAB_LANGUAGES.map((l) => l.code) },
     items: {
       type: 'array',
       items: {
@@ -48,7 +59,7 @@ const vocabJsonSchema = {
       },
     },
   },
-  required: ['title', 'language', 'items'],
+  required: ['title', 'language', 'source_lang', 'items'],
 }
 
 const ocrSchema = z.object({
@@ -80,18 +91,6 @@ function normalize(payload: any) {
   return out
 }
 
-function langLabel(code: string) {
-  const map: Record<string, string> = {
-    en: 'English',
-    hu: 'Hungarian',
-    de: 'German',
-    es: 'Spanish',
-    it: 'Italian',
-    la: 'Latin',
-  }
-  return map[code] ?? code
-}
-
 function pickErrorInfo(e: any) {
   const status = Number(e?.status) || Number(e?.response?.status) || 500
   const code = e?.code || e?.error?.code || null
@@ -121,28 +120,25 @@ async function downloadPathsAsImages(paths: string[]) {
   return images
 }
 
-async function extractTextFromImages(openai: OpenAI, model: string, images: Array<{ mime: string; b64: string }>) {
+async function extractTextFromImages(llm: LlmProvider, images: Array<{ mime: string; b64: string }>) {
   if (!images.length) return ''
 
-  const userContent: any[] = [{ type: 'text', text: 'Extract ALL readable words / term-translation pairs from these images. Preserve order. Return plain text only.' }]
-  for (const img of images.slice(0, 10)) {
-    userContent.push({ type: 'image_url', image_url: { url: `data:${img.mime};base64,${img.b64}` } })
-  }
-
-  const resp = await openai.chat.completions.create({
-    model,
+  const raw = await llm.complete({
+    task: 'vocab.ocr',
     messages: [
       { role: 'system', content: 'You are a careful OCR extractor. Return ONLY valid JSON matching the schema.' },
-      { role: 'user', content: userContent as any },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Extract ALL readable words / term-translation pairs from these images. Preserve order. Return plain text only.' },
+          ...images.slice(0, MAX_VOCAB_IMAGES).map((image) => ({ type: 'image' as const, image })),
+        ],
+      },
     ],
     temperature: 0,
-    response_format: {
-      type: 'json_schema',
-      json_schema: { name: 'ocr_result', schema: ocrJsonSchema },
-    },
+    jsonSchema: { name: 'ocr_result', schema: ocrJsonSchema },
   })
 
-  const raw = String(resp.choices?.[0]?.message?.content ?? '').trim()
   const parsed = ocrSchema.parse(JSON.parse(raw))
   return String(parsed.extracted_text || '').trim()
 }
@@ -151,95 +147,114 @@ export async function POST(req: Request) {
   try {
     const user = await requireUser(req)
 
-    // credits (1 generation per request)
-    await consumeGeneration(user.id)
-
     const form = await req.formData()
     const words = String(form.get('words') ?? '').trim()
-    const sourceLang = String(form.get('sourceLang') ?? 'en')
-    const targetLang = String(form.get('targetLang') ?? 'hu')
+    const requestedSource = String(form.get('sourceLang') ?? AUTO_LANGUAGE)
+    let targetLang = String(form.get('targetLang') ?? 'hu')
+    if (!isVocabLanguage(targetLang)) targetLang = 'hu'
+    // 'auto' (or an unknown code) is resolved from the typed words and OCR text, else by the model.
+    let sourceLang = isVocabLanguage(requestedSource) ? requestedSource : AUTO_LANGUAGE
 
     const uploadPathsRaw = String(form.get('uploadPaths') ?? '').trim()
     const uploadPaths = uploadPathsRaw ? (JSON.parse(uploadPathsRaw) as string[]) : []
 
-    const apiKey = process.env.OPENAI_API_KEY
-    if (!apiKey) {
-      const lines = words.split(/\n/).filter(Boolean).slice(0, 20)
-      return NextResponse.json({
-        title: 'Vocab set (mock)',
-        language: `${sourceLang} → ${targetLang}`,
-        items: lines.map((l, i) => ({
-          term: l.split('-')[0]?.trim() || `word${i + 1}`,
-          translation: 'fordítás',
-          example: 'Example sentence.',
-        })),
-      })
-    }
+    return await withQuota(user.id, 'vocab', async () => {
+      const quote = quoteCredits('vocab', { images: Math.min(uploadPaths.length, MAX_VOCAB_IMAGES) })
+      await consumeGeneration(user.id, quote.feature, quote.credits)
+
+      if (!isLlmConfigured()) {
+        const detectedSourceLang = detectLanguage(words)
+        if (sourceLang === AUTO_LANGUAGE) sourceLang = detectedSourceLang ?? 'en'
+        if (sourceLang === targetLang) targetLang = defaultTargetFor(sourceLang)
+        const lines = words.split(/\n/).filter(Boolean).slice(0, 20)
+        return NextResponse.json({
+          title: 'Vocab set (mock)',
+          language: `${sourceLang} → ${targetLang}`,
+          sourceLang,
+          targetLang,
+          detectedSourceLang,
+          items: lines.map((l, i) => ({
+            term: l.split('-')[0]?.trim() || `word${i + 1}`,
+            translation: 'fordítás',
+            example: 'Example sentence.',
+          })),
+        })
+      }
 
-    const openai = new OpenAI({ apiKey })
-    const model = OPENAI_MODEL
-
-    // If there are many images, do OCR in batches, then build the final set from text.
-    let extractedText = ''
-    const paths = Array.isArray(uploadPaths) ? uploadPaths.slice(0, 40) : []
-    if (paths.length) {
-      const BATCH = 8
-      for (let i = 0; i < paths.length; i += BATCH) {
-        const chunk = paths.slice(i, i + BATCH)
-        const imgs = await downloadPathsAsImages(chunk)
-        const t = await extractTextFromImages(openai, model, imgs)
-        if (t) extractedText += (extractedText ? '\n\n' : '') + t
+      const llm = getLlm()
+
+      // If there are many images, do OCR in batches, then build the final set from text.
+      let extractedText = ''
+      const paths = Array.isArray(uploadPaths) ? uploadPaths.slice(0, 40) : []
+      if (paths.length) {
+        const BATCH = 8
+        for (let i = 0; i < paths.length; i += BATCH) {
+          const chunk = paths.slice(i, i + BATCH)
+          const imgs = await downloadPathsAsImages(chunk)
+          const t = await extractTextFromImages(llm, imgs)
+          if (t) extractedText += (extractedText ? '\n\n' : '') + t
+        }
       }
-    }
 
-    const src = langLabel(sourceLang)
-    const tgt = langLabel(targetLang)
+      const detected = detectLanguage([words, extractedText].filter(Boolean).join('\n'))
+      if (sourceLang === AUTO_LANGUAGE && detected) sourceLang = detected
+      if (sourceLang === targetLang) targetLang = defaultTargetFor(sourceLang)
 
-    const system = `You are Umenify Vocab.
+      const src = sourceLang === AUTO_LANGUAGE ? 'the language of the input (detect it)' : vocabLanguageLabel(sourceLang)
+      const tgt = vocabLanguageLabel(targetLang)
 
-Return ONLY a JSON object with this exact shape:
-{
-  "title": string,
-  "language": string,
-  "items": [{"term": string, "translation": string, "example"?: string}]
-}
+      const system = `You are Umenify Vocab.
 
-Rules:
-- Translate FROM sourceLang TO targetLang.
-- If the input already contains correct "term - translation" pairs in this direction, preserve them.
-- Do not invent words not present unless the source text is unreadable (then note "(unclear)" in example).
-- Provide a short example sentence for ~30-60% of items (optional).`
-
-    const combined = [
-      `Direction: ${src} → ${tgt}`,
-      words ? `Typed input:\n${words}` : 'Typed input: (none)',
-      extractedText ? `Extracted from images:\n${extractedText}` : 'Extracted from images: (none)',
-      `sourceLang=${sourceLang}, targetLang=${targetLang}`,
-    ].join('\n\n')
-
-    const resp = await openai.chat.completions.create({
-      model,
-      messages: [
-        { role: 'system', content: system },
-        { role: 'user', content: combined },
-      ],
-      temperature: 0.3,
-      response_format: {
-        type: 'json_schema',
-        json_schema: { name: 'vocab_set', schema: vocabJsonSchema },
-      },
-    })
+  Return ONLY a JSON object with this exact shape:
+  {
+    "title": string,
+    "language": string,
+    "source_lang": string,
+    "items": [{"term": string, "translation": string, "example"?: string}]
+  }
 
-    const raw = String(resp.choices?.[0]?.message?.content ?? '').trim()
-    const parsed = vocabSchema.parse(JSON.parse(raw))
-    const normalized = normalize(parsed)
-    if (!normalized.language) normalized.language = `${src} → ${tgt}`
+  Rules:
+  - Translate FROM sourceLang TO targetLang.
+  - "source_lang" is the language code of the terms as written in the input. If sourceLang=auto, detect it.
+  - If the input already contains correct "term - translation" pairs in this direction, preserve them.
+  - Keep every word in its own script (Cyrillic, Greek, Arabic, Hebrew, CJK, ...). Never transliterate terms; for a
+    non-Latin target language write the translation in that language's script.
+  - Do not invent words not present unless the source text is unreadable (then note "(unclear)" in example).
+  - Provide a short example sentence for ~30-60% of items (optional).`
+
+      const combined = [
+        `Direction: ${src} → ${tgt}`,
+        words ? `Typed input:\n${words}` : 'Typed input: (none)',
+        extractedText ? `Extracted from images:\n${extractedText}` : 'Extracted from images: (none)',
+        `sourceLang=${sourceLang}, targetLang=${targetLang}`,
+      ].join('\n\n')
+
+      const raw = await llm.complete({
+        task: 'vocab',
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: combined },
+        ],
+        temperature: 0.3,
+        jsonSchema: { name: 'vocab_set', schema: vocabJsonSchema },
+      })
 
-    return NextResponse.json(normalized, { headers: { 'x-examly-vocab': 'ok' } })
+      const parsed = vocabSchema.parse(JSON.parse(raw))
+      const { source_lang: modelSource, ...payload } = parsed
+      const normalized = normalize(payload)
+      const detectedSourceLang = detected ?? (modelSource && isVocabLanguage(modelSource) ? modelSource : null)
+      if (sourceLang === AUTO_LANGUAGE) sourceLang = detectedSourceLang ?? 'en'
+      if (!normalized.language) normalized.language = `${vocabLanguageLabel(sourceLang)} → ${tgt}`
+
+      return NextResponse.json(
+        { ...normalized, sourceLang, targetLang, detectedSourceLang },
+        { headers: { 'x-examly-vocab': 'ok' } }
+      )
+    })
   } catch (e: any) {
     const info = pickErrorInfo(e)
     return NextResponse.json(
-      { error: info.message, code: info.code, type: info.type, status: info.status, where: 'api/vocab' },
+      { error: info.message, code: info.code, type: info.type, status: info.status, where: 'api/vocab', checkoutUrl: e?.checkoutUrl },
       { status: info.status }
     )
   }
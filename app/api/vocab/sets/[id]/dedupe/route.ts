@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { dedupeSet } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// POST: removes repeated terms (case-insensitive), keeping the first card of each.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const out = await dedupeSet(user.id, params.id)
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_EDIT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { buildApkg } from '@/lib/ankiPackage'
+import { toCsv } from '@/lib/vocabImport'
+import { getVocabSet } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// GET ?format=csv|apkg: downloads one of the user's saved sets.
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const format = new URL(req.url).searchParams.get('format') === 'apkg' ? 'apkg' : 'csv'
+    const set = await getVocabSet(user.id, params.id)
+    const name = `umenify-${set.sourceLang}-${set.targetLang}-${set.createdAt.slice(0, 10)}`
+
+    if (format === 'csv') {
+      return new NextResponse(toCsv(set.cards), {
+        headers: {
+          'content-type': 'text/csv; charset=utf-8',
+          'content-disposition': `attachment; filename="${name}.csv"`,
+          'cache-control': 'no-store',
+        },
+      })
+    }
+
+    const apkg = await buildApkg({
+      deckName: `Umenify ${set.sourceLang.toUpperCase()}→${set.targetLang.toUpperCase()} ${set.createdAt.slice(0, 10)}`,
+      guidSeed: set.id,
+      items: set.cards,
+    })
+    return new NextResponse(Buffer.from(apkg), {
+      headers: {
+        'content-type': 'application/octet-stream',
+        'content-disposition': `attachment; filename="${name}.apkg"`,
+        'cache-control': 'no-store',
+      },
+    })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_EXPORT_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
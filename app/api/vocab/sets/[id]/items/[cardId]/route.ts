@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { deleteCard, updateCard } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Params = { params: { id: string; cardId: string } }
+
+const bodySchema = z
+  .object({
+    term: z.string().optional(),
+    translation: z.string().optional(),
+    example: z.string().nullable().optional(),
+  })
+  .refine((v) => v.term !== undefined || v.translation !== undefined || v.example !== undefined)
+
+function errorResponse(e: any) {
+  return NextResponse.json(
+    { error: { code: e?.code ?? 'VOCAB_EDIT_FAILED', message: e?.message ?? 'Server error' } },
+    { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+  )
+}
+
+// PATCH { term?, translation?, example? }: edits one card; its review history is kept.
+export async function PATCH(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { term?, translation?, example? }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const set = await updateCard(user.id, params.id, params.cardId, parsed.data)
+    return NextResponse.json({ set }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return errorResponse(e)
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  try {
+    const user = await requireUser(req)
+    const set = await deleteCard(user.id, params.id, params.cardId)
+    return NextResponse.json({ set }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return errorResponse(e)
+  }
+}
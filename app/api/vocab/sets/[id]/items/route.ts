@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { addCards, reorderCards } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const cardSchema = z.object({
+  term: z.string(),
+  translation: z.string(),
+  example: z.string().nullable().optional(),
+})
+
+const addSchema = z.union([z.object({ items: z.array(cardSchema).min(1).max(300) }), cardSchema])
+
+const orderSchema = z.object({ cardIds: z.array(z.string().min(1)).max(300) })
+
+function errorResponse(e: any) {
+  return NextResponse.json(
+    { error: { code: e?.code ?? 'VOCAB_EDIT_FAILED', message: e?.message ?? 'Server error' } },
+    { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+  )
+}
+
+function invalid(message: string) {
+  return NextResponse.json(
+    { error: { code: 'INVALID_REQUEST', message } },
+    { status: 400, headers: { 'cache-control': 'no-store' } }
+  )
+}
+
+// POST { term, translation, example? } or { items: [...] }: appends cards; terms already in the set are skipped.
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const parsed = addSchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) return invalid('Expected { term, translation, example? } or { items: [...] }')
+    const items = 'items' in parsed.data ? parsed.data.items : [parsed.data]
+    const out = await addCards(user.id, params.id, items)
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return errorResponse(e)
+  }
+}
+
+// PUT { cardIds }: reorders the set; every card id must be listed once.
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const parsed = orderSchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) return invalid('Expected { cardIds: string[] }')
+    const set = await reorderCards(user.id, params.id, parsed.data.cardIds)
+    return NextResponse.json({ set }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return errorResponse(e)
+  }
+}
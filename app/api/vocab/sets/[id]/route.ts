@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { getVocabSet } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    const user = await requireUser(req)
+    const set = await getVocabSet(user.id, params.id)
+    return NextResponse.json({ set }, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_SET_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireUser } from '@/lib/authServer'
+import { mergeVocabSets } from '@/lib/vocabSets'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const bodySchema = z.object({
+  fromSetId: z.string().min(1),
+  intoSetId: z.string().min(1),
+  deleteSource: z.boolean().optional(),
+})
+
+// POST { fromSetId, intoSetId, deleteSource? }: appends the terms `intoSetId` lacks.
+// deleteSource (default true) moves the cards with their review history and deletes the source set.
+export async function POST(req: Request) {
+  try {
+    const user = await requireUser(req)
+    const parsed = bodySchema.safeParse(await req.json().catch(() => null))
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: { code: 'INVALID_REQUEST', message: 'Expected { fromSetId, intoSetId, deleteSource? }' } },
+        { status: 400, headers: { 'cache-control': 'no-store' } }
+      )
+    }
+    const out = await mergeVocabSets(user.id, { ...parsed.data, deleteSource: parsed.data.deleteSource ?? true })
+    return NextResponse.json(out, { headers: { 'cache-control': 'no-store' } })
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: { code: e?.code ?? 'VOCAB_MERGE_FAILED', message: e?.message ?? 'Server error' } },
+      { status: e?.status ?? 500, headers: { 'cache-control': 'no-store' } }
+    )
+  }
+}
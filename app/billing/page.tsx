@@ -1,10 +1,60 @@
 'use client'
 
-import { useEffect, useMemo, useState } from 'react'
+import { useEffect, useState } from 'react'
 import AuthGate from '@/components/AuthGate'
-import { Button, Card } from '@/components/ui'
-import { Loader2, Lock, Zap } from 'lucide-react'
+import { Button, Card, Input } from '@/components/ui'
+import { CalendarClock, Copy, Download, Gift, Loader2, Lock, Receipt, RefreshCw, Zap } from 'lucide-react'
+import { authedFetch } from '@/lib/authClient'
 import { supabase } from '@/lib/supabaseClient'
+import {
+  CREDIT_PACKS,
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  DEFAULT_PACK_KEY,
+  defaultPack,
+  formatPackPrice,
+  getPack,
+  isCurrency,
+  type CreditPackKey,
+  type Currency,
+} from '@/lib/creditPacks'
+
+type SubscriptionInfo = {
+  id: string
+  plan: string | null
+  status: string
+  creditsPerPeriod: number
+  currentPeriodEnd: string | null
+  cancelAtPeriodEnd: boolean
+  active: boolean
+}
+
+type PurchaseInfo = {
+  id: string
+  description: string
+  receiptNumber: string
+  credits: number
+  amountLabel: string | null
+  createdAt: string
+}
+
+type ReferralInfo = {
+  code: string
+  link: string | null
+  invited: number
+  rewarded: number
+  creditsEarned: number
+  inviterCredits: number
+  inviteeCredits: number
+  referredBy: { status: string } | null
+}
+
+type SubscriptionPlanInfo = {
+  key: string
+  name: string
+  creditsPerPeriod: number
+  priceLabel: string
+}
 
 export default function BillingPage() {
   return (
@@ -18,18 +68,8 @@ function Inner() {
   const [loading, setLoading] = useState(false)
   const [msg, setMsg] = useState<string | null>(null)
   const [canceled, setCanceled] = useState(false)
-
-  const paymentLink = useMemo(() => {
-    const isProd = process.env.NODE_ENV === 'production'
-    const raw = isProd ? process.env.NEXT_PUBLIC_STRIPE_PAYMENT_LINK : process.env.NEXT_PUBLIC_STRIPE_PAYMENT_LINK_DEV
-    return (raw || '').trim()
-  }, [])
-
-  useEffect(() => {
-    if (!paymentLink) {
-      setMsg('Billing is not configured (missing Stripe payment link).')
-    }
-  }, [paymentLink])
+  const [currency, setCurrency] = useState<Currency>(DEFAULT_CURRENCY)
+  const [packKey, setPackKey] = useState<CreditPackKey>(DEFAULT_PACK_KEY)
 
   useEffect(() => {
     if (typeof window === 'undefined') return
@@ -37,60 +77,85 @@ function Inner() {
     if (p.get('canceled')) setCanceled(true)
   }, [])
 
-  async function go() {
-    setMsg(null)
-    setLoading(true)
-    try {
-      if (!paymentLink) throw new Error('Billing is not configured (missing Stripe payment link).')
-
-      let email: string | null = null
-      let userId: string | null = null
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
       try {
-        const { data } = await supabase.auth.getUser()
-        email = data?.user?.email ?? null
-        userId = data?.user?.id ?? null
+        const res = await authedFetch('/api/billing/packs', { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (alive && res.ok && isCurrency(json?.currency)) setCurrency(json.currency)
       } catch {
-        // ignore
-      }
-      if (!email) {
-        throw new Error('Missing email for payment.')
+        // Keep the default currency.
       }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
 
-      const url = new URL(paymentLink)
-      if (!url.searchParams.get('prefilled_email')) {
-        url.searchParams.set('prefilled_email', email)
-      }
-      if (userId && !url.searchParams.get('client_reference_id')) {
-        url.searchParams.set('client_reference_id', userId)
-      }
+  const selected = getPack(packKey) ?? CREDIT_PACKS[0]
 
-      window.location.href = url.toString()
+  async function go() {
+    setMsg(null)
+    setLoading(true)
+    try {
+      const res = await authedFetch('/api/stripe/checkout', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ pack: selected.key, currency }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok || !json?.url) throw new Error(json?.error?.message ?? json?.error ?? 'Billing error')
+      window.location.href = json.url
     } catch (e: any) {
       setMsg(e?.message ?? 'Billing error')
-    } finally {
       setLoading(false)
     }
   }
 
   return (
-    <div className="mx-auto max-w-2xl px-4 py-16">
+    <div className="mx-auto max-w-2xl px-4 py-16 space-y-6">
+      <SubscriptionCard />
       <Card>
         <div className="flex items-center gap-2 text-white/90">
           <Zap size={18} />
-          <div className="text-xs uppercase tracking-[0.18em] text-white/55">Pro credits</div>
+          <div className="text-xs uppercase tracking-[0.18em] text-white/55">Credit packs</div>
+          <div className="ml-auto flex gap-1">
+            {CURRENCIES.map((c) => (
+              <Button key={c} variant={currency === c ? 'primary' : 'ghost'} onClick={() => setCurrency(c)} disabled={loading}>
+                {c.toUpperCase()}
+              </Button>
+            ))}
+          </div>
         </div>
-        <h1 className="mt-3 text-3xl font-semibold tracking-tight">20 generations</h1>
+        <h1 className="mt-3 text-3xl font-semibold tracking-tight">{selected.credits} generations</h1>
         <p className="mt-3 text-white/70">
-          One-time purchase of 20 credits. After your first purchase, Umenify can auto-recharge another 20 when you run out
-          (best-effort; some banks may require confirmation).
+          One-time purchase, no subscription. With auto-recharge on, Umenify buys another {defaultPack().credits} when you run
+          out (best-effort; some banks may require confirmation).
         </p>
 
+        <div className="mt-5 grid gap-3 sm:grid-cols-3">
+          {CREDIT_PACKS.map((pack) => (
+            <button
+              key={pack.key}
+              type="button"
+              onClick={() => setPackKey(pack.key)}
+              className={`rounded-xl border p-4 text-left ${
+                pack.key === selected.key ? 'border-white/60 bg-white/[0.06]' : 'border-white/10 bg-white/[0.02]'
+              }`}
+            >
+              <div className="font-medium text-white">{pack.credits} credits</div>
+              <div className="mt-1 text-sm text-white/70">{formatPackPrice(pack, currency)}</div>
+            </button>
+          ))}
+        </div>
+
         <div className="mt-6 flex flex-wrap items-center gap-3">
-          <Button onClick={go} disabled={loading || !paymentLink} className="gap-2">
+          <Button onClick={go} disabled={loading} className="gap-2">
             {loading ? <Loader2 className="animate-spin" size={16} /> : <Lock size={16} />}
             Continue to payment
           </Button>
-          <span className="text-xs text-white/50">Price: 3490 Ft (≈ €8.9)</span>
+          <span className="text-xs text-white/50">Price: {formatPackPrice(selected, currency)}</span>
         </div>
 
         {canceled && <p className="mt-4 text-sm text-white/70">Payment canceled. No worries, you can try again.</p>}
@@ -107,6 +172,446 @@ function Inner() {
           </ul>
         </div>
       </Card>
+      <AutoRechargeCard />
+      <RewardsCard />
+      <PurchaseHistoryCard />
     </div>
   )
 }
+
+function SubscriptionCard() {
+  const [subscription, setSubscription] = useState<SubscriptionInfo | null>(null)
+  const [plans, setPlans] = useState<SubscriptionPlanInfo[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const res = await authedFetch('/api/billing/subscription', { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (!alive) return
+        if (!res.ok) throw new Error(json?.error?.message ?? 'Could not load subscription')
+        setSubscription(json?.subscription ?? null)
+        setPlans(Array.isArray(json?.plans) ? json.plans : [])
+      } catch (e: any) {
+        if (alive) setMsg(e?.message ?? 'Could not load subscription')
+      } finally {
+        if (alive) setLoaded(true)
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  async function redirect(path: string, body: Record<string, any> | null, key: string) {
+    setMsg(null)
+    setBusy(key)
+    try {
+      const res = await authedFetch(path, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(body ?? {}),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok || !json?.url) throw new Error(json?.error?.message ?? 'Billing error')
+      window.location.href = json.url
+    } catch (e: any) {
+      setMsg(e?.message ?? 'Billing error')
+      setBusy(null)
+    }
+  }
+
+  if (!loaded) return null
+  if (!subscription?.active && !plans.length) return null
+
+  const periodEnd = subscription?.currentPeriodEnd ? new Date(subscription.currentPeriodEnd).toLocaleDateString() : null
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 text-white/90">
+        <CalendarClock size={18} />
+        <div className="text-xs uppercase tracking-[0.18em] text-white/55">Monthly subscription</div>
+      </div>
+
+      {subscription?.active ? (
+        <>
+          <h2 className="mt-3 text-2xl font-semibold tracking-tight">
+            {subscription.plan ? subscription.plan[0].toUpperCase() + subscription.plan.slice(1) : 'Subscription'} ·{' '}
+            {subscription.creditsPerPeriod} credits / month
+          </h2>
+          <p className="mt-2 text-sm text-white/70">
+            {subscription.status === 'past_due'
+              ? 'Your last payment failed. Update your card to keep your monthly credits.'
+              : subscription.cancelAtPeriodEnd
+                ? `Canceled — stays active until ${periodEnd ?? 'the end of the period'}.`
+                : `Renews on ${periodEnd ?? '—'}.`}
+          </p>
+          <div className="mt-5">
+            <Button variant="ghost" onClick={() => redirect('/api/billing/portal', null, 'portal')} disabled={busy !== null} className="gap-2">
+              {busy === 'portal' ? <Loader2 className="animate-spin" size={16} /> : null}
+              {subscription.cancelAtPeriodEnd ? 'Resume subscription' : 'Manage or cancel'}
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="mt-3 text-white/70">Get a fresh credit allowance every month. Cancel anytime.</p>
+          <div className="mt-5 grid gap-3 sm:grid-cols-2">
+            {plans.map((plan) => (
+              <div key={plan.key} className="rounded-xl border border-white/10 bg-white/[0.02] p-4">
+                <div className="font-medium text-white">{plan.name}</div>
+                <div className="mt-1 text-sm text-white/70">{plan.creditsPerPeriod} credits / month</div>
+                <div className="mt-1 text-xs text-white/50">{plan.priceLabel}</div>
+                <Button
+                  className="mt-4 w-full gap-2"
+                  onClick={() => redirect('/api/billing/subscription', { plan: plan.key }, plan.key)}
+                  disabled={busy !== null}
+                >
+                  {busy === plan.key ? <Loader2 className="animate-spin" size={16} /> : null}
+                  Subscribe
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {msg && <p className="mt-4 text-sm text-red-400">{msg}</p>}
+    </Card>
+  )
+}
+
+function AutoRechargeCard() {
+  const [settings, setSettings] = useState<{ enabled: boolean; card: { brand: string; last4: string } | null } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const res = await authedFetch('/api/billing/auto-recharge', { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (alive && res.ok) setSettings({ enabled: !!json?.enabled, card: json?.card ?? null })
+      } catch {
+        // Billing page still works without the toggle.
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  async function toggle(next: boolean) {
+    setMsg(null)
+    setSaving(true)
+    try {
+      const res = await authedFetch('/api/billing/auto-recharge', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ enabled: next }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not update auto-recharge')
+      if (json?.setupUrl) {
+        window.location.href = json.setupUrl
+        return
+      }
+      setSettings((prev) => ({ enabled: !!json?.enabled, card: prev?.card ?? null }))
+    } catch (e: any) {
+      setMsg(e?.message ?? 'Could not update auto-recharge')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!settings) return null
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 text-white/90">
+        <RefreshCw size={18} />
+        <div className="text-xs uppercase tracking-[0.18em] text-white/55">Auto-recharge</div>
+      </div>
+      <p className="mt-3 text-sm text-white/70">
+        When you run out mid-generation, buy another {defaultPack().credits} credits with your saved card and keep going. If your bank asks for
+        confirmation, you get a payment link instead.
+      </p>
+      <label className="mt-4 flex items-center gap-3 text-sm text-white">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          disabled={saving}
+          onChange={(e) => toggle(e.target.checked)}
+        />
+        {settings.enabled ? 'On' : 'Off'}
+        {settings.card ? (
+          <span className="text-white/50">
+            {settings.card.brand.toUpperCase()} •••• {settings.card.last4}
+          </span>
+        ) : (
+          <span className="text-white/50">You will be asked to save a card.</span>
+        )}
+        {saving ? <Loader2 className="animate-spin" size={14} /> : null}
+      </label>
+      {msg && <p className="mt-3 text-sm text-red-400">{msg}</p>}
+    </Card>
+  )
+}
+
+function PurchaseHistoryCard() {
+  const [purchases, setPurchases] = useState<PurchaseInfo[] | null>(null)
+  const [downloading, setDownloading] = useState<string | null>(null)
+  const [msg, setMsg] = useState<string | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const res = await authedFetch('/api/billing/purchases', { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (alive && res.ok) setPurchases(Array.isArray(json?.purchases) ? json.purchases : [])
+      } catch {
+        // History is optional on this page.
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  async function download(purchase: PurchaseInfo) {
+    setMsg(null)
+    setDownloading(purchase.id)
+    try {
+      const res = await authedFetch(`/api/billing/purchases/${encodeURIComponent(purchase.id)}/receipt`, { cache: 'no-store' })
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({} as any))
+        throw new Error(json?.error?.message ?? 'Could not download receipt')
+      }
+      const url = URL.createObjectURL(await res.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `receipt-${purchase.receiptNumber}.pdf`
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (e: any) {
+      setMsg(e?.message ?? 'Could not download receipt')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  if (!purchases?.length) return null
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 text-white/90">
+        <Receipt size={18} />
+        <div className="text-xs uppercase tracking-[0.18em] text-white/55">Purchase history</div>
+      </div>
+      <div className="mt-4 divide-y divide-white/10 text-sm">
+        {purchases.map((p) => (
+          <div key={p.id} className="flex flex-wrap items-center gap-x-4 gap-y-1 py-3">
+            <div className="text-white/60">{new Date(p.createdAt).toLocaleDateString()}</div>
+            <div className="text-white">{p.credits} credits</div>
+            <div className="text-white/60">{p.description}</div>
+            <div className="text-white/70">{p.amountLabel ?? '—'}</div>
+            <Button variant="ghost" className="ml-auto gap-2" onClick={() => download(p)} disabled={downloading !== null}>
+              {downloading === p.id ? <Loader2 className="animate-spin" size={14} /> : <Download size={14} />}
+              Receipt
+            </Button>
+          </div>
+        ))}
+      </div>
+      {msg && <p className="mt-3 text-sm text-red-400">{msg}</p>}
+    </Card>
+  )
+}
+
+function RewardsCard() {
+  const [referral, setReferral] = useState<ReferralInfo | null>(null)
+  const [code, setCode] = useState('')
+  const [redeeming, setRedeeming] = useState(false)
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null)
+  const [phone, setPhone] = useState('')
+  const [otp, setOtp] = useState('')
+  const [otpSent, setOtpSent] = useState(false)
+  const [verifying, setVerifying] = useState(false)
+  const [phoneMsg, setPhoneMsg] = useState<{ ok: boolean; text: string } | null>(null)
+
+  useEffect(() => {
+    let alive = true
+    ;(async () => {
+      try {
+        const { data } = supabase ? await supabase.auth.getUser() : { data: null }
+        if (alive && data?.user?.phone_confirmed_at && data.user.phone) setVerifiedPhone(`+${data.user.phone}`)
+        const res = await authedFetch('/api/referrals', { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (!alive || !res.ok) return
+        setReferral(json)
+        // An invite code saved at signup (when signup needed email confirmation) is claimed here.
+        if (!json?.referredBy && data?.user?.user_metadata?.referral_code) {
+          await authedFetch('/api/referrals/claim', { method: 'POST' }).catch(() => null)
+        }
+      } catch {
+        // Rewards are optional on this page.
+      }
+    })()
+    return () => {
+      alive = false
+    }
+  }, [])
+
+  async function redeem() {
+    if (!code.trim()) return
+    setMsg(null)
+    setRedeeming(true)
+    try {
+      const res = await authedFetch('/api/promo/redeem', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ code: code.trim() }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not redeem code')
+      setMsg({ ok: true, text: `+${json.credits} credits added.` })
+      setCode('')
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? 'Could not redeem code' })
+    } finally {
+      setRedeeming(false)
+    }
+  }
+
+  // Promo codes and referrals only count a phone number confirmed with an SMS code (Supabase Auth).
+  async function sendPhoneCode() {
+    if (!supabase || !phone.trim()) return
+    setPhoneMsg(null)
+    setVerifying(true)
+    try {
+      const { error } = await supabase.auth.updateUser({ phone: phone.trim() })
+      if (error) throw error
+      setOtpSent(true)
+      setPhoneMsg({ ok: true, text: 'We sent you a code by SMS.' })
+    } catch (e: any) {
+      setPhoneMsg({ ok: false, text: e?.message ?? 'Could not send the code' })
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  async function confirmPhoneCode() {
+    if (!supabase || !otp.trim()) return
+    setPhoneMsg(null)
+    setVerifying(true)
+    try {
+      const { data, error } = await supabase.auth.verifyOtp({ phone: phone.trim(), token: otp.trim(), type: 'phone_change' })
+      if (error) throw error
+      setVerifiedPhone(data.user?.phone ? `+${data.user.phone}` : phone.trim())
+      setOtpSent(false)
+      setOtp('')
+      setPhoneMsg({ ok: true, text: 'Phone number verified.' })
+      // A referral waiting on the phone pays out now.
+      if (referral?.referredBy?.status === 'pending') {
+        await authedFetch('/api/referrals/reward', { method: 'POST' }).catch(() => null)
+      }
+    } catch (e: any) {
+      setPhoneMsg({ ok: false, text: e?.message ?? 'Could not verify the code' })
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  async function copyLink() {
+    if (!referral?.link) return
+    try {
+      await navigator.clipboard.writeText(referral.link)
+      setCopied(true)
+      window.setTimeout(() => setCopied(false), 1500)
+    } catch {
+      // Clipboard blocked; the link is shown anyway.
+    }
+  }
+
+  return (
+    <Card>
+      <div className="flex items-center gap-2 text-white/90">
+        <Gift size={18} />
+        <div className="text-xs uppercase tracking-[0.18em] text-white/55">Free credits</div>
+      </div>
+
+      <form
+        className="mt-4 flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          redeem()
+        }}
+      >
+        <Input value={code} onChange={(e) => setCode(e.target.value)} placeholder="Promo code" />
+        <Button type="submit" disabled={redeeming || !code.trim()} className="gap-2">
+          {redeeming ? <Loader2 className="animate-spin" size={16} /> : null}
+          Redeem
+        </Button>
+      </form>
+      {msg && <p className={`mt-2 text-sm ${msg.ok ? 'text-white/70' : 'text-red-400'}`}>{msg.text}</p>}
+
+      <div className="mt-6 text-sm text-white/70">
+        <div className="font-medium text-white">Phone number</div>
+        {verifiedPhone ? (
+          <p className="mt-1">Verified: {verifiedPhone}</p>
+        ) : (
+          <>
+            <p className="mt-1">Verify your phone number to redeem codes and collect invite rewards.</p>
+            <form
+              className="mt-3 flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                otpSent ? confirmPhoneCode() : sendPhoneCode()
+              }}
+            >
+              {otpSent ? (
+                <Input value={otp} onChange={(e) => setOtp(e.target.value)} placeholder="SMS code" inputMode="numeric" />
+              ) : (
+                <Input value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="+36 30 123 4567" type="tel" />
+              )}
+              <Button type="submit" disabled={verifying || !(otpSent ? otp.trim() : phone.trim())} className="gap-2">
+                {verifying ? <Loader2 className="animate-spin" size={16} /> : null}
+                {otpSent ? 'Verify' : 'Send code'}
+              </Button>
+            </form>
+          </>
+        )}
+        {phoneMsg && <p className={`mt-2 text-sm ${phoneMsg.ok ? 'text-white/70' : 'text-red-400'}`}>{phoneMsg.text}</p>}
+      </div>
+
+      {referral ? (
+        <div className="mt-6 text-sm text-white/70">
+          <div className="font-medium text-white">Invite a friend</div>
+          <p className="mt-1">
+            You get {referral.inviterCredits} credits and your friend gets {referral.inviteeCredits} once they sign up with
+            your link and verify a phone number that isn&apos;t used on another account.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <code className="rounded-lg bg-white/[0.06] px-3 py-2 text-white">{referral.link ?? referral.code}</code>
+            {referral.link ? (
+              <Button variant="ghost" onClick={copyLink} className="gap-2">
+                <Copy size={14} />
+                {copied ? 'Copied' : 'Copy link'}
+              </Button>
+            ) : null}
+          </div>
+          <p className="mt-2 text-xs text-white/50">
+            {referral.invited} invited · {referral.rewarded} rewarded · {referral.creditsEarned} credits earned
+          </p>
+        </div>
+      ) : null}
+    </Card>
+  )
+}
@@ -2,7 +2,7 @@
 
 import Link from 'next/link'
 import { useCallback, useEffect, useMemo, useState } from 'react'
-import { Button, Textarea } from '@/components/ui'
+import { Button, Input, Textarea } from '@/components/ui'
 import MarkdownMath from '@/components/MarkdownMath'
 import { FileUp, Loader2, Trash2, ArrowLeft, Send } from 'lucide-react'
 import AuthGate from '@/components/AuthGate'
@@ -10,14 +10,24 @@ import { authedFetch } from '@/lib/authClient'
 import { supabase } from '@/lib/supabaseClient'
 import HScroll from '@/components/HScroll'
 import Pomodoro from '@/components/Pomodoro'
-import { MAX_PLAN_IMAGES, MAX_PROMPT_CHARS, CREDITS_PER_GENERATION } from '@/lib/limits'
+import {
+  MAX_PLAN_IMAGES,
+  MAX_PROMPT_CHARS,
+  DEFAULT_DAILY_MINUTES,
+  DEFAULT_STUDY_DAYS_PER_WEEK,
+  MAX_DAILY_MINUTES,
+  MIN_DAILY_MINUTES,
+} from '@/lib/limits'
+import { MAX_PLAN_DAYS } from '@/lib/planDocument'
+import { readPlanStream, type PlanStreamEvent } from '@/lib/planStream'
+import { countPlanImages, formatCredits, quoteCredits } from '@/lib/pricing'
 
 type Block = { type: 'study' | 'break'; minutes: number; label: string }
 type DayPlan = { day: string; focus: string; tasks: string[]; minutes: number; blocks?: Block[] }
 type PlanBlock = { title: string; duration_minutes: number; description: string }
 type OutlineSection = { heading: string; bullets: string[] }
 type DailyBlock = { start_time: string; end_time: string; title: string; details: string }
-type DailyDay = { day: number; label: string; blocks: DailyBlock[] }
+type DailyDay = { day: number; date?: string; label: string; blocks: DailyBlock[] }
 type DailyTimedBlock = {
   start: string
   end: string
@@ -26,7 +36,7 @@ type DailyTimedBlock = {
   pomodoro?: boolean
   details?: string
 }
-type DailyTimedDay = { day: number; focus?: string; blocks: DailyTimedBlock[] }
+type DailyTimedDay = { day: number; date?: string; focus?: string; blocks: DailyTimedBlock[] }
 type PracticeQuestion = { q: string; choices?: string[]; a: string; explanation: string }
 type NotesValue =
   | string
@@ -56,6 +66,9 @@ type PlanResult = {
   requestId?: string | null
   errorMessage?: string | null
 }
+/** One plan topic of an adaptive practice round and why it got its share of questions. */
+type AdaptiveTarget = { topic: string; questions: number; difficulty: string; reason: string }
+
 type PracticeViewQuestion = { q: string; choices: string[]; a: string; explanation: string }
 
 type SavedPlan = { id: string; title: string; created_at: string }
@@ -155,6 +168,26 @@ function fmtDate(d: string) {
   }
 }
 
+function localIsoDate(d = new Date()) {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/** The latest exam date /api/plan accepts. */
+function lastExamDate() {
+  const d = new Date()
+  d.setDate(d.getDate() + MAX_PLAN_DAYS)
+  return localIsoDate(d)
+}
+
+function fmtDay(date: string | undefined) {
+  if (!date) return ''
+  try {
+    return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: '2-digit' })
+  } catch {
+    return date
+  }
+}
+
 function shortPrompt(p: string) {
   const t = p.trim().replace(/\s+/g, ' ')
   if (!t) return ''
@@ -216,7 +249,8 @@ function getDailySchedule(result: PlanResult | null): DailyDay[] {
       : []
   if (timedDays.length) {
     return timedDays.map((day) => ({
-      day: Math.max(1, Math.min(6, Number(day?.day) || 1)),
+      day: Math.max(1, Math.min(MAX_PLAN_DAYS, Number(day?.day) || 1)),
+      date: typeof day?.date === 'string' ? day.date : undefined,
       label: String(day?.focus ?? `Day ${day?.day ?? 1}`).trim() || `Day ${day?.day ?? 1}`,
       blocks: (Array.isArray(day?.blocks) ? day.blocks : []).map((block) => ({
         start_time: String(block?.start ?? '18:00'),
@@ -233,7 +267,8 @@ function getDailySchedule(result: PlanResult | null): DailyDay[] {
       : []
   if (schedule.length) {
     return schedule.map((day) => ({
-      day: Math.max(1, Math.min(6, Number(day?.day) || 1)),
+      day: Math.max(1, Math.min(MAX_PLAN_DAYS, Number(day?.day) || 1)),
+      date: typeof day?.date === 'string' ? day.date : undefined,
       label: String(day?.label ?? `Day ${day?.day ?? 1}`).trim() || `Day ${day?.day ?? 1}`,
       blocks: (Array.isArray(day?.blocks) ? day.blocks : []).map((block) => ({
         start_time: String(block?.start_time ?? '18:00'),
@@ -292,6 +327,32 @@ function getPracticeQuestions(result: PlanResult | null): PracticeViewQuestion[]
   }))
 }
 
+function planErrorMessage(code: unknown, message: unknown, status: number) {
+  if (code === 'SERVER_CANT_READ_CREDITS') return "Server can't read credits (env/RLS)."
+  if (code === 'PLANS_SCHEMA_MISMATCH') return 'Server plans table schema mismatch. Run latest migrations.'
+  if (code === 'EXAM_DATE_INVALID') return 'The exam date must be in the future.'
+  if (code === 'EXAM_DATE_TOO_FAR') return `The exam date must be within ${MAX_PLAN_DAYS} days.`
+  if (code === 'INSUFFICIENT_CREDITS') return 'Not enough credits.'
+  if (code === 'UNAUTHENTICATED') return 'Please log in again.'
+  return typeof message === 'string' && message ? message : `Generation failed (${status})`
+}
+
+function applyPlanStreamEvent(prev: PlanResult | null, event: PlanStreamEvent): PlanResult | null {
+  const base = prev ?? {}
+  switch (event.type) {
+    case 'title':
+      return { ...base, title: event.title, language: event.language, summary: event.summary }
+    case 'daily':
+      return { ...base, daily: event.daily, plan: event.plan }
+    case 'notes.outline':
+      return { ...base, notes: event.notes }
+    case 'practice':
+      return { ...base, practice: event.practice }
+    default:
+      return prev
+  }
+}
+
 function getRequestId(source: any): string | null {
   if (!source) return null
   const maybeId = source.requestId ?? source.planId ?? source.id ?? null
@@ -319,8 +380,12 @@ export default function PlanPage() {
 function Inner({ entitlement }: { entitlement: { credits: number | null; entitlementOk: boolean | null } }) {
   const [prompt, setPrompt] = useState('')
   const [files, setFiles] = useState<File[]>([])
+  const [examDate, setExamDate] = useState('')
+  const [studyDaysPerWeek, setStudyDaysPerWeek] = useState(DEFAULT_STUDY_DAYS_PER_WEEK)
+  const [dailyMinutes, setDailyMinutes] = useState(DEFAULT_DAILY_MINUTES)
   const [loading, setLoading] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [streamed, setStreamed] = useState<Set<PlanStreamEvent['type']>>(new Set())
   const [error, setError] = useState<string | null>(null)
   const promptChars = prompt.length
 
@@ -336,6 +401,16 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
   const [askAnswer, setAskAnswer] = useState<string | null>(null)
   const [askError, setAskError] = useState<string | null>(null)
 
+  // Adaptive practice
+  const [adaptive, setAdaptive] = useState<{ attemptId: string; targets: AdaptiveTarget[] } | null>(null)
+  const [adaptiveLoading, setAdaptiveLoading] = useState(false)
+  const [adaptiveError, setAdaptiveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setAdaptive(null)
+    setAdaptiveError(null)
+  }, [selectedId])
+
   const [userId, setUserId] = useState<string | null>(null)
   const [credits, setCredits] = useState<number | null>(null)
   const [entitlementOk, setEntitlementOk] = useState<boolean | null>(null)
@@ -494,6 +569,7 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
   function resetAll() {
     setPrompt('')
     setFiles([])
+    setExamDate('')
     setResult(null)
     setSelectedId(null)
     setTab('plan')
@@ -561,7 +637,15 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
       setError(`You can upload up to ${MAX_PLAN_IMAGES} files.`)
       return
     }
-    const cost = CREDITS_PER_GENERATION
+    if (examDate && examDate <= localIsoDate()) {
+      setError('The exam date must be in the future.')
+      return
+    }
+    if (examDate && examDate > lastExamDate()) {
+      setError(`The exam date must be within ${MAX_PLAN_DAYS} days.`)
+      return
+    }
+    const cost = quoteCredits('plan', { images: countPlanImages(files.slice(0, MAX_PLAN_IMAGES)) }).credits
     setLoading(true)
     setIsGenerating(true)
     try {
@@ -572,44 +656,67 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
         (files.length > 0 ? 'Create structured study notes and a study plan based on the uploaded materials.' : '')
       form.append('prompt', promptToSend)
       form.append('required_credits', String(cost))
+      if (examDate) {
+        form.append('exam_date', examDate)
+        form.append('start_date', localIsoDate())
+        form.append('study_days_per_week', String(studyDaysPerWeek))
+        form.append('daily_minutes', String(dailyMinutes))
+      }
       for (const f of files.slice(0, MAX_PLAN_IMAGES)) {
         const file = f.type.startsWith('image/') ? await compressImage(f) : f
         form.append('files', file)
       }
 
-      const res = await authedFetch('/api/plan', { method: 'POST', body: form })
-      let json = await res.json().catch(() => ({} as any))
+      const res = await authedFetch('/api/plan?stream=1', {
+        method: 'POST',
+        body: form,
+        headers: { Accept: 'application/x-ndjson' },
+      })
       if (!res.ok) {
+        const json = await res.json().catch(() => ({} as any))
         const code = json?.error?.code ?? json?.code ?? json?.error
-        let message = json?.error?.message ?? json?.details ?? json?.message ?? json?.error
-        if (code === 'SERVER_CANT_READ_CREDITS') {
-          message = "Server can't read credits (env/RLS)."
-        } else if (code === 'PLANS_SCHEMA_MISMATCH') {
-          message = 'Server plans table schema mismatch. Run latest migrations.'
-        } else if (code === 'INSUFFICIENT_CREDITS') {
-          message = 'Not enough credits.'
-        } else if (code === 'UNAUTHENTICATED') {
-          message = 'Please log in again.'
-        }
-        throw new Error(message ?? `Generation failed (${res.status})`)
-      }
-      if (json?.ok === false) {
-        setError(json?.error?.message || json?.error || 'Generation failed.')
-        return
+        const message = json?.error?.message ?? json?.details ?? json?.message ?? json?.error
+        throw new Error(planErrorMessage(code, message, res.status))
       }
 
-      const serverId = typeof json?.planId === 'string' ? (json.planId as string) : null
-      if (!serverId) throw new Error('Server returned no plan id')
+      let serverId: string | null = null
+      let requestId: string | null = null
+      let doneStatus: string | null = null
+      let streamError: Extract<PlanStreamEvent, { type: 'error' }> | null = null
+      setStreamed(new Set())
+      await readPlanStream(res, (event) => {
+        setStreamed((prev) => new Set(prev).add(event.type))
+        if (event.type === 'started') {
+          serverId = event.planId
+          requestId = event.requestId
+          setSelectedId(event.planId)
+          setResult({})
+          setTab('plan')
+        } else if (event.type === 'done') {
+          serverId = event.planId
+          doneStatus = event.status
+        } else if (event.type === 'error') {
+          streamError = event
+        } else {
+          if (event.type === 'notes.outline') setTab((t) => (t === 'plan' ? 'notes' : t))
+          setResult((prev) => applyPlanStreamEvent(prev, event))
+        }
+      })
 
-      if (json?.fallback) {
-        const rid = getRequestId(json) ?? serverId
-        const msg = typeof json?.errorMessage === 'string' && json.errorMessage.trim()
-          ? json.errorMessage.trim()
-          : 'Generation failed.'
-        setError(`${msg} Request ID: ${rid}`)
+      const failed = streamError as Extract<PlanStreamEvent, { type: 'error' }> | null
+      if (failed) {
+        const base = planErrorMessage(failed.error.code, failed.error.message, failed.status)
+        const message = failed.retrying ? `${base} It will be retried automatically.` : base
+        if (failed.retrying && serverId) await loadHistory(userId)
+        throw new Error(failed.requestId ? `${message} Request ID: ${failed.requestId}` : message)
       }
+      if (!serverId) throw new Error('Server returned no plan id')
 
+      // Show what was saved, which is what the plan will look like when it is opened again.
       await loadPlan(serverId)
+      if (doneStatus === 'partial') {
+        setError(`Part of the plan could not be generated, so a simpler fallback is shown. Request ID: ${requestId ?? serverId}`)
+      }
       await loadHistory(userId)
       if (userId) {
         authedFetch('/api/me')
@@ -625,6 +732,7 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
     } finally {
       setLoading(false)
       setIsGenerating(false)
+      setStreamed(new Set())
     }
   }
 
@@ -647,6 +755,28 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
     }
   }
 
+  // Questions weighted toward the plan topics this user keeps getting wrong; taken on /practice.
+  async function startAdaptivePractice() {
+    if (!selectedId) return
+    setAdaptiveError(null)
+    setAdaptive(null)
+    setAdaptiveLoading(true)
+    try {
+      const res = await authedFetch('/api/practice', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ planId: selectedId, adaptive: true }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? json?.error ?? 'Could not write practice questions')
+      setAdaptive({ attemptId: String(json.adaptive.attemptId), targets: json.adaptive.targets ?? [] })
+    } catch (e: any) {
+      setAdaptiveError(e?.message ?? 'Could not write practice questions')
+    } finally {
+      setAdaptiveLoading(false)
+    }
+  }
+
   async function ask() {
     setAskError(null)
     setAskAnswer(null)
@@ -685,7 +815,7 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
     files.length <= MAX_PLAN_IMAGES &&
     (prompt.trim().length >= 6 || files.length > 0)
   const summaryText = getNotesModel(result?.notes ?? result?.notes_json).summary || extractNotesText(result?.notes ?? result?.notes_json).trim()
-  const costEstimate = CREDITS_PER_GENERATION
+  const costEstimate = quoteCredits('plan', { images: countPlanImages(files.slice(0, MAX_PLAN_IMAGES)) }).credits
   const pomodoroPlan = useMemo<DayPlan[]>(() => {
     if (!result) return []
     const schedule = getDailySchedule(result)
@@ -764,6 +894,49 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
           />
           <div className="mt-2 text-xs text-white/60">{promptChars}/{MAX_PROMPT_CHARS}</div>
 
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            <label className="col-span-3 text-xs text-white/60">
+              Exam date
+              <Input
+                type="date"
+                value={examDate}
+                min={localIsoDate()}
+                max={lastExamDate()}
+                onChange={(e) => setExamDate(e.target.value)}
+                className="mt-1 py-2"
+              />
+            </label>
+            {examDate ? (
+              <>
+                <label className="col-span-1 text-xs text-white/60">
+                  Days / week
+                  <Input
+                    type="number"
+                    min={1}
+                    max={7}
+                    value={studyDaysPerWeek}
+                    onChange={(e) => setStudyDaysPerWeek(Math.max(1, Math.min(7, Number(e.target.value) || 1)))}
+                    className="mt-1 py-2"
+                  />
+                </label>
+                <label className="col-span-2 text-xs text-white/60">
+                  Minutes / day
+                  <Input
+                    type="number"
+                    min={MIN_DAILY_MINUTES}
+                    max={MAX_DAILY_MINUTES}
+                    step={15}
+                    value={dailyMinutes}
+                    onChange={(e) =>
+                      setDailyMinutes(Math.max(MIN_DAILY_MINUTES, Math.min(MAX_DAILY_MINUTES, Number(e.target.value) || 0)))
+                    }
+                    className="mt-1 py-2"
+                  />
+                </label>
+              </>
+            ) : null}
+          </div>
+
           <label className="mt-3 flex cursor-pointer items-center justify-between gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white/70 hover:bg-white/10">
             <span className="inline-flex items-center gap-2">
               <FileUp size={16} />
@@ -789,7 +962,7 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
 
           {files.length ? <div className="mt-2 text-xs text-white/60">Selected: {files.length} file(s)</div> : null}
           <div className="mt-2 text-xs text-white/60">
-            This will cost {costEstimate} credit.
+            This will cost {formatCredits(costEstimate)}.
           </div>
           {!creditsOk ? <div className="mt-2 text-xs text-red-400">Insufficient credits.</div> : null}
           {!creditsOk ? (
@@ -915,6 +1088,10 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
                         </section>
                       ) : null}
                     </div>
+                  ) : isGenerating ? (
+                    <div className="mt-4 inline-flex items-center gap-2 text-sm text-white/60">
+                      <Loader2 className="animate-spin" size={14} /> Writing notes…
+                    </div>
                   ) : (
                     <div className="mt-4 text-sm text-white/70">Nincs jegyzet generálva (hiba). Próbáld újra.</div>
                   )}
@@ -935,7 +1112,10 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
                         {getDailySchedule(result).length > 0 ? (
                           getDailySchedule(result).map((day, i) => (
                             <div key={`day-${day.day}-${i}`} className="rounded-2xl border border-white/10 bg-black/30 px-4 py-3">
-                              <div className="text-white/90">{day.label}</div>
+                              <div className="text-white/90">
+                                {day.date ? <span className="text-white/55">{fmtDay(day.date)} · </span> : null}
+                                {day.label}
+                              </div>
                               <div className="mt-2 space-y-2">
                                 {day.blocks.map((block, bi) => (
                                   <div key={`db-${i}-${bi}`} className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
@@ -956,6 +1136,43 @@ function Inner({ entitlement }: { entitlement: { credits: number | null; entitle
               {/* PRACTICE */}
               {tab === 'practice' && result && (
                 <div className="space-y-6 min-w-0">
+                  {isGenerating && !streamed.has('practice') ? (
+                    <div className="inline-flex items-center gap-2 text-sm text-white/60">
+                      <Loader2 className="animate-spin" size={14} /> Practice questions are still being written…
+                    </div>
+                  ) : null}
+                  {selectedId && !isGenerating ? (
+                    <section className="rounded-3xl border border-white/10 bg-white/[0.02] p-5 min-w-0 overflow-hidden">
+                      <div className="text-xs uppercase tracking-[0.18em] text-white/55">Adaptive practice</div>
+                      <p className="mt-2 text-sm text-white/70">
+                        A new round of questions on this plan, with more of them on the topics you have been getting wrong.
+                      </p>
+                      {adaptive ? (
+                        <>
+                          <ul className="mt-3 space-y-2 text-sm text-white/75">
+                            {adaptive.targets.map((t) => (
+                              <li key={t.topic} className="break-words">
+                                <span className="font-semibold text-white/90">{t.topic}</span> · {t.questions} {t.difficulty}
+                                <div className="text-white/60">{t.reason}</div>
+                              </li>
+                            ))}
+                          </ul>
+                          <Link
+                            href={`/practice?attempt=${encodeURIComponent(adaptive.attemptId)}`}
+                            className="mt-4 inline-flex underline underline-offset-4 text-sm text-white"
+                          >
+                            Start practice
+                          </Link>
+                        </>
+                      ) : (
+                        <Button onClick={startAdaptivePractice} disabled={adaptiveLoading} className="mt-3 gap-2">
+                          {adaptiveLoading ? <Loader2 className="animate-spin" size={16} /> : null}
+                          Practise my weak topics
+                        </Button>
+                      )}
+                      {adaptiveError ? <p className="mt-2 text-sm text-red-400">{adaptiveError}</p> : null}
+                    </section>
+                  ) : null}
                   {getPracticeQuestions(result).map((q, qi) => (
                     <section
                       key={`${qi}-${q.q}`}
@@ -1,68 +1,51 @@
 'use client'
 
-import React, { useEffect, useMemo, useState } from 'react'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import AuthGate from '@/components/AuthGate'
 import MarkdownMath from '@/components/MarkdownMath'
-import { Loader2, Play } from 'lucide-react'
+import TestHistory from '@/components/TestHistory'
+import { useTimer } from '@/components/TimerStore'
+import { ArrowDown, ArrowUp, Loader2, Play } from 'lucide-react'
 import { authedFetch } from '@/lib/authClient'
 import { supabase } from '@/lib/supabaseClient'
-
-type Question = {
-  id: string
-  type: 'mcq' | 'short'
-  question: string
-  options?: string[]
-  answer?: string
-}
+import { DEFAULT_TEST_QUESTIONS, MAX_TEST_QUESTIONS } from '@/lib/pricing'
+import {
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  TEST_DIFFICULTIES,
+  getCorrectOption,
+  shuffledFor,
+  type AnswerValue,
+  type QuestionGrade,
+  type QuestionType,
+  type TestDifficulty,
+  type TestQuestion,
+} from '@/lib/testQuestions'
 
 type TestData = {
   title: string
   language: string
-  duration_min: number
-  questions: Question[]
+  difficulty?: TestDifficulty
+  duration_minutes: number
+  questions: TestQuestion[]
+  /** Tests come with their server-side attempt and without answers or explanations until submitted. */
+  mode?: 'practice' | 'exam'
+  attemptId?: string
 }
 
-type Score = { correct: number; total: number }
+/** `points` sums the per-question scores, so partially correct short answers count in part. */
+type Score = { correct: number; total: number; points?: number }
 
-function normalizeAnswer(s: string) {
-  return String(s ?? '')
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, ' ')
+type SubmittedAttempt = {
+  correct: number | null
+  total: number | null
+  score: number | null
+  autoSubmitted?: boolean
+  questions: (TestQuestion & { grade: QuestionGrade | null; response: AnswerValue | null })[]
 }
 
-function getCorrectOption(q: Question) {
-  const options = q.options || []
-  const raw = String(q.answer ?? '').trim()
-  if (!raw) return null
-  if (options.includes(raw)) return raw
-  const letter = raw.toUpperCase()
-  const idx = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.indexOf(letter)
-  if (idx >= 0 && idx < options.length) return options[idx]
-  return null
-}
-
-function computeScore(data: TestData | null, answers: Record<string, string>): Score {
-  if (!data) return { correct: 0, total: 0 }
-  let correct = 0
-  let total = 0
-
-  for (const q of data.questions) {
-    if (q.type === 'mcq') {
-      const correctOpt = getCorrectOption(q)
-      if (!correctOpt) continue
-      total += 1
-      if (answers[q.id] === correctOpt) correct += 1
-    } else {
-      const expected = String(q.answer ?? '').trim()
-      if (!expected) continue
-      total += 1
-      if (normalizeAnswer(answers[q.id] || '') === normalizeAnswer(expected)) correct += 1
-    }
-  }
-
-  return { correct, total }
-}
+/** Answers are saved this long after the last change while an exam runs. */
+const EXAM_AUTOSAVE_MS = 2000
 
 function Panel({
   className = '',
@@ -78,17 +61,193 @@ function Panel({
   )
 }
 
+type InputProps = {
+  q: TestQuestion
+  value: AnswerValue | undefined
+  disabled: boolean
+  onChange: (value: AnswerValue) => void
+}
+
+const choiceClass = 'flex items-center gap-2 cursor-pointer text-sm rounded-lg px-2 py-1 border border-white/10 '
+
+function TrueFalseInput({ q, value, disabled, onChange }: InputProps) {
+  return (
+    <div className="flex gap-2">
+      {[
+        { value: 'true', label: 'True' },
+        { value: 'false', label: 'False' },
+      ].map((opt) => (
+        <label key={opt.value} className={choiceClass}>
+          <input
+            type="radio"
+            name={q.id}
+            value={opt.value}
+            checked={value === opt.value}
+            disabled={disabled}
+            onChange={() => onChange(opt.value)}
+          />
+          {opt.label}
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function MultiSelectInput({ q, value, disabled, onChange }: InputProps) {
+  const chosen = Array.isArray(value) ? value : []
+  const correct = new Set(q.answers ?? [])
+  return (
+    <div className="grid gap-2">
+      <div className="text-xs text-white/50">Select all that apply.</div>
+      {(q.options ?? []).map((opt) => {
+        const isSelected = chosen.includes(opt)
+        const cls =
+          choiceClass +
+          (disabled && isSelected ? (correct.has(opt) ? 'text-green-400 ' : 'text-red-400 ') : '') +
+          (disabled && correct.has(opt) ? 'ring-1 ring-green-500/60 ' : '')
+        return (
+          <label key={opt} className={cls}>
+            <input
+              type="checkbox"
+              checked={isSelected}
+              disabled={disabled}
+              onChange={(e) => onChange(e.target.checked ? [...chosen, opt] : chosen.filter((c) => c !== opt))}
+            />
+            <MarkdownMath content={opt} />
+          </label>
+        )
+      })}
+    </div>
+  )
+}
+
+function NumericInput({ value, disabled, onChange, q }: InputProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        inputMode="decimal"
+        className="w-40 rounded-xl border border-white/10 bg-black/20 p-2 text-sm"
+        placeholder="Number"
+        value={typeof value === 'string' ? value : ''}
+        readOnly={disabled}
+        onChange={(e) => onChange(e.target.value)}
+      />
+      {q.unit && <span className="text-sm text-white/60">{q.unit}</span>}
+    </div>
+  )
+}
+
+function OrderingInput({ q, value, disabled, onChange }: InputProps) {
+  const items = Array.isArray(value) && value.length ? value : shuffledFor(q.id, q.answers ?? [])
+  const move = (from: number, to: number) => {
+    const next = items.slice()
+    ;[next[from], next[to]] = [next[to], next[from]]
+    onChange(next)
+  }
+  return (
+    <ol className="grid gap-2">
+      {items.map((item, i) => (
+        <li
+          key={item}
+          className={
+            'flex items-center gap-2 rounded-lg border border-white/10 px-2 py-1 text-sm ' +
+            (disabled ? (q.answers?.[i] === item ? 'text-green-400' : 'text-red-400') : '')
+          }
+        >
+          <span className="w-5 text-white/40">{i + 1}.</span>
+          <div className="flex-1">
+            <MarkdownMath content={item} />
+          </div>
+          {!disabled && (
+            <>
+              <button aria-label="Move up" disabled={i === 0} onClick={() => move(i, i - 1)} className="disabled:opacity-30">
+                <ArrowUp size={14} />
+              </button>
+              <button
+                aria-label="Move down"
+                disabled={i === items.length - 1}
+                onClick={() => move(i, i + 1)}
+                className="disabled:opacity-30"
+              >
+                <ArrowDown size={14} />
+              </button>
+            </>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+function MatchingInput({ q, value, disabled, onChange }: InputProps) {
+  const pairs = q.pairs ?? []
+  const rights = shuffledFor(q.id, pairs.map((p) => p.right))
+  const chosen = pairs.map((_, i) => (Array.isArray(value) ? value[i] ?? '' : ''))
+  return (
+    <div className="grid gap-2">
+      {pairs.map((p, i) => (
+        <div key={p.left} className="flex items-center gap-3 text-sm">
+          <div className="flex-1">
+            <MarkdownMath content={p.left} />
+          </div>
+          <select
+            className={
+              'w-1/2 rounded-lg border bg-black/20 px-2 py-1 text-sm ' +
+              (disabled ? (chosen[i] === p.right ? 'border-green-500/60' : 'border-red-500/60') : 'border-white/10')
+            }
+            value={chosen[i]}
+            disabled={disabled}
+            onChange={(e) => onChange(chosen.map((c, j) => (j === i ? e.target.value : c)))}
+          >
+            <option value="">Choose…</option>
+            {rights.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const RULE_INPUTS: Partial<Record<QuestionType, (props: InputProps) => React.ReactElement>> = {
+  true_false: TrueFalseInput,
+  multi_select: MultiSelectInput,
+  numeric: NumericInput,
+  ordering: OrderingInput,
+  matching: MatchingInput,
+}
+
 export default function PracticePage() {
   const [prompt, setPrompt] = useState('')
+  const [questionCount, setQuestionCount] = useState(DEFAULT_TEST_QUESTIONS)
+  const [difficulty, setDifficulty] = useState<TestDifficulty>('mixed')
+  const [types, setTypes] = useState<QuestionType[]>(['mcq', 'short'])
+  const [duration, setDuration] = useState('')
+  const [examMode, setExamMode] = useState(false)
+  const [deadlineAt, setDeadlineAt] = useState<string | null>(null)
+  const [autoSubmitted, setAutoSubmitted] = useState(false)
+  const timer = useTimer()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [data, setData] = useState<TestData | null>(null)
   const [started, setStarted] = useState(false)
-  const [answers, setAnswers] = useState<Record<string, string>>({})
+  const [answers, setAnswers] = useState<Record<string, AnswerValue>>({})
   const [showResults, setShowResults] = useState(false)
   const [score, setScore] = useState<Score>({ correct: 0, total: 0 })
+  const [grades, setGrades] = useState<Record<string, QuestionGrade>>({})
+  const [attemptId, setAttemptId] = useState<string | null>(null)
+  const [starting, setStarting] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [historyKey, setHistoryKey] = useState(0)
   const [testId, setTestId] = useState<string | null>(null)
   const [userId, setUserId] = useState<string>('anon')
+  // Time per question: the time since the last interaction goes to the question last worked on.
+  const timeSpent = useRef<Record<string, number>>({})
+  const activeQuestion = useRef<{ id: string; since: number } | null>(null)
 
   const storageKey = useMemo(() => {
     if (!testId) return null
@@ -128,7 +287,13 @@ export default function PracticePage() {
         setAnswers(parsed.answers || {})
         setShowResults(!!parsed.showResults)
         setScore(parsed.score || { correct: 0, total: 0 })
-        setStarted(parsed.started ?? true)
+        setGrades(parsed.grades || {})
+        setAttemptId(parsed.attemptId ?? parsed.data.attemptId ?? null)
+        setDeadlineAt(parsed.deadlineAt ?? null)
+        setAutoSubmitted(!!parsed.autoSubmitted)
+        timeSpent.current = parsed.timeSpent || {}
+        // Tests saved before they were stored server-side have to be generated again.
+        setStarted(!!(parsed.attemptId ?? parsed.data.attemptId) && (parsed.started ?? true))
         setTestId(lastId)
       }
     } catch {
@@ -136,6 +301,53 @@ export default function PracticePage() {
     }
   }, [userId])
 
+  // `/practice?attempt=<id>` opens a test stored on the server, e.g. the adaptive practice of a plan.
+  const openedAttempt = useRef(false)
+  useEffect(() => {
+    if (typeof window === 'undefined' || userId === 'anon' || openedAttempt.current) return
+    const id = new URLSearchParams(window.location.search).get('attempt')
+    if (!id) return
+    openedAttempt.current = true
+    ;(async () => {
+      try {
+        const res = await authedFetch(`/api/test/attempts/${encodeURIComponent(id)}`, { cache: 'no-store' })
+        const json = await res.json().catch(() => ({} as any))
+        if (!res.ok) throw new Error(json?.error?.message ?? 'Could not open the test')
+        const attempt = json.attempt
+        if (attempt.submittedAt) throw new Error('This test has already been submitted; see it in your history below.')
+        const questions: TestQuestion[] = attempt.questions.map(
+          ({ response, timeSpentMs, grade, ...q }: any) => q as TestQuestion
+        )
+        setTestId(`t_${attempt.id}`)
+        setData({
+          title: attempt.title,
+          language: attempt.language ?? 'hu',
+          duration_minutes: attempt.durationMinutes ?? 0,
+          questions,
+          mode: attempt.mode,
+          attemptId: attempt.id,
+        })
+        setAnswers(
+          Object.fromEntries(
+            attempt.questions.filter((q: any) => q.response != null).map((q: any) => [q.id, q.response as AnswerValue])
+          )
+        )
+        setAttemptId(attempt.id)
+        setStarted(false)
+        setShowResults(false)
+        setScore({ correct: 0, total: 0 })
+        setGrades({})
+        setDeadlineAt(null)
+        setAutoSubmitted(false)
+        timeSpent.current = {}
+        activeQuestion.current = null
+        window.history.replaceState(null, '', window.location.pathname)
+      } catch (e: any) {
+        setError(e?.message ?? 'Could not open the test')
+      }
+    })()
+  }, [userId])
+
   useEffect(() => {
     if (typeof window === 'undefined') return
     if (!storageKey || !data) return
@@ -145,6 +357,11 @@ export default function PracticePage() {
       answers,
       showResults,
       score,
+      grades,
+      attemptId,
+      deadlineAt,
+      autoSubmitted,
+      timeSpent: timeSpent.current,
       started,
     }
 
@@ -154,7 +371,7 @@ export default function PracticePage() {
     } catch {
       // Ignore quota errors
     }
-  }, [storageKey, data, answers, showResults, score, started, userId, testId])
+  }, [storageKey, data, answers, showResults, score, grades, attemptId, deadlineAt, autoSubmitted, started, userId, testId])
 
   const generate = async () => {
     try {
@@ -164,7 +381,14 @@ export default function PracticePage() {
 
       const res = await authedFetch('/api/test', {
         method: 'POST',
-        body: JSON.stringify({ prompt }),
+        body: JSON.stringify({
+          prompt,
+          questionCount,
+          difficulty,
+          typeMix: Object.fromEntries(types.map((t) => [t, 1])),
+          ...(duration ? { durationMinutes: Number(duration) } : {}),
+          mode: examMode ? 'exam' : 'practice',
+        }),
       })
 
       const json = await res.json()
@@ -176,6 +400,12 @@ export default function PracticePage() {
       setStarted(false)
       setShowResults(false)
       setScore({ correct: 0, total: 0 })
+      setGrades({})
+      setAttemptId(json.attemptId ?? null)
+      setDeadlineAt(null)
+      setAutoSubmitted(false)
+      timeSpent.current = {}
+      activeQuestion.current = null
       setAnswers({})
     } catch (e: any) {
       setError(e?.message ?? 'Something went wrong')
@@ -184,12 +414,128 @@ export default function PracticePage() {
     }
   }
 
-  const handleShowResults = () => {
-    const next = computeScore(data, answers)
-    setScore(next)
+  const trackTime = useCallback((questionId: string | null) => {
+    const now = Date.now()
+    const active = activeQuestion.current
+    if (active) timeSpent.current[active.id] = (timeSpent.current[active.id] ?? 0) + (now - active.since)
+    activeQuestion.current = questionId ? { id: questionId, since: now } : null
+  }, [])
+
+  const answer = (questionId: string, value: AnswerValue) => {
+    if (activeQuestion.current?.id !== questionId) trackTime(questionId)
+    setAnswers((a) => ({ ...a, [questionId]: value }))
+  }
+
+  // The attempt (with the answer key) was stored on the server when the test was generated, so it
+  // grades the submission; starting an exam sets its deadline on the server.
+  const startTest = async () => {
+    if (!data) return
+    if (!attemptId) {
+      setError('This test was made before tests were stored on the server. Generate it again.')
+      return
+    }
+    try {
+      setStarting(true)
+      setError(null)
+      const isExam = data.mode === 'exam'
+      const res = await authedFetch(`/api/test/attempts/${attemptId}/start`, { method: 'POST' })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not start the test')
+      setAttemptId(json.attempt.id)
+      if (isExam && json.attempt.deadlineAt) {
+        setDeadlineAt(json.attempt.deadlineAt)
+        timer.startLocked(Date.parse(json.attempt.deadlineAt), data.title)
+      }
+      setStarted(true)
+      timeSpent.current = {}
+      activeQuestion.current = data.questions[0] ? { id: data.questions[0].id, since: Date.now() } : null
+    } catch (e: any) {
+      setError(e?.message ?? 'Something went wrong')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const applyResults = (attempt: SubmittedAttempt) => {
+    const next: Record<string, QuestionGrade> = {}
+    for (const q of attempt.questions) if (q.grade) next[q.id] = q.grade
+    setGrades(next)
+    // The graded questions carry the answer key and explanations an exam was sent without.
+    setData((d) => (d ? { ...d, questions: attempt.questions.map(({ grade: _grade, response: _response, ...q }) => q) } : d))
+    setAutoSubmitted(!!attempt.autoSubmitted)
+    if (attempt.autoSubmitted) {
+      // Graded on the answers saved before the deadline; show those.
+      const saved: Record<string, AnswerValue> = {}
+      for (const q of attempt.questions) if (q.response !== null) saved[q.id] = q.response
+      setAnswers(saved)
+    }
+    if (data?.mode === 'exam' && timer.locked) timer.release()
+    const total = attempt.total ?? 0
+    setScore({ correct: attempt.correct ?? 0, total, points: Math.round((attempt.score ?? 0) * total * 10) / 10 })
     setShowResults(true)
+    setHistoryKey((k) => k + 1)
+  }
+
+  const handleShowResults = async () => {
+    if (!attemptId || !data || submitting) return
+    trackTime(null)
+    // An ordering left as shown is still the student's answer.
+    const submittedAnswers = { ...answers }
+    for (const q of data.questions) {
+      if (q.type === 'ordering' && !submittedAnswers[q.id]) submittedAnswers[q.id] = shuffledFor(q.id, q.answers ?? [])
+    }
+    try {
+      setSubmitting(true)
+      setError(null)
+      const res = await authedFetch(`/api/test/attempts/${attemptId}/submit`, {
+        method: 'POST',
+        body: JSON.stringify({ answers: submittedAnswers, timeSpentMs: timeSpent.current }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (res.status === 409 && json?.error?.code === 'ALREADY_SUBMITTED') {
+        // Submitted from another tab (or before a reload); show the stored results.
+        const stored = await authedFetch(`/api/test/attempts/${attemptId}`, { cache: 'no-store' })
+        const storedJson = await stored.json().catch(() => ({} as any))
+        if (!stored.ok) throw new Error(storedJson?.error?.message ?? 'Could not load the results')
+        applyResults(storedJson.attempt)
+        return
+      }
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not submit the test')
+      applyResults(json.attempt)
+    } catch (e: any) {
+      setError(e?.message ?? 'Something went wrong')
+    } finally {
+      setSubmitting(false)
+    }
   }
 
+  const isExam = data?.mode === 'exam'
+  const examRunning = isExam && started && !showResults && !!deadlineAt
+
+  // Exams: keep the server's copy of the answers current, since an exam still open at the
+  // deadline is graded on what was saved.
+  useEffect(() => {
+    if (!examRunning || !attemptId) return
+    const t = window.setTimeout(() => {
+      authedFetch(`/api/test/attempts/${attemptId}/answers`, {
+        method: 'PUT',
+        body: JSON.stringify({ answers }),
+      }).catch(() => {
+        // The next change or the final submission saves them again.
+      })
+    }, EXAM_AUTOSAVE_MS)
+    return () => window.clearTimeout(t)
+  }, [examRunning, attemptId, answers])
+
+  // Hand the exam in when time is up.
+  const submitRef = useRef(handleShowResults)
+  submitRef.current = handleShowResults
+  useEffect(() => {
+    if (!examRunning || !deadlineAt) return
+    const t = window.setTimeout(() => submitRef.current(), Math.max(0, Date.parse(deadlineAt) - Date.now()))
+    return () => window.clearTimeout(t)
+  }, [examRunning, deadlineAt])
+
   return (
     <AuthGate requireEntitlement={true}>
       <div className="mx-auto max-w-3xl px-4 py-8 space-y-6">
@@ -201,6 +547,66 @@ export default function PracticePage() {
           onChange={(e) => setPrompt(e.target.value)}
         />
 
+        <div className="grid gap-3 text-sm sm:grid-cols-3">
+          <label className="space-y-1">
+            <span className="text-xs text-white/50">Questions</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_TEST_QUESTIONS}
+              className="w-full rounded-xl border border-white/10 bg-black/20 p-2"
+              value={questionCount}
+              onChange={(e) => setQuestionCount(Math.min(MAX_TEST_QUESTIONS, Math.max(1, Number(e.target.value) || 1)))}
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-white/50">Difficulty</span>
+            <select
+              className="w-full rounded-xl border border-white/10 bg-black/20 p-2"
+              value={difficulty}
+              onChange={(e) => setDifficulty(e.target.value as TestDifficulty)}
+            >
+              {TEST_DIFFICULTIES.map((d) => (
+                <option key={d} value={d}>
+                  {d[0].toUpperCase() + d.slice(1)}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="text-xs text-white/50">Time limit (minutes)</span>
+            <input
+              type="number"
+              min={5}
+              max={180}
+              className="w-full rounded-xl border border-white/10 bg-black/20 p-2"
+              placeholder="Automatic"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          {QUESTION_TYPES.map((t) => {
+            const on = types.includes(t)
+            return (
+              <button
+                key={t}
+                onClick={() => setTypes((cur) => (on ? (cur.length > 1 ? cur.filter((x) => x !== t) : cur) : [...cur, t]))}
+                className={'rounded-lg border border-white/10 px-2 py-1 ' + (on ? 'bg-white text-black' : 'bg-white/5 text-white/70')}
+              >
+                {QUESTION_TYPE_LABELS[t]}
+              </button>
+            )
+          })}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-white/80">
+          <input type="checkbox" checked={examMode} onChange={(e) => setExamMode(e.target.checked)} />
+          Exam mode: timed, answers and explanations only after you hand it in
+        </label>
+
         <div className="flex items-center justify-center gap-3">
           <button
             onClick={generate}
@@ -223,22 +629,36 @@ export default function PracticePage() {
           <div>
             <h2 className="text-lg font-semibold">{data.title}</h2>
             <p className="text-xs text-white/50">
-              Language: {data.language} • {data.duration_min} min
+              Language: {data.language} • {data.duration_minutes} min
+              {data.difficulty && <> • {data.difficulty}</>}
+              {isExam && <> • exam</>}
             </p>
+            {examRunning && deadlineAt && (
+              <p className="mt-2 text-xs text-white/60">
+                Hand it in by {new Date(deadlineAt).toLocaleTimeString()}; it is submitted automatically when time is up.
+              </p>
+            )}
+            {showResults && autoSubmitted && (
+              <p className="mt-2 text-xs text-amber-300/80">Time was up, so the answers saved before the deadline were graded.</p>
+            )}
             {showResults && (
               <div className="mt-2 text-sm text-white/80">
                 {score.correct} / {score.total} correct
+                {score.points !== undefined && score.points !== score.correct && (
+                  <span className="text-white/50"> • {score.points} points with partial credit</span>
+                )}
               </div>
             )}
           </div>
 
           {!started && (
             <button
-              onClick={() => setStarted(true)}
+              onClick={startTest}
+              disabled={starting}
               className="rounded-xl bg-white px-4 py-2 text-black text-sm font-medium flex items-center gap-2"
             >
-              <Play size={16} />
-              Start test
+              {starting ? <Loader2 className="animate-spin" size={16} /> : <Play size={16} />}
+              {isExam ? `Start exam (${data.duration_minutes} min)` : 'Start test'}
             </button>
           )}
 
@@ -279,9 +699,8 @@ export default function PracticePage() {
                             name={q.id}
                             value={opt}
                             checked={answers[q.id] === opt}
-                            onChange={(e) =>
-                              setAnswers((a) => ({ ...a, [q.id]: e.target.value }))
-                            }
+                            disabled={showResults}
+                            onChange={(e) => answer(q.id, e.target.value)}
                           />
                           <MarkdownMath content={opt} />
                         </label>
@@ -293,26 +712,47 @@ export default function PracticePage() {
                   {q.type === 'short' && (
                     <div className="space-y-2">
                       {(() => {
-                        const expected = String(q.answer ?? '').trim()
-                        const hasExpected = expected.length > 0
-                        const normalizedExpected = normalizeAnswer(expected)
-                        const normalizedActual = normalizeAnswer(answers[q.id] || '')
-                        const isCorrect = hasExpected && normalizedActual === normalizedExpected
-                        const borderClass = showResults && hasExpected ? (isCorrect ? 'border-green-500/60' : 'border-red-500/60') : 'border-white/10'
+                        const grade = showResults ? grades[q.id] : undefined
+                        const hasExpected = !!grade?.expected
+                        const isCorrect = !!grade?.correct
+                        const isPartial = !isCorrect && (grade?.score ?? 0) > 0
+                        const borderClass =
+                          showResults && hasExpected
+                            ? isCorrect
+                              ? 'border-green-500/60'
+                              : isPartial
+                                ? 'border-amber-400/60'
+                                : 'border-red-500/60'
+                            : 'border-white/10'
 
                         return (
                           <>
                             <textarea
                               className={'w-full rounded-xl border bg-black/20 p-2 text-sm ' + borderClass}
                               placeholder="Your answer..."
-                              value={answers[q.id] || ''}
-                              onChange={(e) =>
-                                setAnswers((a) => ({ ...a, [q.id]: e.target.value }))
-                              }
+                              value={typeof answers[q.id] === 'string' ? (answers[q.id] as string) : ''}
+                              readOnly={showResults}
+                              onFocus={() => trackTime(q.id)}
+                              onChange={(e) => answer(q.id, e.target.value)}
                             />
+                            {grade && hasExpected && (grade.method !== 'exact' || grade.feedback) && (
+                              <div className="space-y-1 text-xs text-white/70">
+                                <div>
+                                  Score: <span className="text-white/90">{Math.round(grade.score * 100)}%</span>
+                                  {grade.feedback && <> • {grade.feedback}</>}
+                                </div>
+                                {!!grade.missingPoints?.length && (
+                                  <ul className="list-disc pl-5">
+                                    {grade.missingPoints.map((p) => (
+                                      <li key={p}>{p}</li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            )}
                             {showResults && hasExpected && !isCorrect && (
                               <div className="text-xs text-white/70">
-                                Expected answer: <span className="text-white/90">{q.answer}</span>
+                                Expected answer: <span className="text-white/90">{grade?.expected}</span>
                               </div>
                             )}
                           </>
@@ -320,21 +760,55 @@ export default function PracticePage() {
                       })()}
                     </div>
                   )}
+
+                  {(() => {
+                    const Input = RULE_INPUTS[q.type]
+                    if (!Input) return null
+                    const grade = showResults ? grades[q.id] : undefined
+                    return (
+                      <div className="space-y-2" onFocusCapture={() => trackTime(q.id)}>
+                        <Input q={q} value={answers[q.id]} disabled={showResults} onChange={(v) => answer(q.id, v)} />
+                        {grade && !grade.correct && (
+                          <div className="text-xs text-white/70">
+                            {grade.score > 0 && <>Partly right ({Math.round(grade.score * 100)}%). </>}
+                            Expected answer: <span className="text-white/90">{grade.expected}</span>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })()}
+
+                  {showResults && q.explanation && (
+                    <details className="text-xs text-white/70">
+                      <summary className="cursor-pointer text-white/60">Explanation</summary>
+                      <div className="mt-2">
+                        <MarkdownMath content={q.explanation} />
+                      </div>
+                    </details>
+                  )}
                 </div>
               ))}
 
-              <div className="pt-2">
-                <button
-                  onClick={handleShowResults}
-                  className="rounded-xl bg-white px-4 py-2 text-black text-sm font-medium"
-                >
-                  Show results
-                </button>
-              </div>
+              {!showResults && (
+                <div className="pt-2">
+                  <button
+                    onClick={handleShowResults}
+                    disabled={submitting || !attemptId}
+                    className="rounded-xl bg-white px-4 py-2 text-black text-sm font-medium flex items-center gap-2"
+                  >
+                    {submitting && <Loader2 className="animate-spin" size={16} />}
+                    {isExam ? 'Hand in exam' : 'Show results'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </Panel>
       )}
+
+      <Panel className="p-6">
+        <TestHistory refreshKey={historyKey} />
+      </Panel>
       </div>
     </AuthGate>
   )
@@ -1,9 +1,10 @@
 'use client'
 
 import Link from 'next/link'
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { supabase } from '@/lib/supabaseClient'
+import { authedFetch } from '@/lib/authClient'
 import { Button, Card, Input } from '@/components/ui'
 
 export default function SignupPage() {
@@ -14,6 +15,13 @@ export default function SignupPage() {
   const [phone, setPhone] = useState('')
   const [error, setError] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
+  const [referralCode, setReferralCode] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const ref = new URLSearchParams(window.location.search).get('ref')
+    if (ref) setReferralCode(ref.trim().toUpperCase())
+  }, [])
 
   function normalizePhoneDigits(raw: string) {
     return raw.replace(/\D/g, '')
@@ -53,6 +61,7 @@ export default function SignupPage() {
             full_name: fullName.trim(),
             phone: phoneTrim,
             phone_normalized: phoneNorm,
+            ...(referralCode ? { referral_code: referralCode } : {}),
           },
         },
       })
@@ -64,6 +73,10 @@ export default function SignupPage() {
         return
       }
       if (data?.session) {
+        if (referralCode) {
+          // Best effort; /billing retries from the saved metadata.
+          await authedFetch('/api/referrals/claim', { method: 'POST' }).catch(() => null)
+        }
         router.replace('/plan')
         return
       }
@@ -81,6 +94,7 @@ export default function SignupPage() {
       <Card>
         <h1 className="text-xl font-semibold">Sign up</h1>
         <p className="mt-1 text-sm text-dim">Create your account.</p>
+        {referralCode && <p className="mt-2 text-sm text-white/70">Invited by a friend: you both get credits once your phone number is on your profile.</p>}
 
         <form className="mt-6 space-y-3" onSubmit={onSubmit}>
           <Input value={fullName} onChange={(e) => setFullName(e.target.value)} placeholder="Full name" />
@@ -3,25 +3,21 @@
 import { useEffect, useMemo, useState } from 'react'
 import { Button, Card, Textarea, Input } from '@/components/ui'
 import FlipCard from '@/components/FlipCard'
-import { FileUp, Loader2, RotateCcw, ArrowLeftRight } from 'lucide-react'
+import { FileUp, Loader2, RotateCcw, ArrowLeftRight, Download, Upload } from 'lucide-react'
 import AuthGate from '@/components/AuthGate'
 import { authedFetch } from '@/lib/authClient'
 import { supabase } from '@/lib/supabaseClient'
 import { uploadFilesToStorage } from '@/lib/uploadClient'
 import HScroll from '@/components/HScroll'
+import VocabReview from '@/components/VocabReview'
+import VocabSetEditor from '@/components/VocabSetEditor'
+import { termKey } from '@/lib/vocabImport'
+import { playCardAudio } from '@/lib/vocabAudioClient'
+import { AUTO_LANGUAGE, VOCAB_LANGUAGES, defaultTargetFor, detectLanguage, vocabLanguageLabel } from '@/lib/vocabLanguages'
 
-type Item = { term: string; translation: string; example?: string }
+type Item = { id?: string; term: string; translation: string; example?: string }
 type Payload = { title: string; language: string; items: Item[] }
 
-const LANGS: { code: string; label: string }[] = [
-  { code: 'en', label: 'English' },
-  { code: 'hu', label: 'Hungarian' },
-  { code: 'de', label: 'German' },
-  { code: 'es', label: 'Spanish' },
-  { code: 'it', label: 'Italian' },
-  { code: 'la', label: 'Latin' },
-]
-
 type SavedSet = {
   id: string
   createdAt: number
@@ -53,6 +49,19 @@ function fmtDate(ts: number) {
   })
 }
 
+/** Sets saved to Supabase have uuid ids; local-only ones (`nowId`) cannot be exported. */
+function isSavedSetId(id: string) {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)
+}
+
+/** The term side of each pasted line ("term - translation" or tab-separated pairs), for language detection. */
+function termsOnly(raw: string) {
+  return raw
+    .split(/\r?\n/)
+    .map((line) => line.split(/\t| [-–] /)[0])
+    .join('\n')
+}
+
 function parseWords(raw: string) {
   const cleaned = raw.replace(/\r/g, '\n')
   const parts = cleaned
@@ -63,7 +72,7 @@ function parseWords(raw: string) {
   const seen = new Set<string>()
   const out: string[] = []
   for (const p of parts) {
-    const key = p.toLowerCase()
+    const key = termKey(p)
     if (seen.has(key)) continue
     seen.add(key)
     out.push(p)
@@ -72,14 +81,17 @@ function parseWords(raw: string) {
 }
 
 function VocabPageInner() {
-  const [tab, setTab] = useState<'cards' | 'history' | 'learn'>('cards')
+  const [tab, setTab] = useState<'cards' | 'history' | 'learn' | 'review'>('cards')
   const [raw, setRaw] = useState('')
   const [files, setFiles] = useState<File[]>([])
-  const [sourceLang, setSourceLang] = useState('en')
+  const [sourceLang, setSourceLang] = useState(AUTO_LANGUAGE)
   const [targetLang, setTargetLang] = useState('hu')
   const [swappedView, setSwappedView] = useState(false)
 
   const [loading, setLoading] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [exporting, setExporting] = useState<'csv' | 'apkg' | null>(null)
+  const [editing, setEditing] = useState(false)
   const [data, setData] = useState<Payload | null>(null)
   const [error, setError] = useState<string | null>(null)
 
@@ -122,6 +134,7 @@ function VocabPageInner() {
   }
 
   function applyLoadedSet(s: SavedSet) {
+    setEditing(false)
     setActiveId(s.id)
     setData(s.data)
     setSourceLang(s.sourceLang)
@@ -186,6 +199,7 @@ function VocabPageInner() {
                 language: `${r.from_lang}→${r.to_lang}`,
                 items: Array.isArray(r.cards)
                   ? r.cards.map((c: any) => ({
+                      id: c.id,
                       term: c.term,
                       translation: c.translation,
                       example: c.example,
@@ -231,10 +245,20 @@ function VocabPageInner() {
   }, [])
 
   const words = useMemo(() => parseWords(raw), [raw])
+  // Pronunciation is served per saved card, so local-only sets have none.
+  const canPlay = !!activeId && isSavedSetId(activeId)
+
+  const detectedLang = useMemo(() => detectLanguage(termsOnly(raw)), [raw])
+  // Pair to offer when the pasted words look like another language than the selected one.
+  const suggestedPair =
+    detectedLang && (sourceLang === AUTO_LANGUAGE ? detectedLang === targetLang : detectedLang !== sourceLang)
+      ? { source: detectedLang, target: detectedLang === targetLang ? defaultTargetFor(detectedLang) : targetLang }
+      : null
 
   function swapDirection() {
+    const from = sourceLang === AUTO_LANGUAGE ? detectedLang ?? defaultTargetFor(targetLang) : sourceLang
     setSourceLang(targetLang)
-    setTargetLang(sourceLang)
+    setTargetLang(from)
     setSwappedView((v) => !v)
   }
 
@@ -275,7 +299,9 @@ function VocabPageInner() {
 }
 
 
-      setData(json)
+      // The server resolves "Detect automatically" and may change a target equal to the source.
+      const resolvedSource: string = json?.sourceLang ?? sourceLang
+      const resolvedTarget: string = json?.targetLang ?? targetLang
 
       // persist to Supabase if signed in (best-effort)
       let persistedId: string | null = null
@@ -291,24 +317,30 @@ function VocabPageInner() {
           }))
           const { data: row, error: sbErr } = await supabase
             .from('vocab_sets')
-            .insert({ user_id: user.id, from_lang: sourceLang, to_lang: targetLang, cards })
-            .select('id, created_at')
+            .insert({ user_id: user.id, from_lang: resolvedSource, to_lang: resolvedTarget, cards })
+            .select('id, created_at, cards')
             .single()
 
           if (!sbErr && row?.id) {
             persistedId = row.id
             persistedCreatedAt = row.created_at ? new Date(row.created_at).getTime() : Date.now()
+            // Cards come back with the ids the review scheduler keys on.
+            if (Array.isArray(row.cards)) json = { ...json, items: row.cards }
           }
         }
       } catch {
         // ignore persistence errors
       }
 
+      setData(json)
+      setSourceLang(resolvedSource)
+      setTargetLang(resolvedTarget)
+
       const item: SavedSet = {
         id: persistedId ?? nowId(),
         createdAt: persistedCreatedAt ?? Date.now(),
-        sourceLang,
-        targetLang,
+        sourceLang: resolvedSource,
+        targetLang: resolvedTarget,
         swappedView,
         data: json,
       }
@@ -326,6 +358,79 @@ function VocabPageInner() {
     }
   }
 
+  // Imports are parsed on the server without AI, so they never use the free quota or credits.
+  async function importSet(input: { file?: File; text?: string }) {
+    setError(null)
+    if (importing) return
+    setImporting(true)
+    try {
+      const fd = new FormData()
+      if (input.file) fd.append('file', input.file)
+      if (input.text) fd.append('text', input.text)
+      fd.append('sourceLang', sourceLang)
+      fd.append('targetLang', targetLang)
+
+      const res = await authedFetch('/api/vocab/import', { method: 'POST', body: fd })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? `Import failed (${res.status})`)
+
+      const set = json.set
+      const item: SavedSet = {
+        id: set.id,
+        createdAt: new Date(set.createdAt).getTime(),
+        sourceLang: set.sourceLang,
+        targetLang: set.targetLang,
+        swappedView: false,
+        data: {
+          title: input.file ? input.file.name.replace(/\.[^.]+$/, '') : 'Imported set',
+          language: `${set.sourceLang}→${set.targetLang}`,
+          items: set.cards,
+        },
+      }
+      saveHistory([item, ...history].slice(0, 40))
+      applyLoadedSet(item)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  // Edits are saved by the set API; mirror the returned cards into the open set and the history.
+  function applyEditedCards(cards: Item[], removedSetId?: string) {
+    if (!data || !activeId) return
+    const nextData = { ...data, items: cards }
+    setData(nextData)
+    saveHistory(
+      history.filter((h) => h.id !== removedSetId).map((h) => (h.id === activeId ? { ...h, data: nextData } : h))
+    )
+    resetLearnState()
+  }
+
+  async function exportSet(format: 'csv' | 'apkg') {
+    if (!activeId || exporting) return
+    setError(null)
+    setExporting(format)
+    try {
+      const res = await authedFetch(`/api/vocab/sets/${activeId}/export?format=${format}`, { cache: 'no-store' })
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({} as any))
+        throw new Error(json?.error?.message ?? `Export failed (${res.status})`)
+      }
+      const name = /filename="([^"]+)"/.exec(res.headers.get('content-disposition') ?? '')?.[1] ?? `vocab.${format}`
+      const url = URL.createObjectURL(await res.blob())
+      const a = document.createElement('a')
+      a.href = url
+      a.download = name
+      a.click()
+      URL.revokeObjectURL(url)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setExporting(null)
+    }
+  }
+
   function reset() {
     setRaw('')
     setFiles([])
@@ -507,6 +612,9 @@ function VocabPageInner() {
             <Button className="shrink-0" variant={tab === 'learn' ? 'primary' : 'ghost'} onClick={() => setTab('learn')}>
               Learn
             </Button>
+            <Button className="shrink-0" variant={tab === 'review' ? 'primary' : 'ghost'} onClick={() => setTab('review')}>
+              Due today
+            </Button>
 
             <Button className="shrink-0" variant="ghost" onClick={reset}>
               <RotateCcw size={16} /> Reset
@@ -531,7 +639,10 @@ function VocabPageInner() {
               onChange={(e) => setSourceLang(e.target.value)}
               className="rounded-lg border border-white/10 bg-black/40 px-3 py-2 text-xs text-white/80"
             >
-              {LANGS.map((l) => (
+              <option value={AUTO_LANGUAGE}>
+                {sourceLang === AUTO_LANGUAGE && detectedLang ? `Detect (${vocabLanguageLabel(detectedLang)})` : 'Detect automatically'}
+              </option>
+              {VOCAB_LANGUAGES.map((l) => (
                 <option key={l.code} value={l.code}>
                   {l.label}
                 </option>
@@ -548,7 +659,7 @@ function VocabPageInner() {
               onChange={(e) => setTargetLang(e.target.value)}
               className="rounded-lg border border-white/10 bg-black/40 px-3 py-2 text-xs text-white/80"
             >
-              {LANGS.map((l) => (
+              {VOCAB_LANGUAGES.map((l) => (
                 <option key={l.code} value={l.code}>
                   {l.label}
                 </option>
@@ -556,7 +667,26 @@ function VocabPageInner() {
             </select>
           </div>
 
+          {suggestedPair ? (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-white/60">
+              <span>
+                Looks like {vocabLanguageLabel(suggestedPair.source)}. Suggested pair:{' '}
+                {vocabLanguageLabel(suggestedPair.source)} → {vocabLanguageLabel(suggestedPair.target)}
+              </span>
+              <Button
+                variant="ghost"
+                onClick={() => {
+                  setSourceLang(suggestedPair.source)
+                  setTargetLang(suggestedPair.target)
+                }}
+              >
+                Use it
+              </Button>
+            </div>
+          ) : null}
+
           <Textarea
+            dir="auto"
             className="mt-3 min-h-[240px]"
             value={raw}
             onChange={(e) => setRaw(e.target.value)}
@@ -577,6 +707,31 @@ function VocabPageInner() {
             </label>
           </div>
 
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-2 border-t border-white/10 pt-3">
+            <div className="text-xs text-white/55">Already have translations? Import them as-is (no AI, free).</div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" onClick={() => importSet({ text: raw })} disabled={importing || !raw.trim()}>
+                Import list
+              </Button>
+              <label className="text-xs text-white/70 cursor-pointer inline-flex items-center gap-2">
+                <input
+                  className="hidden"
+                  type="file"
+                  accept=".csv,.tsv,.txt,.apkg"
+                  disabled={importing}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) importSet({ file })
+                  }}
+                />
+                <span className="inline-flex items-center gap-2 rounded-lg border border-white/10 bg-white/[0.03] px-3 py-2">
+                  {importing ? <Loader2 className="animate-spin" size={14} /> : <Upload size={14} />} CSV / Quizlet / Anki
+                </span>
+              </label>
+            </div>
+          </div>
+
           {files.length > 0 && <div className="mt-2 text-xs text-white/60">{files.length} image(s) attached</div>}
           {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
         </Card>
@@ -586,9 +741,21 @@ function VocabPageInner() {
             <>
               <div className="flex items-center justify-between">
                 <div className="text-xs uppercase tracking-[0.18em] text-white/55">History</div>
-                <Button variant="ghost" onClick={clearAll} className="gap-2">
-                  Clear
-                </Button>
+                <div className="flex items-center gap-1">
+                  {activeId && isSavedSetId(activeId) ? (
+                    <>
+                      <Button variant="ghost" onClick={() => exportSet('csv')} disabled={!!exporting} className="gap-2">
+                        {exporting === 'csv' ? <Loader2 className="animate-spin" size={14} /> : <Download size={14} />} CSV
+                      </Button>
+                      <Button variant="ghost" onClick={() => exportSet('apkg')} disabled={!!exporting} className="gap-2">
+                        {exporting === 'apkg' ? <Loader2 className="animate-spin" size={14} /> : <Download size={14} />} Anki
+                      </Button>
+                    </>
+                  ) : null}
+                  <Button variant="ghost" onClick={clearAll} className="gap-2">
+                    Clear
+                  </Button>
+                </div>
               </div>
 
               {history.length === 0 ? (
@@ -608,14 +775,18 @@ function VocabPageInner() {
                     >
                       <div className="text-sm font-medium truncate">{h.data?.title || 'Vocab set'}</div>
                       <div className="mt-1 text-xs text-white/55">
-                        {LANGS.find((l) => l.code === h.sourceLang)?.label ?? h.sourceLang} →{' '}
-                        {LANGS.find((l) => l.code === h.targetLang)?.label ?? h.targetLang} • {fmtDate(h.createdAt)}
+                        {vocabLanguageLabel(h.sourceLang)} → {vocabLanguageLabel(h.targetLang)} • {fmtDate(h.createdAt)}
                       </div>
                     </button>
                   ))}
                 </div>
               )}
             </>
+          ) : tab === 'review' ? (
+            <>
+              <div className="text-xs uppercase tracking-[0.18em] text-white/55">Due today (all sets)</div>
+              <VocabReview />
+            </>
           ) : tab === 'learn' ? (
             <>
               <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
@@ -758,10 +929,33 @@ function VocabPageInner() {
             </>
           ) : (
             <>
-              <div className="text-xs uppercase tracking-[0.18em] text-white/55">Flashcards</div>
+              <div className="flex items-center justify-between">
+                <div className="text-xs uppercase tracking-[0.18em] text-white/55">Flashcards</div>
+                {data && activeId && isSavedSetId(activeId) ? (
+                  <Button variant={editing ? 'primary' : 'ghost'} onClick={() => setEditing((v) => !v)}>
+                    {editing ? 'Done' : 'Edit'}
+                  </Button>
+                ) : null}
+              </div>
 
               {!data ? (
                 <p className="mt-3 text-sm text-white/60">Generate a set to see your cards here.</p>
+              ) : editing && activeId ? (
+                <VocabSetEditor
+                  setId={activeId}
+                  cards={data.items}
+                  mergeCandidates={history
+                    .filter(
+                      (h) =>
+                        h.id !== activeId &&
+                        isSavedSetId(h.id) &&
+                        h.sourceLang === sourceLang &&
+                        h.targetLang === targetLang
+                    )
+                    .map((h) => ({ id: h.id, label: `${h.data?.title || 'Vocab set'} • ${fmtDate(h.createdAt)}` }))}
+                  onSaved={(cards) => applyEditedCards(cards)}
+                  onMerged={(fromSetId, cards) => applyEditedCards(cards, fromSetId)}
+                />
               ) : (
                 <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-3 max-h-[520px] overflow-auto pr-2">
                   {data.items.map((it, i) => (
@@ -769,15 +963,25 @@ function VocabPageInner() {
                       <FlipCard
                         front={swappedView ? it.translation : it.term}
                         back={swappedView ? it.term : it.translation}
+                        onPlayFront={
+                          canPlay && it.id
+                            ? () => playCardAudio(activeId!, it.id!, swappedView ? 'translation' : 'term')
+                            : undefined
+                        }
+                        onPlayBack={
+                          canPlay && it.id
+                            ? () => playCardAudio(activeId!, it.id!, swappedView ? 'term' : 'translation')
+                            : undefined
+                        }
                         hintFront={
                           swappedView
-                            ? LANGS.find((l) => l.code === targetLang)?.label
-                            : LANGS.find((l) => l.code === sourceLang)?.label
+                            ? vocabLanguageLabel(targetLang)
+                            : vocabLanguageLabel(sourceLang)
                         }
                         hintBack={
                           swappedView
-                            ? LANGS.find((l) => l.code === sourceLang)?.label
-                            : LANGS.find((l) => l.code === targetLang)?.label
+                            ? vocabLanguageLabel(sourceLang)
+                            : vocabLanguageLabel(targetLang)
                         }
                       />
                       {it.example ? <div className="mt-2 text-xs text-white/55">{it.example}</div> : null}
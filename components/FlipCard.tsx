@@ -2,17 +2,63 @@
 
 import { useState } from 'react'
 import clsx from 'clsx'
+import { Loader2, Volume2 } from 'lucide-react'
+
+/** Speaker control inside the card; a span because the card itself is a button. */
+function SpeakButton({ onPlay }: { onPlay: () => Promise<void> }) {
+  const [busy, setBusy] = useState(false)
+  const [failed, setFailed] = useState(false)
+
+  async function play(e: React.SyntheticEvent) {
+    e.stopPropagation()
+    e.preventDefault()
+    if (busy) return
+    setBusy(true)
+    setFailed(false)
+    try {
+      await onPlay()
+    } catch {
+      setFailed(true)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label="Play pronunciation"
+      title={failed ? 'Pronunciation unavailable' : 'Play pronunciation'}
+      onClick={play}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') play(e)
+      }}
+      className={clsx(
+        'absolute right-3 top-3 rounded-lg border border-white/10 bg-white/[0.04] p-1.5 hover:bg-white/[0.08]',
+        failed ? 'text-red-300' : 'text-white/70'
+      )}
+    >
+      {busy ? <Loader2 className="animate-spin" size={14} /> : <Volume2 size={14} />}
+    </span>
+  )
+}
 
 export default function FlipCard({
   front,
   back,
   hintFront,
   hintBack,
+  onPlayFront,
+  onPlayBack,
 }: {
   front: string
   back: string
   hintFront?: string
   hintBack?: string
+  /** Plays the pronunciation of that side; the speaker button only shows when set. */
+  onPlayFront?: () => Promise<void>
+  onPlayBack?: () => Promise<void>
 }) {
   const [flipped, setFlipped] = useState(false)
 
@@ -32,15 +78,17 @@ export default function FlipCard({
         >
           {/* Front */}
           <div className="absolute inset-0 rounded-2xl border border-white/10 bg-white/[0.03] p-4 [backface-visibility:hidden]">
+            {onPlayFront ? <SpeakButton onPlay={onPlayFront} /> : null}
             {hintFront ? <div className="text-[10px] uppercase tracking-[0.18em] text-white/45">{hintFront}</div> : null}
-            <div className="mt-3 text-2xl font-semibold tracking-tight text-white">{front}</div>
+            <div dir="auto" className="mt-3 text-2xl font-semibold tracking-tight text-white">{front}</div>
             <div className="mt-3 text-xs text-white/45">Click to flip</div>
           </div>
 
           {/* Back */}
           <div className="absolute inset-0 rounded-2xl border border-white/10 bg-black/60 p-4 [transform:rotateY(180deg)] [backface-visibility:hidden]">
+            {onPlayBack ? <SpeakButton onPlay={onPlayBack} /> : null}
             {hintBack ? <div className="text-[10px] uppercase tracking-[0.18em] text-white/45">{hintBack}</div> : null}
-            <div className="mt-3 text-2xl font-semibold tracking-tight text-white">{back}</div>
+            <div dir="auto" className="mt-3 text-2xl font-semibold tracking-tight text-white">{back}</div>
             <div className="mt-3 text-xs text-white/45">Click to flip back</div>
           </div>
         </div>
@@ -0,0 +1,126 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { authedFetch } from '@/lib/authClient'
+
+type TrendGroup = {
+  key: string
+  label: string
+  attempts: number
+  averageScore: number
+  latestScore: number
+  points: { attemptId: string; submittedAt: string; score: number }[]
+}
+
+type TopicAccuracy = { topic: string; answered: number; correct: number; accuracy: number }
+
+type GroupBy = 'topic' | 'plan'
+
+function pct(score: number) {
+  return `${Math.round(score * 100)}%`
+}
+
+/** One bar per attempt, oldest on the left. */
+function ScoreBars({ points }: { points: TrendGroup['points'] }) {
+  const shown = points.slice(-20)
+  return (
+    <div className="flex h-10 items-end gap-1">
+      {shown.map((p) => (
+        <div
+          key={p.attemptId}
+          title={`${new Date(p.submittedAt).toLocaleDateString()} • ${pct(p.score)}`}
+          className={'w-2 rounded-sm ' + (p.score >= 0.8 ? 'bg-green-400/70' : p.score >= 0.5 ? 'bg-amber-300/70' : 'bg-red-400/70')}
+          style={{ height: `${Math.max(6, Math.round(p.score * 100))}%` }}
+        />
+      ))}
+    </div>
+  )
+}
+
+/** Score history of submitted practice tests, per topic or per study plan. */
+export default function TestHistory({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('topic')
+  const [groups, setGroups] = useState<TrendGroup[]>([])
+  const [topics, setTopics] = useState<TopicAccuracy[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const res = await authedFetch(`/api/test/attempts/trends?groupBy=${groupBy}`, { cache: 'no-store' })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not load your test history')
+      setGroups(Array.isArray(json?.groups) ? json.groups : [])
+      setTopics(Array.isArray(json?.topics) ? json.topics : [])
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setLoading(false)
+    }
+  }, [groupBy])
+
+  useEffect(() => {
+    load()
+  }, [load, refreshKey])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold">Progress</h2>
+        <div className="flex gap-1 text-xs">
+          {(['topic', 'plan'] as GroupBy[]).map((g) => (
+            <button
+              key={g}
+              onClick={() => setGroupBy(g)}
+              className={
+                'rounded-lg border border-white/10 px-2 py-1 ' + (groupBy === g ? 'bg-white text-black' : 'bg-white/5 text-white/70')
+              }
+            >
+              By {g}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading && <Loader2 className="animate-spin text-white/50" size={16} />}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {!loading && !error && !groups.length && (
+        <p className="text-sm text-white/50">Submitted tests show up here so you can follow your scores over time.</p>
+      )}
+
+      <div className="space-y-3">
+        {groups.map((g) => (
+          <div key={g.key} className="flex items-center gap-4 rounded-2xl border border-white/10 bg-black/20 p-3">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm text-white/90">{g.label}</div>
+              <div className="text-xs text-white/50">
+                {g.attempts} {g.attempts === 1 ? 'attempt' : 'attempts'} • average {pct(g.averageScore)} • latest{' '}
+                {pct(g.latestScore)}
+              </div>
+            </div>
+            <ScoreBars points={g.points} />
+          </div>
+        ))}
+      </div>
+
+      {topics.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs uppercase tracking-wide text-white/40">Accuracy by topic</div>
+          {topics.slice(0, 12).map((t) => (
+            <div key={t.topic} className="flex items-center gap-3 text-sm">
+              <span className="min-w-0 flex-1 truncate text-white/80">{t.topic}</span>
+              <span className="text-xs text-white/50">
+                {t.correct}/{t.answered}
+              </span>
+              <span className="w-12 text-right">{pct(t.accuracy)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,21 +12,27 @@ type TimerState = {
   endsAt: number | null
   pausedRemainingMs: number | null
   remainingMs: number
+  /** Exam countdowns: cannot be paused or stopped until released. */
+  locked: boolean
 }
 
 type TimerContextValue = TimerState & {
   start: (durationMinutes: number, label?: string | null) => void
+  /** Starts a locked countdown to a fixed end time (e.g. a server-side exam deadline). */
+  startLocked: (endsAt: number, label?: string | null) => void
   pause: () => void
   resume: () => void
   stop: () => void
+  /** Ends a locked countdown. */
+  release: () => void
 }
 
 type TimerAction =
   | { type: 'restore'; state: Partial<TimerState> }
-  | { type: 'start'; now: number; durationMs: number; label: string | null }
+  | { type: 'start'; now: number; durationMs: number; label: string | null; locked?: boolean }
   | { type: 'pause'; now: number }
   | { type: 'resume'; now: number }
-  | { type: 'stop' }
+  | { type: 'stop'; force?: boolean }
   | { type: 'tick'; now: number }
 
 const STORAGE_KEY = 'examly_timer_state_v1'
@@ -38,6 +44,17 @@ function computeRemaining(endsAt: number | null, now: number) {
   return Math.max(0, endsAt - now)
 }
 
+const initialState: TimerState = {
+  visible: false,
+  status: 'stopped',
+  label: null,
+  durationMs: 0,
+  endsAt: null,
+  pausedRemainingMs: null,
+  remainingMs: 0,
+  locked: false,
+}
+
 function reducer(state: TimerState, action: TimerAction): TimerState {
   switch (action.type) {
     case 'restore': {
@@ -45,6 +62,7 @@ function reducer(state: TimerState, action: TimerAction): TimerState {
       return next
     }
     case 'start': {
+      if (state.locked && !action.locked) return state
       const endsAt = action.now + action.durationMs
       return {
         visible: true,
@@ -54,10 +72,11 @@ function reducer(state: TimerState, action: TimerAction): TimerState {
         endsAt,
         pausedRemainingMs: null,
         remainingMs: action.durationMs,
+        locked: Boolean(action.locked),
       }
     }
     case 'pause': {
-      if (state.status !== 'running' || !state.endsAt) return state
+      if (state.locked || state.status !== 'running' || !state.endsAt) return state
       const remainingMs = computeRemaining(state.endsAt, action.now)
       return {
         ...state,
@@ -78,29 +97,12 @@ function reducer(state: TimerState, action: TimerAction): TimerState {
       }
     }
     case 'stop':
-      return {
-        visible: false,
-        status: 'stopped',
-        label: null,
-        durationMs: 0,
-        endsAt: null,
-        pausedRemainingMs: null,
-        remainingMs: 0,
-      }
+      if (state.locked && !action.force) return state
+      return initialState
     case 'tick': {
       if (state.status !== 'running' || !state.endsAt) return state
       const remainingMs = computeRemaining(state.endsAt, action.now)
-      if (remainingMs <= 0) {
-        return {
-          visible: false,
-          status: 'stopped',
-          label: null,
-          durationMs: 0,
-          endsAt: null,
-          pausedRemainingMs: null,
-          remainingMs: 0,
-        }
-      }
+      if (remainingMs <= 0) return initialState
       return { ...state, remainingMs }
     }
     default:
@@ -108,16 +110,6 @@ function reducer(state: TimerState, action: TimerAction): TimerState {
   }
 }
 
-const initialState: TimerState = {
-  visible: false,
-  status: 'stopped',
-  label: null,
-  durationMs: 0,
-  endsAt: null,
-  pausedRemainingMs: null,
-  remainingMs: 0,
-}
-
 export function TimerProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(reducer, initialState)
 
@@ -132,6 +124,7 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
       const durationMs = typeof parsed?.durationMs === 'number' ? parsed.durationMs : 0
       const endsAt = typeof parsed?.endsAt === 'number' ? parsed.endsAt : null
       const pausedRemainingMs = typeof parsed?.pausedRemainingMs === 'number' ? parsed.pausedRemainingMs : null
+      const locked = parsed?.locked === true
       if (status === 'running' || status === 'paused' || status === 'stopped') {
         const now = Date.now()
         const remainingMs =
@@ -150,6 +143,7 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
             endsAt: status === 'running' ? endsAt : null,
             pausedRemainingMs: status === 'paused' ? pausedRemainingMs : null,
             remainingMs,
+            locked: locked && status === 'running',
           },
         })
       }
@@ -170,12 +164,13 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
           durationMs: state.durationMs,
           endsAt: state.endsAt,
           pausedRemainingMs: state.pausedRemainingMs,
+          locked: state.locked,
         }),
       )
     } catch {
       // ignore storage errors
     }
-  }, [state.visible, state.status, state.label, state.durationMs, state.endsAt, state.pausedRemainingMs])
+  }, [state.visible, state.status, state.label, state.durationMs, state.endsAt, state.pausedRemainingMs, state.locked])
 
   useEffect(() => {
     if (state.status !== 'running') return
@@ -189,19 +184,26 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
     const durationMs = Math.max(0, Math.round(durationMinutes * 60 * 1000))
     dispatch({ type: 'start', now: Date.now(), durationMs, label: label ?? null })
   }, [])
+  const startLocked = useCallback((endsAt: number, label?: string | null) => {
+    const now = Date.now()
+    dispatch({ type: 'start', now, durationMs: Math.max(0, endsAt - now), label: label ?? null, locked: true })
+  }, [])
   const pause = useCallback(() => dispatch({ type: 'pause', now: Date.now() }), [])
   const resume = useCallback(() => dispatch({ type: 'resume', now: Date.now() }), [])
   const stop = useCallback(() => dispatch({ type: 'stop' }), [])
+  const release = useCallback(() => dispatch({ type: 'stop', force: true }), [])
 
   const value = useMemo(
     () => ({
       ...state,
       start,
+      startLocked,
       pause,
       resume,
       stop,
+      release,
     }),
-    [state, start, pause, resume, stop],
+    [state, start, startLocked, pause, resume, stop, release],
   )
 
   return <TimerContext.Provider value={value}>{children}</TimerContext.Provider>
@@ -0,0 +1,136 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui'
+import { authedFetch } from '@/lib/authClient'
+import type { ReviewGrade } from '@/lib/srs'
+
+type DueCard = {
+  id: string
+  setId: string
+  term: string
+  translation: string
+  example?: string
+  isNew: boolean
+}
+
+type Counts = { review: number; new: number; unseen: number }
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string }[] = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' },
+]
+
+/** "Due today" queue across all saved sets (or one set), graded with the server-side SRS. */
+export default function VocabReview({ setId }: { setId?: string | null }) {
+  const [cards, setCards] = useState<DueCard[]>([])
+  const [counts, setCounts] = useState<Counts | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [revealed, setRevealed] = useState(false)
+  const [done, setDone] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const qs = new URLSearchParams({ tz: String(new Date().getTimezoneOffset()) })
+      if (setId) qs.set('setId', setId)
+      const res = await authedFetch(`/api/vocab/due?${qs}`, { cache: 'no-store' })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not load due cards')
+      setCards(Array.isArray(json?.cards) ? json.cards : [])
+      setCounts(json?.counts ?? null)
+      setRevealed(false)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setLoading(false)
+    }
+  }, [setId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function grade(value: ReviewGrade) {
+    const card = cards[0]
+    if (!card || saving) return
+    setSaving(true)
+    setError(null)
+    try {
+      const res = await authedFetch('/api/vocab/review', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ setId: card.setId, cardId: card.id, grade: value }),
+      })
+      const json = await res.json().catch(() => ({} as any))
+      if (!res.ok) throw new Error(json?.error?.message ?? 'Could not save review')
+      // A lapsed card is due again in minutes: keep it in this session, a few cards later.
+      const rest = cards.slice(1)
+      const requeue = value === 'again' ? [{ ...card, isNew: false }] : []
+      const at = Math.min(rest.length, 3)
+      setCards([...rest.slice(0, at), ...requeue, ...rest.slice(at)])
+      setDone((n) => n + 1)
+      setRevealed(false)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const card = cards[0]
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div className="flex items-center justify-between text-xs text-white/55">
+        <div>
+          {counts ? (
+            <>
+              Due: <b className="text-white/80">{counts.review}</b> • New today: <b className="text-white/80">{counts.new}</b> •
+              Reviewed now: <b className="text-white/80">{done}</b>
+            </>
+          ) : null}
+        </div>
+        <Button variant="ghost" onClick={load} disabled={loading}>
+          {loading ? <Loader2 className="animate-spin" size={14} /> : 'Refresh'}
+        </Button>
+      </div>
+
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+
+      {!loading && !card ? (
+        <div className="rounded-2xl border border-white/10 bg-white/[0.02] p-4 text-sm text-white/70">
+          {done ? 'All done for today 🎉' : 'Nothing due right now. Save a set and come back to review it.'}
+        </div>
+      ) : card ? (
+        <div className="rounded-2xl border border-white/10 bg-white/[0.02] p-4">
+          <div className="text-xs text-white/55">{card.isNew ? 'New card' : 'Review'}</div>
+          <div className="mt-1 text-lg font-semibold text-white break-words">{card.term}</div>
+          {revealed ? (
+            <>
+              <div className="mt-3 text-sm text-white/85 break-words">{card.translation}</div>
+              {card.example ? <div className="mt-2 text-xs text-white/55 break-words">Example: {card.example}</div> : null}
+              <div className="mt-4 grid grid-cols-4 gap-2">
+                {GRADE_BUTTONS.map((b) => (
+                  <Button key={b.grade} variant={b.grade === 'good' ? 'primary' : 'ghost'} onClick={() => grade(b.grade)} disabled={saving}>
+                    {b.label}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <Button className="mt-4" onClick={() => setRevealed(true)}>
+              Show answer
+            </Button>
+          )}
+        </div>
+      ) : null}
+    </div>
+  )
+}
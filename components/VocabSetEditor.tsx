@@ -0,0 +1,233 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react'
+import { Button, Input } from '@/components/ui'
+import { authedFetch } from '@/lib/authClient'
+
+type Card = { id?: string; term: string; translation: string; example?: string }
+type SavedSet = { id: string; sourceLang: string; targetLang: string; cards: Card[] }
+
+type Props = {
+  setId: string
+  cards: Card[]
+  /** Other saved sets with the same language pair, offered as merge sources. */
+  mergeCandidates: { id: string; label: string }[]
+  onSaved: (cards: Card[]) => void
+  onMerged: (fromSetId: string, cards: Card[]) => void
+}
+
+async function call(url: string, method: string, body?: unknown): Promise<any> {
+  const res = await authedFetch(url, {
+    method,
+    headers: body === undefined ? undefined : { 'content-type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+  const json = await res.json().catch(() => ({} as any))
+  if (!res.ok) throw new Error(json?.error?.message ?? `Request failed (${res.status})`)
+  return json
+}
+
+/** Edit mode for a saved set: fix cards, add and remove them, reorder, dedupe and merge. */
+export default function VocabSetEditor({ setId, cards, mergeCandidates, onSaved, onMerged }: Props) {
+  const [drafts, setDrafts] = useState<Card[]>(cards)
+  const [newCard, setNewCard] = useState<Card>({ term: '', translation: '', example: '' })
+  const [mergeFrom, setMergeFrom] = useState('')
+  const [busy, setBusy] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDrafts(cards)
+  }, [cards])
+
+  async function run(key: string, action: () => Promise<SavedSet | null>) {
+    if (busy) return
+    setBusy(key)
+    setError(null)
+    setNotice(null)
+    try {
+      const set = await action()
+      if (set) onSaved(set.cards)
+    } catch (e: any) {
+      setError(e?.message ?? 'Error')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  function isDirty(i: number) {
+    const a = drafts[i]
+    const b = cards.find((c) => c.id === a.id)
+    return !!b && (a.term !== b.term || a.translation !== b.translation || (a.example ?? '') !== (b.example ?? ''))
+  }
+
+  function patchDraft(i: number, patch: Partial<Card>) {
+    setDrafts((prev) => prev.map((c, j) => (j === i ? { ...c, ...patch } : c)))
+  }
+
+  const base = `/api/vocab/sets/${setId}/items`
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="max-h-[420px] space-y-2 overflow-auto pr-2">
+        {drafts.map((c, i) => (
+          <div key={c.id ?? i} className="rounded-xl border border-white/10 bg-white/[0.02] p-2">
+            <div className="grid gap-2 sm:grid-cols-2">
+              <Input value={c.term} onChange={(e) => patchDraft(i, { term: e.target.value })} placeholder="Term" />
+              <Input value={c.translation} onChange={(e) => patchDraft(i, { translation: e.target.value })} placeholder="Translation" />
+            </div>
+            <Input
+              className="mt-2"
+              value={c.example ?? ''}
+              onChange={(e) => patchDraft(i, { example: e.target.value })}
+              placeholder="Example (optional)"
+            />
+            <div className="mt-2 flex items-center justify-end gap-1">
+              {isDirty(i) ? (
+                <Button
+                  onClick={() =>
+                    run(`save:${c.id}`, async () => {
+                      const json = await call(`${base}/${c.id}`, 'PATCH', {
+                        term: c.term,
+                        translation: c.translation,
+                        example: c.example?.trim() ? c.example : null,
+                      })
+                      return json.set
+                    })
+                  }
+                  disabled={!!busy}
+                >
+                  {busy === `save:${c.id}` ? <Loader2 className="animate-spin" size={14} /> : 'Save'}
+                </Button>
+              ) : null}
+              <Button
+                variant="ghost"
+                aria-label="Move up"
+                disabled={!!busy || i === 0}
+                onClick={() =>
+                  run('order', async () => {
+                    const ids = cards.map((x) => x.id as string)
+                    ;[ids[i - 1], ids[i]] = [ids[i], ids[i - 1]]
+                    return (await call(base, 'PUT', { cardIds: ids })).set
+                  })
+                }
+              >
+                <ArrowUp size={14} />
+              </Button>
+              <Button
+                variant="ghost"
+                aria-label="Move down"
+                disabled={!!busy || i === drafts.length - 1}
+                onClick={() =>
+                  run('order', async () => {
+                    const ids = cards.map((x) => x.id as string)
+                    ;[ids[i + 1], ids[i]] = [ids[i], ids[i + 1]]
+                    return (await call(base, 'PUT', { cardIds: ids })).set
+                  })
+                }
+              >
+                <ArrowDown size={14} />
+              </Button>
+              <Button
+                variant="ghost"
+                aria-label="Delete card"
+                disabled={!!busy}
+                onClick={() => run(`delete:${c.id}`, async () => (await call(`${base}/${c.id}`, 'DELETE')).set)}
+              >
+                {busy === `delete:${c.id}` ? <Loader2 className="animate-spin" size={14} /> : <Trash2 size={14} />}
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-xl border border-dashed border-white/15 p-2">
+        <div className="grid gap-2 sm:grid-cols-2">
+          <Input value={newCard.term} onChange={(e) => setNewCard({ ...newCard, term: e.target.value })} placeholder="New term" />
+          <Input
+            value={newCard.translation}
+            onChange={(e) => setNewCard({ ...newCard, translation: e.target.value })}
+            placeholder="Translation"
+          />
+        </div>
+        <div className="mt-2 flex gap-2">
+          <Input
+            value={newCard.example ?? ''}
+            onChange={(e) => setNewCard({ ...newCard, example: e.target.value })}
+            placeholder="Example (optional)"
+          />
+          <Button
+            className="shrink-0 gap-2"
+            disabled={!!busy || !newCard.term.trim() || !newCard.translation.trim()}
+            onClick={() =>
+              run('add', async () => {
+                const json = await call(base, 'POST', {
+                  term: newCard.term,
+                  translation: newCard.translation,
+                  example: newCard.example?.trim() ? newCard.example : null,
+                })
+                if (json.skipped) throw new Error(`"${newCard.term.trim()}" is already in this set`)
+                setNewCard({ term: '', translation: '', example: '' })
+                return json.set
+              })
+            }
+          >
+            {busy === 'add' ? <Loader2 className="animate-spin" size={14} /> : <Plus size={14} />} Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="ghost"
+          disabled={!!busy}
+          onClick={() =>
+            run('dedupe', async () => {
+              const json = await call(`/api/vocab/sets/${setId}/dedupe`, 'POST')
+              setNotice(json.removed ? `Removed ${json.removed} duplicate(s).` : 'No duplicates found.')
+              return json.set
+            })
+          }
+        >
+          {busy === 'dedupe' ? <Loader2 className="animate-spin" size={14} /> : null} Remove duplicates
+        </Button>
+
+        {mergeCandidates.length ? (
+          <>
+            <select
+              value={mergeFrom}
+              onChange={(e) => setMergeFrom(e.target.value)}
+              className="rounded-lg border border-white/10 bg-black/40 px-3 py-2 text-xs text-white/80"
+            >
+              <option value="">Merge another set…</option>
+              {mergeCandidates.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              variant="ghost"
+              disabled={!!busy || !mergeFrom}
+              onClick={() =>
+                run('merge', async () => {
+                  const json = await call('/api/vocab/sets/merge', 'POST', { fromSetId: mergeFrom, intoSetId: setId })
+                  setNotice(`Merged ${json.added} card(s), skipped ${json.skipped} duplicate(s).`)
+                  onMerged(mergeFrom, json.set.cards)
+                  setMergeFrom('')
+                  return null
+                })
+              }
+            >
+              {busy === 'merge' ? <Loader2 className="animate-spin" size={14} /> : null} Merge into this set
+            </Button>
+          </>
+        ) : null}
+      </div>
+
+      {notice ? <p className="text-xs text-white/60">{notice}</p> : null}
+      {error ? <p className="text-sm text-red-400">{error}</p> : null}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { NextResponse } from 'next/server'
+import { requireUser } from '@/lib/authServer'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_PLANS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { applyCreditDelta } from '@/lib/creditLedger'
+import { enqueueJob, getLatestJob, isJobActive } from '@/lib/generationJobs'
+import type { PlanJobPayload } from '@/lib/planGeneration'
+
+function adminError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+/** Like requireUser, but only for profiles with role 'admin' (403 otherwise). */
+export async function requireAdmin(req: Request) {
+  const user = await requireUser(req)
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.from('profiles').select('role').eq('id', user.id).maybeSingle()
+  if (error) throw error
+  if (data?.role !== 'admin') adminError('FORBIDDEN', 'Admin only', 403)
+  return user
+}
+
+export function adminErrorResponse(e: any) {
+  const status = Number(e?.status) || 500
+  const code = typeof e?.code === 'string' && e.code ? e.code : status === 401 ? 'UNAUTHENTICATED' : 'ADMIN_FAILED'
+  return NextResponse.json(
+    { error: { code, message: String(e?.message || 'Server error').slice(0, 300) } },
+    { status, headers: { 'cache-control': 'no-store' } }
+  )
+}
+
+export type AdminProfile = {
+  id: string
+  email: string | null
+  fullName: string | null
+  phone: string | null
+  role: string
+  credits: number
+  createdAt: string | null
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/** Matches the query against email, name and phone; a full uuid matches the profile id. */
+export async function searchProfiles(query: string, limit = 25): Promise<AdminProfile[]> {
+  const sb = createServerAdminClient()
+  const q = query.trim()
+  let request = sb
+    .from('profiles')
+    .select('id, email, full_name, phone, role, credits, created_at')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(100, Math.max(1, limit)))
+
+  if (UUID_RE.test(q)) {
+    request = request.eq('id', q)
+  } else if (q) {
+    // PostgREST `or` filters are comma separated; strip characters that would break the expression.
+    const term = q.replace(/[,()*%]/g, ' ').trim()
+    request = request.or(`email.ilike.*${term}*,full_name.ilike.*${term}*,phone.ilike.*${term}*`)
+  }
+
+  const { data, error } = await request
+  if (error) throw error
+  return (Array.isArray(data) ? data : []).map((row: any) => ({
+    id: String(row.id),
+    email: row.email ?? null,
+    fullName: row.full_name ?? null,
+    phone: row.phone ?? null,
+    role: String(row.role ?? 'free'),
+    credits: Number(row.credits ?? 0),
+    createdAt: row.created_at ?? null,
+  }))
+}
+
+/** Adds or removes credits as an 'adjustment' ledger entry that records the admin and the reason. */
+export async function adjustCredits(input: { userId: string; delta: number; reason: string; adminId: string }) {
+  const delta = Math.trunc(input.delta)
+  if (!delta) adminError('INVALID_DELTA', 'delta must be a non-zero integer', 400)
+  const reason = input.reason.trim()
+  if (!reason) adminError('REASON_REQUIRED', 'A reason is required', 400)
+
+  const sb = createServerAdminClient()
+  const { data: profile, error } = await sb.from('profiles').select('id').eq('id', input.userId).maybeSingle()
+  if (error) throw error
+  if (!profile) adminError('NOT_FOUND', 'Profile not found', 404)
+
+  return applyCreditDelta(input.userId, delta, 'adjustment', {
+    feature: 'admin',
+    reference: input.adminId,
+    metadata: { note: reason.slice(0, 500) },
+  })
+}
+
+export type FailedPlan = {
+  id: string
+  userId: string
+  email: string | null
+  prompt: string
+  title: string | null
+  error: string | null
+  rawNotesOutput: string | null
+  generationId: string | null
+  createdAt: string
+  updatedAt: string | null
+}
+
+export async function listFailedPlans(options: { limit?: number; before?: string | null } = {}) {
+  const limit = Math.min(100, Math.max(1, Math.trunc(options.limit ?? 25)))
+  const sb = createServerAdminClient()
+  let query = sb
+    .from(TABLE_PLANS)
+    .select('id, user_id, prompt, title, error, raw_notes_output, generation_id, created_at, updated_at')
+    .eq('status', 'failed')
+    .order('created_at', { ascending: false })
+    .limit(limit + 1)
+  if (options.before) query = query.lt('created_at', options.before)
+
+  const { data, error } = await query
+  if (error) {
+    throwIfMissingTable(error, TABLE_PLANS)
+    throw error
+  }
+
+  const rows = (Array.isArray(data) ? data : []).slice(0, limit)
+  const userIds = Array.from(new Set(rows.map((row: any) => String(row.user_id))))
+  const emails = new Map<string, string | null>()
+  if (userIds.length) {
+    const { data: profiles } = await sb.from('profiles').select('id, email').in('id', userIds)
+    for (const p of Array.isArray(profiles) ? profiles : []) emails.set(String(p.id), p.email ?? null)
+  }
+
+  const plans: FailedPlan[] = rows.map((row: any) => ({
+    id: String(row.id),
+    userId: String(row.user_id),
+    email: emails.get(String(row.user_id)) ?? null,
+    prompt: String(row.prompt ?? ''),
+    title: row.title ?? null,
+    error: row.error ?? null,
+    rawNotesOutput: row.raw_notes_output ?? null,
+    generationId: row.generation_id ?? null,
+    createdAt: String(row.created_at),
+    updatedAt: row.updated_at ?? null,
+  }))
+  const hasMore = (Array.isArray(data) ? data.length : 0) > limit
+  return { plans, nextBefore: hasMore ? plans[plans.length - 1]?.createdAt ?? null : null }
+}
+
+/**
+ * Re-queues a failed plan with the inputs of its last job. Admin re-runs are free for the user
+ * (cost 0) and get a fresh generation id so they don't collide with the original charge.
+ */
+export async function rerunPlan(planId: string) {
+  const sb = createServerAdminClient()
+  const { data: plan, error } = await sb
+    .from(TABLE_PLANS)
+    .select('id, user_id, prompt, status')
+    .eq('id', planId)
+    .maybeSingle()
+  if (error) {
+    throwIfMissingTable(error, TABLE_PLANS)
+    throw error
+  }
+  if (!plan) adminError('NOT_FOUND', 'Plan not found', 404)
+
+  const userId = String(plan.user_id)
+  const previous = await getLatestJob(userId, planId, 'plan')
+  if (isJobActive(previous)) adminError('JOB_ACTIVE', 'A generation for this plan is already queued or running', 409)
+
+  const prevPayload = (previous?.payload ?? {}) as Partial<PlanJobPayload>
+  const requestId = crypto.randomUUID()
+  const payload: PlanJobPayload = {
+    requestId,
+    prompt: String(prevPayload.prompt ?? plan.prompt ?? ''),
+    storagePaths: Array.isArray(prevPayload.storagePaths) ? prevPayload.storagePaths : [],
+    calendar: prevPayload.calendar ?? null,
+    cost: 0,
+  }
+
+  const { error: updErr } = await sb
+    .from(TABLE_PLANS)
+    .update({ status: 'processing', error: null, generation_id: requestId })
+    .eq('id', planId)
+  if (updErr) throw updErr
+
+  return enqueueJob({ userId, planId, kind: 'plan', payload })
+}
@@ -75,3 +75,38 @@ export async function callOpenAIJsonWithRetries(
 
   throw lastErr ?? new Error('AI_JSON_INVALID')
 }
+
+/**
+ * Returns the value of a top-level `key` from a partially streamed JSON object
+ * once that value is syntactically complete, otherwise null.
+ */
+export function extractCompletedJsonValue(partial: string, key: string): unknown | null {
+  const raw = String(partial ?? '')
+  const keyIdx = raw.indexOf(`"${key}"`)
+  if (keyIdx < 0) return null
+  const colon = raw.indexOf(':', keyIdx + key.length + 2)
+  if (colon < 0) return null
+
+  let start = colon + 1
+  while (start < raw.length && /\s/.test(raw[start])) start += 1
+  const open = raw[start]
+  if (open !== '{' && open !== '[') return null
+
+  let depth = 0
+  let inString = false
+  for (let i = start; i < raw.length; i += 1) {
+    const ch = raw[i]
+    if (inString) {
+      if (ch === '\\') i += 1
+      else if (ch === '"') inString = false
+      continue
+    }
+    if (ch === '"') inString = true
+    else if (ch === '{' || ch === '[') depth += 1
+    else if (ch === '}' || ch === ']') {
+      depth -= 1
+      if (depth === 0) return safeJsonParse(raw.slice(start, i + 1))
+    }
+  }
+  return null
+}
@@ -0,0 +1,237 @@
+import { createHash } from 'node:crypto'
+import initSqlJs from 'sql.js'
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate'
+import type { ImportedItem } from '@/lib/vocabImport'
+
+// Anki .apkg files are a zip holding an SQLite collection (schema 11) plus a media map.
+
+const FIELD_SEPARATOR = '\x1f'
+
+function ankiError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+function decodeEntities(value: string) {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, '&')
+}
+
+/** Field HTML to plain text; sound/image references are dropped since media is not imported. */
+function fieldText(html: string) {
+  return decodeEntities(
+    html
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/<br\s*\/?>|<\/div>|<\/p>/gi, ' ')
+      .replace(/<[^>]*>/g, '')
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/** Reads the first three fields of every note as term / translation / example. */
+export async function readApkg(bytes: Uint8Array): Promise<ImportedItem[]> {
+  let files: Record<string, Uint8Array>
+  try {
+    files = unzipSync(bytes)
+  } catch {
+    ankiError('INVALID_APKG', 'This file is not a valid Anki package', 400)
+  }
+
+  const collection = files['collection.anki21'] ?? (files['collection.anki21b'] ? null : files['collection.anki2'])
+  if (!collection) {
+    if (files['collection.anki21b']) {
+      ankiError(
+        'UNSUPPORTED_APKG',
+        'This deck uses the newest Anki format. Export it again with "Support older Anki versions" ticked.',
+        400
+      )
+    }
+    ankiError('INVALID_APKG', 'This file is not a valid Anki package', 400)
+  }
+
+  const SQL = await initSqlJs()
+  const db = new SQL.Database(collection)
+  try {
+    const res = db.exec('select flds from notes order by id')
+    const rows = res[0]?.values ?? []
+    return rows.map(([flds]) => {
+      const fields = String(flds ?? '').split(FIELD_SEPARATOR).map(fieldText)
+      return { term: fields[0] ?? '', translation: fields[1] ?? '', example: fields[2] || undefined }
+    })
+  } catch {
+    ankiError('INVALID_APKG', 'Could not read the notes in this Anki package', 400)
+  } finally {
+    db.close()
+  }
+}
+
+const SCHEMA = `
+create table col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+create table notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+create table cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+  odue integer not null, odid integer not null, flags integer not null, data text not null);
+create table revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+create table graves (usn integer not null, oid integer not null, type integer not null);
+create index ix_notes_usn on notes (usn);
+create index ix_cards_usn on cards (usn);
+create index ix_revlog_usn on revlog (usn);
+create index ix_cards_nid on cards (nid);
+create index ix_cards_sched on cards (did, queue, due);
+create index ix_revlog_cid on revlog (cid);
+create index ix_notes_csum on notes (csum);
+`
+
+function deckJson(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    desc: '',
+    usn: -1,
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  }
+}
+
+function modelJson(id: number, deckId: number, mod: number) {
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })
+  return {
+    id,
+    name: 'Umenify vocab',
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    flds: [field('Front', 0), field('Back', 1), field('Example', 2)],
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}<hr id=answer>{{Back}}{{#Example}}<br><br><i>{{Example}}</i>{{/Example}}',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    css: '.card { font-family: arial; font-size: 22px; text-align: center; color: black; background-color: white; }',
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    req: [[0, 'any', [0]]],
+  }
+}
+
+const DECK_CONFIG = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    new: { perDay: 20, delays: [1, 10], separate: true, ints: [1, 4, 7], initialFactor: 2500, bury: true, order: 1 },
+    rev: { perDay: 200, ivlFct: 1, maxIvl: 36500, minSpace: 1, ease4: 1.3, bury: false, fuzz: 0.05 },
+    lapse: { leechFails: 8, minInt: 1, delays: [10], leechAction: 0, mult: 0 },
+  },
+}
+
+/** First 8 hex digits of the SHA-1 of the sort field, as Anki stores for duplicate checks. */
+function fieldChecksum(value: string) {
+  return Number.parseInt(createHash('sha1').update(value).digest('hex').slice(0, 8), 16)
+}
+
+/** Stable per card, so re-importing an export updates the notes instead of duplicating them. */
+function noteGuid(seed: string) {
+  return createHash('sha1').update(seed).digest('base64').slice(0, 10)
+}
+
+/** One Basic-style note (Front / Back / Example) per card, all new, in a single deck. */
+export async function buildApkg(input: { deckName: string; guidSeed: string; items: (ImportedItem & { id?: string })[] }) {
+  const nowMs = Date.now()
+  const now = Math.floor(nowMs / 1000)
+  // Anki ids are millisecond timestamps; derive them from the seed so they stay stable too.
+  const deckId = 1_500_000_000_000 + (fieldChecksum(input.guidSeed) % 100_000_000)
+  const modelId = deckId + 1
+
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+  try {
+    db.run(SCHEMA)
+    db.run('insert into col values (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      now,
+      nowMs,
+      nowMs,
+      JSON.stringify({
+        activeDecks: [1],
+        curDeck: deckId,
+        newSpread: 0,
+        collapseTime: 1200,
+        timeLim: 0,
+        estTimes: true,
+        dueCounts: true,
+        curModel: String(modelId),
+        nextPos: input.items.length + 1,
+        sortType: 'noteFld',
+        sortBackwards: false,
+        addToCur: true,
+      }),
+      JSON.stringify({ [modelId]: modelJson(modelId, deckId, now) }),
+      JSON.stringify({ 1: deckJson(1, 'Default', now), [deckId]: deckJson(deckId, input.deckName, now) }),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ])
+
+    const insertNote = db.prepare('insert into notes values (?, ?, ?, ?, -1, \'\', ?, ?, ?, 0, \'\')')
+    const insertCard = db.prepare('insert into cards values (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')')
+    input.items.forEach((item, i) => {
+      const noteId = nowMs + i
+      const front = escapeHtml(item.term)
+      const fields = [front, escapeHtml(item.translation), escapeHtml(item.example ?? '')]
+      insertNote.run([noteId, noteGuid(`${input.guidSeed}:${item.id || item.term}`), modelId, now, fields.join(FIELD_SEPARATOR), front, fieldChecksum(item.term)])
+      insertCard.run([noteId, noteId, deckId, now, i + 1])
+    })
+    insertNote.free()
+    insertCard.free()
+
+    return zipSync({ 'collection.anki2': db.export(), media: strToU8('{}') })
+  } finally {
+    db.close()
+  }
+}
+
+export function isApkg(bytes: Uint8Array) {
+  // Zip local file header; the collection inside is checked by readApkg.
+  return bytes.length > 4 && strFromU8(bytes.subarray(0, 2), true) === 'PK'
+}
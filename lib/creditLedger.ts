@@ -0,0 +1,139 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_CREDIT_LEDGER } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type CreditReason = 'grant' | 'purchase' | 'charge' | 'refund' | 'adjustment'
+
+/**
+ * Why a balance changed: `feature` names what spent or granted it, `reference` the plan id or Stripe id.
+ * `idempotencyKey` ties a charge to its refund so retries settle each at most once.
+ */
+export type CreditContext = {
+  feature?: string | null
+  reference?: string | null
+  metadata?: Record<string, any>
+  idempotencyKey?: string | null
+}
+
+export type CreditLedgerEntry = {
+  id: number
+  delta: number
+  balanceAfter: number
+  reason: CreditReason
+  feature: string | null
+  reference: string | null
+  metadata: Record<string, any>
+  createdAt: string
+}
+
+/**
+ * Changes a balance through the `apply_credit_delta` RPC: the profile update and the ledger row
+ * commit together. Returns the new balance; negative deltas throw INSUFFICIENT_CREDITS (status 402).
+ */
+export async function applyCreditDelta(
+  userId: string,
+  delta: number,
+  reason: CreditReason,
+  context: CreditContext = {}
+) {
+  if (!userId) throw new Error('Missing user id')
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('apply_credit_delta', {
+    p_user_id: userId,
+    p_delta: Math.trunc(delta),
+    p_reason: reason,
+    p_feature: context.feature ?? null,
+    p_reference: context.reference ?? null,
+    p_metadata: context.metadata ?? {},
+    p_idempotency_key: context.idempotencyKey ?? null,
+  })
+  if (error) creditRpcError(error)
+  return Number(data ?? 0)
+}
+
+function creditRpcError(error: any): never {
+  if (String(error?.message || '').includes('INSUFFICIENT_CREDITS')) {
+    const err: any = new Error('INSUFFICIENT_CREDITS')
+    err.status = 402
+    err.code = 'INSUFFICIENT_CREDITS'
+    throw err
+  }
+  throw error
+}
+
+/**
+ * Charges or refunds through the `charge_credits` / `refund_credits` RPCs. With an idempotency key,
+ * a charge is skipped while one is outstanding under that key and a refund only returns what is
+ * still charged, so `applied` is false for a repeated call.
+ */
+export async function settleCredits(
+  userId: string,
+  kind: 'charge' | 'refund',
+  amount: number,
+  context: CreditContext = {}
+): Promise<{ balance: number; applied: boolean }> {
+  if (!userId) throw new Error('Missing user id')
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc(kind === 'charge' ? 'charge_credits' : 'refund_credits', {
+    p_user_id: userId,
+    p_amount: Math.abs(Math.trunc(amount)),
+    p_idempotency_key: context.idempotencyKey ?? null,
+    p_feature: context.feature ?? null,
+    p_reference: context.reference ?? null,
+  })
+  if (error) creditRpcError(error)
+  const out = (data ?? {}) as { balance?: number; applied?: boolean }
+  return { balance: Number(out.balance ?? 0), applied: Boolean(out.applied) }
+}
+
+export async function listCreditHistory(userId: string, options: { limit?: number; before?: number | null } = {}) {
+  const limit = Math.min(100, Math.max(1, Math.trunc(options.limit ?? 50)))
+  const sb = createServerAdminClient()
+  let query = sb
+    .from(TABLE_CREDIT_LEDGER)
+    .select('id, delta, balance_after, reason, feature, reference, metadata, created_at')
+    .eq('user_id', userId)
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+  if (options.before) query = query.lt('id', options.before)
+
+  const { data, error } = await query
+  if (error) {
+    throwIfMissingTable(error, TABLE_CREDIT_LEDGER)
+    throw error
+  }
+
+  const rows = Array.isArray(data) ? data : []
+  const entries: CreditLedgerEntry[] = rows.slice(0, limit).map((row: any) => ({
+    id: Number(row.id),
+    delta: Number(row.delta),
+    balanceAfter: Number(row.balance_after),
+    reason: row.reason,
+    feature: row.feature ?? null,
+    reference: row.reference ?? null,
+    metadata: row.metadata ?? {},
+    createdAt: String(row.created_at),
+  }))
+  return { entries, nextBefore: rows.length > limit ? entries[entries.length - 1]?.id ?? null : null }
+}
+
+/** Appends an adjustment if the cached balance drifted from the ledger; returns the adjustment delta. */
+export async function reconcileCreditBalance(userId: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('reconcile_credit_balance', { p_user_id: userId })
+  if (error) throw error
+  return Number(data ?? 0)
+}
+
+/** Reconciles up to `limit` users listed by the `credit_balance_drift` view (daily cron). */
+export async function reconcileDriftedBalances(limit = 500) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.from('credit_balance_drift').select('user_id').limit(limit)
+  if (error) throw error
+  const adjusted: { userId: string; delta: number }[] = []
+  for (const row of Array.isArray(data) ? data : []) {
+    const userId = String(row.user_id)
+    adjusted.push({ userId, delta: await reconcileCreditBalance(userId) })
+  }
+  return { adjusted }
+}
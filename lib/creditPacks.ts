@@ -0,0 +1,61 @@
+// Credit pack catalog. Pure, so /billing renders the same prices the server charges.
+
+export type CreditPackKey = 'pack_10' | 'pack_20' | 'pack_50'
+export type Currency = 'huf' | 'eur'
+
+export type CreditPack = {
+  key: CreditPackKey
+  credits: number
+  /** Major units (forints, euros). */
+  prices: Record<Currency, number>
+}
+
+export const CURRENCIES: Currency[] = ['huf', 'eur']
+export const DEFAULT_CURRENCY: Currency = 'huf'
+export const DEFAULT_PACK_KEY: CreditPackKey = 'pack_20'
+
+export const CREDIT_PACKS: CreditPack[] = [
+  { key: 'pack_10', credits: 10, prices: { huf: 1990, eur: 4.9 } },
+  { key: 'pack_20', credits: 20, prices: { huf: 3490, eur: 8.9 } },
+  { key: 'pack_50', credits: 50, prices: { huf: 7490, eur: 18.9 } },
+]
+
+export function isCurrency(value: unknown): value is Currency {
+  return CURRENCIES.includes(value as Currency)
+}
+
+export function getPack(key: string | null | undefined): CreditPack | null {
+  return CREDIT_PACKS.find((p) => p.key === key) ?? null
+}
+
+export function defaultPack(): CreditPack {
+  return getPack(DEFAULT_PACK_KEY)!
+}
+
+/** Hungarian locales pay in HUF, everyone else in EUR. */
+export function currencyFromLocale(locale: string | null | undefined): Currency {
+  const first = String(locale ?? '').split(',')[0]?.trim().toLowerCase() ?? ''
+  if (!first) return DEFAULT_CURRENCY
+  return first.startsWith('hu') ? 'huf' : 'eur'
+}
+
+/** Stripe takes HUF and EUR in hundredths (fillér / cents). */
+export function toStripeAmount(pack: CreditPack, currency: Currency) {
+  return Math.round(pack.prices[currency] * 100)
+}
+
+export function formatPackPrice(pack: CreditPack, currency: Currency) {
+  const amount = pack.prices[currency]
+  return currency === 'huf' ? `${amount.toLocaleString('hu-HU')} Ft` : `€${amount.toFixed(2)}`
+}
+
+/**
+ * Credits bought by a checkout session, from the pack key in its metadata. Sessions created
+ * before the catalog (or by a Payment Link) fall back to the standard pack.
+ */
+export function creditsForSessionMetadata(metadata: Record<string, string> | null | undefined) {
+  const pack = getPack(metadata?.pack)
+  if (pack) return pack.credits
+  const legacy = Number.parseInt(String(metadata?.credits ?? ''), 10)
+  return Number.isFinite(legacy) && legacy > 0 ? legacy : defaultPack().credits
+}
@@ -1,14 +1,5 @@
-import { CREDITS_PER_GENERATION, MAX_IMAGES } from '@/lib/limits'
-
-export function creditsForImages(n: number) {
-  if (n <= 0) return CREDITS_PER_GENERATION
-  if (n <= MAX_IMAGES) return CREDITS_PER_GENERATION
-  throw new Error('MAX_IMAGES_EXCEEDED')
-}
-
-export function calcCreditsFromFileCount(n: number) {
-  return creditsForImages(n)
-}
+import { settleCredits, type CreditContext } from '@/lib/creditLedger'
+import { maybeAutoRecharge } from '@/lib/creditsServer'
 
 export async function getCredits(userId: string) {
   if (!userId) throw new Error('Missing user id')
@@ -19,30 +10,25 @@ export async function getCredits(userId: string) {
   return Number(data?.credits ?? 0)
 }
 
-export async function chargeCredits(userId: string, amount = 1) {
+/**
+ * Pass `context.idempotencyKey` when the caller may retry; `applied` is false if it already ran.
+ * An insufficient balance triggers one auto-recharge attempt before INSUFFICIENT_CREDITS is thrown
+ * (with `checkoutUrl` when the bank needs the user to confirm).
+ */
+export async function chargeCredits(userId: string, amount = 1, context: CreditContext = {}) {
   if (!userId) throw new Error('Missing user id')
-  const { createServerAdminClient } = await import('@/lib/supabase/server')
-  const sb = createServerAdminClient()
-  const { error: rpcErr } = await sb.rpc('consume_credits', { user_id: userId, cost: amount })
-  if (rpcErr) throw rpcErr
-  const { data, error } = await sb.from('profiles').select('credits').eq('id', userId).maybeSingle()
-  if (error) throw error
-  return Number(data?.credits ?? 0)
+  try {
+    return await settleCredits(userId, 'charge', amount, context)
+  } catch (e: any) {
+    if (e?.code !== 'INSUFFICIENT_CREDITS') throw e
+    const recharge = await maybeAutoRecharge(userId)
+    if (recharge.succeeded) return settleCredits(userId, 'charge', amount, context)
+    if (recharge.checkoutUrl) e.checkoutUrl = recharge.checkoutUrl
+    throw e
+  }
 }
 
-export async function refundCredits(userId: string, amount = 1) {
+export async function refundCredits(userId: string, amount = 1, context: CreditContext = {}) {
   if (!userId) throw new Error('Missing user id')
-  const { createServerAdminClient } = await import('@/lib/supabase/server')
-  const sb = createServerAdminClient()
-  const { data: row, error: selErr } = await sb.from('profiles').select('credits').eq('id', userId).maybeSingle()
-  if (selErr) throw selErr
-  const current = Number(row?.credits ?? 0)
-  const { data: updated, error: updErr } = await sb
-    .from('profiles')
-    .update({ credits: current + amount })
-    .eq('id', userId)
-    .select('credits')
-    .maybeSingle()
-  if (updErr) throw updErr
-  return Number(updated?.credits ?? 0)
+  return settleCredits(userId, 'refund', amount, context)
 }
@@ -1,12 +1,23 @@
 import { supabaseAdmin } from '@/lib/supabaseServer'
 import Stripe from 'stripe'
+import { applyCreditDelta } from '@/lib/creditLedger'
+import { ensureStripeCustomer } from '@/lib/subscriptions'
+import { AUTO_RECHARGE_PRODUCT, fulfillAutoRecharge } from '@/lib/stripeCredits'
+import {
+  currencyFromLocale,
+  defaultPack,
+  isCurrency,
+  toStripeAmount,
+  type CreditPack,
+  type Currency,
+} from '@/lib/creditPacks'
 
 /**
  * Credits model (NEW, simplified):
  * - No "free plan" windows.
  * - Every verified new account can receive STARTER_CREDITS exactly once.
  * - Starter credits are blocked if the same phone number has already received them.
- * - All paid top-ups add PRO_CREDITS_PER_PURCHASE.
+ * - Paid top-ups add the credits of the purchased pack (lib/creditPacks).
  */
 
 export type ProfileRow = {
@@ -23,15 +34,15 @@ export type ProfileRow = {
   stripe_customer_id: string | null
   stripe_payment_method_id: string | null
   auto_recharge: boolean
+  preferred_currency?: Currency | null
+  role?: 'free' | 'pro' | 'admin'
 
   created_at?: string
   updated_at?: string
 }
 
 export const STARTER_CREDITS = 20
-export const PRO_CREDITS_PER_PURCHASE = 20
-export const PRO_AMOUNT_HUF = 3490
-export const PRO_CURRENCY = 'huf'
+export const PRO_CREDITS_PER_PURCHASE = defaultPack().credits
 
 function nowIso() {
   return new Date().toISOString()
@@ -63,6 +74,7 @@ function normalizeProfile(p: any): ProfileRow {
   if (out.stripe_customer_id === undefined) out.stripe_customer_id = null
   if (out.stripe_payment_method_id === undefined) out.stripe_payment_method_id = null
   if (out.auto_recharge == null) out.auto_recharge = false
+  if (out.role == null) out.role = 'free'
   return out as ProfileRow
 }
 
@@ -143,17 +155,100 @@ export function entitlementSnapshot(p: ProfileRow) {
   }
 }
 
-async function markStripeEventOnce(eventId: string, type: string) {
+function siteUrl() {
+  return String(process.env.NEXT_PUBLIC_SITE_URL || '').trim().replace(/\/$/, '')
+}
+
+/** The profile's saved currency, else the request locale's. */
+export async function getPreferredCurrency(userId: string, acceptLanguage?: string | null): Promise<Currency> {
   const sb = supabaseAdmin()
-  const { data: exists, error } = await sb.from('stripe_events').select('id').eq('event_id', eventId).maybeSingle()
-  if (error) throw error
-  if (exists) return false
-  await sb.from('stripe_events').insert({ event_id: eventId, type })
-  return true
+  const { data } = await sb.from('profiles').select('preferred_currency').eq('id', userId).maybeSingle()
+  if (isCurrency(data?.preferred_currency)) return data.preferred_currency
+  return currencyFromLocale(acceptLanguage)
 }
 
-export async function maybeAutoRecharge(userId: string) {
+export async function setPreferredCurrency(userId: string, currency: Currency) {
   const sb = supabaseAdmin()
+  await sb.from('profiles').update({ preferred_currency: currency, updated_at: nowIso() }).eq('id', userId)
+}
+
+/**
+ * Stripe Checkout for one credit pack. The pack key goes into the session metadata, which is
+ * what fulfillment reads the credit amount from.
+ */
+export async function createPackCheckoutSession(input: {
+  userId: string
+  pack: CreditPack
+  currency: Currency
+  customerId?: string | null
+  email?: string | null
+  savePaymentMethod?: boolean
+}) {
+  const base = siteUrl()
+  if (!base) throw new Error('Missing NEXT_PUBLIC_SITE_URL')
+  const { userId, pack, currency } = input
+  const metadata: Record<string, string> = {
+    user_id: userId,
+    pack: pack.key,
+    credits: String(pack.credits),
+    currency,
+  }
+  if (input.savePaymentMethod) metadata.save_payment_method = '1'
+
+  return stripeClient().checkout.sessions.create({
+    mode: 'payment',
+    ...(input.customerId ? { customer: input.customerId } : input.email ? { customer_email: input.email } : {}),
+    line_items: [
+      {
+        price_data: {
+          currency,
+          unit_amount: toStripeAmount(pack, currency),
+          product_data: { name: `${pack.credits} credits pack` },
+        },
+        quantity: 1,
+      },
+    ],
+    ...(input.savePaymentMethod
+      ? { payment_intent_data: { setup_future_usage: 'off_session' as const, metadata: { user_id: userId } } }
+      : {}),
+    success_url: `${base}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${base}/billing?canceled=1`,
+    client_reference_id: userId,
+    metadata,
+  })
+}
+
+/**
+ * Checkout link for one credit pack on the saved customer. Used when the bank requires the
+ * cardholder (SCA/3DS) and an off-session charge can't go through; the card is saved again for
+ * future off-session use.
+ */
+export async function createTopUpCheckoutUrl(userId: string, customerId: string) {
+  if (!siteUrl()) return null
+  const session = await createPackCheckoutSession({
+    userId,
+    pack: defaultPack(),
+    currency: await getPreferredCurrency(userId),
+    customerId,
+    savePaymentMethod: true,
+  })
+  return session.url
+}
+
+export type AutoRechargeResult = {
+  attempted: boolean
+  succeeded: boolean
+  status?: string
+  error?: string
+  /** Set when the bank asked for authentication; the user finishes the top-up here. */
+  checkoutUrl?: string | null
+}
+
+/**
+ * Charges the saved card off-session for one credit pack and credits it. Only runs for profiles
+ * that opted in and have a saved payment method.
+ */
+export async function maybeAutoRecharge(userId: string): Promise<AutoRechargeResult> {
   const p = await getProfileStrict(userId)
 
   if (!p.auto_recharge) return { attempted: false, succeeded: false }
@@ -162,34 +257,134 @@ export async function maybeAutoRecharge(userId: string) {
   const stripe = stripeClient()
   const bucket = Math.floor(Date.now() / 60000)
   const idempotencyKey = `examly_autorecharge_${userId}_${bucket}`
+  const pack = defaultPack()
+  const currency = isCurrency(p.preferred_currency) ? p.preferred_currency : currencyFromLocale(null)
 
   try {
     const pi = await stripe.paymentIntents.create(
       {
-        amount: PRO_AMOUNT_HUF,
-        currency: PRO_CURRENCY,
+        amount: toStripeAmount(pack, currency),
+        currency,
         customer: p.stripe_customer_id,
         payment_method: p.stripe_payment_method_id,
         off_session: true,
         confirm: true,
-        description: 'Umenify Pro top-up (20 generations)',
-        metadata: { user_id: userId, product: 'examly_pro_20_credits_autorecharge' },
+        description: `Umenify top-up (${pack.credits} credits)`,
+        metadata: { user_id: userId, product: AUTO_RECHARGE_PRODUCT, pack: pack.key },
       },
       { idempotencyKey }
     )
 
-    if (pi.status !== 'succeeded') return { attempted: true, succeeded: false, status: pi.status }
-
-    const shouldCredit = await markStripeEventOnce(pi.id, 'auto_recharge_payment_intent')
-    if (shouldCredit) {
-      const next = Number(p.credits ?? 0) + PRO_CREDITS_PER_PURCHASE
-      await sb.from('profiles').update({ credits: next, updated_at: nowIso() }).eq('id', userId)
+    if (pi.status === 'requires_action') {
+      const checkoutUrl = await createTopUpCheckoutUrl(userId, p.stripe_customer_id).catch(() => null)
+      return { attempted: true, succeeded: false, status: pi.status, checkoutUrl }
     }
+    if (pi.status !== 'succeeded') return { attempted: true, succeeded: false, status: pi.status }
 
+    await fulfillAutoRecharge(pi, 'auto_recharge')
     return { attempted: true, succeeded: true }
   } catch (e: any) {
-    return { attempted: true, succeeded: false, error: e?.code ?? e?.message }
+    const code = e?.code ?? e?.raw?.code
+    console.warn('auto_recharge failed', { userId, code: code ?? null, message: e?.message ?? null })
+    if (code === 'authentication_required') {
+      const checkoutUrl = await createTopUpCheckoutUrl(userId, p.stripe_customer_id).catch(() => null)
+      return { attempted: true, succeeded: false, status: 'requires_action', error: code, checkoutUrl }
+    }
+    return { attempted: true, succeeded: false, error: code ?? e?.message }
+  }
+}
+
+/** NO_CREDITS (402); carries the checkout link when an auto-recharge needs the user to confirm. */
+export function noCreditsError(recharge?: AutoRechargeResult) {
+  const err: any = new Error(recharge?.checkoutUrl ? 'Your bank needs you to confirm the top-up' : 'No credits left')
+  err.status = 402
+  err.code = 'NO_CREDITS'
+  if (recharge?.checkoutUrl) err.checkoutUrl = recharge.checkoutUrl
+  return err
+}
+
+export type AutoRechargeSettings = {
+  enabled: boolean
+  hasPaymentMethod: boolean
+  card: { brand: string; last4: string } | null
+}
+
+export async function getAutoRechargeSettings(userId: string): Promise<AutoRechargeSettings> {
+  const p = await getProfileStrict(userId)
+  let card: AutoRechargeSettings['card'] = null
+  if (p.stripe_payment_method_id) {
+    try {
+      const pm = await stripeClient().paymentMethods.retrieve(p.stripe_payment_method_id)
+      if (pm.card) card = { brand: pm.card.brand, last4: pm.card.last4 }
+    } catch {
+      // A detached card is treated as missing below.
+    }
+  }
+  return { enabled: !!p.auto_recharge && !!card, hasPaymentMethod: !!card, card }
+}
+
+/**
+ * Turns auto-recharge on or off. Enabling without a saved card returns a Checkout (setup mode)
+ * link; the webhook stores the card and switches auto-recharge on when it completes.
+ */
+export async function setAutoRecharge(userId: string, email: string | null, enabled: boolean) {
+  const sb = supabaseAdmin()
+  if (!enabled) {
+    await sb.from('profiles').update({ auto_recharge: false, updated_at: nowIso() }).eq('id', userId)
+    return { enabled: false, setupUrl: null as string | null }
+  }
+
+  const settings = await getAutoRechargeSettings(userId)
+  if (settings.hasPaymentMethod) {
+    await sb.from('profiles').update({ auto_recharge: true, updated_at: nowIso() }).eq('id', userId)
+    return { enabled: true, setupUrl: null as string | null }
+  }
+
+  const base = siteUrl()
+  if (!base) throw new Error('Missing NEXT_PUBLIC_SITE_URL')
+  const customer = await ensureStripeCustomer(userId, email)
+  const session = await stripeClient().checkout.sessions.create({
+    mode: 'setup',
+    customer,
+    currency: await getPreferredCurrency(userId),
+    payment_method_types: ['card'],
+    success_url: `${base}/billing?auto_recharge=1`,
+    cancel_url: `${base}/billing`,
+    client_reference_id: userId,
+    metadata: { user_id: userId, purpose: 'auto_recharge' },
+  })
+  return { enabled: false, setupUrl: session.url }
+}
+
+/** Saves the card from a completed setup/payment Checkout as the off-session payment method. */
+export async function savePaymentMethodFromSession(session: Stripe.Checkout.Session) {
+  const userId = String(session.client_reference_id || session.metadata?.user_id || '')
+  const customerId = typeof session.customer === 'string' ? session.customer : session.customer?.id
+  if (!userId || !customerId) return false
+
+  const stripe = stripeClient()
+  let paymentMethod: string | null = null
+  if (session.setup_intent) {
+    const si =
+      typeof session.setup_intent === 'string' ? await stripe.setupIntents.retrieve(session.setup_intent) : session.setup_intent
+    paymentMethod = typeof si.payment_method === 'string' ? si.payment_method : si.payment_method?.id ?? null
+  } else if (session.payment_intent) {
+    const pi =
+      typeof session.payment_intent === 'string'
+        ? await stripe.paymentIntents.retrieve(session.payment_intent)
+        : session.payment_intent
+    paymentMethod = typeof pi.payment_method === 'string' ? pi.payment_method : pi.payment_method?.id ?? null
+  }
+  if (!paymentMethod) return false
+
+  const patch: Record<string, any> = {
+    stripe_customer_id: customerId,
+    stripe_payment_method_id: paymentMethod,
+    updated_at: nowIso(),
   }
+  if (session.mode === 'setup') patch.auto_recharge = true
+  await supabaseAdmin().from('profiles').update(patch).eq('id', userId)
+  return true
 }
 
 async function updateProfileById(userId: string, patch: Record<string, any>): Promise<ProfileRow | null> {
@@ -248,11 +443,19 @@ export async function maybeGrantStarterCredits(user: any) {
     return
   }
 
-  // ✅ Grant starter credits
-  const nextCredits = Number(profile.credits ?? 0) + STARTER_CREDITS
+  // ✅ Grant starter credits (only the request that flips starter_granted grants them)
+  const { data: claimed, error: claimErr } = await sb
+    .from('profiles')
+    .update({ starter_granted: true, updated_at: nowIso() })
+    .eq('id', userId)
+    .not('starter_granted', 'is', true)
+    .select('id')
+    .maybeSingle()
+  if (claimErr) throw claimErr
+  if (!claimed) return
+
+  await applyCreditDelta(userId, STARTER_CREDITS, 'grant', { feature: 'starter' })
   await updateProfileById(userId, {
-    credits: nextCredits,
-    starter_granted: true,
     phone: profile.phone ?? (metaPhone ? user?.user_metadata?.phone : null),
     phone_normalized: phoneNorm,
     full_name: profile.full_name ?? metaName,
@@ -261,45 +464,31 @@ export async function maybeGrantStarterCredits(user: any) {
 }
 
 /**
- * Consume 1 credit.
+ * Consume `credits` (priced by lib/pricing).
  * - NEVER throws 409.
- * - If credits are 0, tries auto-recharge, otherwise 402.
+ * - If the balance is too low, tries auto-recharge, otherwise 402.
  */
-export async function consumeGeneration(userId: string) {
-  const sb = supabaseAdmin()
+export async function consumeGeneration(userId: string, feature = 'generation', credits = 1) {
+  await getProfileStrict(userId)
 
-  // Prefer DB-side atomic function if present.
-  const { data: rpcData, error: rpcErr } = await sb.rpc('consume_credit', { p_user_id: userId }).maybeSingle()
-  if (!rpcErr && rpcData) return rpcData as any
+  try {
+    await applyCreditDelta(userId, -credits, 'charge', { feature })
+    return { mode: 'credit', profile: await getProfileStrict(userId) }
+  } catch (e: any) {
+    if (e?.code !== 'INSUFFICIENT_CREDITS') throw e
+  }
 
-  // Fallback (non-atomic, but stable): fetch -> update.
-  const p = await getProfileStrict(userId)
-  const credits = Number(p.credits ?? 0)
-
-  if (credits <= 0) {
-    const recharge = await maybeAutoRecharge(userId)
-    if (recharge.succeeded) {
-      const p2 = await getProfileStrict(userId)
-      const credits2 = Number(p2.credits ?? 0)
-      if (credits2 > 0) {
-        const updated = await updateProfileById(userId, { credits: credits2 - 1, updated_at: nowIso() })
-        if (updated) return { mode: 'pro', profile: updated }
-      }
+  const recharge = await maybeAutoRecharge(userId)
+  if (recharge.succeeded) {
+    try {
+      await applyCreditDelta(userId, -credits, 'charge', { feature })
+      return { mode: 'pro', profile: await getProfileStrict(userId) }
+    } catch (e: any) {
+      if (e?.code !== 'INSUFFICIENT_CREDITS') throw e
     }
-
-    const err: any = new Error('No credits left')
-    err.status = 402
-    err.code = 'NO_CREDITS'
-    throw err
   }
 
-  const updated = await updateProfileById(userId, { credits: credits - 1, updated_at: nowIso() })
-  if (updated) return { mode: 'credit', profile: updated }
-
-  const err: any = new Error('Profile update failed')
-  err.status = 500
-  err.code = 'PROFILE_UPDATE_FAILED'
-  throw err
+  throw noCreditsError(recharge)
 }
 
 export async function getUserCredits(userId: string) {
@@ -310,24 +499,16 @@ export async function getUserCredits(userId: string) {
   return Number(data?.credits ?? 0)
 }
 
-export async function decrementCredits(userId: string, amount = 1) {
+export async function decrementCredits(userId: string, amount = 1, feature = 'generation') {
   if (!userId) throw new Error('Missing user id')
   if (!Number.isFinite(amount) || amount <= 0) return
-  const sb = supabaseAdmin()
-
-  const { error: rpcErr } = await sb.rpc('consume_credits', { user_id: userId, cost: amount })
-  if (!rpcErr) return
-  throw rpcErr
+  await applyCreditDelta(userId, -amount, 'charge', { feature })
 }
 
-export async function addProCredits(userId: string, amount = PRO_CREDITS_PER_PURCHASE) {
-  const sb = supabaseAdmin()
-  const p = await getProfileStrict(userId)
-  const next = Number(p.credits ?? 0) + amount
-
-  const out = await updateProfileById(userId, { credits: next, updated_at: nowIso() })
-  if (!out) throw new Error('Failed to add credits (profile not found)')
-  return out
+export async function addProCredits(userId: string, amount = PRO_CREDITS_PER_PURCHASE, reference: string | null = null) {
+  await getProfileStrict(userId)
+  await applyCreditDelta(userId, amount, 'purchase', { feature: 'pro_pack', reference })
+  return getProfileStrict(userId)
 }
 
 export async function ensureProfileFromUser(user: any): Promise<ProfileRow> {
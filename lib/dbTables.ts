@@ -1 +1,15 @@
 export const TABLE_PLANS = 'plans'
+export const TABLE_GENERATION_JOBS = 'generation_jobs'
+export const TABLE_CREDIT_LEDGER = 'credit_ledger'
+export const TABLE_FEATURE_USAGE = 'feature_usage'
+export const TABLE_SUBSCRIPTIONS = 'subscriptions'
+export const TABLE_SUBSCRIPTION_INVOICES = 'subscription_invoices'
+export const TABLE_CREDIT_PURCHASES = 'credit_purchases'
+export const TABLE_PROMO_CODES = 'promo_codes'
+export const TABLE_PROMO_REDEMPTIONS = 'promo_redemptions'
+export const TABLE_REFERRALS = 'referrals'
+export const TABLE_VOCAB_SETS = 'vocab_sets'
+export const TABLE_VOCAB_REVIEWS = 'vocab_reviews'
+export const TABLE_VOCAB_AUDIO = 'vocab_audio'
+export const TABLE_TEST_ATTEMPTS = 'test_attempts'
+export const TABLE_TEST_ANSWERS = 'test_answers'
@@ -0,0 +1,181 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_GENERATION_JOBS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type GenerationJobKind = 'plan' | 'materials'
+export type GenerationJobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed'
+
+export type GenerationJob = {
+  id: string
+  user_id: string
+  plan_id: string | null
+  kind: GenerationJobKind
+  status: GenerationJobStatus
+  payload: Record<string, any>
+  result: Record<string, any> | null
+  attempts: number
+  max_attempts: number
+  run_after: string
+  locked_by: string | null
+  locked_until: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+  finished_at: string | null
+}
+
+/** Public view of a job, as reported by the status endpoints. */
+export type GenerationJobSummary = {
+  id: string
+  kind: GenerationJobKind
+  status: GenerationJobStatus
+  attempts: number
+  maxAttempts: number
+  runAfter: string
+  error: string | null
+  updatedAt: string
+}
+
+export const JOB_LEASE_SECONDS = 120
+export const JOB_MAX_ATTEMPTS = 3
+const RETRY_BASE_MS = 30_000
+const RETRY_MAX_MS = 15 * 60_000
+
+export function retryDelayMs(attempts: number) {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1))
+}
+
+export function isJobActive(job: Pick<GenerationJob, 'status'> | null | undefined) {
+  return job?.status === 'queued' || job?.status === 'running' || job?.status === 'retrying'
+}
+
+export function summarizeJob(job: GenerationJob | null): GenerationJobSummary | null {
+  if (!job) return null
+  return {
+    id: job.id,
+    kind: job.kind,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    runAfter: job.run_after,
+    error: job.last_error,
+    updatedAt: job.updated_at,
+  }
+}
+
+function jobError(context: string, error: any): never {
+  console.error('supabase.error', {
+    context,
+    code: error?.code ?? null,
+    message: error?.message ?? null,
+  })
+  throwIfMissingTable(error, TABLE_GENERATION_JOBS)
+  throw error
+}
+
+/**
+ * Inserts a job. With `claimFor` the job is inserted already leased to that worker, so the
+ * caller can run it inline while the queue still recovers it if the caller dies.
+ */
+export async function enqueueJob(input: {
+  userId: string
+  planId?: string | null
+  kind: GenerationJobKind
+  payload: Record<string, any>
+  maxAttempts?: number
+  claimFor?: string
+}): Promise<GenerationJob> {
+  const sb = createServerAdminClient()
+  const now = Date.now()
+  const { data, error } = await sb
+    .from(TABLE_GENERATION_JOBS)
+    .insert({
+      user_id: input.userId,
+      plan_id: input.planId ?? null,
+      kind: input.kind,
+      payload: input.payload,
+      max_attempts: input.maxAttempts ?? JOB_MAX_ATTEMPTS,
+      status: input.claimFor ? 'running' : 'queued',
+      attempts: input.claimFor ? 1 : 0,
+      locked_by: input.claimFor ?? null,
+      locked_until: input.claimFor ? new Date(now + JOB_LEASE_SECONDS * 1000).toISOString() : null,
+    })
+    .select('*')
+    .single()
+  if (error || !data) jobError('jobs.enqueue', error)
+  return data as GenerationJob
+}
+
+export async function claimNextJob(workerId: string): Promise<GenerationJob | null> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('claim_generation_job', {
+    p_worker: workerId,
+    p_lease_seconds: JOB_LEASE_SECONDS,
+  })
+  if (error) jobError('jobs.claim', error)
+  const rows = Array.isArray(data) ? data : data ? [data] : []
+  return (rows[0] as GenerationJob | undefined) ?? null
+}
+
+/** Jobs that ran out of attempts while their lease expired; callers settle their plan rows. */
+export async function reapExpiredJobs(): Promise<GenerationJob[]> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('reap_generation_jobs')
+  if (error) jobError('jobs.reap', error)
+  return Array.isArray(data) ? (data as GenerationJob[]) : []
+}
+
+export async function completeJob(job: GenerationJob, result: Record<string, any> | null) {
+  const sb = createServerAdminClient()
+  const { error } = await sb
+    .from(TABLE_GENERATION_JOBS)
+    .update({
+      status: 'done',
+      result,
+      last_error: null,
+      locked_by: null,
+      locked_until: null,
+      finished_at: new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by ?? '')
+  if (error) jobError('jobs.complete', error)
+}
+
+/**
+ * Records a failed attempt. Retryable failures go back to the queue with exponential backoff
+ * until `max_attempts`; returns true when the job will run again.
+ */
+export async function failJob(job: GenerationJob, message: string, retryable: boolean) {
+  const sb = createServerAdminClient()
+  const retry = retryable && job.attempts < job.max_attempts
+  const { error } = await sb
+    .from(TABLE_GENERATION_JOBS)
+    .update({
+      status: retry ? 'retrying' : 'failed',
+      last_error: message.slice(0, 500),
+      run_after: retry ? new Date(Date.now() + retryDelayMs(job.attempts)).toISOString() : job.run_after,
+      locked_by: null,
+      locked_until: null,
+      finished_at: retry ? null : new Date().toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by ?? '')
+  if (error) jobError('jobs.fail', error)
+  return retry
+}
+
+export async function getLatestJob(userId: string, planId: string, kind: GenerationJobKind) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_GENERATION_JOBS)
+    .select('*')
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .eq('kind', kind)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) jobError('jobs.latest', error)
+  return (data as GenerationJob | null) ?? null
+}
@@ -14,3 +14,7 @@ export const MAX_HOMEWORK_IMAGES = 3
 export const MAX_PROMPT_CHARS = 150
 export const MAX_OUTPUT_CHARS = 4000
 export const CREDITS_PER_GENERATION = 1
+export const DEFAULT_STUDY_DAYS_PER_WEEK = 6
+export const DEFAULT_DAILY_MINUTES = 90
+export const MIN_DAILY_MINUTES = 15
+export const MAX_DAILY_MINUTES = 600
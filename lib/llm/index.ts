@@ -0,0 +1,35 @@
+import { createMockProvider } from '@/lib/llm/mock'
+import { createOpenAIProvider } from '@/lib/llm/openai'
+import type { LlmProvider } from '@/lib/llm/types'
+
+export type * from '@/lib/llm/types'
+
+let cached: { key: string; provider: LlmProvider } | null = null
+
+function providerName() {
+  return String(process.env.LLM_PROVIDER || 'openai').trim().toLowerCase() === 'mock' ? 'mock' : 'openai'
+}
+
+/** True when getLlm() can return a provider: LLM_PROVIDER=mock, or an OpenAI key is set. */
+export function isLlmConfigured() {
+  return providerName() === 'mock' || Boolean(process.env.OPENAI_API_KEY)
+}
+
+/** The configured provider (`LLM_PROVIDER`: openai | mock). Throws OPENAI_KEY_MISSING without a key. */
+export function getLlm(): LlmProvider {
+  const name = providerName()
+  const key = name === 'mock' ? 'mock' : `openai:${process.env.OPENAI_API_KEY ?? ''}`
+  if (cached?.key === key) return cached.provider
+
+  if (name === 'openai' && !process.env.OPENAI_API_KEY) {
+    const err: any = new Error('Missing OPENAI_API_KEY')
+    err.code = 'OPENAI_KEY_MISSING'
+    err.status = 500
+    throw err
+  }
+
+  const provider = name === 'mock' ? createMockProvider() : createOpenAIProvider(String(process.env.OPENAI_API_KEY))
+  cached = { key, provider }
+  return provider
+}
+
@@ -0,0 +1,189 @@
+import type { LlmCompletionRequest, LlmMessage, LlmProvider, LlmSpeechRequest } from '@/lib/llm/types'
+
+/**
+ * Deterministic offline provider (LLM_PROVIDER=mock). Structured calls get a document
+ * generated from their JSON schema; free-form JSON calls use the fixtures below, keyed by task.
+ * The same request always produces the same output, so the app runs and tests without network.
+ */
+
+type FixtureContext = {
+  task: string
+  prompt: string
+  hu: boolean
+  seed: number
+}
+
+function hash(text: string) {
+  let h = 2166136261
+  for (let i = 0; i < text.length; i += 1) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  return h >>> 0
+}
+
+function messageText(messages: LlmMessage[]) {
+  return messages
+    .map((m) =>
+      typeof m.content === 'string'
+        ? m.content
+        : m.content.map((part) => (part.type === 'text' ? part.text : `[image ${part.image.b64.length}]`)).join('\n')
+    )
+    .join('\n')
+}
+
+function lastUserText(messages: LlmMessage[]) {
+  const user = [...messages].reverse().find((m) => m.role === 'user')
+  return user ? messageText([user]) : ''
+}
+
+function topicWords(ctx: FixtureContext) {
+  const words = ctx.prompt
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 3)
+    .slice(0, 40)
+  return words.length ? words : [ctx.hu ? 'Tananyag' : 'Topic']
+}
+
+function label(ctx: FixtureContext, key: string, index: number) {
+  const words = topicWords(ctx)
+  const word = words[(ctx.seed + index) % words.length]
+  return `${ctx.hu ? 'Minta' : 'Mock'} ${key.replace(/_/g, ' ')} ${index + 1}: ${word}`
+}
+
+function clock(minutes: number) {
+  const h = Math.floor(minutes / 60) % 24
+  const m = minutes % 60
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`
+}
+
+function arrayLength(key: string, schema: any) {
+  if (Number.isFinite(schema?.minItems)) return Math.max(1, Number(schema.minItems))
+  if (key === 'questions') return 8
+  if (key === 'choices' || key === 'options') return 4
+  return 3
+}
+
+function fromSchema(schema: any, ctx: FixtureContext, key: string, index: number): unknown {
+  const types = Array.isArray(schema?.type) ? schema.type : [schema?.type]
+  const type = types.find((t: string) => t !== 'null') ?? 'string'
+
+  if (Array.isArray(schema?.enum) && schema.enum.length) {
+    if (key === 'language') {
+      const preferred = ctx.hu ? 'hu' : 'en'
+      if (schema.enum.includes(preferred)) return preferred
+    }
+    return schema.enum[index % schema.enum.length]
+  }
+
+  switch (type) {
+    case 'object': {
+      const out: Record<string, unknown> = {}
+      for (const [prop, propSchema] of Object.entries<any>(schema?.properties ?? {})) {
+        out[prop] = fromSchema(propSchema, ctx, prop, index)
+      }
+      return out
+    }
+    case 'array':
+      return Array.from({ length: arrayLength(key, schema) }, (_, i) => fromSchema(schema?.items ?? {}, ctx, key, i))
+    case 'number':
+    case 'integer':
+      if (key === 'day') return index + 1
+      if (key === 'confidence') return 0.9
+      if (key.includes('minutes')) return 25
+      return index + 1
+    case 'boolean':
+      return key === 'pomodoro'
+    default:
+      if (key === 'start') return clock(9 * 60 + index * 30)
+      if (key === 'end') return clock(9 * 60 + index * 30 + 25)
+      if (key === 'date') return ''
+      if (key === 'language') return ctx.hu ? 'hu' : 'en'
+      return label(ctx, key, index)
+  }
+}
+
+const fixtures: Record<string, (ctx: FixtureContext) => unknown> = {
+  ask: (ctx) => ({
+    display: ctx.hu ? `**Minta valasz**\n\n${ctx.prompt.slice(0, 200)}` : `**Mock answer**\n\n${ctx.prompt.slice(0, 200)}`,
+    speech: ctx.hu ? 'Ez egy minta valasz.' : 'This is a mock answer.',
+    language: ctx.hu ? 'Hungarian' : 'English',
+  }),
+  daily: (ctx) => ({
+    daily_plan: {
+      total_minutes: 100,
+      blocks: [
+        { title: label(ctx, 'study', 0), duration_minutes: 30, type: 'study' },
+        { title: ctx.hu ? 'Szunet' : 'Break', duration_minutes: 10, type: 'break' },
+        { title: label(ctx, 'study', 1), duration_minutes: 40, type: 'study' },
+        { title: label(ctx, 'review', 2), duration_minutes: 20, type: 'review' },
+      ],
+    },
+  }),
+  practice: (ctx) => ({
+    practice: {
+      questions: (['mcq', 'short', 'true_false'] as const).flatMap((type, t) =>
+        Array.from({ length: 4 }, (_, i) => ({
+          question: label(ctx, `${type} question`, t * 4 + i),
+          answer: ctx.hu ? 'Minta valasz.' : 'Mock answer.',
+          type,
+        }))
+      ),
+    },
+  }),
+}
+
+// 0.1s of 8 kHz mono 16-bit silence.
+function silentWav() {
+  const samples = 800
+  const buf = Buffer.alloc(44 + samples * 2)
+  buf.write('RIFF', 0)
+  buf.writeUInt32LE(36 + samples * 2, 4)
+  buf.write('WAVE', 8)
+  buf.write('fmt ', 12)
+  buf.writeUInt32LE(16, 16)
+  buf.writeUInt16LE(1, 20)
+  buf.writeUInt16LE(1, 22)
+  buf.writeUInt32LE(8000, 24)
+  buf.writeUInt32LE(16000, 28)
+  buf.writeUInt16LE(2, 32)
+  buf.writeUInt16LE(16, 34)
+  buf.write('data', 36)
+  buf.writeUInt32LE(samples * 2, 40)
+  return buf
+}
+
+export function createMockProvider(): LlmProvider {
+  return {
+    name: 'mock',
+    models: { text: 'mock-text', vision: 'mock-vision', speech: 'mock-speech' },
+
+    async complete(req: LlmCompletionRequest) {
+      if (req.signal?.aborted) throw new Error('Request was aborted.')
+      const prompt = lastUserText(req.messages)
+      const ctx: FixtureContext = {
+        task: req.task,
+        prompt,
+        hu: /\bhu\b|magyar|szia|tetel|t[eé]tel|vizsga|erettsegi|[áéíóöőúüű]/i.test(prompt),
+        seed: hash(`${req.task}\n${messageText(req.messages)}`),
+      }
+      const fixture = fixtures[req.task]
+      const value = req.jsonSchema
+        ? fromSchema(req.jsonSchema.schema, ctx, req.jsonSchema.name, 0)
+        : fixture
+          ? fixture(ctx)
+          : { text: label(ctx, req.task, 0) }
+      const text = JSON.stringify(value)
+
+      if (req.onText) {
+        const step = Math.max(16, Math.ceil(text.length / 8))
+        for (let i = step; i < text.length + step; i += step) req.onText(text.slice(0, i))
+      }
+      return text
+    },
+
+    async speech(_req: LlmSpeechRequest) {
+      return { audio: silentWav(), contentType: 'audio/wav' }
+    },
+  }
+}
@@ -0,0 +1,87 @@
+import OpenAI from 'openai'
+import { OPENAI_MODEL } from '@/lib/limits'
+import type { LlmCompletionRequest, LlmMessage, LlmProvider, LlmSpeechRequest } from '@/lib/llm/types'
+
+function hasImages(messages: LlmMessage[]) {
+  return messages.some((m) => Array.isArray(m.content) && m.content.some((part) => part.type === 'image'))
+}
+
+function toOpenAIMessages(messages: LlmMessage[]): any[] {
+  return messages.map((m) => {
+    if (typeof m.content === 'string') return { role: m.role, content: m.content }
+    return {
+      role: m.role,
+      content: m.content.map((part) =>
+        part.type === 'text'
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: `data:${part.image.mime};base64,${part.image.b64}` } }
+      ),
+    }
+  })
+}
+
+export function createOpenAIProvider(apiKey: string): LlmProvider {
+  const client = new OpenAI({ apiKey })
+  const text = process.env.OPENAI_MODEL || OPENAI_MODEL
+  const models = {
+    text,
+    vision: process.env.OPENAI_VISION_MODEL || text,
+    speech: process.env.OPENAI_TTS_MODEL || 'tts-1',
+  }
+
+  return {
+    name: 'openai',
+    models,
+
+    async complete(req: LlmCompletionRequest) {
+      const body: any = {
+        model: req.model || (hasImages(req.messages) ? models.vision : models.text),
+        messages: toOpenAIMessages(req.messages),
+        temperature: req.temperature ?? 0.2,
+      }
+      if (req.maxTokens) body.max_tokens = req.maxTokens
+      if (req.jsonSchema) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: {
+            name: req.jsonSchema.name,
+            schema: req.jsonSchema.schema,
+            ...(req.jsonSchema.strict ? { strict: true } : {}),
+          },
+        }
+      }
+
+      if (!req.onText) {
+        const resp = await client.chat.completions.create(body, { signal: req.signal })
+        return String(resp.choices?.[0]?.message?.content ?? '').trim()
+      }
+
+      const stream = await client.chat.completions.create({ ...body, stream: true }, { signal: req.signal })
+      let out = ''
+      for await (const chunk of stream as any) {
+        const delta = chunk?.choices?.[0]?.delta?.content ?? ''
+        if (!delta) continue
+        out += delta
+        req.onText(out)
+      }
+      return out.trim()
+    },
+
+    async speech(req: LlmSpeechRequest) {
+      // audio.speech.create returns a Response-like object with arrayBuffer()
+      const model = req.model || models.speech
+      const audio = await client.audio.speech.create({
+        model,
+        voice: (req.voice || 'alloy') as any,
+        response_format: req.format,
+        input: req.text,
+        // tts-1 and tts-1-hd reject instructions.
+        ...(req.instructions && !model.startsWith('tts-1') ? { instructions: req.instructions } : {}),
+      })
+      return {
+        audio: Buffer.from(await audio.arrayBuffer()),
+        contentType: req.format === 'wav' ? 'audio/wav' : 'audio/mpeg',
+      }
+    },
+  }
+}
@@ -0,0 +1,60 @@
+export type LlmImage = {
+  mime: string
+  b64: string
+}
+
+export type LlmContentPart = { type: 'text'; text: string } | { type: 'image'; image: LlmImage }
+
+export type LlmMessage = {
+  role: 'system' | 'user' | 'assistant'
+  content: string | LlmContentPart[]
+}
+
+export type LlmJsonSchema = {
+  name: string
+  schema: Record<string, any>
+  strict?: boolean
+}
+
+export type LlmCompletionRequest = {
+  /** Stable call-site key, e.g. 'plan.daily'; the mock provider picks fixtures by it. */
+  task: string
+  messages: LlmMessage[]
+  /** Defaults to the provider's text model (vision model when a message carries images). */
+  model?: string
+  /** Structured output. Without it the caller parses free-form JSON out of the text. */
+  jsonSchema?: LlmJsonSchema
+  temperature?: number
+  maxTokens?: number
+  signal?: AbortSignal
+  /** Streams the completion; called with the accumulated text after each chunk. */
+  onText?: (text: string) => void
+}
+
+export type LlmSpeechRequest = {
+  text: string
+  voice?: string
+  format: 'mp3' | 'wav'
+  model?: string
+  /** Delivery hints (e.g. the language to pronounce in); ignored by tts-1 models. */
+  instructions?: string
+}
+
+export type LlmSpeech = {
+  audio: Buffer
+  contentType: string
+}
+
+export type LlmModels = {
+  text: string
+  vision: string
+  speech: string
+}
+
+export interface LlmProvider {
+  readonly name: 'openai' | 'mock'
+  readonly models: LlmModels
+  /** Returns the raw completion text (JSON when `jsonSchema` is set). */
+  complete(req: LlmCompletionRequest): Promise<string>
+  speech(req: LlmSpeechRequest): Promise<LlmSpeech>
+}
@@ -0,0 +1,212 @@
+import pdfParse from 'pdf-parse'
+import { z } from 'zod'
+import { supabaseAdmin } from '@/lib/supabaseServer'
+import { getLlm, isLlmConfigured, type LlmProvider } from '@/lib/llm'
+import { completeJob, enqueueJob, failJob, getLatestJob, isJobActive, type GenerationJob } from '@/lib/generationJobs'
+
+const ocrSchema = z.object({
+  extracted_text: z.string(),
+  language: z.string(),
+  confidence: z.number(),
+})
+
+const ocrJsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    extracted_text: { type: 'string' },
+    language: { type: 'string' },
+    confidence: { type: 'number' },
+  },
+  required: ['extracted_text', 'language', 'confidence'],
+}
+
+function isImage(path: string, mime: string | null) {
+  if (mime && mime.startsWith('image/')) return true
+  return /\.(png|jpe?g|webp)$/i.test(path)
+}
+
+function isPdf(path: string, mime: string | null) {
+  if (mime === 'application/pdf') return true
+  return /\.pdf$/i.test(path)
+}
+
+export function isRetriable(err: any) {
+  const msg = String(err?.message || '').toLowerCase()
+  const status = Number(err?.status || err?.cause?.status)
+  if (status >= 500) return true
+  return msg.includes('timeout') || msg.includes('econn') || msg.includes('network')
+}
+
+async function withRetries<T>(fn: () => Promise<T>) {
+  const delays = [500, 1500, 3000]
+  let lastErr: any = null
+  for (let i = 0; i < delays.length; i++) {
+    try {
+      return await fn()
+    } catch (err: any) {
+      lastErr = err
+      if (!isRetriable(err) || i === delays.length - 1) break
+      await new Promise((r) => setTimeout(r, delays[i]))
+    }
+  }
+  throw lastErr
+}
+
+async function extractImageText(llm: LlmProvider | null, buf: Buffer, mime: string) {
+  if (!llm) throw new Error('Missing OpenAI client')
+  const raw = await llm.complete({
+    task: 'materials.ocr',
+    messages: [
+      { role: 'system', content: 'You are an OCR extractor. Return ONLY valid JSON matching the schema.' },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Extract readable text from this image.' },
+          { type: 'image', image: { mime, b64: buf.toString('base64') } },
+        ],
+      },
+    ],
+    temperature: 0,
+    jsonSchema: { name: 'ocr_result', schema: ocrJsonSchema },
+  })
+  const parsed = ocrSchema.parse(JSON.parse(raw))
+  return String(parsed.extracted_text || '').trim()
+}
+
+type MaterialRow = {
+  id: string
+  file_path: string
+  mime_type: string | null
+}
+
+/** Downloads one material and returns its text: pdf-parse for PDFs, OCR for images, utf8 otherwise. */
+export async function extractMaterialText(
+  sb: ReturnType<typeof supabaseAdmin>,
+  llm: LlmProvider | null,
+  item: MaterialRow
+) {
+  return withRetries(async () => {
+    const { data, error: dlErr } = await sb.storage.from('uploads').download(item.file_path)
+    if (dlErr || !data) throw dlErr || new Error('Download failed')
+    const ab = await data.arrayBuffer()
+    const buf = Buffer.from(ab)
+    let out = ''
+    if (isPdf(item.file_path, item.mime_type)) {
+      const parsed = await pdfParse(buf)
+      out = String(parsed.text ?? '').trim()
+    } else if (isImage(item.file_path, item.mime_type)) {
+      const mime = item.mime_type || 'image/png'
+      out = await extractImageText(llm, buf, mime)
+    } else {
+      out = buf.toString('utf8')
+    }
+    return out
+  })
+}
+
+// Items left in 'processing' belong to an attempt whose worker died; they are picked up again.
+const PENDING_MATERIAL_STATUSES = ['uploaded', 'pending', 'processing']
+
+/**
+ * Runs one attempt of a materials job: extracts every pending material of the plan.
+ * Transient failures put the item back to 'uploaded' and retry the job with backoff.
+ */
+export async function runMaterialsJob(job: GenerationJob) {
+  const sb = supabaseAdmin()
+  const planId = String(job.plan_id ?? '')
+  try {
+    const { data: items, error } = await sb
+      .from('materials')
+      .select('id, file_path, mime_type')
+      .eq('user_id', job.user_id)
+      .eq('plan_id', planId)
+      .in('status', PENDING_MATERIAL_STATUSES)
+      .order('created_at', { ascending: true })
+    if (error) throw error
+
+    const llm = isLlmConfigured() ? getLlm() : null
+    let processed = 0
+    let failed = 0
+    let deferred = 0
+
+    for (const item of (items ?? []) as MaterialRow[]) {
+      await sb.from('materials').update({ status: 'processing' }).eq('id', item.id)
+      try {
+        const extracted = await extractMaterialText(sb, llm, item)
+        const clipped = extracted.slice(0, 120_000)
+        await sb
+          .from('materials')
+          .update({ status: 'processed', extracted_text: clipped || null, error: null })
+          .eq('id', item.id)
+        processed += 1
+      } catch (err: any) {
+        const message = String(err?.message ?? 'Processing failed')
+        if (isRetriable(err)) {
+          await sb.from('materials').update({ status: 'uploaded', error: message }).eq('id', item.id)
+          deferred += 1
+        } else {
+          await sb.from('materials').update({ status: 'failed', error: message }).eq('id', item.id)
+          failed += 1
+        }
+      }
+    }
+
+    if (deferred > 0) {
+      const err: any = new Error(`MATERIALS_DEFERRED: ${deferred} item(s) hit a transient error`)
+      err.retryable = true
+      throw err
+    }
+
+    const result = { processed, failed }
+    await completeJob(job, result)
+    return result
+  } catch (e: any) {
+    const message = String(e?.message ?? 'Processing failed')
+    let willRetry = false
+    try {
+      willRetry = await failJob(job, message, e?.retryable !== false)
+    } catch (jobErr: any) {
+      console.error('materials.job.fail_failed', { jobId: job.id, message: jobErr?.message ?? 'unknown' })
+    }
+    if (!willRetry) await failPendingMaterials(job.user_id, planId, message)
+    e.willRetry = willRetry
+    throw e
+  }
+}
+
+/**
+ * Queues a materials job for the plan's uploaded files, or returns the job already active for it.
+ * Extraction only ever runs in the worker, so two requests never process the same material.
+ */
+export async function queueMaterialsJob(userId: string, planId: string) {
+  const existing = await getLatestJob(userId, planId, 'materials')
+  if (isJobActive(existing)) return { job: existing, idle: false }
+
+  const sb = supabaseAdmin()
+  const { count, error } = await sb
+    .from('materials')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('plan_id', planId)
+    .in('status', ['uploaded', 'pending'])
+  if (error) throw error
+  if (!count) return { job: existing, idle: true }
+
+  const job = await enqueueJob({ userId, planId, kind: 'materials', payload: { count } })
+  return { job, idle: false }
+}
+
+export async function failPendingMaterials(userId: string, planId: string, message: string) {
+  try {
+    const sb = supabaseAdmin()
+    await sb
+      .from('materials')
+      .update({ status: 'failed', error: message.slice(0, 500) })
+      .eq('user_id', userId)
+      .eq('plan_id', planId)
+      .in('status', PENDING_MATERIAL_STATUSES)
+  } catch (err: any) {
+    console.error('materials.fail_pending_failed', { planId, message: err?.message ?? 'unknown' })
+  }
+}
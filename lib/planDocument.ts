@@ -1,6 +1,8 @@
 import { z } from 'zod'
 
 const NOTE_CHAR_LIMIT = 4000
+export const MAX_PLAN_DAYS = 60
+const LEGACY_MAX_DAYS = 6
 
 export const PlanBlockSchema = z.object({
   title: z.string(),
@@ -22,6 +24,7 @@ export const DailyScheduleBlockSchema = z.object({
 
 export const DailyScheduleDaySchema = z.object({
   day: z.number(),
+  date: z.string().optional(),
   label: z.string(),
   blocks: z.array(DailyScheduleBlockSchema),
 })
@@ -37,6 +40,7 @@ export const DailyTimedBlockSchema = z.object({
 
 export const DailyTimedDaySchema = z.object({
   day: z.number(),
+  date: z.string().optional(),
   focus: z.string(),
   blocks: z.array(DailyTimedBlockSchema),
 })
@@ -71,6 +75,16 @@ export const PlanDocumentSchema = z.object({
 export type PlanDocument = z.infer<typeof PlanDocumentSchema>
 export type PlanBlock = z.infer<typeof PlanBlockSchema>
 
+/**
+ * Calendar the daily plan must span: one entry per available study day
+ * between the start date and the day before the exam.
+ */
+export type StudyCalendar = {
+  examDate: string
+  dailyMinutes: number
+  days: Array<{ day: number; date: string }>
+}
+
 export const PlanDocumentJsonSchema = {
   type: 'object',
   additionalProperties: false,
@@ -129,6 +143,7 @@ export const PlanDocumentJsonSchema = {
             additionalProperties: false,
             properties: {
               day: { type: 'number' },
+              date: { type: 'string' },
               focus: { type: 'string' },
               blocks: {
                 type: 'array',
@@ -157,6 +172,7 @@ export const PlanDocumentJsonSchema = {
             additionalProperties: false,
             properties: {
               day: { type: 'number' },
+              date: { type: 'string' },
               label: { type: 'string' },
               blocks: {
                 type: 'array',
@@ -234,6 +250,67 @@ function truncate(text: string, maxLen: number) {
   return `${raw.slice(0, maxLen - 1)}…`
 }
 
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+
+function parseIsoDate(value: unknown) {
+  const raw = asText(value)
+  if (!ISO_DATE_RE.test(raw)) return null
+  const ms = Date.parse(`${raw}T00:00:00Z`)
+  if (!Number.isFinite(ms)) return null
+  return new Date(ms).toISOString().slice(0, 10) === raw ? ms : null
+}
+
+function isoDate(ms: number) {
+  return new Date(ms).toISOString().slice(0, 10)
+}
+
+export function isIsoDate(value: unknown) {
+  return parseIsoDate(value) != null
+}
+
+/** Calendar days from `startDate` to `examDate` (both YYYY-MM-DD), or null if either is invalid. */
+export function daysUntilExam(startDate: string, examDate: string) {
+  const startMs = parseIsoDate(startDate)
+  const examMs = parseIsoDate(examDate)
+  if (startMs == null || examMs == null) return null
+  return Math.round((examMs - startMs) / (24 * 60 * 60 * 1000))
+}
+
+/**
+ * Study days are counted backwards from the exam so the day before it is
+ * always included; rest days are spread evenly across each week.
+ * Returns null when the exam is not after the start date or more than
+ * MAX_PLAN_DAYS after it (callers reject those dates up front).
+ */
+export function buildStudyCalendar(input: {
+  examDate: string
+  startDate: string
+  studyDaysPerWeek: number
+  dailyMinutes: number
+}): StudyCalendar | null {
+  const examMs = parseIsoDate(input.examDate)
+  const startMs = parseIsoDate(input.startDate)
+  if (examMs == null || startMs == null || examMs <= startMs) return null
+
+  const perWeek = clamp(Math.round(input.studyDaysPerWeek) || 7, 1, 7)
+  const dayMs = 24 * 60 * 60 * 1000
+  const totalDays = Math.round((examMs - startMs) / dayMs)
+  if (totalDays > MAX_PLAN_DAYS) return null
+
+  const dates: string[] = []
+  for (let i = 0; i < totalDays; i += 1) {
+    if ((i * perWeek) % 7 >= perWeek) continue
+    dates.push(isoDate(examMs - (i + 1) * dayMs))
+  }
+  dates.reverse()
+
+  return {
+    examDate: isoDate(examMs),
+    dailyMinutes: clamp(Math.round(input.dailyMinutes) || 90, 15, 600),
+    days: dates.map((date, idx) => ({ day: idx + 1, date })),
+  }
+}
+
 function defaultHeadings(isHu: boolean) {
   return isHu
     ? ['Fogalmak', 'Képletek', 'Lépések', 'Tipikus feladatok', 'Gyakori hibák', 'Mini példák']
@@ -426,7 +503,7 @@ function clampNotesChars(
 function convertLegacyDailySlotsToSchedule(rawSlots: any[], isHu: boolean) {
   const grouped = new Map<number, Array<{ start_time: string; end_time: string; title: string; details: string }>>()
   for (const raw of rawSlots) {
-    const day = clamp(Math.round(Number(raw?.day) || 1), 1, 6)
+    const day = clamp(Math.round(Number(raw?.day) || 1), 1, LEGACY_MAX_DAYS)
     const list = grouped.get(day) ?? []
     list.push({
       start_time: asText(raw?.start || raw?.start_time) || '18:00',
@@ -474,7 +551,7 @@ function containsTomorrowHint(prompt: string) {
 
 function buildScheduleFromBlocks(blocks: PlanBlock[], isHu: boolean, prompt = '') {
   const denseDayOne = containsTomorrowHint(prompt)
-  const maxDays = 6
+  const maxDays = LEGACY_MAX_DAYS
   const schedule: Array<{
     day: number
     label: string
@@ -550,7 +627,64 @@ function buildTimedDaysFromBlocks(blocks: PlanBlock[], isHu: boolean, prompt = '
   return buildTimedDaysFromSchedule(schedule, isHu)
 }
 
-export function fallbackPlanDocument(isHu: boolean, prompt = ''): PlanDocument {
+function blockMinutes(start: string, end: string) {
+  const diff = parseHm(end) - parseHm(start)
+  return diff > 0 ? diff : diff + 1440
+}
+
+function fitBlocksToBudget(blocks: PlanDocument['daily']['days'][number]['blocks'], budget: number) {
+  let t = parseHm(blocks[0]?.start || '18:00')
+  let used = 0
+  const out: PlanDocument['daily']['days'][number]['blocks'] = []
+  for (const block of blocks) {
+    const minutes = clamp(blockMinutes(block.start, block.end), 5, 180)
+    if (used + minutes > budget) {
+      if (!out.length) out.push({ ...block, start: hm(t), end: hm(t + budget) })
+      break
+    }
+    out.push({ ...block, start: hm(t), end: hm(t + minutes) })
+    t += minutes
+    used += minutes
+  }
+  while (out.length > 1 && out[out.length - 1].type === 'break') out.pop()
+  return out
+}
+
+/**
+ * Stretches or trims the generated days onto the calendar: every calendar day gets exactly one
+ * entry, model days are mapped proportionally so ordering (and a final review) is preserved.
+ */
+function alignDaysToCalendar(days: PlanDocument['daily']['days'], calendar: StudyCalendar, isHu: boolean) {
+  const source = days.length ? days : buildTimedDaysFromBlocks(fallbackBlocks(isHu), isHu)
+  const total = calendar.days.length
+  return calendar.days.map((slot, idx) => {
+    const from = source[Math.min(source.length - 1, Math.floor((idx * source.length) / total))]
+    const isLast = idx === total - 1 && total > 1
+    const focus = from.focus.replace(/^(Day|Nap) \d+/, `$1 ${slot.day}`)
+    return {
+      day: slot.day,
+      date: slot.date,
+      focus: isLast && source.length < total ? truncate(isHu ? `Ismetles: ${focus}` : `Review: ${focus}`, 80) : focus,
+      blocks: fitBlocksToBudget(from.blocks, calendar.dailyMinutes),
+    }
+  })
+}
+
+function scheduleFromTimedDays(days: PlanDocument['daily']['days']): PlanDocument['daily']['schedule'] {
+  return days.map((day) => ({
+    day: day.day,
+    date: day.date,
+    label: day.focus,
+    blocks: day.blocks.map((block) => ({
+      start_time: block.start,
+      end_time: block.end,
+      title: block.title,
+      details: block.details ?? '',
+    })),
+  }))
+}
+
+export function fallbackPlanDocument(isHu: boolean, prompt = '', calendar?: StudyCalendar | null): PlanDocument {
   const title = truncate(asText(prompt) || (isHu ? 'Tanulasi terv' : 'Study plan'), 90)
   const blocks = fallbackBlocks(isHu)
   const outline = defaultHeadings(isHu).slice(0, 6).map((heading) => ({
@@ -561,6 +695,9 @@ export function fallbackPlanDocument(isHu: boolean, prompt = ''): PlanDocument {
     ],
   }))
 
+  const timedDays = buildTimedDaysFromBlocks(blocks, isHu, prompt)
+  const days = calendar?.days.length ? alignDaysToCalendar(timedDays, calendar, isHu) : timedDays
+
   return {
     title,
     language: isHu ? 'hu' : 'en',
@@ -578,8 +715,8 @@ export function fallbackPlanDocument(isHu: boolean, prompt = ''): PlanDocument {
       isHu
     ),
     daily: {
-      schedule: buildScheduleFromBlocks(blocks, isHu, prompt),
-      days: buildTimedDaysFromBlocks(blocks, isHu, prompt),
+      schedule: calendar?.days.length ? scheduleFromTimedDays(days) : buildScheduleFromBlocks(blocks, isHu, prompt),
+      days,
     },
     practice: {
       questions: ensureMinPracticeQuestions([
@@ -595,8 +732,13 @@ export function fallbackPlanDocument(isHu: boolean, prompt = ''): PlanDocument {
   }
 }
 
-export function normalizePlanDocument(input: any, isHu: boolean, prompt = ''): PlanDocument {
-  const fallback = fallbackPlanDocument(isHu, prompt)
+export function normalizePlanDocument(
+  input: any,
+  isHu: boolean,
+  prompt = '',
+  calendar?: StudyCalendar | null
+): PlanDocument {
+  const fallback = fallbackPlanDocument(isHu, prompt, calendar)
 
   const blocks = normalizeBlocks(input?.plan?.blocks ?? input?.blocks ?? input?.plan_json?.blocks, isHu)
 
@@ -628,7 +770,8 @@ export function normalizePlanDocument(input: any, isHu: boolean, prompt = ''): P
   if (rawSchedule) {
     schedule = rawSchedule
       .map((day: any) => ({
-        day: clamp(Math.round(Number(day?.day) || 1), 1, 6),
+        day: clamp(Math.round(Number(day?.day) || 1), 1, MAX_PLAN_DAYS),
+        date: isIsoDate(day?.date) ? asText(day.date) : undefined,
         label: truncate(asText(day?.label) || (isHu ? 'Napi terv' : 'Daily plan'), 80),
         blocks: (Array.isArray(day?.blocks) ? day.blocks : [])
           .map((block: any) => ({
@@ -640,7 +783,7 @@ export function normalizePlanDocument(input: any, isHu: boolean, prompt = ''): P
           .filter((block: any) => block.title),
       }))
       .filter((day: any) => day.blocks.length)
-      .slice(0, 6)
+      .slice(0, MAX_PLAN_DAYS)
   }
 
   if (!schedule.length) {
@@ -664,7 +807,8 @@ export function normalizePlanDocument(input: any, isHu: boolean, prompt = ''): P
   if (rawDays) {
     days = rawDays
       .map((day: any) => ({
-        day: clamp(Math.round(Number(day?.day) || 1), 1, 6),
+        day: clamp(Math.round(Number(day?.day) || 1), 1, MAX_PLAN_DAYS),
+        date: isIsoDate(day?.date) ? asText(day.date) : undefined,
         focus: truncate(asText(day?.focus) || (isHu ? `Nap ${day?.day ?? 1}` : `Day ${day?.day ?? 1}`), 80),
         blocks: (Array.isArray(day?.blocks) ? day.blocks : [])
           .map((block: any) => ({
@@ -678,13 +822,18 @@ export function normalizePlanDocument(input: any, isHu: boolean, prompt = ''): P
           .filter((block: any) => block.title),
       }))
       .filter((day: any) => day.blocks.length)
-      .slice(0, 6)
+      .slice(0, MAX_PLAN_DAYS)
   }
 
   if (!days.length) {
     days = buildTimedDaysFromSchedule(schedule, isHu)
   }
 
+  if (calendar?.days.length) {
+    days = alignDaysToCalendar(days, calendar, isHu)
+    schedule = scheduleFromTimedDays(days)
+  }
+
   const rawQuestions = Array.isArray(input?.practice?.questions)
     ? input.practice.questions
     : Array.isArray(input?.practice_json?.questions)
@@ -0,0 +1,825 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { upsertPlanInMemory } from '@/app/api/plan/store'
+import { MAX_PLAN_IMAGES, OPENAI_MODEL } from '@/lib/limits'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
+import { chargeCredits, refundCredits } from '@/lib/credits'
+import { TABLE_PLANS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { optimizeImageForVision, type OptimizedVisionImage } from '@/lib/imageOptimize'
+import { extractFromImagesWithVision } from '@/lib/visionExtract'
+import { extractCompletedJsonValue, parseWithRepair } from '@/lib/aiJson'
+import type { PlanStreamEvent } from '@/lib/planStream'
+import { completeJob, failJob, type GenerationJob } from '@/lib/generationJobs'
+import { releaseQuota } from '@/lib/quotas'
+import {
+  fallbackPlanDocument,
+  normalizePlanDocument,
+  PlanDocumentSchema,
+  type PlanDocument,
+  type StudyCalendar,
+} from '@/lib/planDocument'
+
+const MAX_OUTPUT_TOKENS = 1400
+const STEP1_TIMEOUT_MS = 12_000
+const STEP2_TIMEOUT_MS = 14_000
+const OPENAI_ATTEMPTS = 2
+const MAX_VISION_BYTES = 8 * 1024 * 1024
+const MAX_MODEL_DAYS = 14
+
+export type PlanStreamEmit = (event: PlanStreamEvent) => void
+
+// Emits each PlanDocument section once it validates against PlanDocumentSchema, and again whenever
+// it changes: notes streamed by a failed attempt are replaced by the retry's or the fallback's.
+function createSectionEmitter(emit: PlanStreamEmit | null) {
+  const sent = new Map<string, string>()
+  const shape = PlanDocumentSchema.shape
+  const send = (key: string, valid: boolean, event: () => PlanStreamEvent) => {
+    if (!emit || !valid) return
+    const next = event()
+    const encoded = JSON.stringify(next)
+    if (sent.get(key) === encoded) return
+    sent.set(key, encoded)
+    emit(next)
+  }
+  return {
+    title(doc: PlanDocument) {
+      send('title', shape.title.safeParse(doc.title).success && shape.summary.safeParse(doc.summary).success, () => ({
+        type: 'title',
+        title: doc.title,
+        language: doc.language,
+        summary: doc.summary,
+      }))
+    },
+    daily(doc: PlanDocument) {
+      send('daily', shape.daily.safeParse(doc.daily).success && shape.plan.safeParse(doc.plan).success, () => ({
+        type: 'daily',
+        daily: doc.daily,
+        plan: doc.plan,
+      }))
+    },
+    notes(doc: PlanDocument) {
+      send('notes', shape.notes.safeParse(doc.notes).success, () => ({ type: 'notes.outline', notes: doc.notes }))
+    },
+    practice(doc: PlanDocument) {
+      send('practice', shape.practice.safeParse(doc.practice).success, () => ({
+        type: 'practice',
+        practice: doc.practice,
+      }))
+    },
+    all(doc: PlanDocument) {
+      this.title(doc)
+      this.daily(doc)
+      this.notes(doc)
+      this.practice(doc)
+    },
+  }
+}
+
+/** Up to `max` items spread evenly over `items`, always keeping the first and the last. */
+function sampleDays<T>(items: T[], max: number) {
+  if (items.length <= max) return items
+  return Array.from({ length: max }, (_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))])
+}
+
+function readStructuredContent(text: string) {
+  const content = String(text ?? '').trim()
+  if (!content) return null
+  try {
+    return parseWithRepair(content)
+  } catch {
+    return null
+  }
+}
+
+async function withTimeout<T>(ms: number, fn: (signal: AbortSignal) => Promise<T>) {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), ms)
+  try {
+    return await fn(controller.signal)
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+export function detectHungarian(text: string) {
+  return /\bhu\b|magyar|szia|tetel|t[eé]tel|vizsga|erettsegi|[áéíóöőúüű]/i.test(text)
+}
+
+export function logSupabaseError(context: string, error: any) {
+  console.error('supabase.error', {
+    context,
+    code: error?.code ?? null,
+    message: error?.message ?? null,
+    details: error?.details ?? null,
+    hint: error?.hint ?? null,
+  })
+}
+
+type RawImageSource = {
+  name: string
+  mime: string
+  buffer: Buffer
+}
+
+async function collectRawImages(input: { storagePaths: string[]; maxImages: number }): Promise<RawImageSource[]> {
+  const out: RawImageSource[] = []
+  const maxImages = Math.max(0, Math.min(MAX_PLAN_IMAGES, input.maxImages))
+  if (!input.storagePaths.length) return out
+
+  const sb = createServerAdminClient()
+  for (const p of input.storagePaths) {
+    if (out.length >= maxImages) break
+    const path = String(p || '').trim()
+    if (!path) continue
+    try {
+      const { data, error } = await sb.storage.from('uploads').download(path)
+      if (error || !data) continue
+      const mime = String((data as any).type || '')
+      if (!mime.startsWith('image/')) continue
+      const buffer = Buffer.from(await data.arrayBuffer())
+      out.push({
+        name: path.split('/').pop() || `storage-${out.length + 1}`,
+        mime: mime || 'image/jpeg',
+        buffer,
+      })
+    } catch {
+      // ignore per-file storage failures
+    }
+  }
+
+  return out
+}
+
+/**
+ * Copies multipart uploads into Storage so a queued job (possibly on another worker) can read them.
+ * Returns the storage paths in upload order.
+ */
+export async function storePlanUploads(userId: string, planId: string, files: File[]) {
+  const images = files.filter((f) => String(f.type || '').startsWith('image/')).slice(0, MAX_PLAN_IMAGES)
+  if (!images.length) return []
+
+  const sb = createServerAdminClient()
+  const paths: string[] = []
+  for (const [idx, file] of images.entries()) {
+    const safeName = String(file.name || 'upload').replace(/[^a-zA-Z0-9._-]/g, '_').slice(-80)
+    const path = `materials/${userId}/${planId}/${idx + 1}-${safeName}`
+    const { error } = await sb.storage.from('uploads').upload(path, Buffer.from(await file.arrayBuffer()), {
+      contentType: file.type || 'image/jpeg',
+      upsert: true,
+    })
+    if (error) {
+      const err: any = new Error(`UPLOAD_FAILED: ${error.message}`)
+      err.code = 'UPLOAD_FAILED'
+      err.status = 500
+      throw err
+    }
+    paths.push(path)
+  }
+  return paths
+}
+
+async function optimizeVisionImages(rawImages: RawImageSource[]): Promise<OptimizedVisionImage[]> {
+  const optimized: OptimizedVisionImage[] = []
+  let total = 0
+
+  for (const img of rawImages) {
+    const o = await optimizeImageForVision(img.buffer, img.mime, { longEdge: 1024, quality: 70 })
+    if (!o) continue
+    if (total + o.bytes > MAX_VISION_BYTES) continue
+    optimized.push(o)
+    total += o.bytes
+  }
+
+  return optimized
+}
+
+export type SavePlanRow = {
+  id: string
+  userId: string
+  prompt: string
+  title: string
+  language: 'hu' | 'en'
+  created_at: string
+  result: PlanDocument
+  creditsCharged?: number | null
+  inputChars?: number | null
+  imagesCount?: number | null
+  outputChars?: number | null
+  status?: string | null
+  generationId?: string | null
+  materials?: string[] | null
+  error?: string | null
+  model?: string | null
+}
+
+export async function savePlanToDbBestEffort(row: SavePlanRow) {
+  try {
+    const sb = createServerAdminClient()
+    const safePlan = row.result.plan
+    const safeNotes = row.result.notes
+    const safeDaily = row.result.daily
+    const safePractice = row.result.practice
+    const safeMaterials = Array.isArray(row.materials) ? row.materials : []
+
+    const basePayload: Record<string, any> = {
+      id: row.id,
+      user_id: row.userId,
+      prompt: row.prompt || '',
+      title: row.title || (row.language === 'hu' ? 'Tanulasi terv' : 'Study plan'),
+      language: row.language || 'en',
+      model: row.model || OPENAI_MODEL,
+      created_at: row.created_at,
+      credits_charged: row.creditsCharged ?? 0,
+      input_chars: row.inputChars ?? 0,
+      images_count: row.imagesCount ?? 0,
+      output_chars: row.outputChars ?? 0,
+      status: row.status ?? 'processing',
+      generation_id: row.generationId ?? null,
+      materials: safeMaterials,
+      error: row.error ?? null,
+      plan_json: safePlan,
+      notes_json: safeNotes,
+      daily_json: safeDaily,
+      practice_json: safePractice,
+      plan: safePlan,
+      notes: safeNotes,
+      daily: safeDaily,
+      practice: safePractice,
+    }
+
+    const { error } = await sb.from(TABLE_PLANS).upsert(basePayload, { onConflict: 'id' })
+    if (!error) return
+
+    const message = String(error?.message ?? '')
+    if (message.includes('PGRST204') || message.includes('does not exist')) {
+      const err: any = new Error(`PLANS_SCHEMA_MISMATCH: ${message}`)
+      err.status = 500
+      throw err
+    }
+
+    throw error
+  } catch (err: any) {
+    logSupabaseError('plan.save', err)
+    throwIfMissingTable(err, TABLE_PLANS)
+    throw err
+  }
+}
+
+async function setCurrentPlanBestEffort(userId: string, planId: string) {
+  try {
+    const sb = createServerAdminClient()
+    await sb.from('plan_current').upsert({ user_id: userId, plan_id: planId }, { onConflict: 'user_id' })
+  } catch {
+    // ignore
+  }
+}
+
+const planDailySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    title: { type: 'string' },
+    language: { type: 'string', enum: ['hu', 'en'] },
+    summary: { type: 'string' },
+    plan: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        blocks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              title: { type: 'string' },
+              description: { type: 'string' },
+              duration_minutes: { type: 'number' },
+            },
+            required: ['title', 'description', 'duration_minutes'],
+          },
+        },
+      },
+      required: ['blocks'],
+    },
+    daily: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        days: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              day: { type: 'number' },
+              date: { type: 'string' },
+              focus: { type: 'string' },
+              blocks: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  additionalProperties: false,
+                  properties: {
+                    start: { type: 'string' },
+                    end: { type: 'string' },
+                    title: { type: 'string' },
+                    type: { type: 'string', enum: ['study', 'break'] },
+                    pomodoro: { type: 'boolean' },
+                    details: { type: 'string' },
+                  },
+                  required: ['start', 'end', 'title', 'type', 'pomodoro'],
+                },
+              },
+            },
+            required: ['day', 'focus', 'blocks'],
+          },
+        },
+      },
+      required: ['days'],
+    },
+  },
+  required: ['title', 'language', 'summary', 'plan', 'daily'],
+} as const
+
+const notesPracticeSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    notes: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        outline: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              heading: { type: 'string' },
+              bullets: { type: 'array', items: { type: 'string' } },
+            },
+            required: ['heading', 'bullets'],
+          },
+        },
+        summary: { type: 'string' },
+      },
+      required: ['outline', 'summary'],
+    },
+    practice: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        questions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              q: { type: 'string' },
+              choices: { type: 'array', items: { type: 'string' } },
+              a: { type: 'string' },
+              explanation: { type: 'string' },
+            },
+            required: ['q', 'a', 'explanation'],
+          },
+        },
+      },
+      required: ['questions'],
+    },
+  },
+  required: ['notes', 'practice'],
+} as const
+/** Stored in generation_jobs.payload for kind 'plan'. */
+export type PlanJobPayload = {
+  requestId: string
+  prompt: string
+  storagePaths: string[]
+  calendar: StudyCalendar | null
+  cost: number
+  /** The free-tier quota use taken by the request, given back when the job fails for good. */
+  quotaUsageId?: number | null
+}
+
+function generationError(code: string, message: string, status: number, retryable: boolean) {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  err.retryable = retryable
+  return err
+}
+
+async function markPlanFailed(userId: string, planId: string, code: string) {
+  try {
+    const sb = createServerAdminClient()
+    await sb.from(TABLE_PLANS).update({ status: 'failed', error: code }).eq('id', planId).eq('user_id', userId)
+  } catch (err: any) {
+    logSupabaseError('plan.mark_failed', err)
+  }
+}
+
+/**
+ * Settles a plan job the reaper gave up on: fails the plan, gives back the quota use and refunds a
+ * charge its worker left behind.
+ */
+export async function settleExpiredPlanJob(job: GenerationJob) {
+  if (!job.plan_id) return
+  await markPlanFailed(job.user_id, job.plan_id, 'LEASE_EXPIRED')
+  const payload = (job.payload ?? {}) as Partial<PlanJobPayload>
+  await releaseQuota(job.user_id, payload.quotaUsageId)
+  const cost = Math.max(0, Number(payload.cost) || 0)
+  if (!cost || !payload.requestId) return
+  try {
+    await refundCredits(job.user_id, cost, { feature: 'plan', reference: job.plan_id, idempotencyKey: payload.requestId })
+  } catch (err: any) {
+    console.error('plan.reap refund_failed', { jobId: job.id, message: err?.message ?? 'unknown' })
+  }
+}
+
+async function markPlanRetrying(userId: string, planId: string, code: string) {
+  try {
+    const sb = createServerAdminClient()
+    await sb.from(TABLE_PLANS).update({ status: 'processing', error: code }).eq('id', planId).eq('user_id', userId)
+  } catch (err: any) {
+    logSupabaseError('plan.mark_retrying', err)
+  }
+}
+
+/**
+ * Runs one attempt of a plan job and settles it in the queue. Failures are rethrown after
+ * bookkeeping with `willRetry` set; once a job is out of attempts its plan row is marked failed.
+ */
+export async function runPlanJob(job: GenerationJob, emit: PlanStreamEmit | null) {
+  const planId = String(job.plan_id ?? '')
+  try {
+    const result = await runPlanGeneration({
+      planId,
+      userId: job.user_id,
+      payload: job.payload as PlanJobPayload,
+      emit,
+    })
+    await completeJob(job, result)
+    return result
+  } catch (e: any) {
+    const code = String(e?.code || '') || (/aborted|timed out|timeout|AbortError/i.test(String(e?.message || '')) ? 'OPENAI_TIMEOUT' : 'PLAN_GENERATE_FAILED')
+    let willRetry = false
+    try {
+      willRetry = await failJob(job, `${code}: ${String(e?.message || '')}`, e?.retryable !== false)
+    } catch (jobErr: any) {
+      console.error('plan.job.fail_failed', { jobId: job.id, message: jobErr?.message ?? 'unknown' })
+    }
+    if (willRetry) {
+      await markPlanRetrying(job.user_id, planId, code)
+    } else {
+      await markPlanFailed(job.user_id, planId, code)
+      await releaseQuota(job.user_id, (job.payload as PlanJobPayload | null)?.quotaUsageId)
+    }
+    e.willRetry = willRetry
+    throw e
+  }
+}
+
+async function runPlanGeneration(input: {
+  planId: string
+  userId: string
+  payload: PlanJobPayload
+  emit: PlanStreamEmit | null
+}): Promise<{ planId: string; status: 'done' | 'partial' }> {
+  const { planId, userId, payload, emit } = input
+  const requestId = String(payload.requestId || crypto.randomUUID())
+  const sections = createSectionEmitter(emit)
+  const cost = Math.max(0, Number(payload.cost) || 0)
+  const calendar = payload.calendar ?? null
+  const storagePaths = Array.isArray(payload.storagePaths) ? payload.storagePaths : []
+  const prompt = String(payload.prompt ?? '')
+  const isHu = detectHungarian(prompt)
+  const startedAt = Date.now()
+  let charged = false
+
+  try {
+    if (!isLlmConfigured()) {
+      throw generationError('OPENAI_KEY_MISSING', 'Missing OPENAI_API_KEY', 500, false)
+    }
+
+    const imagesSelected = Math.min(MAX_PLAN_IMAGES, storagePaths.length)
+    const rawImages = await collectRawImages({ storagePaths, maxImages: MAX_PLAN_IMAGES })
+    const imagesDownloaded = rawImages.length
+    const optimizedImages = await optimizeVisionImages(rawImages)
+    const imagesSentToVision = optimizedImages.length
+
+    console.log('plan.images', {
+      requestId,
+      imagesSelected,
+      imagesDownloaded,
+      imagesSentToVision,
+    })
+
+    const llm = getLlm()
+
+    const extracted = await extractFromImagesWithVision({
+      llm,
+      prompt,
+      images: optimizedImages,
+      requestId,
+      retries: 2,
+      timeoutMs: STEP1_TIMEOUT_MS,
+    })
+
+    const extractLength = String(extracted.extracted || '').length
+    console.log('plan.vision', {
+      requestId,
+      imagesSelected,
+      imagesDownloaded,
+      imagesSentToVision,
+      extractLength,
+    })
+
+    const targetLang: 'hu' | 'en' =
+      extracted.language === 'hu' || (extracted.language !== 'en' && isHu) ? 'hu' : 'en'
+
+    const systemText = [
+      'Return ONLY valid JSON. No markdown. No commentary.',
+      `Language target: ${targetLang === 'hu' ? 'Hungarian' : 'English'}; output language must be "${targetLang}" unless impossible.`,
+      'Plan summary must be concise: 2-4 lines maximum.',
+      'Daily days blocks must include start/end time strings and pomodoro-friendly study blocks.',
+      'Notes are the primary value and must be an outline with headings + bullets. Hungarian for Hungarian prompts.',
+      'Practice must include at least 8 short exercises with compact answers/explanations.',
+      calendar
+        ? `Exam date: ${calendar.examDate}. Daily study budget: ${calendar.dailyMinutes} minutes including breaks.`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+
+    const userText = [
+      `Prompt:\n${prompt || '(empty)'}`,
+      `Extracted material from images:\n${extracted.extracted || '(none)'}`,
+      `Key topics:\n${extracted.key_topics.join(', ') || '(none)'}`,
+      `Tasks found:\n${extracted.tasks_found.join(' | ') || '(none)'}`,
+    ].join('\n\n')
+
+    // Long calendars are sampled evenly from the first study day to the last one before the exam;
+    // normalizePlanDocument stretches the days back onto every date.
+    const modelDays = calendar ? sampleDays(calendar.days, MAX_MODEL_DAYS) : []
+    const calendarText = calendar
+      ? `\n\nStudy days (${calendar.days.length} until the exam): return exactly ${modelDays.length} daily.days with these dates, ` +
+        `in order, the last one a review: ${modelDays.map((d) => d.date).join(', ')}.`
+      : ''
+
+    const runPlanDailyAttempt = async (attempt: number): Promise<PlanDocument> => {
+      const extra = attempt > 0 ? 'Repair JSON: return ONLY valid JSON matching schema exactly. No prose.' : ''
+      const content = await withTimeout(STEP1_TIMEOUT_MS, (signal) =>
+        llm.complete({
+          task: 'plan.daily',
+          messages: [
+            { role: 'system', content: [systemText, extra].filter(Boolean).join('\n') },
+            {
+              role: 'user',
+              content: `${userText}${calendarText}\n\nGenerate only title, language, summary, plan.blocks and daily.days. Keep it compact.`,
+            },
+          ],
+          temperature: 0,
+          maxTokens: calendar ? MAX_OUTPUT_TOKENS : 700,
+          jsonSchema: { name: 'plan_daily', strict: true, schema: planDailySchema },
+          signal,
+        })
+      )
+
+      const parsed = readStructuredContent(content)
+      if (!parsed || typeof parsed !== 'object') {
+        const err: any = new Error('OPENAI_INVALID_STRUCTURED_OUTPUT')
+        err.code = 'OPENAI_INVALID_STRUCTURED_OUTPUT'
+        throw err
+      }
+
+      const seeded = {
+        ...fallbackPlanDocument(isHu, prompt, calendar),
+        title: (parsed as any).title,
+        language: (parsed as any).language,
+        summary: (parsed as any).summary,
+        plan: (parsed as any).plan,
+        daily: {
+          days: (parsed as any)?.daily?.days,
+        },
+      }
+      return normalizePlanDocument(seeded, isHu, prompt, calendar)
+    }
+
+    const runNotesPracticeAttempt = async (base: PlanDocument, attempt: number): Promise<PlanDocument> => {
+      const extra = attempt > 0 ? 'Repair JSON: return ONLY valid JSON matching schema exactly. No prose.' : ''
+      // Streamed so notes can be pushed to the client as soon as they are complete.
+      let notesSent = false
+      const content = await withTimeout(STEP2_TIMEOUT_MS, (signal) =>
+        llm.complete({
+          task: 'plan.notes_practice',
+          messages: [
+            { role: 'system', content: [systemText, extra].filter(Boolean).join('\n') },
+            {
+              role: 'user',
+              content:
+                `${userText}\n\n` +
+                `Existing compact plan:\n${JSON.stringify({
+                  title: base.title,
+                  language: base.language,
+                  summary: base.summary,
+                  plan: base.plan,
+                  daily: base.daily,
+                })}\n\n` +
+                'Generate only notes and practice keys. Keep structure strict and concise.',
+            },
+          ],
+          temperature: 0,
+          maxTokens: MAX_OUTPUT_TOKENS,
+          jsonSchema: { name: 'notes_practice', strict: true, schema: notesPracticeSchema },
+          signal,
+          onText: (text) => {
+            if (!emit || notesSent) return
+            const notes = extractCompletedJsonValue(text, 'notes')
+            if (notes) {
+              notesSent = true
+              sections.notes(normalizePlanDocument({ ...base, notes }, isHu, prompt, calendar))
+            }
+          },
+        })
+      )
+
+      const parsed = readStructuredContent(content)
+      if (!parsed || typeof parsed !== 'object') {
+        const err: any = new Error('OPENAI_INVALID_STRUCTURED_OUTPUT')
+        err.code = 'OPENAI_INVALID_STRUCTURED_OUTPUT'
+        throw err
+      }
+      const merged = {
+        ...base,
+        notes: (parsed as any).notes,
+        practice: (parsed as any).practice,
+      }
+      return normalizePlanDocument(merged, isHu, prompt, calendar)
+    }
+
+    let document: PlanDocument | null = null
+    let finalStatus: 'done' | 'partial' = 'partial'
+    let finalPath: 'strict_success' | 'strict_retry_success' | 'fallback_used' = 'fallback_used'
+    let retriesUsed = 0
+
+    for (let attempt = 0; attempt < OPENAI_ATTEMPTS; attempt += 1) {
+      try {
+        document = await runPlanDailyAttempt(attempt)
+        finalPath = attempt === 0 ? 'strict_success' : 'strict_retry_success'
+        retriesUsed = attempt
+        break
+      } catch (err: any) {
+        console.warn('plan.generate.retry', {
+          requestId,
+          attempt: attempt + 1,
+          code: String(err?.code || ''),
+          message: String(err?.message || ''),
+        })
+      }
+    }
+
+    if (!document) {
+      document = fallbackPlanDocument(isHu, prompt, calendar)
+      finalPath = 'fallback_used'
+      retriesUsed = OPENAI_ATTEMPTS
+    }
+
+    await savePlanToDbBestEffort({
+      id: planId,
+      userId,
+      prompt,
+      title: document.title,
+      language: document.language,
+      created_at: new Date().toISOString(),
+      result: document,
+      creditsCharged: 0,
+      inputChars: prompt.length,
+      imagesCount: imagesDownloaded,
+      outputChars: JSON.stringify(document).length,
+      status: 'partial',
+      generationId: requestId,
+      model: llm.models.text,
+      materials: rawImages.map((x) => x.name),
+      error: finalPath === 'fallback_used' ? 'PLAN_DAILY_FALLBACK' : null,
+    })
+
+    if (finalPath !== 'fallback_used') {
+      sections.title(document)
+      sections.daily(document)
+      let step2Done = false
+      for (let attempt = 0; attempt < OPENAI_ATTEMPTS; attempt += 1) {
+        try {
+          document = await runNotesPracticeAttempt(document, attempt)
+          step2Done = true
+          finalStatus = 'done'
+          retriesUsed += attempt
+          break
+        } catch (err: any) {
+          console.warn('plan.generate.step2_retry', {
+            requestId,
+            attempt: attempt + 1,
+            code: String(err?.code || ''),
+            message: String(err?.message || ''),
+          })
+        }
+      }
+      if (!step2Done) {
+        finalStatus = 'partial'
+      }
+    }
+
+    if (cost > 0) {
+      try {
+        await chargeCredits(userId, cost, { feature: 'plan', reference: planId, idempotencyKey: requestId })
+        charged = true
+      } catch (debitErr: any) {
+        const message = String(debitErr?.message || '')
+        if (message.includes('INSUFFICIENT_CREDITS')) {
+          const err = generationError('INSUFFICIENT_CREDITS', 'Not enough credits', 402, false)
+          if (debitErr?.checkoutUrl) err.checkoutUrl = debitErr.checkoutUrl
+          throw err
+        }
+        if (message.includes('SERVER_MISCONFIGURED')) {
+          throw generationError('SERVER_MISCONFIGURED', message, 500, false)
+        }
+        throw generationError('CREDITS_CHARGE_FAILED', 'Credits charge failed', 500, true)
+      }
+    }
+
+    const outputChars = JSON.stringify(document).length
+
+    await savePlanToDbBestEffort({
+      id: planId,
+      userId,
+      prompt,
+      title: document.title,
+      language: document.language,
+      created_at: new Date().toISOString(),
+      result: document,
+      creditsCharged: cost,
+      inputChars: prompt.length,
+      imagesCount: imagesDownloaded,
+      outputChars,
+      status: finalStatus,
+      generationId: requestId,
+      model: llm.models.text,
+      materials: rawImages.map((x) => x.name),
+      error:
+        finalPath === 'fallback_used'
+          ? 'OPENAI_INVALID_STRUCTURED_OUTPUT_FALLBACK'
+          : finalStatus === 'partial'
+            ? 'NOTES_PRACTICE_PARTIAL'
+            : null,
+    })
+
+    sections.all(document)
+
+    upsertPlanInMemory({
+      id: planId,
+      userId,
+      title: document.title,
+      created_at: new Date().toISOString(),
+      result: document,
+    })
+
+    await setCurrentPlanBestEffort(userId, planId)
+
+    console.log('plan.generate.done', {
+      requestId,
+      planId,
+      finalPath,
+      finalSchemaValid: finalPath !== 'fallback_used' && finalStatus === 'done',
+      status: finalStatus,
+      imagesSelected,
+      imagesDownloaded,
+      imagesSentToVision,
+      extractLength,
+      elapsed_ms: Date.now() - startedAt,
+      retries: retriesUsed,
+    })
+
+    return { planId, status: finalStatus }
+  } catch (e: any) {
+    console.error('[plan.error]', {
+      requestId,
+      planId,
+      name: e?.name,
+      message: e?.message,
+      stack: e?.stack,
+    })
+
+    if (charged) {
+      try {
+        await refundCredits(userId, cost, { feature: 'plan', reference: planId, idempotencyKey: requestId })
+      } catch (refundErr: any) {
+        console.error('plan.generate refund_failed', { requestId, message: refundErr?.message ?? 'unknown' })
+      }
+    }
+
+    if (String(e?.message || '').includes('SERVER_MISCONFIGURED')) e.retryable = false
+    if (String(e?.message || '').includes('PLANS_SCHEMA_MISMATCH')) {
+      e.code = 'PLANS_SCHEMA_MISMATCH'
+      e.retryable = false
+    }
+    throw e
+  }
+}
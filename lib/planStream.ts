@@ -0,0 +1,50 @@
+import type { PlanDocument } from '@/lib/planDocument'
+
+/**
+ * NDJSON events sent by `POST /api/plan?stream=1`, one JSON object per line.
+ * Section events carry data already validated against PlanDocumentSchema.
+ */
+export type PlanStreamEvent =
+  | { type: 'started'; planId: string; requestId: string }
+  | { type: 'title'; title: string; language: PlanDocument['language']; summary: string }
+  | { type: 'daily'; daily: PlanDocument['daily']; plan: PlanDocument['plan'] }
+  | { type: 'notes.outline'; notes: PlanDocument['notes'] }
+  | { type: 'practice'; practice: PlanDocument['practice'] }
+  | { type: 'done'; planId: string; status: string }
+  | { type: 'error'; status: number; error: { code: string; message: string }; requestId?: string; retrying?: boolean }
+
+export const PLAN_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8'
+
+export function encodePlanEvent(event: PlanStreamEvent) {
+  return `${JSON.stringify(event)}\n`
+}
+
+export async function readPlanStream(res: Response, onEvent: (event: PlanStreamEvent) => void) {
+  if (!res.body) throw new Error('Empty response body')
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const flush = (line: string) => {
+    const trimmed = line.trim()
+    if (!trimmed) return
+    try {
+      onEvent(JSON.parse(trimmed) as PlanStreamEvent)
+    } catch {
+      // ignore malformed lines
+    }
+  }
+
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    let nl = buffer.indexOf('\n')
+    while (nl >= 0) {
+      flush(buffer.slice(0, nl))
+      buffer = buffer.slice(nl + 1)
+      nl = buffer.indexOf('\n')
+    }
+  }
+  flush(buffer + decoder.decode())
+}
@@ -0,0 +1,89 @@
+import { CREDITS_PER_GENERATION, MAX_HOMEWORK_IMAGES, MAX_PLAN_IMAGES } from '@/lib/limits'
+
+// Single source of credit prices. Pure, so the client can show the same numbers the server charges.
+
+export type PricedFeature = 'plan' | 'homework' | 'ask' | 'tts' | 'vocab' | 'test'
+
+export const PRICED_FEATURES: PricedFeature[] = ['plan', 'homework', 'ask', 'tts', 'vocab', 'test']
+
+export type PricingInput = {
+  images?: number
+  questions?: number
+  chars?: number
+}
+
+export type PriceQuote = {
+  feature: PricedFeature
+  credits: number
+}
+
+export const MAX_VOCAB_IMAGES = 10
+export const MAX_TTS_CHARS = 4000
+export const DEFAULT_TEST_QUESTIONS = 20
+export const MAX_TEST_QUESTIONS = 60
+
+const TTS_CHARS_PER_CREDIT = 1000
+const TEST_QUESTIONS_PER_CREDIT = 20
+
+function count(value: number | undefined, fallback = 0) {
+  const n = Math.trunc(Number(value ?? fallback))
+  return Number.isFinite(n) && n > 0 ? n : 0
+}
+
+function pricingError(code: string, message: string): never {
+  const err: any = new Error(message)
+  err.status = 400
+  err.code = code
+  throw err
+}
+
+export function isPricedFeature(value: unknown): value is PricedFeature {
+  return PRICED_FEATURES.includes(value as PricedFeature)
+}
+
+/** 1 credit up to 5 images, 2 up to 10, 3 beyond. */
+function tieredImageCost(images: number) {
+  if (images <= 5) return CREDITS_PER_GENERATION
+  if (images <= 10) return CREDITS_PER_GENERATION * 2
+  return CREDITS_PER_GENERATION * 3
+}
+
+/** Images a plan is priced on: image files (other files are not sent to the model) plus stored material paths. */
+export function countPlanImages(files: Array<{ type?: string | null }>, storagePaths = 0) {
+  return files.filter((f) => String(f.type || '').startsWith('image/')).length + count(storagePaths)
+}
+
+export function quoteCredits(feature: PricedFeature, input: PricingInput = {}): PriceQuote {
+  switch (feature) {
+    case 'plan': {
+      const images = count(input.images)
+      if (images > MAX_PLAN_IMAGES) pricingError('TOO_MANY_FILES', `Max ${MAX_PLAN_IMAGES} images`)
+      return { feature, credits: tieredImageCost(images) }
+    }
+    case 'homework': {
+      const images = count(input.images)
+      if (images > MAX_HOMEWORK_IMAGES) pricingError('TOO_MANY_FILES', `Max ${MAX_HOMEWORK_IMAGES} images`)
+      return { feature, credits: CREDITS_PER_GENERATION }
+    }
+    case 'vocab': {
+      const images = count(input.images)
+      if (images > MAX_VOCAB_IMAGES) pricingError('TOO_MANY_FILES', `Max ${MAX_VOCAB_IMAGES} images`)
+      return { feature, credits: tieredImageCost(images) }
+    }
+    case 'test': {
+      const questions = count(input.questions, DEFAULT_TEST_QUESTIONS)
+      if (questions > MAX_TEST_QUESTIONS) pricingError('TOO_MANY_QUESTIONS', `Max ${MAX_TEST_QUESTIONS} questions`)
+      return { feature, credits: CREDITS_PER_GENERATION * Math.max(1, Math.ceil(questions / TEST_QUESTIONS_PER_CREDIT)) }
+    }
+    case 'tts': {
+      const chars = Math.min(MAX_TTS_CHARS, count(input.chars))
+      return { feature, credits: CREDITS_PER_GENERATION * Math.max(1, Math.ceil(chars / TTS_CHARS_PER_CREDIT)) }
+    }
+    case 'ask':
+      return { feature, credits: CREDITS_PER_GENERATION }
+  }
+}
+
+export function formatCredits(credits: number) {
+  return `${credits} credit${credits === 1 ? '' : 's'}`
+}
@@ -0,0 +1,124 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_PROMO_CODES } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type PromoCode = {
+  id: string
+  code: string
+  credits: number
+  maxRedemptions: number | null
+  redeemedCount: number
+  expiresAt: string | null
+  active: boolean
+  note: string | null
+  createdAt: string
+}
+
+const PROMO_ERRORS: Record<string, { status: number; message: string }> = {
+  PROMO_NOT_FOUND: { status: 404, message: 'This code does not exist or is no longer active.' },
+  PROMO_EXPIRED: { status: 410, message: 'This code has expired.' },
+  PROMO_EXHAUSTED: { status: 410, message: 'This code has been fully redeemed.' },
+  PROMO_ALREADY_REDEEMED: { status: 409, message: 'You have already redeemed this code.' },
+  PHONE_UNVERIFIED: { status: 403, message: 'Verify your phone number to redeem codes.' },
+  PHONE_USED: { status: 409, message: 'Ez a telefonszám már foglalt.' },
+}
+
+const CODE_RE = /^[A-Z0-9_-]{3,32}$/
+
+function promoError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+/** Maps the RPC's raised codes (PROMO_*, PHONE_*) to status errors; rethrows anything else. */
+function promoRpcError(error: any): never {
+  const message = String(error?.message || '')
+  const code = Object.keys(PROMO_ERRORS).find((key) => message.includes(key))
+  if (code) promoError(code, PROMO_ERRORS[code].message, PROMO_ERRORS[code].status)
+  throw error
+}
+
+export function normalizePromoCode(raw: unknown) {
+  return String(raw ?? '').trim().toUpperCase()
+}
+
+/** Credits the code once per user and once per verified phone number; see `redeem_promo_code`. */
+export async function redeemPromoCode(userId: string, rawCode: string) {
+  const code = normalizePromoCode(rawCode)
+  if (!CODE_RE.test(code)) promoError('PROMO_NOT_FOUND', PROMO_ERRORS.PROMO_NOT_FOUND.message, 404)
+
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('redeem_promo_code', { p_user_id: userId, p_code: code })
+  if (error) promoRpcError(error)
+  return { code, credits: Number((data as any)?.credits ?? 0), balance: Number((data as any)?.balance ?? 0) }
+}
+
+function toPromoCode(row: any): PromoCode {
+  return {
+    id: String(row.id),
+    code: String(row.code),
+    credits: Number(row.credits ?? 0),
+    maxRedemptions: row.max_redemptions ?? null,
+    redeemedCount: Number(row.redeemed_count ?? 0),
+    expiresAt: row.expires_at ?? null,
+    active: Boolean(row.active),
+    note: row.note ?? null,
+    createdAt: String(row.created_at),
+  }
+}
+
+export async function listPromoCodes(limit = 100): Promise<PromoCode[]> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_PROMO_CODES)
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(500, Math.max(1, limit)))
+  if (error) {
+    throwIfMissingTable(error, TABLE_PROMO_CODES)
+    throw error
+  }
+  return (Array.isArray(data) ? data : []).map(toPromoCode)
+}
+
+export async function createPromoCode(input: {
+  code: string
+  credits: number
+  maxRedemptions?: number | null
+  expiresAt?: string | null
+  note?: string | null
+  createdBy: string
+}) {
+  const code = normalizePromoCode(input.code)
+  if (!CODE_RE.test(code)) promoError('INVALID_CODE', 'Codes are 3-32 letters, digits, "-" or "_"', 400)
+
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_PROMO_CODES)
+    .insert({
+      code,
+      credits: Math.trunc(input.credits),
+      max_redemptions: input.maxRedemptions ?? null,
+      expires_at: input.expiresAt ?? null,
+      note: input.note ?? null,
+      created_by: input.createdBy,
+    })
+    .select('*')
+    .single()
+  if (error) {
+    if ((error as any).code === '23505') promoError('CODE_EXISTS', 'A promo code with this name already exists', 409)
+    throwIfMissingTable(error, TABLE_PROMO_CODES)
+    throw error
+  }
+  return toPromoCode(data)
+}
+
+export async function setPromoCodeActive(id: string, active: boolean) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.from(TABLE_PROMO_CODES).update({ active }).eq('id', id).select('*').maybeSingle()
+  if (error) throw error
+  if (!data) promoError('NOT_FOUND', 'Promo code not found', 404)
+  return toPromoCode(data)
+}
@@ -0,0 +1,169 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_CREDIT_LEDGER, TABLE_FEATURE_USAGE } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type FeatureKey = 'plan' | 'daily' | 'practice' | 'vocab' | 'audio' | 'test' | 'ask' | 'homework'
+export type ProfileRole = 'free' | 'pro' | 'admin'
+
+export const FEATURE_KEYS: FeatureKey[] = ['plan', 'daily', 'practice', 'vocab', 'audio', 'test', 'ask', 'homework']
+
+/**
+ * Free-tier uses per feature within QUOTA_WINDOW_MS. Pro and admin profiles, and anyone who has bought
+ * credits, are not limited.
+ */
+export const FREE_QUOTAS: Record<FeatureKey, number> = {
+  plan: 1,
+  daily: 1,
+  practice: 1,
+  vocab: 1,
+  audio: 2,
+  test: 1,
+  ask: 5,
+  homework: 1,
+}
+
+export const QUOTA_WINDOW_MS = 48 * 60 * 60 * 1000
+
+export type QuotaStatus = {
+  feature: FeatureKey
+  unlimited: boolean
+  used: number
+  limit: number | null
+  remaining: number | null
+  resetAt: string | null
+  /** The recorded use, for releaseQuota; null when nothing was recorded. */
+  usageId: number | null
+}
+
+export function isUnlimitedRole(role: string | null | undefined) {
+  return role === 'pro' || role === 'admin'
+}
+
+/**
+ * Records one use of `feature`, or throws QUOTA_EXCEEDED (status 429, `resetAt` set) once the
+ * free-tier limit for the rolling window is used up. Call it before charging anything and give the
+ * use back with releaseQuota if the request then fails.
+ */
+export async function consumeQuota(userId: string, feature: FeatureKey): Promise<QuotaStatus> {
+  if (!userId) throw new Error('Missing user id')
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('consume_feature_quota', {
+    p_user_id: userId,
+    p_feature: feature,
+    p_limit: FREE_QUOTAS[feature],
+    p_window_seconds: Math.round(QUOTA_WINDOW_MS / 1000),
+  })
+  if (error) throw error
+
+  const out = (data ?? {}) as any
+  const status: QuotaStatus = {
+    feature,
+    unlimited: Boolean(out.unlimited),
+    used: Number(out.used ?? 0),
+    limit: out.limit == null ? null : Number(out.limit),
+    remaining: out.limit == null ? null : Math.max(0, Number(out.limit) - Number(out.used ?? 0)),
+    resetAt: out.reset_at ? String(out.reset_at) : null,
+    usageId: out.usage_id == null ? null : Number(out.usage_id),
+  }
+  if (!out.allowed) {
+    const err: any = new Error('QUOTA_EXCEEDED')
+    err.status = 429
+    err.code = 'QUOTA_EXCEEDED'
+    err.feature = feature
+    err.resetAt = status.resetAt
+    throw err
+  }
+  return status
+}
+
+/** Gives back a use recorded by consumeQuota, for requests that failed after taking it. Best effort. */
+export async function releaseQuota(userId: string, usageId: number | null | undefined) {
+  if (!userId || usageId == null) return
+  try {
+    const sb = createServerAdminClient()
+    const { error } = await sb.from(TABLE_FEATURE_USAGE).delete().eq('id', usageId).eq('user_id', userId)
+    if (error) throw error
+  } catch (err: any) {
+    console.warn('quota.release_failed', { userId, usageId, message: err?.message ?? 'unknown' })
+  }
+}
+
+/** Runs `work` with one use of `feature` taken, giving it back if `work` throws. */
+export async function withQuota<T>(userId: string, feature: FeatureKey, work: () => Promise<T>): Promise<T> {
+  const quota = await consumeQuota(userId, feature)
+  try {
+    return await work()
+  } catch (err) {
+    await releaseQuota(userId, quota.usageId)
+    throw err
+  }
+}
+
+async function hasPurchasedCredits(userId: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_CREDIT_LEDGER)
+    .select('id')
+    .eq('user_id', userId)
+    .eq('reason', 'purchase')
+    .limit(1)
+  if (error) {
+    throwIfMissingTable(error, TABLE_CREDIT_LEDGER)
+    throw error
+  }
+  return Array.isArray(data) && data.length > 0
+}
+
+export async function getQuotaStatus(userId: string): Promise<{ role: ProfileRole; quotas: QuotaStatus[] }> {
+  const sb = createServerAdminClient()
+  const { data: profile, error: profileErr } = await sb.from('profiles').select('role').eq('id', userId).maybeSingle()
+  if (profileErr) throw profileErr
+  const role = (profile?.role ?? 'free') as ProfileRole
+
+  if (isUnlimitedRole(role) || (await hasPurchasedCredits(userId))) {
+    return {
+      role,
+      quotas: FEATURE_KEYS.map((feature) => ({
+        feature,
+        unlimited: true,
+        used: 0,
+        limit: null,
+        remaining: null,
+        resetAt: null,
+        usageId: null,
+      })),
+    }
+  }
+
+  const since = new Date(Date.now() - QUOTA_WINDOW_MS).toISOString()
+  const { data, error } = await sb
+    .from(TABLE_FEATURE_USAGE)
+    .select('feature, created_at')
+    .eq('user_id', userId)
+    .gt('created_at', since)
+    .order('created_at', { ascending: true })
+  if (error) {
+    throwIfMissingTable(error, TABLE_FEATURE_USAGE)
+    throw error
+  }
+
+  const rows = Array.isArray(data) ? data : []
+  return {
+    role,
+    quotas: FEATURE_KEYS.map((feature) => {
+      const uses = rows.filter((row: any) => row.feature === feature)
+      const limit = FREE_QUOTAS[feature]
+      return {
+        feature,
+        unlimited: false,
+        used: uses.length,
+        limit,
+        remaining: Math.max(0, limit - uses.length),
+        resetAt: uses.length
+          ? new Date(new Date(String(uses[0].created_at)).getTime() + QUOTA_WINDOW_MS).toISOString()
+          : null,
+        usageId: null,
+      }
+    }),
+  }
+}
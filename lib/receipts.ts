@@ -0,0 +1,259 @@
+import Stripe from 'stripe'
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_CREDIT_PURCHASES } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+/** What was bought: a pack through Checkout, an off-session auto-recharge, or a subscription invoice. */
+export type PurchaseKind = 'pack' | 'auto_recharge' | 'subscription'
+
+export type Purchase = {
+  /** Stripe id the purchase is keyed on: Checkout session, PaymentIntent (auto-recharge) or invoice (subscription). */
+  id: string
+  kind: PurchaseKind
+  description: string
+  receiptNumber: string
+  credits: number
+  /** Minor units as Stripe reports them (fillér / cents); null for old success-page fulfillments. */
+  amountTotal: number | null
+  currency: string | null
+  amountLabel: string | null
+  pack: string | null
+  createdAt: string
+}
+
+function stripeClient() {
+  const key = process.env.STRIPE_SECRET_KEY
+  if (!key) throw new Error('Missing STRIPE_SECRET_KEY')
+  return new Stripe(key, { apiVersion: '2024-06-20' })
+}
+
+function receiptError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+export function formatAmount(amountTotal: number | null, currency: string | null) {
+  if (amountTotal == null || !currency) return null
+  const code = currency.toUpperCase()
+  try {
+    return new Intl.NumberFormat(code === 'HUF' ? 'hu-HU' : 'en-IE', {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: code === 'HUF' ? 0 : 2,
+      maximumFractionDigits: 2,
+    }).format(amountTotal / 100)
+  } catch {
+    return `${(amountTotal / 100).toFixed(2)} ${code}`
+  }
+}
+
+const PURCHASE_DESCRIPTIONS: Record<PurchaseKind, string> = {
+  pack: 'Credit pack',
+  auto_recharge: 'Credit pack (auto-recharge)',
+  subscription: 'Subscription allowance',
+}
+
+function purchaseKind(source: string | null, id: string): PurchaseKind {
+  if (source === 'subscription' || id.startsWith('in_')) return 'subscription'
+  if (source?.startsWith('auto_recharge') || id.startsWith('pi_')) return 'auto_recharge'
+  return 'pack'
+}
+
+/** Stable, human-readable number: purchase date plus the tail of the session id. */
+function receiptNumber(sessionId: string, createdAt: string) {
+  const day = createdAt.slice(0, 10).replace(/-/g, '')
+  return `R-${day}-${sessionId.slice(-8).toUpperCase()}`
+}
+
+function toPurchase(row: {
+  sessionId: string
+  source: string | null
+  credits: number
+  amountTotal: number | null
+  currency: string | null
+  pack: string | null
+  createdAt: string
+}): Purchase {
+  const kind = purchaseKind(row.source, row.sessionId)
+  return {
+    id: row.sessionId,
+    kind,
+    description: PURCHASE_DESCRIPTIONS[kind],
+    receiptNumber: receiptNumber(row.sessionId, row.createdAt),
+    credits: row.credits,
+    amountTotal: row.amountTotal,
+    currency: row.currency,
+    amountLabel: formatAmount(row.amountTotal, row.currency),
+    pack: row.pack,
+    createdAt: row.createdAt,
+  }
+}
+
+/**
+ * Purchases, newest first: `credit_purchases` (packs, auto-recharges, subscription invoices) plus any `billing_fulfillments` row
+ * (the old success-page path) without a matching purchase.
+ */
+export async function listPurchases(userId: string, limit = 50): Promise<Purchase[]> {
+  const sb = createServerAdminClient()
+  const max = Math.min(200, Math.max(1, Math.trunc(limit)))
+  const { data, error } = await sb
+    .from(TABLE_CREDIT_PURCHASES)
+    .select('stripe_session_id, source, credits, amount_total, currency, pack, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(max)
+  if (error) {
+    throwIfMissingTable(error, TABLE_CREDIT_PURCHASES)
+    throw error
+  }
+
+  const purchases = (Array.isArray(data) ? data : []).map((row: any) =>
+    toPurchase({
+      sessionId: String(row.stripe_session_id),
+      source: row.source ?? null,
+      credits: Number(row.credits ?? 0),
+      amountTotal: row.amount_total ?? null,
+      currency: row.currency ?? null,
+      pack: row.pack ?? null,
+      createdAt: String(row.created_at),
+    })
+  )
+
+  const { data: fulfillments } = await sb
+    .from('billing_fulfillments')
+    .select('stripe_session_id, credits_added, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(max)
+  const seen = new Set(purchases.map((p) => p.id))
+  for (const row of Array.isArray(fulfillments) ? fulfillments : []) {
+    if (seen.has(String(row.stripe_session_id))) continue
+    purchases.push(
+      toPurchase({
+        sessionId: String(row.stripe_session_id),
+        source: 'billing_fulfill',
+        credits: Number(row.credits_added ?? 0),
+        amountTotal: null,
+        currency: null,
+        pack: null,
+        createdAt: String(row.created_at),
+      })
+    )
+  }
+
+  return purchases.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).slice(0, max)
+}
+
+/** Amount and currency as Stripe recorded them for the object the purchase is keyed on. */
+async function stripeAmount(purchase: Purchase) {
+  const stripe = stripeClient()
+  if (purchase.kind === 'subscription') {
+    const invoice = await stripe.invoices.retrieve(purchase.id)
+    return { amountTotal: invoice.amount_paid ?? null, currency: invoice.currency ?? null }
+  }
+  if (purchase.kind === 'auto_recharge') {
+    const pi = await stripe.paymentIntents.retrieve(purchase.id)
+    return { amountTotal: pi.amount_received || pi.amount || null, currency: pi.currency ?? null }
+  }
+  const session = await stripe.checkout.sessions.retrieve(purchase.id)
+  return { amountTotal: session.amount_total ?? null, currency: session.currency ?? null }
+}
+
+/** One of the user's purchases; a missing amount is read back from Stripe. */
+export async function getPurchase(userId: string, purchaseId: string): Promise<Purchase> {
+  const purchase = (await listPurchases(userId, 200)).find((p) => p.id === purchaseId)
+  if (!purchase) receiptError('NOT_FOUND', 'Purchase not found', 404)
+  if (purchase.amountTotal != null && purchase.currency) return purchase
+
+  const { amountTotal, currency } = await stripeAmount(purchase)
+  return { ...purchase, amountTotal, currency, amountLabel: formatAmount(amountTotal, currency) }
+}
+
+// Standard fonts are WinAnsi-only: map the Hungarian double-acute letters and drop anything else.
+function pdfText(value: string) {
+  return value
+    .replace(/ő/g, 'ö')
+    .replace(/Ő/g, 'Ö')
+    .replace(/ű/g, 'ü')
+    .replace(/Ű/g, 'Ü')
+    .replace(/[\u00a0\u202f]/g, ' ')
+    .replace(/[^\x20-\x7e\u00a0-\u00ff\u20ac]/g, '')
+}
+
+/** Single-page A4 receipt with the seller details from RECEIPT_SELLER_* env vars. */
+export async function renderReceiptPdf(purchase: Purchase, buyer: { name: string | null; email: string | null }) {
+  const seller = {
+    name: String(process.env.RECEIPT_SELLER_NAME || 'Umenify').trim(),
+    address: String(process.env.RECEIPT_SELLER_ADDRESS || '').trim(),
+    taxId: String(process.env.RECEIPT_SELLER_TAX_ID || '').trim(),
+  }
+
+  const doc = await PDFDocument.create()
+  doc.setTitle(`Receipt ${purchase.receiptNumber}`)
+  doc.setProducer(seller.name)
+  const page = doc.addPage([595.28, 841.89])
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const muted = rgb(0.4, 0.4, 0.4)
+
+  let y = 780
+  const line = (text: string, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; x?: number } = {}) => {
+    page.drawText(pdfText(text), {
+      x: options.x ?? 56,
+      y,
+      size: options.size ?? 11,
+      font: options.bold ? bold : font,
+      color: options.color ?? rgb(0, 0, 0),
+    })
+  }
+
+  line(seller.name, { size: 18, bold: true })
+  y -= 18
+  if (seller.address) {
+    line(seller.address, { color: muted })
+    y -= 14
+  }
+  if (seller.taxId) {
+    line(`Tax number: ${seller.taxId}`, { color: muted })
+    y -= 14
+  }
+
+  y -= 30
+  line('Receipt / Nyugta', { size: 16, bold: true })
+  y -= 22
+  line(`Receipt number: ${purchase.receiptNumber}`)
+  y -= 16
+  line(`Date: ${new Date(purchase.createdAt).toISOString().slice(0, 10)}`)
+  y -= 16
+  if (buyer.name || buyer.email) {
+    line(`Billed to: ${[buyer.name, buyer.email].filter(Boolean).join(' · ')}`)
+    y -= 16
+  }
+
+  y -= 24
+  page.drawLine({ start: { x: 56, y: y + 14 }, end: { x: 539, y: y + 14 }, thickness: 0.5, color: muted })
+  line('Item', { bold: true })
+  line('Amount', { bold: true, x: 440 })
+  y -= 20
+  line(`${purchase.description}: ${purchase.credits} credits`)
+  line(purchase.amountLabel ?? '-', { x: 440 })
+  y -= 10
+  page.drawLine({ start: { x: 56, y }, end: { x: 539, y }, thickness: 0.5, color: muted })
+  y -= 20
+  line('Total paid', { bold: true })
+  line(purchase.amountLabel ?? '-', { bold: true, x: 440 })
+  if (purchase.currency) {
+    y -= 16
+    line(`Currency: ${purchase.currency.toUpperCase()}`, { color: muted })
+  }
+
+  y -= 40
+  line(`Payment reference: ${purchase.id}`, { size: 9, color: muted })
+  y -= 12
+  line('Paid by card via Stripe.', { size: 9, color: muted })
+
+  return doc.save()
+}
@@ -0,0 +1,146 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_REFERRALS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type ReferralSummary = {
+  code: string
+  link: string | null
+  invited: number
+  rewarded: number
+  creditsEarned: number
+  inviterCredits: number
+  inviteeCredits: number
+  referredBy: { status: string } | null
+}
+
+/** Invites must be claimed within this long after the invitee signs up. */
+const CLAIM_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+
+function readInt(value: string | undefined, fallback: number) {
+  const n = Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(n) && n >= 0 ? n : fallback
+}
+
+export function referralRewards() {
+  return {
+    inviterCredits: readInt(process.env.REFERRAL_INVITER_CREDITS, 5),
+    inviteeCredits: readInt(process.env.REFERRAL_INVITEE_CREDITS, 5),
+  }
+}
+
+function referralError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+function randomCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH))
+  return Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('')
+}
+
+function referralLink(code: string) {
+  const base = String(process.env.NEXT_PUBLIC_SITE_URL || '').trim().replace(/\/$/, '')
+  return base ? `${base}/signup?ref=${code}` : null
+}
+
+/** The profile's invite code, generated on first use. */
+export async function ensureReferralCode(userId: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.from('profiles').select('referral_code').eq('id', userId).maybeSingle()
+  if (error) throw error
+  if (data?.referral_code) return String(data.referral_code)
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = randomCode()
+    const { data: updated, error: updErr } = await sb
+      .from('profiles')
+      .update({ referral_code: code })
+      .eq('id', userId)
+      .is('referral_code', null)
+      .select('referral_code')
+      .maybeSingle()
+    if (updErr) {
+      if ((updErr as any).code === '23505') continue
+      throw updErr
+    }
+    if (updated?.referral_code) return String(updated.referral_code)
+    // Another request set it first.
+    const { data: again } = await sb.from('profiles').select('referral_code').eq('id', userId).maybeSingle()
+    if (again?.referral_code) return String(again.referral_code)
+  }
+  throw new Error('Could not generate a referral code')
+}
+
+export async function getReferralSummary(userId: string): Promise<ReferralSummary> {
+  const code = await ensureReferralCode(userId)
+  const sb = createServerAdminClient()
+  const { data: invited, error } = await sb
+    .from(TABLE_REFERRALS)
+    .select('status, inviter_credits')
+    .eq('inviter_id', userId)
+  if (error) {
+    throwIfMissingTable(error, TABLE_REFERRALS)
+    throw error
+  }
+  const { data: own } = await sb.from(TABLE_REFERRALS).select('status').eq('invitee_id', userId).maybeSingle()
+
+  const rows = Array.isArray(invited) ? invited : []
+  const rewarded = rows.filter((r: any) => r.status === 'rewarded')
+  return {
+    code,
+    link: referralLink(code),
+    invited: rows.length,
+    rewarded: rewarded.length,
+    creditsEarned: rewarded.reduce((sum: number, r: any) => sum + Number(r.inviter_credits ?? 0), 0),
+    ...referralRewards(),
+    referredBy: own ? { status: String(own.status) } : null,
+  }
+}
+
+/**
+ * Pays out a pending referral once the invitee has verified a phone number no other profile has
+ * (`reward_referral`). Safe to call repeatedly; without a verified phone it stays pending.
+ */
+export async function rewardReferral(inviteeId: string) {
+  const { inviterCredits, inviteeCredits } = referralRewards()
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('reward_referral', {
+    p_invitee_id: inviteeId,
+    p_inviter_credits: inviterCredits,
+    p_invitee_credits: inviteeCredits,
+  })
+  if (error) throw error
+  return { rewarded: Boolean((data as any)?.rewarded), status: String((data as any)?.status ?? 'none') }
+}
+
+/** Links a new account to the owner of `rawCode`, then tries to pay out right away. */
+export async function claimReferral(inviteeId: string, rawCode: string) {
+  const code = String(rawCode ?? '').trim().toUpperCase()
+  if (!code) referralError('INVALID_CODE', 'Missing invite code', 400)
+
+  const sb = createServerAdminClient()
+  const { data: inviter, error } = await sb.from('profiles').select('id').eq('referral_code', code).maybeSingle()
+  if (error) throw error
+  if (!inviter) referralError('INVALID_CODE', 'This invite code does not exist', 404)
+  if (String(inviter.id) === inviteeId) referralError('SELF_REFERRAL', 'You cannot use your own invite code', 400)
+
+  const { data: invitee, error: inviteeErr } = await sb.from('profiles').select('created_at').eq('id', inviteeId).maybeSingle()
+  if (inviteeErr) throw inviteeErr
+  const createdAt = invitee?.created_at ? Date.parse(String(invitee.created_at)) : Date.now()
+  if (Date.now() - createdAt > CLAIM_WINDOW_MS) {
+    referralError('CLAIM_WINDOW_CLOSED', 'Invite codes can only be used within 7 days of signing up', 409)
+  }
+
+  const { error: insErr } = await sb.from(TABLE_REFERRALS).insert({ invitee_id: inviteeId, inviter_id: String(inviter.id) })
+  if (insErr) {
+    if ((insErr as any).code === '23505') referralError('ALREADY_REFERRED', 'An invite code was already used for this account', 409)
+    throwIfMissingTable(insErr, TABLE_REFERRALS)
+    throw insErr
+  }
+
+  return rewardReferral(inviteeId)
+}
@@ -0,0 +1,74 @@
+// SM-2 scheduler for vocab cards. Pure, so the review screen can preview the next interval.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy']
+
+export type SrsState = {
+  ease: number
+  intervalDays: number
+  repetitions: number
+  lapses: number
+  dueAt: string
+  lastReviewedAt: string | null
+}
+
+const MIN_EASE = 1.3
+const DAY_MS = 24 * 60 * 60 * 1000
+/** A lapsed card comes back within the same session. */
+const RELEARN_MS = 10 * 60 * 1000
+
+/** SM-2 quality (0-5) for each answer button. */
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 }
+
+export function isReviewGrade(value: unknown): value is ReviewGrade {
+  return REVIEW_GRADES.includes(value as ReviewGrade)
+}
+
+export function newSrsState(now = new Date()): SrsState {
+  return { ease: 2.5, intervalDays: 0, repetitions: 0, lapses: 0, dueAt: now.toISOString(), lastReviewedAt: null }
+}
+
+export function scheduleReview(state: SrsState, grade: ReviewGrade, now = new Date()): SrsState {
+  const q = QUALITY[grade]
+  const ease = Math.max(MIN_EASE, state.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)))
+  const reviewedAt = now.toISOString()
+
+  if (q < 3) {
+    return {
+      ease,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: state.lapses + (state.repetitions > 0 ? 1 : 0),
+      dueAt: new Date(now.getTime() + RELEARN_MS).toISOString(),
+      lastReviewedAt: reviewedAt,
+    }
+  }
+
+  const repetitions = state.repetitions + 1
+  let intervalDays: number
+  if (repetitions === 1) intervalDays = grade === 'easy' ? 4 : 1
+  else if (repetitions === 2) intervalDays = grade === 'hard' ? 3 : 6
+  else intervalDays = Math.round(state.intervalDays * (grade === 'hard' ? 1.2 : ease) * (grade === 'easy' ? 1.3 : 1))
+  intervalDays = Math.max(1, intervalDays)
+
+  return {
+    ease,
+    intervalDays,
+    repetitions,
+    lapses: state.lapses,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    lastReviewedAt: reviewedAt,
+  }
+}
+
+/** Start of the day after `now` in the client's time zone (`tzOffsetMinutes` as from Date#getTimezoneOffset). */
+export function endOfDay(now: Date, tzOffsetMinutes = 0) {
+  const local = new Date(now.getTime() - tzOffsetMinutes * 60_000)
+  local.setUTCHours(24, 0, 0, 0)
+  return new Date(local.getTime() + tzOffsetMinutes * 60_000)
+}
+
+export function startOfDay(now: Date, tzOffsetMinutes = 0) {
+  return new Date(endOfDay(now, tzOffsetMinutes).getTime() - DAY_MS)
+}
@@ -1,5 +1,25 @@
 import Stripe from 'stripe'
-import { supabaseAdmin } from '@/lib/supabaseServer'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_CREDIT_LEDGER, TABLE_CREDIT_PURCHASES } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { creditsForSessionMetadata } from '@/lib/creditPacks'
+
+// The one place a credit-pack Checkout session turns into credits. The webhook, the success page
+// (/api/billing/fulfill) and /api/stripe/confirm all call fulfillCheckoutSession; the
+// `fulfill_checkout_session` RPC keys on the session id, so whichever runs first credits it.
+
+export type FulfillmentSource = 'webhook' | 'success_page' | 'confirm'
+
+/** PaymentIntent metadata `product` of off-session auto-recharge charges. */
+export const AUTO_RECHARGE_PRODUCT = 'examly_credits_autorecharge'
+
+export type FulfillmentResult = {
+  ok: boolean
+  alreadyProcessed: boolean
+  creditsAdded: number
+  paymentStatus: string | null
+  userId: string | null
+}
 
 function stripeClient() {
   const key = process.env.STRIPE_SECRET_KEY
@@ -7,70 +27,198 @@ function stripeClient() {
   return new Stripe(key, { apiVersion: '2024-06-20' })
 }
 
-export async function confirmStripeSession(sessionId: string, creditsOverride?: number) {
-  const stripe = stripeClient()
-  const session = await stripe.checkout.sessions.retrieve(sessionId)
-  const paymentStatus = session.payment_status
-  const userId =
+export function sessionUserId(session: Stripe.Checkout.Session) {
+  return (
     (session.client_reference_id ? String(session.client_reference_id) : '') ||
     (session.metadata?.user_id ? String(session.metadata.user_id) : '')
-  const creditsRaw =
-    typeof creditsOverride === 'number' && Number.isFinite(creditsOverride)
-      ? creditsOverride
-      : session.metadata?.credits
-      ? Number(session.metadata.credits)
-      : 20
-  const credits = Number.isFinite(creditsRaw) ? Math.trunc(creditsRaw) : 20
-
-  console.log('stripe.confirm start', {
-    session_id: sessionId,
-    payment_status: paymentStatus,
-    user_id: userId || null,
-    metadata: session.metadata || null,
-  })
+  )
+}
+
+/** Payment-mode sessions buy credits; subscription and setup sessions are handled elsewhere. */
+function isCreditPurchase(session: Stripe.Checkout.Session) {
+  return session.mode === 'payment'
+}
+
+/** `fallbackUserId` is credited when the session names no user (e.g. matched by email on the success page). */
+export async function fulfillCheckoutSession(
+  session: Stripe.Checkout.Session,
+  source: FulfillmentSource,
+  fallbackUserId?: string | null
+): Promise<FulfillmentResult> {
+  const paymentStatus = session.payment_status ?? null
+  const userId = sessionUserId(session) || fallbackUserId || null
+  const skipped = { alreadyProcessed: false, creditsAdded: 0, paymentStatus, userId }
 
+  if (!isCreditPurchase(session)) {
+    // Subscriptions are credited per paid invoice by the webhook.
+    return { ok: true, ...skipped }
+  }
   if (paymentStatus !== 'paid') {
-    console.log('stripe.confirm unpaid', { session_id: sessionId, payment_status: paymentStatus })
-    return { ok: false, already_processed: false, credits_added: 0, payment_status: paymentStatus }
+    console.log('stripe.fulfill unpaid', { session_id: session.id, payment_status: paymentStatus, source })
+    return { ok: false, ...skipped }
   }
   if (!userId) {
-    console.log('stripe.confirm missing_user', { session_id: sessionId })
-    return { ok: false, already_processed: false, credits_added: 0, payment_status: paymentStatus }
+    console.log('stripe.fulfill missing_user', { session_id: session.id, source })
+    return { ok: false, ...skipped }
   }
 
-  const sb = supabaseAdmin()
-  const { data: existing, error: existsErr } = await sb
-    .from('credit_purchases')
-    .select('id')
-    .eq('stripe_session_id', sessionId)
-    .maybeSingle()
-
-  if (existsErr) throw existsErr
-  if (existing) {
-    console.log('stripe.confirm already_processed', { session_id: sessionId })
-    return { ok: true, already_processed: true, credits_added: 0 }
+  const credits = creditsForSessionMetadata(session.metadata)
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('fulfill_checkout_session', {
+    p_session_id: session.id,
+    p_user_id: userId,
+    p_credits: credits,
+    p_source: source,
+    p_amount_total: session.amount_total ?? null,
+    p_currency: session.currency ?? null,
+    p_pack: session.metadata?.pack ?? null,
+  })
+  if (error) throw error
+
+  const fulfilled = Boolean((data as any)?.fulfilled)
+  console.log('stripe.fulfill', {
+    session_id: session.id,
+    user_id: userId,
+    credits,
+    source,
+    action: fulfilled ? 'credited' : 'already_processed',
+  })
+  return { ok: true, alreadyProcessed: !fulfilled, creditsAdded: fulfilled ? credits : 0, paymentStatus, userId }
+}
+
+/**
+ * Credits a succeeded auto-recharge PaymentIntent through the same RPC, keyed on the PaymentIntent
+ * id: the purchase row and the ledger entry commit together, so a charge whose crediting failed is
+ * credited by the next call (the `payment_intent.succeeded` webhook retries it).
+ */
+export async function fulfillAutoRecharge(pi: Stripe.PaymentIntent, source: 'auto_recharge' | 'webhook') {
+  const userId = pi.metadata?.user_id ? String(pi.metadata.user_id) : ''
+  if (pi.metadata?.product !== AUTO_RECHARGE_PRODUCT || pi.status !== 'succeeded' || !userId) {
+    return { ok: false, alreadyProcessed: false, creditsAdded: 0, userId: userId || null }
   }
 
-  const { error: insErr } = await sb.from('credit_purchases').insert({
+  const credits = creditsForSessionMetadata(pi.metadata)
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('fulfill_checkout_session', {
+    p_session_id: pi.id,
+    p_user_id: userId,
+    p_credits: credits,
+    p_source: source === 'webhook' ? 'auto_recharge_webhook' : 'auto_recharge',
+    p_amount_total: pi.amount_received || pi.amount,
+    p_currency: pi.currency ?? null,
+    p_pack: pi.metadata?.pack ?? null,
+  })
+  if (error) throw error
+
+  const fulfilled = Boolean((data as any)?.fulfilled)
+  console.log('stripe.fulfill', {
+    payment_intent: pi.id,
     user_id: userId,
-    stripe_session_id: sessionId,
     credits,
-    amount_total: session.amount_total ?? null,
-    currency: session.currency ?? null,
+    source,
+    action: fulfilled ? 'credited' : 'already_processed',
   })
+  return { ok: true, alreadyProcessed: !fulfilled, creditsAdded: fulfilled ? credits : 0, userId }
+}
+
+export async function confirmStripeSession(sessionId: string, source: FulfillmentSource = 'confirm') {
+  const session = await stripeClient().checkout.sessions.retrieve(sessionId)
+  return fulfillCheckoutSession(session, source)
+}
+
+export type ReconciliationGap = {
+  /**
+   * unfulfilled: paid but never credited; unrecorded: credited without a purchase row;
+   * missing_ledger: purchase row without its ledger entry; duplicate_ledger: credited more than once;
+   * credit_mismatch: recorded credits differ from the purchased pack.
+   */
+  kind: 'unfulfilled' | 'unrecorded' | 'missing_ledger' | 'duplicate_ledger' | 'credit_mismatch'
+  sessionId: string
+  userId: string | null
+  expectedCredits: number
+  recordedCredits: number | null
+  ledgerCredits: number
+}
+
+export type ReconciliationReport = {
+  since: string
+  sessionsChecked: number
+  gaps: ReconciliationGap[]
+}
+
+const RECONCILE_MAX_SESSIONS = 1000
+const IN_CHUNK = 100
+
+function chunks<T>(items: T[], size: number) {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size))
+  return out
+}
 
-  if (insErr) {
-    if ((insErr as any).code === '23505') {
-      console.log('stripe.confirm already_processed', { session_id: sessionId })
-      return { ok: true, already_processed: true, credits_added: 0 }
+/**
+ * Compares paid credit-pack sessions in Stripe since `sinceHours` ago with `credit_purchases` and
+ * the ledger. Reports only; an unfulfilled session can be credited with confirmStripeSession.
+ */
+export async function reconcileCheckoutSessions(options: { sinceHours?: number } = {}): Promise<ReconciliationReport> {
+  const sinceHours = Math.min(24 * 30, Math.max(1, Math.trunc(options.sinceHours ?? 72)))
+  const since = new Date(Date.now() - sinceHours * 3600_000)
+
+  const sessions: Stripe.Checkout.Session[] = []
+  for await (const session of stripeClient().checkout.sessions.list({
+    created: { gte: Math.floor(since.getTime() / 1000) },
+    status: 'complete',
+    limit: 100,
+  })) {
+    if (isCreditPurchase(session) && session.payment_status === 'paid') sessions.push(session)
+    if (sessions.length >= RECONCILE_MAX_SESSIONS) break
+  }
+
+  const sb = createServerAdminClient()
+  const purchases = new Map<string, number>()
+  const ledger = new Map<string, number[]>()
+  for (const ids of chunks(sessions.map((s) => s.id), IN_CHUNK)) {
+    const { data: rows, error } = await sb.from(TABLE_CREDIT_PURCHASES).select('stripe_session_id, credits').in('stripe_session_id', ids)
+    if (error) {
+      throwIfMissingTable(error, TABLE_CREDIT_PURCHASES)
+      throw error
+    }
+    for (const row of Array.isArray(rows) ? rows : []) purchases.set(String(row.stripe_session_id), Number(row.credits ?? 0))
+
+    const { data: entries, error: ledgerErr } = await sb
+      .from(TABLE_CREDIT_LEDGER)
+      .select('reference, delta')
+      .eq('reason', 'purchase')
+      .in('reference', ids)
+    if (ledgerErr) {
+      throwIfMissingTable(ledgerErr, TABLE_CREDIT_LEDGER)
+      throw ledgerErr
+    }
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const ref = String(entry.reference)
+      ledger.set(ref, [...(ledger.get(ref) ?? []), Number(entry.delta ?? 0)])
     }
-    throw insErr
   }
 
-  const { data: row } = await sb.from('profiles').select('credits').eq('id', userId).maybeSingle()
-  const next = Number(row?.credits ?? 0) + credits
-  await sb.from('profiles').update({ credits: next }).eq('id', userId)
+  const gaps: ReconciliationGap[] = []
+  for (const session of sessions) {
+    const expectedCredits = creditsForSessionMetadata(session.metadata)
+    const recordedCredits = purchases.has(session.id) ? purchases.get(session.id)! : null
+    const deltas = ledger.get(session.id) ?? []
+    const gap = {
+      sessionId: session.id,
+      userId: sessionUserId(session) || null,
+      expectedCredits,
+      recordedCredits,
+      ledgerCredits: deltas.reduce((sum, d) => sum + d, 0),
+    }
+
+    if (recordedCredits === null) gaps.push({ kind: deltas.length ? 'unrecorded' : 'unfulfilled', ...gap })
+    else if (!deltas.length) gaps.push({ kind: 'missing_ledger', ...gap })
+    if (deltas.length > 1) gaps.push({ kind: 'duplicate_ledger', ...gap })
+    if (recordedCredits !== null && session.metadata?.pack && recordedCredits !== expectedCredits) {
+      gaps.push({ kind: 'credit_mismatch', ...gap })
+    }
+  }
 
-  console.log('stripe.confirm credited', { session_id: sessionId, user_id: userId, credits })
-  return { ok: true, already_processed: false, credits_added: credits }
+  return { since: since.toISOString(), sessionsChecked: sessions.length, gaps }
 }
@@ -0,0 +1,277 @@
+import Stripe from 'stripe'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_SUBSCRIPTIONS, TABLE_SUBSCRIPTION_INVOICES } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+
+export type SubscriptionPlanKey = 'basic' | 'plus'
+
+export type SubscriptionPlan = {
+  key: SubscriptionPlanKey
+  name: string
+  priceId: string
+  creditsPerPeriod: number
+  priceLabel: string
+}
+
+export type SubscriptionState = {
+  id: string
+  plan: SubscriptionPlanKey | null
+  status: string
+  creditsPerPeriod: number
+  currentPeriodEnd: string | null
+  cancelAtPeriodEnd: boolean
+  active: boolean
+}
+
+/** Stripe statuses during which the allowance keeps topping up and quotas are lifted. */
+const ACTIVE_STATUSES = new Set(['active', 'trialing', 'past_due'])
+
+function stripeClient() {
+  const key = process.env.STRIPE_SECRET_KEY
+  if (!key) throw new Error('Missing STRIPE_SECRET_KEY')
+  return new Stripe(key, { apiVersion: '2024-06-20' })
+}
+
+function readInt(value: string | undefined, fallback: number) {
+  const n = Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+function subscriptionError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+/** Plans whose Stripe price is configured (STRIPE_PRICE_ID_SUB_BASIC / STRIPE_PRICE_ID_SUB_PLUS). */
+export function subscriptionPlans(): SubscriptionPlan[] {
+  const plans: SubscriptionPlan[] = [
+    {
+      key: 'basic',
+      name: 'Basic',
+      priceId: String(process.env.STRIPE_PRICE_ID_SUB_BASIC ?? '').trim(),
+      creditsPerPeriod: readInt(process.env.STRIPE_SUB_BASIC_CREDITS, 30),
+      priceLabel: String(process.env.STRIPE_SUB_BASIC_LABEL ?? '2990 Ft / month'),
+    },
+    {
+      key: 'plus',
+      name: 'Plus',
+      priceId: String(process.env.STRIPE_PRICE_ID_SUB_PLUS ?? '').trim(),
+      creditsPerPeriod: readInt(process.env.STRIPE_SUB_PLUS_CREDITS, 100),
+      priceLabel: String(process.env.STRIPE_SUB_PLUS_LABEL ?? '6990 Ft / month'),
+    },
+  ]
+  return plans.filter((p) => p.priceId)
+}
+
+function planForPrice(priceId: string | null | undefined) {
+  return subscriptionPlans().find((p) => p.priceId === priceId) ?? null
+}
+
+function toIso(seconds: number | null | undefined) {
+  return seconds ? new Date(seconds * 1000).toISOString() : null
+}
+
+function siteUrl() {
+  const url = String(process.env.NEXT_PUBLIC_SITE_URL || '').trim().replace(/\/$/, '')
+  if (!url) subscriptionError('SERVER_MISCONFIGURED', 'Missing NEXT_PUBLIC_SITE_URL', 500)
+  return url
+}
+
+/** Returns the profile's Stripe customer, creating (and storing) one on first use. */
+export async function ensureStripeCustomer(userId: string, email: string | null) {
+  const sb = createServerAdminClient()
+  const { data: profile, error } = await sb.from('profiles').select('stripe_customer_id').eq('id', userId).maybeSingle()
+  if (error) throw error
+  if (profile?.stripe_customer_id) return String(profile.stripe_customer_id)
+
+  const customer = await stripeClient().customers.create({
+    email: email ?? undefined,
+    metadata: { user_id: userId },
+  })
+  const { error: updErr } = await sb.from('profiles').update({ stripe_customer_id: customer.id }).eq('id', userId)
+  if (updErr) throw updErr
+  return customer.id
+}
+
+export async function createSubscriptionCheckout(userId: string, email: string | null, planKey: string) {
+  const plan = subscriptionPlans().find((p) => p.key === planKey)
+  if (!plan) subscriptionError('UNKNOWN_PLAN', 'Unknown or unconfigured subscription plan', 400)
+
+  const current = await getSubscriptionState(userId)
+  if (current?.active) subscriptionError('ALREADY_SUBSCRIBED', 'You already have an active subscription', 409)
+
+  const customer = await ensureStripeCustomer(userId, email)
+  const base = siteUrl()
+  const session = await stripeClient().checkout.sessions.create({
+    mode: 'subscription',
+    customer,
+    line_items: [{ price: plan.priceId, quantity: 1 }],
+    success_url: `${base}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: `${base}/billing?canceled=1`,
+    client_reference_id: userId,
+    metadata: { user_id: userId, plan: plan.key },
+    subscription_data: { metadata: { user_id: userId, plan: plan.key } },
+  })
+  return session.url
+}
+
+/** Stripe customer portal, where the user cancels, resumes or changes their card. */
+export async function createPortalSession(userId: string) {
+  const sb = createServerAdminClient()
+  const { data: profile, error } = await sb.from('profiles').select('stripe_customer_id').eq('id', userId).maybeSingle()
+  if (error) throw error
+  if (!profile?.stripe_customer_id) subscriptionError('NO_CUSTOMER', 'No billing account yet', 404)
+
+  const session = await stripeClient().billingPortal.sessions.create({
+    customer: String(profile.stripe_customer_id),
+    return_url: `${siteUrl()}/billing`,
+  })
+  return session.url
+}
+
+/** The user's active subscription if any, else the most recently updated one. */
+export async function getSubscriptionState(userId: string): Promise<SubscriptionState | null> {
+  const sb = createServerAdminClient()
+  const { data: rows, error } = await sb
+    .from(TABLE_SUBSCRIPTIONS)
+    .select('*')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(20)
+  if (error) {
+    throwIfMissingTable(error, TABLE_SUBSCRIPTIONS)
+    throw error
+  }
+  const list = Array.isArray(rows) ? rows : []
+  const data = list.find((r: any) => ACTIVE_STATUSES.has(String(r.status))) ?? list[0]
+  if (!data) return null
+  return {
+    id: String(data.id),
+    plan: (data.plan as SubscriptionPlanKey | null) ?? null,
+    status: String(data.status),
+    creditsPerPeriod: Number(data.credits_per_period ?? 0),
+    currentPeriodEnd: data.current_period_end ?? null,
+    cancelAtPeriodEnd: Boolean(data.cancel_at_period_end),
+    active: ACTIVE_STATUSES.has(String(data.status)),
+  }
+}
+
+async function resolveUserId(customerId: string, metadataUserId?: string | null) {
+  if (metadataUserId) return metadataUserId
+  const sb = createServerAdminClient()
+  const { data } = await sb.from('profiles').select('id').eq('stripe_customer_id', customerId).maybeSingle()
+  return data?.id ? String(data.id) : null
+}
+
+/**
+ * Users with any active subscription get the 'pro' role (no free-tier quotas); admins keep theirs.
+ * Read from every stored subscription, so ending one does not demote a user who holds another.
+ */
+async function syncRole(userId: string) {
+  const sb = createServerAdminClient()
+  const { count, error } = await sb
+    .from(TABLE_SUBSCRIPTIONS)
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', Array.from(ACTIVE_STATUSES))
+  if (error) throw error
+  await sb
+    .from('profiles')
+    .update({ role: (count ?? 0) > 0 ? 'pro' : 'free' })
+    .eq('id', userId)
+    .neq('role', 'admin')
+}
+
+/**
+ * Mirrors a Stripe subscription into `subscriptions`. `stateAt` is when `sub` was current in Stripe:
+ * the event's `created` for webhook payloads, now for objects just fetched from the API. A state
+ * older than the stored one (events arrive out of order) is skipped.
+ */
+export async function syncSubscription(sub: Stripe.Subscription, stateAt: Date = new Date()) {
+  const customerId = typeof sub.customer === 'string' ? sub.customer : sub.customer.id
+  const userId = await resolveUserId(customerId, sub.metadata?.user_id ?? null)
+  if (!userId) {
+    console.warn('subscription.sync missing_user', { subscription: sub.id, customer: customerId })
+    return null
+  }
+
+  const priceId = sub.items.data[0]?.price?.id ?? null
+  const plan = planForPrice(priceId)
+  const row = {
+    user_id: userId,
+    stripe_customer_id: customerId,
+    price_id: priceId,
+    plan: plan?.key ?? sub.metadata?.plan ?? null,
+    status: sub.status,
+    credits_per_period: plan?.creditsPerPeriod ?? 0,
+    current_period_end: toIso(sub.current_period_end),
+    cancel_at_period_end: sub.cancel_at_period_end,
+    canceled_at: toIso(sub.canceled_at),
+    state_at: stateAt.toISOString(),
+  }
+  const sb = createServerAdminClient()
+  const { error: insErr } = await sb.from(TABLE_SUBSCRIPTIONS).insert({ id: sub.id, ...row })
+  if (insErr && (insErr as any).code !== '23505') {
+    throwIfMissingTable(insErr, TABLE_SUBSCRIPTIONS)
+    throw insErr
+  }
+  if (insErr) {
+    // Only overwrite a state that is not newer than this one; the filter makes the check and write one statement.
+    const { data: updated, error } = await sb
+      .from(TABLE_SUBSCRIPTIONS)
+      .update(row)
+      .eq('id', sub.id)
+      .or(`state_at.is.null,state_at.lte.${row.state_at}`)
+      .select('id')
+    if (error) throw error
+    if (!updated?.length) {
+      console.log('subscription.sync stale_event', { subscription: sub.id, state_at: row.state_at })
+    }
+  }
+
+  await syncRole(userId)
+  return userId
+}
+
+/** Tops up the period's allowance for a paid subscription invoice (once per invoice). */
+export async function creditSubscriptionInvoice(invoice: Stripe.Invoice) {
+  const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id
+  if (!subscriptionId) return { credited: 0 }
+
+  const sub = await stripeClient().subscriptions.retrieve(subscriptionId)
+  const userId = await syncSubscription(sub)
+  if (!userId) return { credited: 0 }
+
+  const plan = planForPrice(sub.items.data[0]?.price?.id)
+  const credits = plan?.creditsPerPeriod ?? 0
+  if (!credits) {
+    console.warn('subscription.invoice unknown_price', { invoice: invoice.id, subscription: subscriptionId })
+    return { credited: 0 }
+  }
+
+  // Records the invoice, the purchase (history and receipt) and the credits in one transaction.
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.rpc('fulfill_subscription_invoice', {
+    p_invoice_id: invoice.id,
+    p_subscription_id: subscriptionId,
+    p_user_id: userId,
+    p_credits: credits,
+    p_amount_paid: invoice.amount_paid ?? null,
+    p_currency: invoice.currency ?? null,
+    p_plan: plan?.key ?? null,
+  })
+  if (error) {
+    throwIfMissingTable(error, TABLE_SUBSCRIPTION_INVOICES)
+    throw error
+  }
+  if (!(data as any)?.fulfilled) return { credited: 0, alreadyProcessed: true }
+  return { credited: credits }
+}
+
+/** invoice.payment_failed: refresh the mirrored status (past_due / unpaid) from Stripe. */
+export async function refreshSubscription(subscriptionId: string) {
+  const sub = await stripeClient().subscriptions.retrieve(subscriptionId)
+  return syncSubscription(sub)
+}
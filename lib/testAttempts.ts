@@ -0,0 +1,544 @@
+import { randomInt } from 'node:crypto'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_PLANS, TABLE_TEST_ANSWERS, TABLE_TEST_ATTEMPTS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { MAX_TEST_QUESTIONS } from '@/lib/pricing'
+import { gradeShortAnswers } from '@/lib/shortAnswerGrading'
+import type { ScoredAnswer } from '@/lib/topicMastery'
+import {
+  gradeAnswer,
+  isGradable,
+  normalizeQuestion,
+  type AnswerValue,
+  type QuestionGrade,
+  type TestQuestion,
+} from '@/lib/testQuestions'
+
+export type AttemptMode = 'practice' | 'exam'
+
+export type AttemptSummary = {
+  id: string
+  mode: AttemptMode
+  planId: string | null
+  topic: string | null
+  title: string
+  language: string | null
+  correct: number | null
+  total: number | null
+  /** 0-1, or null until submitted. */
+  score: number | null
+  timeSpentMs: number | null
+  /** Null for an exam that has not been started yet. */
+  startedAt: string | null
+  durationMinutes: number | null
+  /** Exams only: answers saved after this (plus a short grace period) are not graded. */
+  deadlineAt: string | null
+  submittedAt: string | null
+  /** The exam was closed with its saved answers after the deadline. */
+  autoSubmitted: boolean
+}
+
+export type AnsweredQuestion = TestQuestion & {
+  response: AnswerValue | null
+  timeSpentMs: number | null
+  grade: QuestionGrade | null
+}
+
+export type AttemptDetail = AttemptSummary & { questions: AnsweredQuestion[] }
+
+export type TrendGroup = {
+  key: string
+  label: string
+  attempts: number
+  averageScore: number
+  latestScore: number
+  points: { attemptId: string; submittedAt: string; score: number }[]
+}
+
+export type TopicAccuracy = { topic: string; answered: number; correct: number; accuracy: number }
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+/** Longer per-question times are clamped; the tab was most likely left open. */
+const MAX_QUESTION_MS = 60 * 60 * 1000
+/** Covers the request in flight when the countdown reaches zero. */
+const EXAM_GRACE_MS = 15 * 1000
+const ATTEMPT_COLUMNS =
+  'id, mode, plan_id, topic, title, language, correct, total, score, time_spent_ms, started_at, duration_minutes, ' +
+  'deadline_at, submitted_at, auto_submitted'
+
+function attemptError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+function toQuestions(raw: unknown): TestQuestion[] {
+  return (Array.isArray(raw) ? raw : [])
+    .map((q, i) => normalizeQuestion(q, i))
+    .filter((q): q is TestQuestion => q !== null)
+}
+
+function toResponse(value: unknown): AnswerValue | null {
+  if (typeof value === 'string') return value
+  return Array.isArray(value) ? value.map(String) : null
+}
+
+function randomOrder<T>(items: T[]) {
+  const out = items.slice()
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1)
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  return out
+}
+
+/**
+ * The question without its answer key or explanation, for attempts not yet submitted. Ordering
+ * items and matching right-hand sides are reshuffled at random so their order gives nothing away.
+ */
+function redactQuestion(q: TestQuestion): TestQuestion {
+  const { answer: _answer, answers, pairs, explanation: _explanation, ...rest } = q
+  if (q.type === 'ordering') return { ...rest, answers: randomOrder(answers ?? []) }
+  if (q.type === 'matching') {
+    const rights = randomOrder((pairs ?? []).map((p) => p.right))
+    return { ...rest, pairs: (pairs ?? []).map((p, i) => ({ left: p.left, right: rights[i] })) }
+  }
+  return rest
+}
+
+function isOverdue(row: any) {
+  return row.mode === 'exam' && !!row.deadline_at && Date.now() > Date.parse(row.deadline_at) + EXAM_GRACE_MS
+}
+
+function toSummary(row: any): AttemptSummary {
+  return {
+    id: String(row.id),
+    mode: row.mode === 'exam' ? 'exam' : 'practice',
+    planId: row.plan_id ?? null,
+    topic: row.topic ?? null,
+    title: String(row.title ?? 'Practice test'),
+    language: row.language ?? null,
+    correct: row.correct ?? null,
+    total: row.total ?? null,
+    score: row.score == null ? null : Number(row.score),
+    timeSpentMs: row.time_spent_ms ?? null,
+    startedAt: row.started_at ?? null,
+    durationMinutes: row.duration_minutes ?? null,
+    deadlineAt: row.deadline_at ?? null,
+    submittedAt: row.submitted_at ?? null,
+    autoSubmitted: Boolean(row.auto_submitted),
+  }
+}
+
+function clampMs(value: unknown) {
+  const n = Math.round(Number(value))
+  return Number.isFinite(n) && n > 0 ? Math.min(n, MAX_QUESTION_MS) : 0
+}
+
+async function loadAttemptRow(userId: string, attemptId: string) {
+  if (!UUID_RE.test(attemptId)) attemptError('NOT_FOUND', 'Attempt not found', 404)
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .select(`${ATTEMPT_COLUMNS}, questions, draft_answers`)
+    .eq('id', attemptId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ATTEMPTS)
+    throw error
+  }
+  if (!data) attemptError('NOT_FOUND', 'Attempt not found', 404)
+  return data
+}
+
+/**
+ * Stores an attempt on a test the server generated, with its questions (and answer key) for
+ * grading; only the redacted questions are returned. Practice attempts start right away; exam
+ * attempts start with `beginAttempt`. Never call this with questions sent by the browser.
+ */
+export async function startAttempt(
+  userId: string,
+  input: {
+    test: { title?: string; language?: string; questions: unknown[] }
+    planId?: string | null
+    topic?: string | null
+    mode?: AttemptMode
+    durationMinutes?: number | null
+  }
+) {
+  const mode = input.mode ?? 'practice'
+  const durationMinutes = Math.round(Number(input.durationMinutes) || 0)
+  if (mode === 'exam' && durationMinutes <= 0) attemptError('INVALID_REQUEST', 'An exam needs a duration', 400)
+
+  const questions = toQuestions(input.test.questions).slice(0, MAX_TEST_QUESTIONS)
+  if (!questions.length) attemptError('INVALID_REQUEST', 'The test has no questions', 400)
+  if (new Set(questions.map((q) => q.id)).size !== questions.length) {
+    attemptError('INVALID_REQUEST', 'Question ids must be unique', 400)
+  }
+
+  const sb = createServerAdminClient()
+  const planId = input.planId ? String(input.planId) : null
+  if (planId) {
+    if (!UUID_RE.test(planId)) attemptError('PLAN_NOT_FOUND', 'Plan not found', 404)
+    const { data: plan, error } = await sb.from(TABLE_PLANS).select('id').eq('id', planId).eq('user_id', userId).maybeSingle()
+    if (error) throw error
+    if (!plan) attemptError('PLAN_NOT_FOUND', 'Plan not found', 404)
+  }
+
+  const title = String(input.test.title ?? '').trim() || 'Practice test'
+  const { data, error } = await sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .insert({
+      user_id: userId,
+      plan_id: planId,
+      topic: String(input.topic ?? '').trim().slice(0, 200) || title,
+      title,
+      language: input.test.language ? String(input.test.language) : null,
+      questions,
+      mode,
+      duration_minutes: durationMinutes || null,
+      started_at: mode === 'exam' ? null : new Date().toISOString(),
+    })
+    .select(ATTEMPT_COLUMNS)
+    .single()
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ATTEMPTS)
+    throw error
+  }
+  return { ...toSummary(data), questions: questions.map(redactQuestion) }
+}
+
+/**
+ * Starts an attempt by id. Practice attempts are running from the moment they are stored; on an
+ * exam this starts the clock, with the deadline set by the server.
+ */
+export async function beginAttempt(userId: string, attemptId: string) {
+  const row = await loadAttemptRow(userId, attemptId)
+  if (row.submitted_at) attemptError('ALREADY_SUBMITTED', 'This attempt was already submitted', 409)
+  if (row.mode !== 'exam' || row.started_at) return toSummary(row)
+
+  const now = Date.now()
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .update({
+      started_at: new Date(now).toISOString(),
+      deadline_at: new Date(now + Number(row.duration_minutes) * 60 * 1000).toISOString(),
+    })
+    .eq('id', row.id)
+    .eq('user_id', userId)
+    .is('started_at', null)
+    .select(ATTEMPT_COLUMNS)
+    .maybeSingle()
+  if (error) throw error
+  // Started from another tab in the meantime: keep that deadline.
+  return data ? toSummary(data) : toSummary(await loadAttemptRow(userId, attemptId))
+}
+
+/** Saves in-progress answers; for exams these are what gets graded if the deadline passes first. */
+export async function saveDraftAnswers(userId: string, attemptId: string, answers: Record<string, AnswerValue>) {
+  const row = await loadAttemptRow(userId, attemptId)
+  if (row.submitted_at) attemptError('ALREADY_SUBMITTED', 'This attempt was already submitted', 409)
+  if (row.mode === 'exam' && !row.started_at) attemptError('NOT_STARTED', 'Start the exam first', 409)
+  if (isOverdue(row)) attemptError('DEADLINE_PASSED', 'Time is up; answers can no longer be changed', 409)
+
+  const sb = createServerAdminClient()
+  const { error } = await sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .update({ draft_answers: answers })
+    .eq('id', row.id)
+    .eq('user_id', userId)
+    .is('submitted_at', null)
+  if (error) throw error
+  return { savedAt: new Date().toISOString() }
+}
+
+/**
+ * Grades free-text answers to the short questions of a stored attempt with the AI rubric, without
+ * submitting it. Only the attempt's own questions are graded, and never while an exam is open.
+ */
+export async function gradeAttemptAnswers(
+  userId: string,
+  attemptId: string,
+  items: { questionId: string; response: string }[]
+) {
+  const row = await loadAttemptRow(userId, attemptId)
+  if (row.mode === 'exam' && !row.submitted_at) {
+    attemptError('EXAM_IN_PROGRESS', 'Exam answers are graded when the exam is handed in', 409)
+  }
+  const byId = new Map(toQuestions(row.questions).map((q) => [q.id, q]))
+  const responses = new Map(items.map((it) => [it.questionId, it.response]))
+  const questions = Array.from(responses.keys()).map((id) => {
+    const q = byId.get(id)
+    if (!q || q.type !== 'short') attemptError('UNKNOWN_QUESTION', `No short-answer question ${id} in this attempt`, 400)
+    return q
+  })
+  return gradeShortAnswers(
+    questions.map((q) => ({ question: q, response: responses.get(q.id) })),
+    { language: row.language ?? undefined }
+  )
+}
+
+/**
+ * Grades the answers against the stored key (short answers with the AI rubric), records one
+ * `test_answers` row per question and closes the attempt. An attempt can be submitted once.
+ * An exam submitted after its deadline is graded on the answers saved before it instead.
+ */
+export async function submitAttempt(
+  userId: string,
+  attemptId: string,
+  input: { answers: Record<string, AnswerValue>; timeSpentMs?: Record<string, number> }
+): Promise<AttemptDetail> {
+  const row = await loadAttemptRow(userId, attemptId)
+  if (row.submitted_at) attemptError('ALREADY_SUBMITTED', 'This attempt was already submitted', 409)
+  if (row.mode === 'exam' && !row.started_at) attemptError('NOT_STARTED', 'Start the exam first', 409)
+  if (isOverdue(row)) return closeAttempt(userId, row, { answers: row.draft_answers ?? {}, autoSubmitted: true })
+  return closeAttempt(userId, row, input)
+}
+
+async function closeAttempt(
+  userId: string,
+  row: any,
+  input: { answers: Record<string, AnswerValue>; timeSpentMs?: Record<string, number>; autoSubmitted?: boolean }
+): Promise<AttemptDetail> {
+  const questions = toQuestions(row.questions)
+  const times = input.timeSpentMs ?? {}
+  const shortQuestions = questions.filter((q) => q.type === 'short')
+  const shortGrades = await gradeShortAnswers(
+    shortQuestions.map((q) => {
+      const response = input.answers[q.id]
+      return { question: q, response: typeof response === 'string' ? response : undefined }
+    }),
+    { language: row.language ?? undefined }
+  )
+  const shortById = new Map(shortGrades.map((g) => [g.questionId, g]))
+  const graded = questions.map((q) => ({
+    question: q,
+    response: toResponse(input.answers[q.id]),
+    timeSpentMs: clampMs(times[q.id]),
+    grade: shortById.get(q.id) ?? gradeAnswer(q, toResponse(input.answers[q.id]) ?? undefined),
+  }))
+  const scored = graded.filter((g) => isGradable(g.question))
+  const total = scored.length
+  const correct = scored.filter((g) => g.grade.correct).length
+  const score = total ? scored.reduce((sum, g) => sum + g.grade.score, 0) / total : 0
+  const timeSpentMs = graded.reduce((sum, g) => sum + g.timeSpentMs, 0)
+
+  // One transaction: the attempt is only closed if its answers are stored too.
+  const sb = createServerAdminClient()
+  const { error } = await sb.rpc('submit_test_attempt', {
+    p_attempt_id: row.id,
+    p_user_id: userId,
+    p_correct: correct,
+    p_total: total,
+    p_score: score,
+    p_time_spent_ms: timeSpentMs,
+    p_auto_submitted: Boolean(input.autoSubmitted),
+    p_answers: scored.map((g) => ({
+      question_id: g.question.id,
+      plan_id: row.plan_id ?? null,
+      topic: g.question.topic ?? row.topic ?? null,
+      question_type: g.question.type,
+      answer: g.response,
+      correct: g.grade.correct,
+      score: g.grade.score,
+      grading_method: g.grade.method ?? null,
+      feedback: g.grade.feedback ?? null,
+      missing_points: g.grade.missingPoints ?? null,
+      time_spent_ms: g.timeSpentMs || null,
+    })),
+  })
+  if (error) {
+    if (String(error.message || '').includes('ALREADY_SUBMITTED')) {
+      attemptError('ALREADY_SUBMITTED', 'This attempt was already submitted', 409)
+    }
+    throwIfMissingTable(error, TABLE_TEST_ANSWERS)
+    throw error
+  }
+  const closed = await loadAttemptRow(userId, row.id)
+
+  return {
+    ...toSummary(closed),
+    questions: graded.map((g) => ({ ...g.question, response: g.response, timeSpentMs: g.timeSpentMs, grade: g.grade })),
+  }
+}
+
+/**
+ * One attempt; before submission without the answer key and explanations, with the saved answers.
+ * An overdue exam is closed first.
+ */
+export async function getAttempt(userId: string, attemptId: string): Promise<AttemptDetail> {
+  let row = await loadAttemptRow(userId, attemptId)
+  if (!row.submitted_at && isOverdue(row)) {
+    await closeAttempt(userId, row, { answers: row.draft_answers ?? {}, autoSubmitted: true }).catch((err: any) => {
+      if (err?.code !== 'ALREADY_SUBMITTED') throw err
+    })
+    row = await loadAttemptRow(userId, attemptId)
+  }
+  const questions = toQuestions(row.questions)
+  if (!row.submitted_at) {
+    const drafts = row.draft_answers ?? {}
+    return {
+      ...toSummary(row),
+      questions: questions.map((q) => ({
+        ...redactQuestion(q),
+        response: toResponse(drafts[q.id]),
+        timeSpentMs: null,
+        grade: null,
+      })),
+    }
+  }
+
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_TEST_ANSWERS)
+    .select('question_id, answer, correct, score, grading_method, feedback, missing_points, time_spent_ms')
+    .eq('attempt_id', row.id)
+  if (error) throw error
+  const byId = new Map((Array.isArray(data) ? data : []).map((a: any) => [String(a.question_id), a]))
+  return {
+    ...toSummary(row),
+    questions: questions.map((q) => {
+      const a = byId.get(q.id)
+      return {
+        ...q,
+        response: toResponse(a?.answer),
+        timeSpentMs: a?.time_spent_ms ?? null,
+        grade: a
+          ? {
+              ...gradeAnswer(q, toResponse(a.answer) ?? undefined),
+              score: Number(a.score),
+              correct: Boolean(a.correct),
+              ...(a.grading_method ? { method: a.grading_method } : {}),
+              ...(a.feedback ? { feedback: String(a.feedback) } : {}),
+              ...(Array.isArray(a.missing_points) ? { missingPoints: a.missing_points.map(String) } : {}),
+            }
+          : null,
+      }
+    }),
+  }
+}
+
+/** Closes exams whose deadline passed while the student was away, so they count in the history. */
+async function closeOverdueExams(userId: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .select('id')
+    .eq('user_id', userId)
+    .eq('mode', 'exam')
+    .is('submitted_at', null)
+    .lt('deadline_at', new Date(Date.now() - EXAM_GRACE_MS).toISOString())
+    .limit(10)
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ATTEMPTS)
+    throw error
+  }
+  for (const a of Array.isArray(data) ? data : []) await getAttempt(userId, String(a.id))
+}
+
+export async function listAttempts(
+  userId: string,
+  options: { planId?: string | null; topic?: string | null; submittedOnly?: boolean; limit?: number } = {}
+): Promise<AttemptSummary[]> {
+  await closeOverdueExams(userId)
+  const sb = createServerAdminClient()
+  let query = sb
+    .from(TABLE_TEST_ATTEMPTS)
+    .select(ATTEMPT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(200, Math.max(1, Math.trunc(options.limit ?? 50))))
+  if (options.planId) query = query.eq('plan_id', options.planId)
+  if (options.topic) query = query.eq('topic', options.topic)
+  if (options.submittedOnly) query = query.not('submitted_at', 'is', null)
+  const { data, error } = await query
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ATTEMPTS)
+    throw error
+  }
+  return (Array.isArray(data) ? data : []).map(toSummary)
+}
+
+/** The user's most recent scored answers that have a topic, newest first, for topic mastery. */
+export async function recentTopicAnswers(userId: string, limit = 2000): Promise<ScoredAnswer[]> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_TEST_ANSWERS)
+    .select('topic, score, created_at')
+    .eq('user_id', userId)
+    .not('topic', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ANSWERS)
+    throw error
+  }
+  return (Array.isArray(data) ? data : []).map((a: any) => ({
+    topic: String(a.topic),
+    score: Number(a.score) || 0,
+    createdAt: String(a.created_at),
+  }))
+}
+
+/**
+ * Score over time per plan (attempts started from a plan) or per topic, oldest point first, plus
+ * answer accuracy per question topic across all attempts.
+ */
+export async function attemptTrends(userId: string, groupBy: 'plan' | 'topic') {
+  const attempts = (await listAttempts(userId, { submittedOnly: true, limit: 200 })).reverse()
+
+  const planTitles = new Map<string, string>()
+  const planIds = Array.from(new Set(attempts.map((a) => a.planId).filter(Boolean))) as string[]
+  const sb = createServerAdminClient()
+  if (groupBy === 'plan' && planIds.length) {
+    const { data } = await sb.from(TABLE_PLANS).select('id, title').eq('user_id', userId).in('id', planIds)
+    for (const p of Array.isArray(data) ? data : []) planTitles.set(String(p.id), String(p.title || 'Study plan'))
+  }
+
+  const groups = new Map<string, TrendGroup>()
+  for (const a of attempts) {
+    const key = groupBy === 'plan' ? a.planId ?? 'none' : a.topic || a.title
+    const label =
+      groupBy === 'plan' ? (a.planId ? planTitles.get(a.planId) ?? 'Study plan' : 'Tests without a plan') : key
+    const group = groups.get(key) ?? { key, label, attempts: 0, averageScore: 0, latestScore: 0, points: [] }
+    group.points.push({ attemptId: a.id, submittedAt: a.submittedAt as string, score: a.score ?? 0 })
+    groups.set(key, group)
+  }
+  for (const g of Array.from(groups.values())) {
+    g.attempts = g.points.length
+    g.averageScore = g.points.reduce((sum, p) => sum + p.score, 0) / g.attempts
+    g.latestScore = g.points[g.points.length - 1].score
+  }
+
+  const { data: answers, error } = await sb
+    .from(TABLE_TEST_ANSWERS)
+    .select('topic, correct')
+    .eq('user_id', userId)
+    .not('topic', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(2000)
+  if (error) {
+    throwIfMissingTable(error, TABLE_TEST_ANSWERS)
+    throw error
+  }
+  const topics = new Map<string, TopicAccuracy>()
+  for (const a of Array.isArray(answers) ? answers : []) {
+    const t = topics.get(String(a.topic)) ?? { topic: String(a.topic), answered: 0, correct: 0, accuracy: 0 }
+    t.answered += 1
+    if (a.correct) t.correct += 1
+    topics.set(t.topic, t)
+  }
+  const topicAccuracy = Array.from(topics.values())
+    .map((t) => ({ ...t, accuracy: t.correct / t.answered }))
+    .sort((a, b) => a.accuracy - b.accuracy)
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) =>
+      b.points[b.points.length - 1].submittedAt.localeCompare(a.points[a.points.length - 1].submittedAt)
+    ),
+    topics: topicAccuracy,
+  }
+}
@@ -0,0 +1,363 @@
+// Practice-test questions and their grading rules. Pure, so the practice page and the server agree.
+
+export type QuestionType = 'mcq' | 'short' | 'true_false' | 'multi_select' | 'numeric' | 'ordering' | 'matching'
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'mcq',
+  'short',
+  'true_false',
+  'multi_select',
+  'numeric',
+  'ordering',
+  'matching',
+]
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'Multiple choice',
+  short: 'Short answer',
+  true_false: 'True / false',
+  multi_select: 'Multi-select',
+  numeric: 'Numeric',
+  ordering: 'Ordering',
+  matching: 'Matching',
+}
+
+export type TestDifficulty = 'easy' | 'medium' | 'hard' | 'mixed'
+
+export const TEST_DIFFICULTIES: TestDifficulty[] = ['easy', 'medium', 'hard', 'mixed']
+
+export type MatchingPair = { left: string; right: string }
+
+export type TestQuestion = {
+  id: string
+  type: QuestionType
+  question: string
+  /** Choices for mcq and multi_select. */
+  options?: string[] | null
+  /** mcq: option text or letter; short: model answer; true_false: 'true' | 'false'; numeric: the number. */
+  answer?: string
+  /** multi_select: every correct option; ordering: the items in the correct order. */
+  answers?: string[] | null
+  /** matching: the correct pairs; the right-hand sides are shown shuffled. */
+  pairs?: MatchingPair[] | null
+  /** numeric: accepted absolute difference from `answer`. */
+  tolerance?: number | null
+  unit?: string | null
+  explanation?: string
+  /** Topic the question checks, when known (plan practice); used for per-topic analytics. */
+  topic?: string
+  /** Set on adaptive practice questions. */
+  difficulty?: 'easy' | 'medium' | 'hard'
+}
+
+/**
+ * A student's answer: text for mcq, short, true_false and numeric; the chosen options for
+ * multi_select; the items in the chosen order for ordering; the right-hand side picked for each
+ * left-hand side (same index, '' when skipped) for matching.
+ */
+export type AnswerValue = string | string[]
+
+export type QuestionGrade = {
+  questionId: string
+  /** 0-1; partial credit where the question type allows it. */
+  score: number
+  correct: boolean
+  /** The correct answer as shown to the student. */
+  expected: string | null
+  /** How the score was reached: the type's fixed rules, AI rubric, or the keyword-overlap fallback. */
+  method?: 'exact' | 'ai' | 'keywords'
+  feedback?: string
+  /** Key points of the model answer the response does not cover (short answers). */
+  missingPoints?: string[]
+}
+
+/** Short answers scoring at least this much count as correct. */
+export const SHORT_ANSWER_PASS_SCORE = 0.7
+
+export function normalizeAnswer(s: string) {
+  return String(s ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+}
+
+export function getCorrectOption(q: TestQuestion) {
+  const options = q.options || []
+  const raw = String(q.answer ?? '').trim()
+  if (!raw) return null
+  if (options.includes(raw)) return raw
+  const letter = raw.toUpperCase()
+  const idx = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.indexOf(letter)
+  if (idx >= 0 && idx < options.length) return options[idx]
+  return null
+}
+
+/** 'true' / 'false' from the usual spellings (English and Hungarian), or null. */
+export function parseTrueFalse(value: string | undefined) {
+  const v = normalizeAnswer(value ?? '')
+  if (['true', 't', 'yes', 'igaz', 'i', 'igen'].includes(v)) return 'true'
+  if (['false', 'f', 'no', 'hamis', 'h', 'nem'].includes(v)) return 'false'
+  return null
+}
+
+/** Parses "3.5", "3,5", "-1e3" or "1 200"; null when it is not a number. */
+export function parseNumber(value: string | undefined) {
+  const v = String(value ?? '')
+    .trim()
+    .replace(/(\d)\s(?=\d{3}\b)/g, '$1')
+    .replace(/^([+-]?\d+),(\d+)$/, '$1.$2')
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v)) return null
+  const n = Number(v)
+  return Number.isFinite(n) ? n : null
+}
+
+function hash(text: string) {
+  let h = 2166136261
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 16777619)
+  return h >>> 0
+}
+
+/** Stable shuffle keyed by the question id, never the original order when it can avoid it. */
+export function shuffledFor<T>(key: string, items: T[]): T[] {
+  const out = items.slice()
+  let seed = hash(key)
+  for (let i = out.length - 1; i > 0; i--) {
+    seed = Math.imul(seed ^ (seed >>> 15), 2246822507) >>> 0
+    const j = seed % (i + 1)
+    ;[out[i], out[j]] = [out[j], out[i]]
+  }
+  if (out.length > 1 && out.every((item, i) => item === items[i])) out.push(out.shift() as T)
+  return out
+}
+
+function asList(answer: AnswerValue | undefined) {
+  return Array.isArray(answer) ? answer.map(String) : []
+}
+
+function asText(answer: AnswerValue | undefined) {
+  return typeof answer === 'string' ? answer : ''
+}
+
+/** The correct answer as shown after grading. */
+export function expectedAnswer(q: TestQuestion): string | null {
+  switch (q.type) {
+    case 'mcq':
+      return getCorrectOption(q)
+    case 'true_false': {
+      const v = parseTrueFalse(q.answer)
+      return v === null ? null : v === 'true' ? 'True' : 'False'
+    }
+    case 'multi_select':
+      return q.answers?.length ? q.answers.join(', ') : null
+    case 'numeric': {
+      const n = parseNumber(q.answer)
+      if (n === null) return null
+      return `${n}${q.tolerance ? ` ± ${q.tolerance}` : ''}${q.unit ? ` ${q.unit}` : ''}`
+    }
+    case 'ordering':
+      return q.answers?.length ? q.answers.join(' → ') : null
+    case 'matching':
+      return q.pairs?.length ? q.pairs.map((p) => `${p.left} → ${p.right}`).join('; ') : null
+    default:
+      return String(q.answer ?? '').trim() || null
+  }
+}
+
+/** Whether the question has an answer key at all; ungradable questions are left out of the total. */
+export function isGradable(q: TestQuestion) {
+  return expectedAnswer(q) !== null
+}
+
+function ruleGrade(q: TestQuestion, score: number, correct = score === 1): QuestionGrade {
+  return { questionId: q.id, score: Math.round(score * 100) / 100, correct, expected: expectedAnswer(q), method: 'exact' }
+}
+
+/**
+ * Grading by fixed rules. mcq, true_false and numeric (within the tolerance) are right or wrong;
+ * multi_select scores correct picks minus wrong picks over the number of correct options;
+ * ordering scores the items in the right position and matching the right pairs. Short answers
+ * need an exact (normalized) match here; the server grades them by meaning.
+ */
+export function gradeAnswer(q: TestQuestion, answer: AnswerValue | undefined): QuestionGrade {
+  switch (q.type) {
+    case 'mcq': {
+      const expected = getCorrectOption(q)
+      return ruleGrade(q, expected !== null && asText(answer) === expected ? 1 : 0)
+    }
+    case 'true_false': {
+      const expected = parseTrueFalse(q.answer)
+      return ruleGrade(q, expected !== null && parseTrueFalse(asText(answer)) === expected ? 1 : 0)
+    }
+    case 'numeric': {
+      const expected = parseNumber(q.answer)
+      const given = parseNumber(asText(answer))
+      // The small slack absorbs floating-point error (9.76 vs 9.81 ± 0.05).
+      const tolerance = Math.abs(Number(q.tolerance) || 0) + Math.max(1, Math.abs(expected ?? 0)) * 1e-9
+      return ruleGrade(q, expected !== null && given !== null && Math.abs(given - expected) <= tolerance ? 1 : 0)
+    }
+    case 'multi_select': {
+      const expected = new Set(q.answers ?? [])
+      if (!expected.size) return ruleGrade(q, 0)
+      const chosen = Array.from(new Set(asList(answer)))
+      const right = chosen.filter((c) => expected.has(c)).length
+      const wrong = chosen.length - right
+      return ruleGrade(q, Math.max(0, right - wrong) / expected.size)
+    }
+    case 'ordering': {
+      const expected = q.answers ?? []
+      if (!expected.length) return ruleGrade(q, 0)
+      const given = asList(answer)
+      return ruleGrade(q, expected.filter((item, i) => given[i] === item).length / expected.length)
+    }
+    case 'matching': {
+      const pairs = q.pairs ?? []
+      if (!pairs.length) return ruleGrade(q, 0)
+      const given = asList(answer)
+      return ruleGrade(q, pairs.filter((p, i) => given[i] === p.right).length / pairs.length)
+    }
+    default: {
+      const expected = String(q.answer ?? '').trim()
+      return ruleGrade(q, expected.length > 0 && normalizeAnswer(asText(answer)) === normalizeAnswer(expected) ? 1 : 0)
+    }
+  }
+}
+
+function strings(value: unknown) {
+  return Array.isArray(value) ? value.map((v) => String(v ?? '').trim()).filter(Boolean) : []
+}
+
+/**
+ * Cleans one generated (or stored) question, or null when it cannot be answered as its type:
+ * too few options, a correct option that is not offered, a non-numeric numeric answer, etc.
+ */
+export function normalizeQuestion(raw: any, index: number): TestQuestion | null {
+  const type: QuestionType = QUESTION_TYPES.includes(raw?.type) ? raw.type : 'mcq'
+  const base: TestQuestion = {
+    id: String(raw?.id ?? '').trim() || `q${index + 1}`,
+    type,
+    question: String(raw?.question ?? '').trim(),
+    explanation: String(raw?.explanation ?? ''),
+    ...(raw?.topic ? { topic: String(raw.topic) } : {}),
+    ...(['easy', 'medium', 'hard'].includes(raw?.difficulty) ? { difficulty: raw.difficulty } : {}),
+  }
+  if (!base.question) return null
+
+  switch (type) {
+    case 'mcq': {
+      const options = Array.from(new Set(strings(raw?.options)))
+      const q = { ...base, options, answer: String(raw?.answer ?? '').trim() }
+      return options.length >= 2 && getCorrectOption(q) !== null ? q : null
+    }
+    case 'short':
+      return { ...base, options: null, answer: String(raw?.answer ?? '').trim() }
+    case 'true_false': {
+      const answer = parseTrueFalse(String(raw?.answer ?? ''))
+      return answer ? { ...base, options: null, answer } : null
+    }
+    case 'multi_select': {
+      const options = Array.from(new Set(strings(raw?.options)))
+      const answers = Array.from(new Set(strings(raw?.answers))).filter((a) => options.includes(a))
+      return options.length >= 2 && answers.length ? { ...base, options, answers } : null
+    }
+    case 'numeric': {
+      const n = parseNumber(String(raw?.answer ?? ''))
+      if (n === null) return null
+      const tolerance = Math.abs(Number(raw?.tolerance) || 0)
+      const unit = String(raw?.unit ?? '').trim()
+      return { ...base, options: null, answer: String(n), tolerance, unit: unit || null }
+    }
+    case 'ordering': {
+      const answers = Array.from(new Set(strings(raw?.answers)))
+      return answers.length >= 2 ? { ...base, options: null, answers } : null
+    }
+    case 'matching': {
+      const pairs = (Array.isArray(raw?.pairs) ? raw.pairs : [])
+        .map((p: any) => ({ left: String(p?.left ?? '').trim(), right: String(p?.right ?? '').trim() }))
+        .filter((p: MatchingPair) => p.left && p.right)
+      const unique = new Set(pairs.map((p: MatchingPair) => p.right)).size === pairs.length
+      return pairs.length >= 2 && unique ? { ...base, options: null, pairs } : null
+    }
+  }
+}
+
+/**
+ * Splits `count` questions over the requested type mix (weights, not necessarily summing to the
+ * count) by largest remainder; types with weight 0 are left out.
+ */
+export function planTypeCounts(count: number, mix: Partial<Record<QuestionType, number>>) {
+  const weights = QUESTION_TYPES.map((t) => [t, Math.max(0, Number(mix[t]) || 0)] as const).filter(([, w]) => w > 0)
+  const sum = weights.reduce((s, [, w]) => s + w, 0)
+  if (!sum) return { mcq: count } as Partial<Record<QuestionType, number>>
+  const exact = weights.map(([t, w]) => ({ t, n: (count * w) / sum }))
+  const out: Partial<Record<QuestionType, number>> = {}
+  for (const e of exact) out[e.t] = Math.floor(e.n)
+  let left = count - exact.reduce((s, e) => s + Math.floor(e.n), 0)
+  for (const e of exact.slice().sort((a, b) => (b.n % 1) - (a.n % 1))) {
+    if (left-- <= 0) break
+    out[e.t] = (out[e.t] ?? 0) + 1
+  }
+  return out
+}
+
+// Words that carry no meaning on their own (English and Hungarian, the languages tests are written in).
+const STOPWORDS = new Set(
+  (
+    'the and for are but not you all any can had her was one our out has have been this that with from they ' +
+    'them then than what when where which while who will would there their into also only other such some ' +
+    'its it is of to in on at by as an or be do so if no a ' +
+    'az és hogy nem van egy is meg de ha mint vagy már még csak azt ami aki ezt ezek azok volt lesz kell ' +
+    'nagyon igen sem pedig mert akkor itt ott ez'
+  ).split(' ')
+)
+
+function keywords(text: string) {
+  const words = String(text ?? '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) ?? []
+  return Array.from(new Set(words.filter((w) => (w.length >= 3 || /\d/.test(w)) && !STOPWORDS.has(w))))
+}
+
+/** Same word up to its ending (plural, tense, Hungarian suffixes): a shared stem of 5+ letters. */
+function sameWord(a: string, b: string) {
+  if (a === b) return true
+  const n = Math.min(a.length, b.length)
+  return n >= 5 && a.slice(0, Math.max(5, n - 2)) === b.slice(0, Math.max(5, n - 2))
+}
+
+function keyPoints(answer: string) {
+  return String(answer ?? '')
+    .split(/[.;\n]|,\s+|\s+(?:and|és)\s+/i)
+    .map((p) => p.trim())
+    .filter((p) => keywords(p).length > 0)
+}
+
+/**
+ * Deterministic grade for a free-text answer: the share of the model answer's keywords the
+ * response uses. A key point counts as missing when fewer than half of its keywords appear.
+ */
+export function keywordOverlapGrade(q: TestQuestion, answer: string | undefined): QuestionGrade {
+  const expected = String(q.answer ?? '').trim()
+  const given = keywords(answer || '')
+  const matched = (word: string) => given.some((g) => sameWord(g, word))
+
+  const key = keywords(expected)
+  const hits = key.filter(matched).length
+  const score = key.length ? Math.round((hits / key.length) * 100) / 100 : 0
+  const missingPoints = keyPoints(expected).filter((point) => {
+    const words = keywords(point)
+    return words.filter(matched).length < words.length / 2
+  })
+
+  return {
+    questionId: q.id,
+    score,
+    correct: score >= SHORT_ANSWER_PASS_SCORE,
+    expected: expected || null,
+    method: 'keywords',
+    feedback: key.length
+      ? `Your answer uses ${hits} of the ${key.length} key terms from the model answer.`
+      : 'There is no model answer to compare with.',
+    missingPoints,
+  }
+}
+
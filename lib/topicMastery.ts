@@ -0,0 +1,152 @@
+// Per-topic mastery from past answers and the question mix adaptive practice draws from it.
+// Pure, so the numbers can be shown next to the questions they produced.
+
+export type TopicHistory = {
+  topic: string
+  answered: number
+  correct: number
+  /** Recency-weighted mean score, 0-1. */
+  accuracy: number
+  lastAnsweredAt: string | null
+}
+
+export type TopicStatus = 'unseen' | 'weak' | 'improving' | 'mastered'
+
+export type TopicTarget = {
+  topic: string
+  questions: number
+  difficulty: 'easy' | 'medium' | 'hard'
+  status: TopicStatus
+  accuracy: number | null
+  answered: number
+  /** Why the topic got this many questions at this difficulty, for the student. */
+  reason: string
+}
+
+export type ScoredAnswer = { topic: string; score: number; createdAt: string }
+
+/** An answer's weight halves every this many days, so old mistakes fade. */
+const HALF_LIFE_DAYS = 14
+/** Fewer answers than this are not enough to call a topic mastered. */
+export const MASTERY_MIN_ANSWERS = 5
+export const MASTERED_ACCURACY = 0.85
+export const WEAK_ACCURACY = 0.6
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function topicKey(topic: string) {
+  return String(topic ?? '').trim().toLowerCase()
+}
+
+/** Folds individual answers into per-topic history (keyed case-insensitively). */
+export function summarizeAnswers(answers: ScoredAnswer[], now = Date.now()): TopicHistory[] {
+  const byTopic = new Map<string, TopicHistory & { weight: number; weighted: number }>()
+  for (const a of answers) {
+    const key = topicKey(a.topic)
+    if (!key) continue
+    const ageDays = Math.max(0, (now - Date.parse(a.createdAt)) / DAY_MS) || 0
+    const weight = Math.pow(0.5, ageDays / HALF_LIFE_DAYS)
+    const h = byTopic.get(key) ?? {
+      topic: a.topic.trim(),
+      answered: 0,
+      correct: 0,
+      accuracy: 0,
+      lastAnsweredAt: null,
+      weight: 0,
+      weighted: 0,
+    }
+    h.answered += 1
+    if (a.score >= 1) h.correct += 1
+    h.weight += weight
+    h.weighted += weight * Math.min(1, Math.max(0, a.score))
+    if (!h.lastAnsweredAt || a.createdAt > h.lastAnsweredAt) h.lastAnsweredAt = a.createdAt
+    byTopic.set(key, h)
+  }
+  return Array.from(byTopic.values()).map(({ weight, weighted, ...h }) => ({
+    ...h,
+    accuracy: weight ? Math.round((weighted / weight) * 100) / 100 : 0,
+  }))
+}
+
+function pct(n: number) {
+  return `${Math.round(n * 100)}%`
+}
+
+function classify(history: TopicHistory | undefined): Omit<TopicTarget, 'topic' | 'questions'> & { weight: number } {
+  if (!history || !history.answered) {
+    return {
+      status: 'unseen',
+      difficulty: 'medium',
+      accuracy: null,
+      answered: 0,
+      weight: 1.5,
+      reason: 'Not practised yet, so a few questions find your starting level.',
+    }
+  }
+  const { accuracy, answered } = history
+  const record = `${pct(accuracy)} over ${answered} ${answered === 1 ? 'answer' : 'answers'}`
+  if (accuracy < WEAK_ACCURACY) {
+    return {
+      status: 'weak',
+      difficulty: 'easy',
+      accuracy,
+      answered,
+      weight: 1 + 2 * (1 - accuracy),
+      reason: `Weak spot (${record}): extra questions, starting easier.`,
+    }
+  }
+  if (accuracy >= MASTERED_ACCURACY && answered >= MASTERY_MIN_ANSWERS) {
+    return {
+      status: 'mastered',
+      difficulty: 'hard',
+      accuracy,
+      answered,
+      weight: 0.5,
+      reason: `Mastered (${record}): fewer questions, but harder ones.`,
+    }
+  }
+  return {
+    status: 'improving',
+    difficulty: accuracy >= MASTERED_ACCURACY ? 'hard' : 'medium',
+    accuracy,
+    answered,
+    weight: 1,
+    reason:
+      accuracy >= MASTERED_ACCURACY
+        ? `Going well (${record}); a few more answers confirm it.`
+        : `Getting there (${record}): regular practice.`,
+  }
+}
+
+/**
+ * Splits `count` questions over the topics by weight (weak topics most, mastered least) using
+ * largest remainders. When there are more topics than questions the lowest weights get none.
+ */
+export function planTopicTargets(topics: string[], history: TopicHistory[], count: number): TopicTarget[] {
+  const byKey = new Map(history.map((h) => [topicKey(h.topic), h]))
+  const seen = new Set<string>()
+  const rows = topics
+    .filter((t) => {
+      const key = topicKey(t)
+      if (!key || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map((topic) => ({ topic: topic.trim(), ...classify(byKey.get(topicKey(topic))) }))
+  const sum = rows.reduce((s, r) => s + r.weight, 0)
+  if (!sum || count <= 0) return []
+
+  const exact = rows.map((r) => (count * r.weight) / sum)
+  const counts = exact.map(Math.floor)
+  let left = count - counts.reduce((s, n) => s + n, 0)
+  const byRemainder = exact.map((n, i) => ({ i, rest: n % 1, weight: rows[i].weight }))
+  byRemainder.sort((a, b) => b.rest - a.rest || b.weight - a.weight)
+  for (const { i } of byRemainder) {
+    if (left-- <= 0) break
+    counts[i] += 1
+  }
+
+  return rows
+    .map(({ weight: _weight, ...r }, i) => ({ ...r, questions: counts[i] }))
+    .filter((t) => t.questions > 0)
+    .sort((a, b) => b.questions - a.questions)
+}
@@ -1,5 +1,5 @@
-import OpenAI from 'openai'
 import { z } from 'zod'
+import type { LlmProvider } from '@/lib/llm'
 
 export const VisionExtractSchema = z.object({
   extracted: z.string(),
@@ -19,11 +19,8 @@ function detectHungarian(text: string) {
   return /\bhu\b|magyar|szia|tetel|t[eé]tel|vizsga|erettsegi|[áéíóöőúüű]/i.test(text)
 }
 
-function parseVisionResponseJson(resp: any): unknown {
-  const maybeParsed = (resp as any)?.output_parsed
-  if (maybeParsed && typeof maybeParsed === 'object') return maybeParsed
-
-  const text = String((resp as any)?.output_text ?? '').trim()
+function parseVisionResponseJson(content: string): unknown {
+  const text = String(content ?? '').trim()
   if (!text) throw new Error('VISION_EMPTY_RESPONSE')
   return JSON.parse(text)
 }
@@ -39,15 +36,15 @@ async function withTimeout<T>(ms: number, fn: (signal: AbortSignal) => Promise<T
 }
 
 export async function extractFromImagesWithVision(params: {
-  client: OpenAI
-  model: string
+  llm: LlmProvider
+  model?: string
   prompt: string
   images: VisionInputImage[]
   requestId: string
   retries?: number
   timeoutMs?: number
 }): Promise<VisionExtract> {
-  const { client, model, prompt, images, requestId } = params
+  const { llm, model, prompt, images, requestId } = params
   const retries = Number.isFinite(params.retries) ? Math.max(0, Number(params.retries)) : 2
   const timeoutMs = Number.isFinite(params.timeoutMs) ? Math.max(3000, Number(params.timeoutMs)) : 11_000
   const defaultLanguage: 'hu' | 'en' = detectHungarian(prompt) ? 'hu' : 'en'
@@ -78,56 +75,37 @@ export async function extractFromImagesWithVision(params: {
   for (let attempt = 0; attempt <= retries; attempt += 1) {
     const retryInstruction = attempt > 0 ? 'Return ONLY valid JSON matching the schema. No markdown.' : ''
     try {
-      const resp = await withTimeout(timeoutMs, (signal) =>
-        client.responses.create(
-          {
-            model,
-            input: [
-              {
-                role: 'system',
-                content: [
-                  {
-                    type: 'input_text',
-                    text: [
-                      'You extract study material from uploaded images.',
-                      'Return only JSON with factual extracted content seen in the images.',
-                      'Focus on headings, exercises, formulas, questions, and task statements.',
-                      'Use Hungarian if the content appears Hungarian.',
-                      retryInstruction,
-                    ].filter(Boolean).join('\n'),
-                  },
-                ],
-              },
-              {
-                role: 'user',
-                content: [
-                  {
-                    type: 'input_text',
-                    text: `User prompt:\n${prompt || '(empty)'}`,
-                  },
-                  ...images.map((img) => ({
-                    type: 'input_image' as const,
-                    image_url: `data:${img.mime};base64,${img.b64}`,
-                  })),
-                ],
-              },
-            ],
-            max_output_tokens: 800,
-            temperature: 0,
-            response_format: {
-              type: 'json_schema',
-              json_schema: {
-                name: 'vision_extract',
-                strict: true,
-                schema,
-              },
-            } as any,
-          } as any,
-          { signal }
-        )
+      const content = await withTimeout(timeoutMs, (signal) =>
+        llm.complete({
+          task: 'vision.extract',
+          model,
+          messages: [
+            {
+              role: 'system',
+              content: [
+                'You extract study material from uploaded images.',
+                'Return only JSON with factual extracted content seen in the images.',
+                'Focus on headings, exercises, formulas, questions, and task statements.',
+                'Use Hungarian if the content appears Hungarian.',
+                retryInstruction,
+              ].filter(Boolean).join('\n'),
+            },
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: `User prompt:\n${prompt || '(empty)'}` },
+                ...images.map((img) => ({ type: 'image' as const, image: img })),
+              ],
+            },
+          ],
+          maxTokens: 800,
+          temperature: 0,
+          jsonSchema: { name: 'vision_extract', strict: true, schema },
+          signal,
+        })
       )
 
-      const parsed = parseVisionResponseJson(resp)
+      const parsed = parseVisionResponseJson(content)
       const validated = VisionExtractSchema.parse(parsed)
       return {
         extracted: String(validated.extracted || '').trim(),
@@ -0,0 +1,106 @@
+import { createHash } from 'node:crypto'
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_VOCAB_AUDIO } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { getLlm, isLlmConfigured } from '@/lib/llm'
+import { vocabLanguageLabel } from '@/lib/vocabLanguages'
+import { getVocabSet, vocabError } from '@/lib/vocabSets'
+
+export type CardSide = 'term' | 'translation'
+
+export const VOCAB_AUDIO_BUCKET = 'vocab-audio'
+const SIGNED_URL_SECONDS = 60 * 60
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function readInt(value: string | undefined, fallback: number) {
+  const n = Number.parseInt(String(value ?? ''), 10)
+  return Number.isFinite(n) && n > 0 ? n : fallback
+}
+
+function audioVoice() {
+  return String(process.env.VOCAB_TTS_VOICE || 'alloy').trim()
+}
+
+/** Clips one user may have synthesized per rolling day; cached clips never count. */
+function dailyLimit() {
+  return readInt(process.env.VOCAB_AUDIO_DAILY_LIMIT, 300)
+}
+
+/** Cache key: the same text in the same voice and language is synthesized once for everyone. */
+export function audioCacheKey(text: string, voice: string, lang: string) {
+  return createHash('sha256').update(`${lang}\n${voice}\n${text.normalize('NFC')}`).digest('hex')
+}
+
+async function signedUrl(path: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.storage.from(VOCAB_AUDIO_BUCKET).createSignedUrl(path, SIGNED_URL_SECONDS)
+  if (error || !data?.signedUrl) throw error ?? new Error('Could not sign the audio URL')
+  return data.signedUrl
+}
+
+async function assertUnderDailyLimit(userId: string) {
+  const sb = createServerAdminClient()
+  const { count, error } = await sb
+    .from(TABLE_VOCAB_AUDIO)
+    .select('hash', { count: 'exact', head: true })
+    .eq('created_by', userId)
+    .gte('created_at', new Date(Date.now() - DAY_MS).toISOString())
+  if (error) throw error
+  if ((count ?? 0) >= dailyLimit()) {
+    vocabError('AUDIO_LIMIT', 'Daily pronunciation limit reached. Cards you already played still work.', 429)
+  }
+}
+
+/**
+ * Signed URL for the pronunciation of one side of a saved card, in that side's language.
+ * The first request for a (text, voice, language) synthesizes and stores the clip; every later
+ * one, from any user, is served from Storage. No credits are charged.
+ */
+export async function getCardAudio(userId: string, input: { setId: string; cardId: string; side: CardSide }) {
+  const set = await getVocabSet(userId, input.setId)
+  const card = set.cards.find((c) => c.id === input.cardId)
+  if (!card) vocabError('CARD_NOT_FOUND', 'Card not found in this set', 404)
+
+  const text = (input.side === 'term' ? card.term : card.translation).trim()
+  const lang = input.side === 'term' ? set.sourceLang : set.targetLang
+  const voice = audioVoice()
+  const hash = audioCacheKey(text, voice, lang)
+
+  const sb = createServerAdminClient()
+  const { data: cached, error } = await sb.from(TABLE_VOCAB_AUDIO).select('storage_path').eq('hash', hash).maybeSingle()
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_AUDIO)
+    throw error
+  }
+  if (cached?.storage_path) return { url: await signedUrl(String(cached.storage_path)), cached: true }
+
+  if (!isLlmConfigured()) vocabError('TTS_UNAVAILABLE', 'Pronunciation is not available right now', 503)
+  await assertUnderDailyLimit(userId)
+
+  const speech = await getLlm().speech({
+    text,
+    voice,
+    format: 'mp3',
+    instructions: `Pronounce this ${vocabLanguageLabel(lang)} word or phrase clearly, as a native speaker would.`,
+  })
+  const path = `${hash.slice(0, 2)}/${hash}.${speech.contentType === 'audio/wav' ? 'wav' : 'mp3'}`
+  const { error: upErr } = await sb.storage
+    .from(VOCAB_AUDIO_BUCKET)
+    .upload(path, speech.audio, { contentType: speech.contentType, upsert: true })
+  if (upErr) throw upErr
+
+  // A parallel request may have stored the same clip first; both wrote identical audio.
+  const { error: insErr } = await sb.from(TABLE_VOCAB_AUDIO).insert({
+    hash,
+    lang,
+    voice,
+    text,
+    storage_path: path,
+    content_type: speech.contentType,
+    bytes: speech.audio.length,
+    created_by: userId,
+  })
+  if (insErr && (insErr as any).code !== '23505') throw insErr
+
+  return { url: await signedUrl(path), cached: false }
+}
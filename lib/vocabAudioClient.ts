@@ -0,0 +1,26 @@
+import { authedFetch } from '@/lib/authClient'
+
+type Side = 'term' | 'translation'
+
+// Signed URLs from /api/vocab/audio last an hour; reuse them for a bit less than that.
+const URL_TTL_MS = 50 * 60 * 1000
+const urls = new Map<string, { url: string; expiresAt: number }>()
+
+async function cardAudioUrl(setId: string, cardId: string, side: Side) {
+  const key = `${setId}:${cardId}:${side}`
+  const hit = urls.get(key)
+  if (hit && hit.expiresAt > Date.now()) return hit.url
+
+  const qs = new URLSearchParams({ setId, cardId, side })
+  const res = await authedFetch(`/api/vocab/audio?${qs}`, { cache: 'no-store' })
+  const json = await res.json().catch(() => ({} as any))
+  if (!res.ok || !json?.url) throw new Error(json?.error?.message ?? 'Could not load pronunciation')
+  urls.set(key, { url: String(json.url), expiresAt: Date.now() + URL_TTL_MS })
+  return String(json.url)
+}
+
+/** Plays one side of a saved card; resolves once playback has started. */
+export async function playCardAudio(setId: string, cardId: string, side: Side) {
+  const audio = new Audio(await cardAudioUrl(setId, cardId, side))
+  await audio.play()
+}
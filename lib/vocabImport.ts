@@ -0,0 +1,157 @@
+// Parsers for word lists made elsewhere (spreadsheets, Quizlet exports). Pure, no AI involved.
+
+export type ImportedItem = { term: string; translation: string; example?: string }
+
+export type TextImportFormat = 'auto' | 'csv' | 'tsv' | 'quizlet'
+
+/** Most cards one set holds; the AI route caps its output at the same size. */
+export const MAX_SET_CARDS = 300
+
+const HEADER_TERM = ['term', 'word', 'front', 'question', 'szó', 'kifejezés']
+const HEADER_TRANSLATION = ['translation', 'definition', 'meaning', 'back', 'answer', 'jelentés', 'fordítás']
+const HEADER_EXAMPLE = ['example', 'sentence', 'példa', 'példamondat']
+
+/** Splits delimited text into rows, honouring double-quoted fields ("" escapes a quote). */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        field += ch
+      }
+      continue
+    }
+    if (ch === '"' && field.trim() === '') {
+      quoted = true
+      field = ''
+    } else if (ch === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ''))
+}
+
+/** Tab wins (Quizlet/Excel copy), then semicolon (Hungarian-locale Excel CSV), then comma. */
+export function detectDelimiter(text: string) {
+  const sample = text.split(/\r?\n/).filter((l) => l.trim()).slice(0, 20)
+  const count = (ch: string) => sample.filter((l) => l.includes(ch)).length
+  if (count('\t') >= Math.ceil(sample.length / 2)) return '\t'
+  if (count(';') > count(',')) return ';'
+  return ','
+}
+
+function headerIndex(cells: string[], names: string[]) {
+  return cells.findIndex((c) => names.includes(c.trim().toLowerCase()))
+}
+
+function fromRows(rows: string[][]): ImportedItem[] {
+  if (!rows.length) return []
+  let cols = { term: 0, translation: 1, example: 2 }
+  const first = rows[0]
+  const term = headerIndex(first, HEADER_TERM)
+  const translation = headerIndex(first, HEADER_TRANSLATION)
+  if (term >= 0 && translation >= 0) {
+    cols = { term, translation, example: headerIndex(first, HEADER_EXAMPLE) }
+    rows = rows.slice(1)
+  }
+  return rows.map((r) => ({
+    term: r[cols.term] ?? '',
+    translation: r[cols.translation] ?? '',
+    example: cols.example >= 0 ? r[cols.example] : undefined,
+  }))
+}
+
+/**
+ * Quizlet's "Export" text: one card per row (newline or `;` between cards), term and definition
+ * separated by a tab, " - " or a comma, whichever the row has first in that order.
+ */
+export function parseQuizlet(text: string): ImportedItem[] {
+  const rows = text.includes('\n') ? text.split(/\r?\n/) : text.split(';')
+  const out: ImportedItem[] = []
+  for (const row of rows) {
+    const line = row.trim()
+    if (!line) continue
+    const sep = ['\t', ' - ', ' – ', ','].find((s) => line.includes(s))
+    if (!sep) continue
+    const at = line.indexOf(sep)
+    out.push({ term: line.slice(0, at), translation: line.slice(at + sep.length) })
+  }
+  return out
+}
+
+/** Two terms are duplicates when they match ignoring case and surrounding whitespace. */
+export function termKey(term: string) {
+  return term.trim().toLowerCase()
+}
+
+/** Trims, drops incomplete rows and keeps the first card for each `termKey`. */
+export function cleanItems(items: ImportedItem[], limit = MAX_SET_CARDS): ImportedItem[] {
+  const seen = new Set<string>()
+  const out: ImportedItem[] = []
+  for (const it of items) {
+    const term = String(it.term ?? '').replace(/\s+/g, ' ').trim()
+    const translation = String(it.translation ?? '').replace(/\s+/g, ' ').trim()
+    const example = String(it.example ?? '').replace(/\s+/g, ' ').trim()
+    if (!term || !translation) continue
+    const key = termKey(term)
+    if (seen.has(key)) continue
+    seen.add(key)
+    out.push({ term, translation, ...(example ? { example } : {}) })
+    if (out.length >= limit) break
+  }
+  return out
+}
+
+export function parseVocabText(text: string, format: TextImportFormat = 'auto'): ImportedItem[] {
+  const body = text.replace(/^\ufeff/, '')
+  if (format === 'quizlet') return cleanItems(parseQuizlet(body))
+  if (format === 'tsv') return cleanItems(fromRows(parseDelimited(body, '\t')))
+  if (format === 'csv') {
+    const delimiter = detectDelimiter(body)
+    return cleanItems(fromRows(parseDelimited(body, delimiter === '\t' ? ',' : delimiter)))
+  }
+
+  const delimiter = detectDelimiter(body)
+  const lines = body.split(/\r?\n/).filter((l) => l.trim())
+  if (delimiter !== '\t' && lines.length && lines.every((l) => / [-–] /.test(l))) return cleanItems(parseQuizlet(body))
+  const rows = parseDelimited(body, delimiter)
+  if (rows.length && rows.every((r) => r.length >= 2)) return cleanItems(fromRows(rows))
+  // Rows without a delimiter: pasted Quizlet text with " - " or ";" separators.
+  return cleanItems(parseQuizlet(body))
+}
+
+function csvField(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** UTF-8 CSV with a header row; the BOM makes Excel pick up the encoding. */
+export function toCsv(items: ImportedItem[]) {
+  const lines = [['term', 'translation', 'example'].join(',')]
+  for (const it of items) lines.push([it.term, it.translation, it.example ?? ''].map(csvField).join(','))
+  return `\ufeff${lines.join('\r\n')}\r\n`
+}
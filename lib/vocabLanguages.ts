@@ -0,0 +1,133 @@
+// Languages offered for vocab sets, shared by the /vocab page and the vocab API routes.
+
+export type VocabLanguage = {
+  code: string
+  label: string
+  /** Written right to left; text fields switch direction for it. */
+  rtl?: boolean
+}
+
+export const VOCAB_LANGUAGES: VocabLanguage[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hu', label: 'Hungarian' },
+  { code: 'de', label: 'German' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'sv', label: 'Swedish' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'cs', label: 'Czech' },
+  { code: 'sk', label: 'Slovak' },
+  { code: 'ro', label: 'Romanian' },
+  { code: 'hr', label: 'Croatian' },
+  { code: 'tr', label: 'Turkish' },
+  { code: 'ru', label: 'Russian' },
+  { code: 'uk', label: 'Ukrainian' },
+  { code: 'el', label: 'Greek' },
+  { code: 'ar', label: 'Arabic', rtl: true },
+  { code: 'he', label: 'Hebrew', rtl: true },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ko', label: 'Korean' },
+  { code: 'la', label: 'Latin' },
+]
+
+/** `sourceLang` value asking the server to work out the language of the input. */
+export const AUTO_LANGUAGE = 'auto'
+
+export function isVocabLanguage(code: string) {
+  return VOCAB_LANGUAGES.some((l) => l.code === code)
+}
+
+export function vocabLanguageLabel(code: string) {
+  return VOCAB_LANGUAGES.find((l) => l.code === code)?.label ?? code
+}
+
+/** Target to pair with a detected source: Hungarian, or English when the source is Hungarian. */
+export function defaultTargetFor(sourceLang: string) {
+  return sourceLang === 'hu' ? 'en' : 'hu'
+}
+
+// Writing systems that identify the language on their own (Cyrillic and Han need a second look).
+const SCRIPTS: { code: string; re: RegExp }[] = [
+  { code: 'cyrillic', re: /\p{Script=Cyrillic}/u },
+  { code: 'el', re: /\p{Script=Greek}/u },
+  { code: 'ar', re: /\p{Script=Arabic}/u },
+  { code: 'he', re: /\p{Script=Hebrew}/u },
+  { code: 'ko', re: /\p{Script=Hangul}/u },
+  { code: 'kana', re: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  { code: 'han', re: /\p{Script=Han}/u },
+]
+
+/** Latin-script hints: letters only (or mostly) one language uses, and very common short words. */
+const LATIN_HINTS: Record<string, { strong?: RegExp; weak?: RegExp; words: string[] }> = {
+  en: { words: ['the', 'and', 'is', 'of', 'to', 'in', 'not', 'with', 'you', 'it', 'this', 'are'] },
+  hu: { strong: /[őű]/, weak: /[áéíóöüú]/, words: ['a', 'az', 'és', 'hogy', 'nem', 'van', 'egy', 'is', 'meg'] },
+  de: { strong: /ß/, weak: /[äöü]/, words: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'ich'] },
+  fr: { strong: /[çœ]/, weak: /[èêëàâîïôûù]/, words: ['le', 'la', 'les', 'et', 'est', 'un', 'une', 'des', 'du', 'pas', 'je', 'avec'] },
+  es: { strong: /[ñ¿¡]/, weak: /[áéíóú]/, words: ['el', 'la', 'los', 'las', 'y', 'es', 'un', 'una', 'que', 'con', 'por', 'yo'] },
+  it: { weak: /[àèìòù]\b/, words: ['il', 'lo', 'gli', 'le', 'e', 'è', 'un', 'una', 'di', 'che', 'con', 'per', 'non'] },
+  pt: { strong: /[ãõ]/, weak: /[çâêô]/, words: ['o', 'os', 'as', 'e', 'é', 'um', 'uma', 'de', 'que', 'não', 'com', 'eu'] },
+  nl: { strong: /ij/, words: ['de', 'het', 'een', 'en', 'is', 'niet', 'van', 'ik', 'dat', 'met'] },
+  sv: { strong: /å/, weak: /[äö]/, words: ['och', 'är', 'en', 'ett', 'inte', 'jag', 'det', 'som', 'med'] },
+  pl: { strong: /[ąęłńśźż]/, words: ['i', 'jest', 'to', 'na', 'się', 'w', 'nie', 'z', 'że'] },
+  cs: { strong: /[ěřů]/, weak: /[čďňšťž]/, words: ['a', 'je', 'to', 'na', 'se', 'v', 'jsou', 'není', 'že'] },
+  sk: { strong: /[ľĺŕ]/, weak: /[ôäčďňšťž]/, words: ['a', 'je', 'to', 'na', 'sa', 'v', 'sú', 'nie', 'že'] },
+  ro: { strong: /[ășşțţ]/, weak: /[âî]/, words: ['și', 'este', 'un', 'o', 'de', 'la', 'cu', 'nu', 'pe', 'în'] },
+  hr: { strong: /đ/, weak: /[čćšž]/, words: ['i', 'je', 'u', 'na', 'se', 'da', 'ne', 'su'] },
+  tr: { strong: /[ğış]/, weak: /[çöü]/, words: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ne', 'ben'] },
+  la: { words: ['et', 'est', 'in', 'non', 'ad', 'cum', 'sed', 'ut', 'sum'] },
+}
+
+function scriptLanguage(text: string): string | null {
+  const letters = text.match(/\p{L}/gu) ?? []
+  if (!letters.length) return null
+  const counts = new Map<string, number>()
+  for (const ch of letters) {
+    const hit = SCRIPTS.find((s) => s.re.test(ch))
+    if (hit) counts.set(hit.code, (counts.get(hit.code) ?? 0) + 1)
+  }
+  // Japanese mixes kana with kanji (Han); any kana at all means Japanese.
+  if (counts.get('kana')) return 'ja'
+  const [top, n] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0] ?? [null, 0]
+  if (!top || n < letters.length / 2) return null
+  if (top === 'han') return 'zh'
+  if (top === 'cyrillic') return /[іїєґ]/i.test(text) ? 'uk' : 'ru'
+  return top
+}
+
+/**
+ * Best guess at the language of a word list or text, or null when the hints are too weak
+ * (short lists of plain a-z words are often ambiguous). Non-Latin scripts are decided by script.
+ */
+export function detectLanguage(text: string): string | null {
+  const sample = text.slice(0, 5000)
+  const byScript = scriptLanguage(sample)
+  if (byScript) return byScript
+
+  const lower = sample.toLowerCase()
+  const words = lower.match(/\p{L}+/gu) ?? []
+  if (words.length < 2) return null
+
+  const scores = new Map<string, number>()
+  for (const [code, hint] of Object.entries(LATIN_HINTS)) {
+    let score = 0
+    if (hint.strong) score += (lower.match(new RegExp(hint.strong.source, 'g')) ?? []).length * 3
+    if (hint.weak) score += (lower.match(new RegExp(hint.weak.source, 'g')) ?? []).length
+    for (const w of words) if (hint.words.includes(w)) score += 2
+    if (score) scores.set(code, score)
+  }
+  // Latin word lists lean on declension endings rather than small words.
+  const latinEndings = words.filter((w) => /(orum|arum|ibus|ae|um)$/.test(w)).length
+  if (latinEndings >= Math.max(2, words.length / 3)) scores.set('la', (scores.get('la') ?? 0) + latinEndings)
+  // No diacritics at all is weak evidence for English.
+  if (!/[^\x00-\x7f]/.test(lower) && scores.has('en')) scores.set('en', (scores.get('en') ?? 0) + 1)
+
+  const ranked = Array.from(scores.entries()).sort((a, b) => b[1] - a[1])
+  const [best, second] = ranked
+  if (!best || best[1] < 3) return null
+  if (second && best[1] < second[1] * 1.5) return null
+  return best[0]
+}
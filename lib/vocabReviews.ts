@@ -0,0 +1,120 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_VOCAB_REVIEWS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { endOfDay, newSrsState, scheduleReview, startOfDay, type ReviewGrade, type SrsState } from '@/lib/srs'
+import { getVocabSet, listVocabSets, vocabError, type VocabCard } from '@/lib/vocabSets'
+
+export type DueCard = VocabCard & {
+  setId: string
+  sourceLang: string
+  targetLang: string
+  isNew: boolean
+  state: SrsState
+}
+
+/** New cards introduced per day across all sets, on top of the due reviews. */
+export const NEW_CARDS_PER_DAY = 20
+const MAX_DUE = 200
+
+function toState(row: any): SrsState {
+  return {
+    ease: Number(row.ease ?? 2.5),
+    intervalDays: Number(row.interval_days ?? 0),
+    repetitions: Number(row.repetitions ?? 0),
+    lapses: Number(row.lapses ?? 0),
+    dueAt: String(row.due_at),
+    lastReviewedAt: row.last_reviewed_at ?? null,
+  }
+}
+
+async function loadReviews(userId: string) {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb.from(TABLE_VOCAB_REVIEWS).select('*').eq('user_id', userId)
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_REVIEWS)
+    throw error
+  }
+  return Array.isArray(data) ? data : []
+}
+
+/**
+ * Today's queue across the user's sets (or one set): reviews due before the end of the user's day,
+ * most overdue first, then up to NEW_CARDS_PER_DAY unseen cards minus those already started today.
+ * The new-card allowance is per user: cards started today in any set count, even when one set is asked for.
+ */
+export async function listDueCards(
+  userId: string,
+  options: { setId?: string | null; limit?: number; tzOffsetMinutes?: number; now?: Date } = {}
+) {
+  const now = options.now ?? new Date()
+  const tz = Math.max(-840, Math.min(840, Math.trunc(options.tzOffsetMinutes ?? 0)))
+  const dayEnd = endOfDay(now, tz).getTime()
+  const dayStart = startOfDay(now, tz).getTime()
+  const limit = Math.min(MAX_DUE, Math.max(1, Math.trunc(options.limit ?? MAX_DUE)))
+
+  const sets = options.setId ? [await getVocabSet(userId, options.setId)] : await listVocabSets(userId)
+  const rows = await loadReviews(userId)
+  const states = new Map(rows.map((row: any) => [`${row.set_id}:${row.card_id}`, row]))
+  const startedToday = rows.filter((row: any) => Date.parse(String(row.created_at)) >= dayStart).length
+
+  const due: DueCard[] = []
+  const fresh: DueCard[] = []
+  for (const set of sets) {
+    for (const card of set.cards) {
+      if (!card.id) continue
+      const row = states.get(`${set.id}:${card.id}`)
+      const base = { ...card, setId: set.id, sourceLang: set.sourceLang, targetLang: set.targetLang }
+      if (!row) fresh.push({ ...base, isNew: true, state: newSrsState(now) })
+      else if (Date.parse(String(row.due_at)) < dayEnd) due.push({ ...base, isNew: false, state: toState(row) })
+    }
+  }
+
+  due.sort((a, b) => Date.parse(a.state.dueAt) - Date.parse(b.state.dueAt))
+  const newAllowed = Math.max(0, NEW_CARDS_PER_DAY - startedToday)
+  const cards = [...due, ...fresh.slice(0, newAllowed)].slice(0, limit)
+  return {
+    cards,
+    counts: {
+      review: due.length,
+      new: Math.min(fresh.length, newAllowed),
+      unseen: fresh.length,
+    },
+  }
+}
+
+export async function recordReview(userId: string, input: { setId: string; cardId: string; grade: ReviewGrade; now?: Date }) {
+  const now = input.now ?? new Date()
+  const set = await getVocabSet(userId, input.setId)
+  if (!set.cards.some((card) => card.id === input.cardId)) vocabError('CARD_NOT_FOUND', 'Card not found in this set', 404)
+
+  const sb = createServerAdminClient()
+  const { data: existing, error } = await sb
+    .from(TABLE_VOCAB_REVIEWS)
+    .select('*')
+    .eq('set_id', set.id)
+    .eq('card_id', input.cardId)
+    .maybeSingle()
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_REVIEWS)
+    throw error
+  }
+
+  const next = scheduleReview(existing ? toState(existing) : newSrsState(now), input.grade, now)
+  const { error: upErr } = await sb.from(TABLE_VOCAB_REVIEWS).upsert(
+    {
+      set_id: set.id,
+      card_id: input.cardId,
+      user_id: userId,
+      ease: next.ease,
+      interval_days: next.intervalDays,
+      repetitions: next.repetitions,
+      lapses: next.lapses,
+      last_grade: input.grade,
+      due_at: next.dueAt,
+      last_reviewed_at: next.lastReviewedAt,
+    },
+    { onConflict: 'set_id,card_id' }
+  )
+  if (upErr) throw upErr
+  return next
+}
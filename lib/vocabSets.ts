@@ -0,0 +1,277 @@
+import { createServerAdminClient } from '@/lib/supabase/server'
+import { TABLE_VOCAB_REVIEWS, TABLE_VOCAB_SETS } from '@/lib/dbTables'
+import { throwIfMissingTable } from '@/lib/supabaseErrors'
+import { MAX_SET_CARDS, termKey } from '@/lib/vocabImport'
+
+export type VocabCard = {
+  /** Assigned by the `vocab_cards_assign_ids` trigger. */
+  id: string
+  term: string
+  translation: string
+  example?: string
+}
+
+export type VocabSet = {
+  id: string
+  userId: string
+  sourceLang: string
+  targetLang: string
+  cards: VocabCard[]
+  createdAt: string
+}
+
+export type CardInput = { term: string; translation: string; example?: string | null }
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SET_COLUMNS = 'id, user_id, from_lang, to_lang, cards, created_at, updated_at'
+const MAX_TERM_CHARS = 200
+const MAX_TEXT_CHARS = 1000
+const WRITE_ATTEMPTS = 3
+
+export function vocabError(code: string, message: string, status: number): never {
+  const err: any = new Error(message)
+  err.code = code
+  err.status = status
+  throw err
+}
+
+function toCard(raw: any): VocabCard | null {
+  const term = String(raw?.term ?? '').trim()
+  const translation = String(raw?.translation ?? '').trim()
+  if (!term || !translation) return null
+  return { id: String(raw?.id ?? ''), term, translation, ...(raw?.example ? { example: String(raw.example) } : {}) }
+}
+
+export function toVocabSet(row: any): VocabSet {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    sourceLang: String(row.from_lang ?? ''),
+    targetLang: String(row.to_lang ?? ''),
+    cards: (Array.isArray(row.cards) ? row.cards : []).map(toCard).filter(Boolean) as VocabCard[],
+    createdAt: String(row.created_at),
+  }
+}
+
+export async function listVocabSets(userId: string, limit = 200): Promise<VocabSet[]> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_VOCAB_SETS)
+    .select(SET_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_SETS)
+    throw error
+  }
+  return (Array.isArray(data) ? data : []).map(toVocabSet)
+}
+
+/** The user's set, or 404 (also for sets owned by someone else). */
+export async function getVocabSet(userId: string, setId: string): Promise<VocabSet> {
+  if (!UUID_RE.test(setId)) vocabError('NOT_FOUND', 'Vocab set not found', 404)
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_VOCAB_SETS)
+    .select(SET_COLUMNS)
+    .eq('id', setId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_SETS)
+    throw error
+  }
+  if (!data) vocabError('NOT_FOUND', 'Vocab set not found', 404)
+  return toVocabSet(data)
+}
+
+/** Saves a new set; card ids are filled in by the insert trigger. */
+export async function createVocabSet(
+  userId: string,
+  input: { sourceLang: string; targetLang: string; cards: Omit<VocabCard, 'id'>[] }
+): Promise<VocabSet> {
+  const sb = createServerAdminClient()
+  const { data, error } = await sb
+    .from(TABLE_VOCAB_SETS)
+    .insert({ user_id: userId, from_lang: input.sourceLang, to_lang: input.targetLang, cards: input.cards })
+    .select(SET_COLUMNS)
+    .single()
+  if (error) {
+    throwIfMissingTable(error, TABLE_VOCAB_SETS)
+    throw error
+  }
+  return toVocabSet(data)
+}
+
+function cleanText(value: unknown) {
+  return String(value ?? '').replace(/\s+/g, ' ').trim()
+}
+
+function toCardFields(input: CardInput): Omit<VocabCard, 'id'> {
+  const term = cleanText(input.term)
+  const translation = cleanText(input.translation)
+  const example = cleanText(input.example)
+  if (!term || !translation) vocabError('INVALID_CARD', 'A card needs both a term and a translation', 400)
+  if (term.length > MAX_TERM_CHARS || translation.length > MAX_TEXT_CHARS || example.length > MAX_TEXT_CHARS) {
+    vocabError('INVALID_CARD', 'This card is too long', 400)
+  }
+  return { term, translation, ...(example ? { example } : {}) }
+}
+
+/**
+ * Read-modify-write of a set's cards. The write only lands if `updated_at` is unchanged since the
+ * read; otherwise the change is re-applied to the fresh cards, and a 409 is raised if that keeps failing.
+ */
+async function writeCards(userId: string, setId: string, change: (set: VocabSet) => VocabCard[]) {
+  const sb = createServerAdminClient()
+  for (let attempt = 0; attempt < WRITE_ATTEMPTS; attempt++) {
+    if (!UUID_RE.test(setId)) vocabError('NOT_FOUND', 'Vocab set not found', 404)
+    const { data: row, error } = await sb.from(TABLE_VOCAB_SETS).select(SET_COLUMNS).eq('id', setId).eq('user_id', userId).maybeSingle()
+    if (error) {
+      throwIfMissingTable(error, TABLE_VOCAB_SETS)
+      throw error
+    }
+    if (!row) vocabError('NOT_FOUND', 'Vocab set not found', 404)
+
+    const cards = change(toVocabSet(row))
+    if (cards.length > MAX_SET_CARDS) vocabError('SET_FULL', `A set can hold at most ${MAX_SET_CARDS} cards`, 400)
+    const { data: updated, error: updErr } = await sb
+      .from(TABLE_VOCAB_SETS)
+      .update({ cards: cards.map(({ id, ...rest }) => (id ? { id, ...rest } : rest)) })
+      .eq('id', setId)
+      .eq('user_id', userId)
+      .eq('updated_at', row.updated_at)
+      .select(SET_COLUMNS)
+      .maybeSingle()
+    if (updErr) throw updErr
+    if (updated) return toVocabSet(updated)
+  }
+  vocabError('CONFLICT', 'The set was changed somewhere else. Reload it and try again.', 409)
+}
+
+async function deleteReviews(setId: string, cardIds: string[]) {
+  if (!cardIds.length) return
+  const sb = createServerAdminClient()
+  const { error } = await sb.from(TABLE_VOCAB_REVIEWS).delete().eq('set_id', setId).in('card_id', cardIds)
+  if (error) throw error
+}
+
+/** Appends cards, skipping terms the set already has (and repeats within `inputs`). */
+export async function addCards(userId: string, setId: string, inputs: CardInput[]) {
+  const fields = inputs.map(toCardFields)
+  let skipped = 0
+  const set = await writeCards(userId, setId, (current) => {
+    const seen = new Set(current.cards.map((c) => termKey(c.term)))
+    const added: VocabCard[] = []
+    skipped = 0
+    for (const f of fields) {
+      const key = termKey(f.term)
+      if (seen.has(key)) {
+        skipped++
+        continue
+      }
+      seen.add(key)
+      added.push({ id: '', ...f })
+    }
+    return [...current.cards, ...added]
+  })
+  return { set, added: fields.length - skipped, skipped }
+}
+
+export async function updateCard(userId: string, setId: string, cardId: string, patch: Partial<CardInput>) {
+  return writeCards(userId, setId, (current) => {
+    const card = current.cards.find((c) => c.id === cardId)
+    if (!card) vocabError('CARD_NOT_FOUND', 'Card not found in this set', 404)
+    const next = toCardFields({
+      term: patch.term ?? card.term,
+      translation: patch.translation ?? card.translation,
+      example: patch.example === undefined ? card.example : patch.example,
+    })
+    const key = termKey(next.term)
+    if (current.cards.some((c) => c.id !== cardId && termKey(c.term) === key)) {
+      vocabError('DUPLICATE_TERM', `"${next.term}" is already in this set`, 409)
+    }
+    return current.cards.map((c) => (c.id === cardId ? { id: cardId, ...next } : c))
+  })
+}
+
+/** Removes the card and its review history. */
+export async function deleteCard(userId: string, setId: string, cardId: string) {
+  const set = await writeCards(userId, setId, (current) => {
+    if (!current.cards.some((c) => c.id === cardId)) vocabError('CARD_NOT_FOUND', 'Card not found in this set', 404)
+    return current.cards.filter((c) => c.id !== cardId)
+  })
+  await deleteReviews(setId, [cardId])
+  return set
+}
+
+/** `cardIds` must list every card of the set exactly once, in the new order. */
+export async function reorderCards(userId: string, setId: string, cardIds: string[]) {
+  return writeCards(userId, setId, (current) => {
+    const byId = new Map(current.cards.map((c) => [c.id, c]))
+    if (cardIds.length !== byId.size || new Set(cardIds).size !== cardIds.length || cardIds.some((id) => !byId.has(id))) {
+      vocabError('ORDER_MISMATCH', 'The new order must list every card of the set once', 400)
+    }
+    return cardIds.map((id) => byId.get(id)!)
+  })
+}
+
+/** Drops later cards whose term repeats an earlier one, with their review history. */
+export async function dedupeSet(userId: string, setId: string) {
+  let removed: string[] = []
+  const set = await writeCards(userId, setId, (current) => {
+    const seen = new Set<string>()
+    removed = []
+    return current.cards.filter((c) => {
+      const key = termKey(c.term)
+      if (seen.has(key)) {
+        removed.push(c.id)
+        return false
+      }
+      seen.add(key)
+      return true
+    })
+  })
+  await deleteReviews(setId, removed)
+  return { set, removed: removed.length }
+}
+
+/**
+ * Appends the cards of `fromSetId` whose terms `intoSetId` lacks. With `deleteSource` the moved
+ * cards keep their ids and review history and the source set is deleted; otherwise they are
+ * copied as new cards.
+ */
+export async function mergeVocabSets(userId: string, input: { fromSetId: string; intoSetId: string; deleteSource: boolean }) {
+  if (input.fromSetId === input.intoSetId) vocabError('INVALID_REQUEST', 'Pick two different sets to merge', 400)
+  const from = await getVocabSet(userId, input.fromSetId)
+  let moved: VocabCard[] = []
+  const set = await writeCards(userId, input.intoSetId, (into) => {
+    if (into.sourceLang !== from.sourceLang || into.targetLang !== from.targetLang) {
+      vocabError('LANGUAGE_MISMATCH', 'Only sets with the same language pair can be merged', 400)
+    }
+    const seen = new Set(into.cards.map((c) => termKey(c.term)))
+    moved = from.cards.filter((c) => {
+      const key = termKey(c.term)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    return [...into.cards, ...moved.map((c) => (input.deleteSource ? c : { ...c, id: '' }))]
+  })
+
+  if (input.deleteSource) {
+    const sb = createServerAdminClient()
+    if (moved.length) {
+      const { error } = await sb
+        .from(TABLE_VOCAB_REVIEWS)
+        .update({ set_id: set.id })
+        .eq('set_id', from.id)
+        .in('card_id', moved.map((c) => c.id))
+      if (error) throw error
+    }
+    const { error } = await sb.from(TABLE_VOCAB_SETS).delete().eq('id', from.id).eq('user_id', userId)
+    if (error) throw error
+  }
+  return { set, added: moved.length, skipped: from.cards.length - moved.length }
+}
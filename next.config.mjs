@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  images: { unoptimized: true }
+  images: { unoptimized: true },
+  // sql.js loads its .wasm from its own folder at runtime, so it must not be bundled.
+  experimental: { serverComponentsExternalPackages: ['sql.js'] }
 };
 export default nextConfig;
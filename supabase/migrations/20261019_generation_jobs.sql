@@ -0,0 +1,91 @@
+-- Durable queue for plan generation and materials processing.
+create table if not exists public.generation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null,
+  plan_id uuid,
+  kind text not null,
+  status text not null default 'queued',
+  payload jsonb not null default '{}'::jsonb,
+  result jsonb,
+  attempts int not null default 0,
+  max_attempts int not null default 3,
+  run_after timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz,
+  constraint generation_jobs_kind_check check (kind in ('plan', 'materials')),
+  constraint generation_jobs_status_check check (status in ('queued', 'running', 'retrying', 'done', 'failed'))
+);
+
+create index if not exists generation_jobs_claim_idx on public.generation_jobs(status, run_after);
+create index if not exists generation_jobs_plan_idx on public.generation_jobs(plan_id, created_at desc);
+
+drop trigger if exists tr_generation_jobs_touch on public.generation_jobs;
+create trigger tr_generation_jobs_touch
+before update on public.generation_jobs
+for each row execute function public.touch_updated_at();
+
+alter table public.generation_jobs enable row level security;
+
+drop policy if exists "generation_jobs_select_own" on public.generation_jobs;
+create policy "generation_jobs_select_own"
+on public.generation_jobs for select
+using (auth.uid() = user_id);
+
+-- Claims the next runnable job. Running jobs whose lease expired are picked up again
+-- (their worker died mid-run), as long as they still have attempts left.
+create or replace function public.claim_generation_job(p_worker text, p_lease_seconds int default 120)
+returns setof public.generation_jobs
+language plpgsql
+security definer
+as $$
+begin
+  return query
+  with next_job as (
+    select j.id
+    from public.generation_jobs j
+    where (j.status in ('queued', 'retrying') and j.run_after <= now())
+       or (j.status = 'running' and j.locked_until < now() and j.attempts < j.max_attempts)
+    order by j.run_after asc
+    limit 1
+    for update skip locked
+  )
+  update public.generation_jobs j
+  set status = 'running',
+      attempts = j.attempts + 1,
+      locked_by = p_worker,
+      locked_until = now() + make_interval(secs => greatest(p_lease_seconds, 10)),
+      updated_at = now()
+  from next_job
+  where j.id = next_job.id
+  returning j.*;
+end;
+$$;
+
+-- Fails jobs whose lease expired on their last attempt, so their plan stops showing as processing.
+create or replace function public.reap_generation_jobs()
+returns setof public.generation_jobs
+language plpgsql
+security definer
+as $$
+begin
+  return query
+  update public.generation_jobs j
+  set status = 'failed',
+      last_error = coalesce(j.last_error, 'LEASE_EXPIRED'),
+      locked_by = null,
+      locked_until = null,
+      finished_at = now(),
+      updated_at = now()
+  where j.status = 'running'
+    and j.locked_until < now()
+    and j.attempts >= j.max_attempts
+  returning j.*;
+end;
+$$;
+
+revoke all on function public.claim_generation_job(text, int) from public, anon, authenticated;
+revoke all on function public.reap_generation_jobs() from public, anon, authenticated;
@@ -0,0 +1,217 @@
+-- Append-only credit ledger. profiles.credits stays as the cached balance, but every change
+-- goes through apply_credit_delta(), which updates it and appends a ledger row in one transaction.
+create table if not exists public.credit_ledger (
+  id bigint generated always as identity primary key,
+  user_id uuid not null,
+  delta int not null,
+  balance_after int not null,
+  reason text not null,
+  feature text,
+  reference text,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  constraint credit_ledger_reason_check check (reason in ('grant', 'purchase', 'charge', 'refund', 'adjustment')),
+  constraint credit_ledger_delta_check check (delta <> 0)
+);
+
+create index if not exists credit_ledger_user_idx on public.credit_ledger(user_id, id desc);
+create index if not exists credit_ledger_reference_idx on public.credit_ledger(reference);
+
+create or replace function public.credit_ledger_append_only()
+returns trigger language plpgsql as $$
+begin
+  raise exception 'credit_ledger is append-only';
+end;
+$$;
+
+drop trigger if exists tr_credit_ledger_append_only on public.credit_ledger;
+create trigger tr_credit_ledger_append_only
+before update or delete on public.credit_ledger
+for each row execute function public.credit_ledger_append_only();
+
+alter table public.credit_ledger enable row level security;
+
+drop policy if exists "credit_ledger_select_own" on public.credit_ledger;
+create policy "credit_ledger_select_own"
+on public.credit_ledger for select
+using (auth.uid() = user_id);
+
+-- Single entry point for balance changes. Raises INSUFFICIENT_CREDITS instead of going negative.
+create or replace function public.apply_credit_delta(
+  p_user_id uuid,
+  p_delta int,
+  p_reason text,
+  p_feature text default null,
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb
+)
+returns int
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+begin
+  select coalesce(credits, 0) into v_balance from public.profiles where id = p_user_id for update;
+  if not found then
+    if coalesce(p_delta, 0) < 0 then
+      raise exception 'INSUFFICIENT_CREDITS' using errcode = 'P0001';
+    end if;
+    insert into public.profiles(id, credits, starter_granted) values (p_user_id, 0, false);
+    v_balance := 0;
+  end if;
+
+  if p_delta is null or p_delta = 0 then
+    return v_balance;
+  end if;
+
+  if v_balance + p_delta < 0 then
+    raise exception 'INSUFFICIENT_CREDITS' using errcode = 'P0001';
+  end if;
+
+  v_balance := v_balance + p_delta;
+  update public.profiles set credits = v_balance, updated_at = now() where id = p_user_id;
+
+  insert into public.credit_ledger(user_id, delta, balance_after, reason, feature, reference, metadata)
+  values (p_user_id, p_delta, v_balance, p_reason, p_feature, p_reference, coalesce(p_metadata, '{}'::jsonb));
+
+  return v_balance;
+end;
+$$;
+
+-- Existing RPCs keep their signatures but now write through the ledger.
+create or replace function public.consume_credits(user_id uuid, cost int)
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  if cost is null or cost <= 0 then
+    return;
+  end if;
+  perform public.apply_credit_delta(user_id, -cost, 'charge', 'generation');
+end;
+$$;
+
+create or replace function public.add_credits(p_user_id uuid, p_credits int)
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  if p_credits is null or p_credits = 0 then
+    return;
+  end if;
+  perform public.apply_credit_delta(p_user_id, p_credits, 'purchase', 'add_credits');
+end;
+$$;
+
+create or replace function public.consume_generation(p_user_id uuid)
+returns json language plpgsql as $$
+declare
+  p public.profiles;
+begin
+  select * into p from public.profiles where id = p_user_id for update;
+
+  if not found then
+    insert into public.profiles(id, credits, starter_granted) values (p_user_id, 0, false)
+    returning * into p;
+  end if;
+
+  if coalesce(p.credits, 0) <= 0 then
+    raise exception 'NO_CREDITS' using errcode = 'P0001';
+  end if;
+
+  perform public.apply_credit_delta(p_user_id, -1, 'charge', 'generation');
+
+  select * into p from public.profiles where id = p_user_id;
+  return json_build_object('mode','credits','profile',row_to_json(p));
+end;
+$$;
+
+create or replace function public.grant_starter_credits(p_user_id uuid, p_phone_norm text, p_amount int)
+returns json language plpgsql as $$
+declare
+  p public.profiles;
+  used boolean;
+begin
+  select * into p from public.profiles where id = p_user_id for update;
+  if not found then
+    insert into public.profiles(id, credits, starter_granted, phone_normalized)
+    values (p_user_id, 0, false, p_phone_norm)
+    returning * into p;
+  end if;
+
+  if p.starter_granted then
+    return json_build_object('ok', true, 'skipped', true, 'reason', 'already_granted', 'profile', row_to_json(p));
+  end if;
+
+  if p_phone_norm is null or length(trim(p_phone_norm)) = 0 then
+    return json_build_object('ok', false, 'skipped', true, 'reason', 'missing_phone');
+  end if;
+
+  select exists(select 1 from public.profiles where phone_normalized = p_phone_norm and id <> p_user_id) into used;
+  if used then
+    raise exception 'PHONE_USED' using errcode = 'P0001';
+  end if;
+
+  update public.profiles
+    set
+      phone_normalized = p_phone_norm,
+      starter_granted = true
+  where id = p_user_id;
+
+  perform public.apply_credit_delta(p_user_id, p_amount, 'grant', 'starter');
+
+  select * into p from public.profiles where id = p_user_id;
+  return json_build_object('ok', true, 'profile', row_to_json(p));
+end;
+$$;
+
+-- Opening balances, so each user's ledger sums to their current credits.
+insert into public.credit_ledger(user_id, delta, balance_after, reason, feature)
+select p.id, p.credits, p.credits, 'adjustment', 'opening_balance'
+from public.profiles p
+where coalesce(p.credits, 0) <> 0
+  and not exists (select 1 from public.credit_ledger l where l.user_id = p.id);
+
+-- Users whose cached balance no longer matches their ledger (a write bypassed apply_credit_delta).
+create or replace view public.credit_balance_drift as
+select
+  p.id as user_id,
+  coalesce(p.credits, 0) as balance,
+  coalesce(sum(l.delta), 0)::int as ledger_balance
+from public.profiles p
+left join public.credit_ledger l on l.user_id = p.id
+group by p.id, p.credits
+having coalesce(p.credits, 0) <> coalesce(sum(l.delta), 0);
+
+-- Appends an adjustment for any drift so the ledger explains the balance again. Returns the delta.
+create or replace function public.reconcile_credit_balance(p_user_id uuid)
+returns int
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+  v_ledger int;
+begin
+  select coalesce(credits, 0) into v_balance from public.profiles where id = p_user_id for update;
+  if not found then
+    return 0;
+  end if;
+
+  select coalesce(sum(delta), 0) into v_ledger from public.credit_ledger where user_id = p_user_id;
+  if v_balance = v_ledger then
+    return 0;
+  end if;
+
+  insert into public.credit_ledger(user_id, delta, balance_after, reason, feature)
+  values (p_user_id, v_balance - v_ledger, v_balance, 'adjustment', 'reconcile');
+  return v_balance - v_ledger;
+end;
+$$;
+
+revoke all on function public.apply_credit_delta(uuid, int, text, text, text, jsonb) from public, anon, authenticated;
+revoke all on function public.reconcile_credit_balance(uuid) from public, anon, authenticated;
+revoke all on public.credit_balance_drift from anon, authenticated;
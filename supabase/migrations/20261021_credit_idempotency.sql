@@ -0,0 +1,149 @@
+-- Idempotent charge/refund. Ledger rows may carry an idempotency key (e.g. a plan's generation_id);
+-- per user and key, a charge only applies while nothing is outstanding and a refund only while a
+-- charge is, so retried requests can neither double-charge nor double-refund.
+alter table public.credit_ledger add column if not exists idempotency_key text;
+
+create index if not exists credit_ledger_idempotency_idx
+  on public.credit_ledger(user_id, idempotency_key)
+  where idempotency_key is not null;
+
+-- apply_credit_delta gains the key (the ledger is append-only, so it must be set on insert).
+drop function if exists public.apply_credit_delta(uuid, int, text, text, text, jsonb);
+
+create or replace function public.apply_credit_delta(
+  p_user_id uuid,
+  p_delta int,
+  p_reason text,
+  p_feature text default null,
+  p_reference text default null,
+  p_metadata jsonb default '{}'::jsonb,
+  p_idempotency_key text default null
+)
+returns int
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+begin
+  select coalesce(credits, 0) into v_balance from public.profiles where id = p_user_id for update;
+  if not found then
+    if coalesce(p_delta, 0) < 0 then
+      raise exception 'INSUFFICIENT_CREDITS' using errcode = 'P0001';
+    end if;
+    insert into public.profiles(id, credits, starter_granted) values (p_user_id, 0, false);
+    v_balance := 0;
+  end if;
+
+  if p_delta is null or p_delta = 0 then
+    return v_balance;
+  end if;
+
+  if v_balance + p_delta < 0 then
+    raise exception 'INSUFFICIENT_CREDITS' using errcode = 'P0001';
+  end if;
+
+  v_balance := v_balance + p_delta;
+  update public.profiles set credits = v_balance, updated_at = now() where id = p_user_id;
+
+  insert into public.credit_ledger(user_id, delta, balance_after, reason, feature, reference, metadata, idempotency_key)
+  values (p_user_id, p_delta, v_balance, p_reason, p_feature, p_reference, coalesce(p_metadata, '{}'::jsonb), p_idempotency_key);
+
+  return v_balance;
+end;
+$$;
+
+-- Net amount charged under a key (negative while a charge is outstanding).
+create or replace function public.credit_key_outstanding(p_user_id uuid, p_idempotency_key text)
+returns int
+language sql
+stable
+security definer
+as $$
+  select coalesce(sum(delta), 0)::int
+  from public.credit_ledger
+  where user_id = p_user_id
+    and idempotency_key = p_idempotency_key
+    and reason in ('charge', 'refund');
+$$;
+
+create or replace function public.charge_credits(
+  p_user_id uuid,
+  p_amount int,
+  p_idempotency_key text default null,
+  p_feature text default null,
+  p_reference text default null
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+begin
+  -- Serializes all balance changes for this user, including concurrent retries of the same key.
+  select coalesce(credits, 0) into v_balance from public.profiles where id = p_user_id for update;
+  if not found then
+    raise exception 'INSUFFICIENT_CREDITS' using errcode = 'P0001';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    return json_build_object('balance', v_balance, 'applied', false);
+  end if;
+
+  if p_idempotency_key is not null and public.credit_key_outstanding(p_user_id, p_idempotency_key) < 0 then
+    return json_build_object('balance', v_balance, 'applied', false);
+  end if;
+
+  v_balance := public.apply_credit_delta(
+    p_user_id, -p_amount, 'charge', p_feature, p_reference, '{}'::jsonb, p_idempotency_key
+  );
+  return json_build_object('balance', v_balance, 'applied', true);
+end;
+$$;
+
+create or replace function public.refund_credits(
+  p_user_id uuid,
+  p_amount int,
+  p_idempotency_key text default null,
+  p_feature text default null,
+  p_reference text default null
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+  v_amount int := p_amount;
+  v_outstanding int;
+begin
+  select coalesce(credits, 0) into v_balance from public.profiles where id = p_user_id for update;
+  if not found then
+    return json_build_object('balance', 0, 'applied', false);
+  end if;
+
+  if v_amount is null or v_amount <= 0 then
+    return json_build_object('balance', v_balance, 'applied', false);
+  end if;
+
+  -- With a key, refund at most what is still charged under it (nothing if it was never charged).
+  if p_idempotency_key is not null then
+    v_outstanding := public.credit_key_outstanding(p_user_id, p_idempotency_key);
+    v_amount := least(v_amount, -v_outstanding);
+    if v_amount <= 0 then
+      return json_build_object('balance', v_balance, 'applied', false);
+    end if;
+  end if;
+
+  v_balance := public.apply_credit_delta(
+    p_user_id, v_amount, 'refund', p_feature, p_reference, '{}'::jsonb, p_idempotency_key
+  );
+  return json_build_object('balance', v_balance, 'applied', true);
+end;
+$$;
+
+revoke all on function public.apply_credit_delta(uuid, int, text, text, text, jsonb, text) from public, anon, authenticated;
+revoke all on function public.credit_key_outstanding(uuid, text) from public, anon, authenticated;
+revoke all on function public.charge_credits(uuid, int, text, text, text) from public, anon, authenticated;
+revoke all on function public.refund_credits(uuid, int, text, text, text) from public, anon, authenticated;
@@ -0,0 +1,79 @@
+-- Server-side free-tier quotas. Each use of a quota'd feature is a row; the limit is checked
+-- over a rolling window. Admins (and pro users) are not limited.
+alter table public.profiles
+  add column if not exists role text not null default 'free';
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check check (role in ('free', 'pro', 'admin'));
+
+create table if not exists public.feature_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null,
+  feature text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists feature_usage_window_idx on public.feature_usage(user_id, feature, created_at desc);
+
+alter table public.feature_usage enable row level security;
+
+drop policy if exists "feature_usage_select_own" on public.feature_usage;
+create policy "feature_usage_select_own"
+on public.feature_usage for select
+using (auth.uid() = user_id);
+
+-- Records one use if the user is under p_limit uses in the last p_window_seconds.
+-- Returns { allowed, unlimited, used, limit, reset_at }.
+create or replace function public.consume_feature_quota(
+  p_user_id uuid,
+  p_feature text,
+  p_limit int,
+  p_window_seconds int
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_role text;
+  v_used int;
+  v_oldest timestamptz;
+  v_since timestamptz := now() - make_interval(secs => p_window_seconds);
+begin
+  -- Serializes concurrent requests from the same user.
+  select role into v_role from public.profiles where id = p_user_id for update;
+  if not found then
+    v_role := 'free';
+  end if;
+
+  if v_role in ('pro', 'admin') then
+    return json_build_object('allowed', true, 'unlimited', true, 'used', 0, 'limit', null, 'reset_at', null);
+  end if;
+
+  select count(*)::int, min(created_at) into v_used, v_oldest
+  from public.feature_usage
+  where user_id = p_user_id and feature = p_feature and created_at > v_since;
+
+  if v_used >= p_limit then
+    return json_build_object(
+      'allowed', false,
+      'unlimited', false,
+      'used', v_used,
+      'limit', p_limit,
+      'reset_at', v_oldest + make_interval(secs => p_window_seconds)
+    );
+  end if;
+
+  insert into public.feature_usage(user_id, feature) values (p_user_id, p_feature);
+  return json_build_object(
+    'allowed', true,
+    'unlimited', false,
+    'used', v_used + 1,
+    'limit', p_limit,
+    'reset_at', coalesce(v_oldest, now()) + make_interval(secs => p_window_seconds)
+  );
+end;
+$$;
+
+revoke all on function public.consume_feature_quota(uuid, text, int, int) from public, anon, authenticated;
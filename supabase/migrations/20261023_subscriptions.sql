@@ -0,0 +1,49 @@
+-- Monthly subscriptions that top up a credit allowance on each paid invoice.
+create table if not exists public.subscriptions (
+  id text primary key,
+  user_id uuid not null,
+  stripe_customer_id text not null,
+  price_id text,
+  plan text,
+  status text not null,
+  credits_per_period int not null default 0,
+  current_period_end timestamptz,
+  cancel_at_period_end boolean not null default false,
+  canceled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists subscriptions_user_idx on public.subscriptions(user_id, updated_at desc);
+
+drop trigger if exists tr_subscriptions_touch on public.subscriptions;
+create trigger tr_subscriptions_touch
+before update on public.subscriptions
+for each row execute function public.touch_updated_at();
+
+alter table public.subscriptions enable row level security;
+
+drop policy if exists "subscriptions_select_own" on public.subscriptions;
+create policy "subscriptions_select_own"
+on public.subscriptions for select
+using (auth.uid() = user_id);
+
+-- One row per paid invoice, so a redelivered invoice.paid never tops up twice.
+create table if not exists public.subscription_invoices (
+  invoice_id text primary key,
+  subscription_id text not null,
+  user_id uuid not null,
+  credits int not null,
+  amount_paid int,
+  currency text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists subscription_invoices_user_idx on public.subscription_invoices(user_id, created_at desc);
+
+alter table public.subscription_invoices enable row level security;
+
+drop policy if exists "subscription_invoices_select_own" on public.subscription_invoices;
+create policy "subscription_invoices_select_own"
+on public.subscription_invoices for select
+using (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Checkout currency the user last picked on /billing. Null means "from the browser locale".
+alter table public.profiles
+  add column if not exists preferred_currency text;
+
+alter table public.profiles drop constraint if exists profiles_preferred_currency_check;
+alter table public.profiles
+  add constraint profiles_preferred_currency_check check (preferred_currency is null or preferred_currency in ('huf', 'eur'));
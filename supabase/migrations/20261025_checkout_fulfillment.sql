@@ -0,0 +1,57 @@
+-- One fulfillment record per Stripe Checkout session. The webhook, /api/billing/fulfill and
+-- /api/stripe/confirm all go through fulfill_checkout_session, which records the purchase and
+-- credits it in one transaction, so a session is credited at most once whichever path runs first.
+alter table public.credit_purchases add column if not exists source text;
+alter table public.credit_purchases add column if not exists pack text;
+
+-- Sessions fulfilled by the old success-page path only ever landed in billing_fulfillments.
+insert into public.credit_purchases(user_id, stripe_session_id, credits, source, created_at)
+select bf.user_id, bf.stripe_session_id, bf.credits_added, 'billing_fulfill', bf.created_at
+from public.billing_fulfillments bf
+where exists (select 1 from auth.users u where u.id = bf.user_id)
+on conflict (stripe_session_id) do nothing;
+
+create index if not exists credit_purchases_created_idx on public.credit_purchases(created_at desc);
+
+create or replace function public.fulfill_checkout_session(
+  p_session_id text,
+  p_user_id uuid,
+  p_credits int,
+  p_source text,
+  p_amount_total int default null,
+  p_currency text default null,
+  p_pack text default null
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+begin
+  if p_credits is null or p_credits <= 0 then
+    raise exception 'INVALID_CREDITS' using errcode = 'P0001';
+  end if;
+
+  insert into public.credit_purchases(user_id, stripe_session_id, credits, amount_total, currency, source, pack)
+  values (p_user_id, p_session_id, p_credits, p_amount_total, p_currency, p_source, p_pack)
+  on conflict (stripe_session_id) do nothing;
+
+  if not found then
+    return json_build_object('fulfilled', false, 'credits', 0);
+  end if;
+
+  v_balance := public.apply_credit_delta(
+    p_user_id,
+    p_credits,
+    'purchase',
+    'credit_pack',
+    p_session_id,
+    jsonb_build_object('amount_total', p_amount_total, 'currency', p_currency, 'pack', p_pack, 'source', p_source),
+    'checkout:' || p_session_id
+  );
+  return json_build_object('fulfilled', true, 'credits', p_credits, 'balance', v_balance);
+end;
+$$;
+
+revoke all on function public.fulfill_checkout_session(text, uuid, int, text, int, text, text) from public, anon, authenticated;
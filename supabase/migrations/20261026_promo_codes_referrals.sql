@@ -0,0 +1,178 @@
+-- Promo codes and referrals. Both pay out only to profiles holding a phone number no other profile
+-- has (the check grant_starter_credits does), and each phone number can collect a given promo code
+-- or a referral reward once, even across deleted and re-created accounts.
+
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique,
+  credits int not null check (credits > 0),
+  max_redemptions int check (max_redemptions is null or max_redemptions > 0),
+  redeemed_count int not null default 0,
+  expires_at timestamptz,
+  active boolean not null default true,
+  note text,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.promo_redemptions (
+  id bigint generated always as identity primary key,
+  code_id uuid not null references public.promo_codes(id) on delete cascade,
+  user_id uuid not null,
+  phone_normalized text not null,
+  credits int not null,
+  created_at timestamptz not null default now(),
+  unique (code_id, user_id),
+  unique (code_id, phone_normalized)
+);
+
+create index if not exists promo_redemptions_user_idx on public.promo_redemptions(user_id, created_at desc);
+
+alter table public.promo_codes enable row level security;
+alter table public.promo_redemptions enable row level security;
+
+drop policy if exists "promo_redemptions_select_own" on public.promo_redemptions;
+create policy "promo_redemptions_select_own"
+on public.promo_redemptions for select
+using (auth.uid() = user_id);
+
+alter table public.profiles add column if not exists referral_code text;
+create unique index if not exists profiles_referral_code_key on public.profiles(referral_code) where referral_code is not null;
+
+-- One row per invitee. Rewarded once the invitee holds a unique phone number.
+create table if not exists public.referrals (
+  invitee_id uuid primary key,
+  inviter_id uuid not null,
+  status text not null default 'pending' check (status in ('pending', 'rewarded', 'rejected')),
+  reject_reason text,
+  invitee_phone text unique,
+  inviter_credits int not null default 0,
+  invitee_credits int not null default 0,
+  rewarded_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (invitee_id <> inviter_id)
+);
+
+create index if not exists referrals_inviter_idx on public.referrals(inviter_id, created_at desc);
+
+alter table public.referrals enable row level security;
+
+drop policy if exists "referrals_select_own" on public.referrals;
+create policy "referrals_select_own"
+on public.referrals for select
+using (auth.uid() = inviter_id or auth.uid() = invitee_id);
+
+-- Phone the profile may collect rewards with: set, and not held by any other profile.
+-- Raises: PHONE_REQUIRED, PHONE_USED
+create or replace function public.require_unique_phone(p_user_id uuid)
+returns text
+language plpgsql
+security definer
+as $$
+declare
+  v_phone text;
+begin
+  select nullif(trim(phone_normalized), '') into v_phone from public.profiles where id = p_user_id;
+  if v_phone is null then
+    raise exception 'PHONE_REQUIRED' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from public.profiles where phone_normalized = v_phone and id <> p_user_id) then
+    raise exception 'PHONE_USED' using errcode = 'P0001';
+  end if;
+  return v_phone;
+end;
+$$;
+
+-- Raises: PROMO_NOT_FOUND, PROMO_EXPIRED, PROMO_EXHAUSTED, PROMO_ALREADY_REDEEMED, PHONE_REQUIRED, PHONE_USED
+create or replace function public.redeem_promo_code(p_user_id uuid, p_code text)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  c public.promo_codes;
+  v_phone text;
+  v_balance int;
+begin
+  select * into c from public.promo_codes where code = upper(trim(p_code)) for update;
+  if not found or not c.active then
+    raise exception 'PROMO_NOT_FOUND' using errcode = 'P0001';
+  end if;
+  if c.expires_at is not null and c.expires_at <= now() then
+    raise exception 'PROMO_EXPIRED' using errcode = 'P0001';
+  end if;
+  if c.max_redemptions is not null and c.redeemed_count >= c.max_redemptions then
+    raise exception 'PROMO_EXHAUSTED' using errcode = 'P0001';
+  end if;
+
+  perform 1 from public.profiles where id = p_user_id for update;
+  v_phone := public.require_unique_phone(p_user_id);
+
+  if exists (
+    select 1 from public.promo_redemptions
+    where code_id = c.id and (user_id = p_user_id or phone_normalized = v_phone)
+  ) then
+    raise exception 'PROMO_ALREADY_REDEEMED' using errcode = 'P0001';
+  end if;
+
+  insert into public.promo_redemptions(code_id, user_id, phone_normalized, credits)
+  values (c.id, p_user_id, v_phone, c.credits);
+  update public.promo_codes set redeemed_count = redeemed_count + 1 where id = c.id;
+
+  v_balance := public.apply_credit_delta(p_user_id, c.credits, 'grant', 'promo', c.code);
+  return json_build_object('credits', c.credits, 'balance', v_balance);
+end;
+$$;
+
+-- Pays a pending referral to both sides once the invitee's phone is unique; a phone that already
+-- earned a referral (or belongs to the inviter) rejects it for good.
+create or replace function public.reward_referral(p_invitee_id uuid, p_inviter_credits int, p_invitee_credits int)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  r public.referrals;
+  v_phone text;
+  v_inviter_phone text;
+begin
+  select * into r from public.referrals where invitee_id = p_invitee_id for update;
+  if not found or r.status <> 'pending' then
+    return json_build_object('rewarded', false, 'status', coalesce(r.status, 'none'));
+  end if;
+
+  begin
+    v_phone := public.require_unique_phone(p_invitee_id);
+  exception when others then
+    if sqlerrm = 'PHONE_USED' then
+      update public.referrals set status = 'rejected', reject_reason = 'phone_used' where invitee_id = p_invitee_id;
+      return json_build_object('rewarded', false, 'status', 'rejected');
+    end if;
+    -- No phone yet: stays pending until the invitee adds one.
+    return json_build_object('rewarded', false, 'status', 'pending');
+  end;
+
+  select phone_normalized into v_inviter_phone from public.profiles where id = r.inviter_id;
+  if v_inviter_phone = v_phone
+    or exists (select 1 from public.referrals where invitee_phone = v_phone and invitee_id <> p_invitee_id) then
+    update public.referrals set status = 'rejected', reject_reason = 'phone_used' where invitee_id = p_invitee_id;
+    return json_build_object('rewarded', false, 'status', 'rejected');
+  end if;
+
+  update public.referrals
+    set status = 'rewarded',
+        invitee_phone = v_phone,
+        inviter_credits = greatest(0, p_inviter_credits),
+        invitee_credits = greatest(0, p_invitee_credits),
+        rewarded_at = now()
+  where invitee_id = p_invitee_id;
+
+  perform public.apply_credit_delta(r.inviter_id, greatest(0, p_inviter_credits), 'grant', 'referral', p_invitee_id::text);
+  perform public.apply_credit_delta(p_invitee_id, greatest(0, p_invitee_credits), 'grant', 'referral', r.inviter_id::text);
+  return json_build_object('rewarded', true, 'status', 'rewarded');
+end;
+$$;
+
+revoke all on function public.require_unique_phone(uuid) from public, anon, authenticated;
+revoke all on function public.redeem_promo_code(uuid, text) from public, anon, authenticated;
+revoke all on function public.reward_referral(uuid, int, int) from public, anon, authenticated;
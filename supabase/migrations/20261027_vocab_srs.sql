@@ -0,0 +1,76 @@
+-- Spaced repetition for vocab cards. Cards live in vocab_sets.cards (jsonb array of
+-- { id, term, translation, example }); every card gets a stable id so its review state survives
+-- edits and reordering.
+create table if not exists public.vocab_sets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  from_lang text not null,
+  to_lang text not null,
+  cards jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists vocab_sets_user_idx on public.vocab_sets(user_id, created_at desc);
+
+alter table public.vocab_sets enable row level security;
+
+drop policy if exists "vocab_sets_own" on public.vocab_sets;
+create policy "vocab_sets_own"
+on public.vocab_sets for all
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create or replace function public.vocab_cards_assign_ids()
+returns trigger
+language plpgsql
+as $$
+begin
+  if jsonb_typeof(new.cards) = 'array' then
+    new.cards := coalesce(
+      (
+        select jsonb_agg(
+          case when coalesce(c->>'id', '') <> '' then c else c || jsonb_build_object('id', gen_random_uuid()::text) end
+          order by ord
+        )
+        from jsonb_array_elements(new.cards) with ordinality as t(c, ord)
+      ),
+      '[]'::jsonb
+    );
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tr_vocab_cards_ids on public.vocab_sets;
+create trigger tr_vocab_cards_ids
+before insert or update of cards on public.vocab_sets
+for each row execute function public.vocab_cards_assign_ids();
+
+-- Backfill ids on existing sets (the trigger fills them in).
+update public.vocab_sets set cards = cards
+where exists (select 1 from jsonb_array_elements(cards) c where coalesce(c->>'id', '') = '');
+
+-- SM-2 state per card. A card without a row is new.
+create table if not exists public.vocab_reviews (
+  set_id uuid not null references public.vocab_sets(id) on delete cascade,
+  card_id text not null,
+  user_id uuid not null,
+  ease numeric(4, 2) not null default 2.5,
+  interval_days int not null default 0,
+  repetitions int not null default 0,
+  lapses int not null default 0,
+  last_grade text,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (set_id, card_id)
+);
+
+create index if not exists vocab_reviews_due_idx on public.vocab_reviews(user_id, due_at);
+
+alter table public.vocab_reviews enable row level security;
+
+drop policy if exists "vocab_reviews_select_own" on public.vocab_reviews;
+create policy "vocab_reviews_select_own"
+on public.vocab_reviews for select
+using (auth.uid() = user_id);
@@ -0,0 +1,19 @@
+-- Editable vocab sets. Card edits rewrite the whole cards array, so writers compare updated_at
+-- to avoid overwriting a change made in another tab.
+alter table public.vocab_sets add column if not exists updated_at timestamptz not null default now();
+
+create or replace function public.vocab_sets_touch()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists tr_vocab_sets_touch on public.vocab_sets;
+create trigger tr_vocab_sets_touch
+before update of cards, from_lang, to_lang on public.vocab_sets
+for each row execute function public.vocab_sets_touch();
+
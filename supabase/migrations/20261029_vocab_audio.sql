@@ -0,0 +1,23 @@
+-- Pronunciation clips for vocab cards, shared by everyone: one clip per (text, voice, language),
+-- stored in the private "vocab-audio" bucket and served through short-lived signed URLs.
+insert into storage.buckets (id, name, public)
+values ('vocab-audio', 'vocab-audio', false)
+on conflict (id) do nothing;
+
+create table if not exists public.vocab_audio (
+  hash text primary key,
+  lang text not null,
+  voice text not null,
+  text text not null,
+  storage_path text not null,
+  content_type text not null,
+  bytes int not null default 0,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+-- Per-user synthesis cap looks at clips the user caused to be created.
+create index if not exists vocab_audio_created_by_idx on public.vocab_audio(created_by, created_at desc);
+
+-- Server-only: no policies.
+alter table public.vocab_audio enable row level security;
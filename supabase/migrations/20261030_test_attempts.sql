@@ -0,0 +1,53 @@
+-- Practice-test attempts graded on the server. The attempt keeps the questions it was started with
+-- (answer key included) so grading never trusts the client's copy; test_answers holds one row per
+-- question for per-topic analytics.
+create table if not exists public.test_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  plan_id uuid references public.plans(id) on delete set null,
+  topic text,
+  title text not null,
+  language text,
+  questions jsonb not null,
+  correct int,
+  total int,
+  -- Sum of per-question scores over total, 0-1 (partial credit counts).
+  score numeric(5, 4),
+  time_spent_ms int,
+  started_at timestamptz not null default now(),
+  submitted_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists test_attempts_user_idx on public.test_attempts(user_id, created_at desc);
+create index if not exists test_attempts_plan_idx on public.test_attempts(user_id, plan_id, submitted_at desc);
+
+create table if not exists public.test_answers (
+  attempt_id uuid not null references public.test_attempts(id) on delete cascade,
+  question_id text not null,
+  user_id uuid not null,
+  plan_id uuid,
+  topic text,
+  question_type text not null,
+  answer text,
+  correct boolean not null,
+  score numeric(5, 4) not null,
+  time_spent_ms int,
+  created_at timestamptz not null default now(),
+  primary key (attempt_id, question_id)
+);
+
+create index if not exists test_answers_user_topic_idx on public.test_answers(user_id, topic, created_at desc);
+
+alter table public.test_attempts enable row level security;
+alter table public.test_answers enable row level security;
+
+drop policy if exists "test_attempts_select_own" on public.test_attempts;
+create policy "test_attempts_select_own"
+on public.test_attempts for select
+using (auth.uid() = user_id);
+
+drop policy if exists "test_answers_select_own" on public.test_answers;
+create policy "test_answers_select_own"
+on public.test_answers for select
+using (auth.uid() = user_id);
@@ -0,0 +1,5 @@
+-- Short answers are graded with an AI rubric (keyword overlap when that fails): keep how each
+-- answer was scored, the feedback and the key points it missed.
+alter table public.test_answers add column if not exists grading_method text;
+alter table public.test_answers add column if not exists feedback text;
+alter table public.test_answers add column if not exists missing_points jsonb;
@@ -0,0 +1,3 @@
+-- Multi-select, ordering and matching answers are lists, so answers are stored as JSON
+-- (a string for the other question types).
+alter table public.test_answers alter column answer type jsonb using to_jsonb(answer);
@@ -0,0 +1,18 @@
+-- Timed exams: an exam attempt is created with the test (its answer key never reaches the browser)
+-- and starts when the student starts it; submissions are graded against the answers saved before
+-- deadline_at (plus a short grace period).
+alter table public.test_attempts add column if not exists mode text not null default 'practice';
+alter table public.test_attempts add column if not exists duration_minutes int;
+alter table public.test_attempts add column if not exists deadline_at timestamptz;
+alter table public.test_attempts add column if not exists draft_answers jsonb;
+alter table public.test_attempts add column if not exists auto_submitted boolean not null default false;
+alter table public.test_attempts alter column started_at drop not null;
+alter table public.test_attempts alter column started_at drop default;
+
+alter table public.test_attempts drop constraint if exists test_attempts_mode_check;
+alter table public.test_attempts add constraint test_attempts_mode_check check (mode in ('practice', 'exam'));
+
+-- Overdue exams are closed when the student next lists their attempts.
+create index if not exists test_attempts_open_exams_idx
+  on public.test_attempts(user_id, deadline_at)
+  where mode = 'exam' and submitted_at is null;
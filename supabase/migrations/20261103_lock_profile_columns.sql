@@ -0,0 +1,37 @@
+-- Profiles are readable and updatable by their owner with the public key (profiles_update_own), so
+-- the columns that grant access or money are locked to the server: the service role and security
+-- definer functions (which run as their owner) may change them, logged-in users may not.
+create or replace function public.protect_profile_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') then
+    return new;
+  end if;
+
+  if new.id is distinct from old.id
+    or new.role is distinct from old.role
+    or new.credits is distinct from old.credits
+    or new.starter_granted is distinct from old.starter_granted
+    or new.has_received_starter is distinct from old.has_received_starter
+    or new.welcome_bonus_claimed is distinct from old.welcome_bonus_claimed
+    or new.stripe_customer_id is distinct from old.stripe_customer_id
+    or new.stripe_payment_method_id is distinct from old.stripe_payment_method_id
+    or new.auto_recharge is distinct from old.auto_recharge
+    or new.phone_normalized is distinct from old.phone_normalized
+    or new.referral_code is distinct from old.referral_code then
+    raise exception 'PROFILE_COLUMN_LOCKED' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists tr_profiles_protect_columns on public.profiles;
+create trigger tr_profiles_protect_columns
+before update on public.profiles
+for each row execute function public.protect_profile_columns();
+
+-- Rows are created by the signup trigger (handle_new_user) and the server, never by the browser:
+-- an own-row insert could otherwise pick its role and balance.
+drop policy if exists "profiles_insert_own" on public.profiles;
@@ -0,0 +1,63 @@
+-- Quotas limit the free tier only: profiles that have bought credits (a pack, an auto-recharge or
+-- a subscription invoice, all 'purchase' rows in the ledger) are not limited, like pro and admin.
+-- The recorded use is returned as usage_id so a request that fails can give it back.
+create index if not exists credit_ledger_purchase_idx on public.credit_ledger(user_id) where reason = 'purchase';
+
+create or replace function public.consume_feature_quota(
+  p_user_id uuid,
+  p_feature text,
+  p_limit int,
+  p_window_seconds int
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_role text;
+  v_used int;
+  v_oldest timestamptz;
+  v_usage_id bigint;
+  v_since timestamptz := now() - make_interval(secs => p_window_seconds);
+begin
+  -- Serializes concurrent requests from the same user.
+  select role into v_role from public.profiles where id = p_user_id for update;
+  if not found then
+    v_role := 'free';
+  end if;
+
+  if v_role in ('pro', 'admin')
+    or exists (select 1 from public.credit_ledger where user_id = p_user_id and reason = 'purchase') then
+    return json_build_object(
+      'allowed', true, 'unlimited', true, 'used', 0, 'limit', null, 'reset_at', null, 'usage_id', null
+    );
+  end if;
+
+  select count(*)::int, min(created_at) into v_used, v_oldest
+  from public.feature_usage
+  where user_id = p_user_id and feature = p_feature and created_at > v_since;
+
+  if v_used >= p_limit then
+    return json_build_object(
+      'allowed', false,
+      'unlimited', false,
+      'used', v_used,
+      'limit', p_limit,
+      'reset_at', v_oldest + make_interval(secs => p_window_seconds),
+      'usage_id', null
+    );
+  end if;
+
+  insert into public.feature_usage(user_id, feature) values (p_user_id, p_feature) returning id into v_usage_id;
+  return json_build_object(
+    'allowed', true,
+    'unlimited', false,
+    'used', v_used + 1,
+    'limit', p_limit,
+    'reset_at', coalesce(v_oldest, now()) + make_interval(secs => p_window_seconds),
+    'usage_id', v_usage_id
+  );
+end;
+$$;
+
+revoke all on function public.consume_feature_quota(uuid, text, int, int) from public, anon, authenticated;
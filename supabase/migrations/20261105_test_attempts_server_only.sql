@@ -0,0 +1,3 @@
+-- Attempts hold the answer key of tests not yet submitted, so they are read through the server
+-- only (which redacts open attempts); the public key no longer reads them directly.
+drop policy if exists "test_attempts_select_own" on public.test_attempts;
@@ -0,0 +1,87 @@
+-- Promo codes and referrals pay out only to a phone number the user has confirmed with an SMS code
+-- (Supabase Auth sets auth.users.phone_confirmed_at). The number typed at signup is stored on the
+-- profile unverified, so it no longer counts for rewards, on either side of a referral.
+
+-- The user's SMS-confirmed phone as digits, or null.
+create or replace function public.verified_phone(p_user_id uuid)
+returns text
+language sql
+stable
+security definer
+as $$
+  select nullif(regexp_replace(coalesce(phone, ''), '\D', '', 'g'), '')
+  from auth.users
+  where id = p_user_id and phone_confirmed_at is not null;
+$$;
+
+-- Verified phone the profile may collect rewards with: confirmed, and not held by any other profile.
+-- Raises: PHONE_UNVERIFIED, PHONE_USED
+create or replace function public.require_unique_phone(p_user_id uuid)
+returns text
+language plpgsql
+security definer
+as $$
+declare
+  v_phone text;
+begin
+  v_phone := public.verified_phone(p_user_id);
+  if v_phone is null then
+    raise exception 'PHONE_UNVERIFIED' using errcode = 'P0001';
+  end if;
+  if exists (select 1 from public.profiles where phone_normalized = v_phone and id <> p_user_id) then
+    raise exception 'PHONE_USED' using errcode = 'P0001';
+  end if;
+  return v_phone;
+end;
+$$;
+
+-- As in 20261026_promo_codes_referrals.sql, but the invitee's phone is compared with the inviter's
+-- verified phone, not the unverified one on the inviter's profile.
+create or replace function public.reward_referral(p_invitee_id uuid, p_inviter_credits int, p_invitee_credits int)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  r public.referrals;
+  v_phone text;
+begin
+  select * into r from public.referrals where invitee_id = p_invitee_id for update;
+  if not found or r.status <> 'pending' then
+    return json_build_object('rewarded', false, 'status', coalesce(r.status, 'none'));
+  end if;
+
+  begin
+    v_phone := public.require_unique_phone(p_invitee_id);
+  exception when others then
+    if sqlerrm = 'PHONE_USED' then
+      update public.referrals set status = 'rejected', reject_reason = 'phone_used' where invitee_id = p_invitee_id;
+      return json_build_object('rewarded', false, 'status', 'rejected');
+    end if;
+    -- Not verified yet: stays pending until the invitee confirms a phone.
+    return json_build_object('rewarded', false, 'status', 'pending');
+  end;
+
+  if public.verified_phone(r.inviter_id) = v_phone
+    or exists (select 1 from public.referrals where invitee_phone = v_phone and invitee_id <> p_invitee_id) then
+    update public.referrals set status = 'rejected', reject_reason = 'phone_used' where invitee_id = p_invitee_id;
+    return json_build_object('rewarded', false, 'status', 'rejected');
+  end if;
+
+  update public.referrals
+    set status = 'rewarded',
+        invitee_phone = v_phone,
+        inviter_credits = greatest(0, p_inviter_credits),
+        invitee_credits = greatest(0, p_invitee_credits),
+        rewarded_at = now()
+  where invitee_id = p_invitee_id;
+
+  perform public.apply_credit_delta(r.inviter_id, greatest(0, p_inviter_credits), 'grant', 'referral', p_invitee_id::text);
+  perform public.apply_credit_delta(p_invitee_id, greatest(0, p_invitee_credits), 'grant', 'referral', r.inviter_id::text);
+  return json_build_object('rewarded', true, 'status', 'rewarded');
+end;
+$$;
+
+revoke all on function public.verified_phone(uuid) from public, anon, authenticated;
+revoke all on function public.require_unique_phone(uuid) from public, anon, authenticated;
+revoke all on function public.reward_referral(uuid, int, int) from public, anon, authenticated;
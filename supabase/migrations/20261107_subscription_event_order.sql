@@ -0,0 +1,6 @@
+-- Stripe does not deliver subscription events in order. state_at is when the stored state was
+-- current in Stripe (the event's created time, or the time it was fetched from the API); an event
+-- older than that is not written over it.
+alter table public.subscriptions add column if not exists state_at timestamptz;
+
+create index if not exists subscriptions_user_status_idx on public.subscriptions(user_id, status);
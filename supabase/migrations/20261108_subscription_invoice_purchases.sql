@@ -0,0 +1,58 @@
+-- Paid subscription invoices are purchases too: record them in credit_purchases (keyed on the
+-- invoice id) so they show up in the purchase history with a receipt, like packs and auto-recharges.
+
+-- Invoices credited before this migration.
+insert into public.credit_purchases(user_id, stripe_session_id, credits, amount_total, currency, source, pack, created_at)
+select si.user_id, si.invoice_id, si.credits, si.amount_paid, si.currency, 'subscription', s.plan, si.created_at
+from public.subscription_invoices si
+left join public.subscriptions s on s.id = si.subscription_id
+where exists (select 1 from auth.users u where u.id = si.user_id)
+on conflict (stripe_session_id) do nothing;
+
+-- Records the invoice and the purchase and credits the allowance in one transaction, once per invoice.
+create or replace function public.fulfill_subscription_invoice(
+  p_invoice_id text,
+  p_subscription_id text,
+  p_user_id uuid,
+  p_credits int,
+  p_amount_paid int default null,
+  p_currency text default null,
+  p_plan text default null
+)
+returns json
+language plpgsql
+security definer
+as $$
+declare
+  v_balance int;
+begin
+  if p_credits is null or p_credits <= 0 then
+    raise exception 'INVALID_CREDITS' using errcode = 'P0001';
+  end if;
+
+  insert into public.subscription_invoices(invoice_id, subscription_id, user_id, credits, amount_paid, currency)
+  values (p_invoice_id, p_subscription_id, p_user_id, p_credits, p_amount_paid, p_currency)
+  on conflict (invoice_id) do nothing;
+
+  if not found then
+    return json_build_object('fulfilled', false, 'credits', 0);
+  end if;
+
+  insert into public.credit_purchases(user_id, stripe_session_id, credits, amount_total, currency, source, pack)
+  values (p_user_id, p_invoice_id, p_credits, p_amount_paid, p_currency, 'subscription', p_plan)
+  on conflict (stripe_session_id) do nothing;
+
+  v_balance := public.apply_credit_delta(
+    p_user_id,
+    p_credits,
+    'purchase',
+    'subscription',
+    p_invoice_id,
+    jsonb_build_object('subscription_id', p_subscription_id, 'plan', p_plan),
+    'invoice:' || p_invoice_id
+  );
+  return json_build_object('fulfilled', true, 'credits', p_credits, 'balance', v_balance);
+end;
+$$;
+
+revoke all on function public.fulfill_subscription_invoice(text, text, uuid, int, int, text, text) from public, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Closes an attempt and stores its graded answers in one transaction: an answer insert that fails
+-- leaves the attempt open, so the submission can be retried.
+-- Raises: ALREADY_SUBMITTED
+create or replace function public.submit_test_attempt(
+  p_attempt_id uuid,
+  p_user_id uuid,
+  p_correct int,
+  p_total int,
+  p_score numeric,
+  p_time_spent_ms int,
+  p_auto_submitted boolean,
+  p_answers jsonb
+)
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  update public.test_attempts
+    set correct = p_correct,
+        total = p_total,
+        score = p_score,
+        time_spent_ms = p_time_spent_ms,
+        submitted_at = now(),
+        auto_submitted = coalesce(p_auto_submitted, false)
+  where id = p_attempt_id and user_id = p_user_id and submitted_at is null;
+  if not found then
+    raise exception 'ALREADY_SUBMITTED' using errcode = 'P0001';
+  end if;
+
+  insert into public.test_answers(
+    attempt_id, question_id, user_id, plan_id, topic, question_type, answer, correct, score,
+    grading_method, feedback, missing_points, time_spent_ms
+  )
+  select
+    p_attempt_id, a.question_id, p_user_id, a.plan_id, a.topic, a.question_type, a.answer, a.correct, a.score,
+    a.grading_method, a.feedback, a.missing_points, a.time_spent_ms
+  from jsonb_to_recordset(coalesce(p_answers, '[]'::jsonb)) as a(
+    question_id text,
+    plan_id uuid,
+    topic text,
+    question_type text,
+    answer jsonb,
+    correct boolean,
+    score numeric,
+    grading_method text,
+    feedback text,
+    missing_points jsonb,
+    time_spent_ms int
+  );
+end;
+$$;
+
+revoke all on function public.submit_test_attempt(uuid, uuid, int, int, numeric, int, boolean, jsonb) from public, anon, authenticated;